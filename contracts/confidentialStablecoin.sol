@@ -0,0 +1,114 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+
+/// @notice Confidential stablecoin that distributions are paid in. Balances are encrypted
+/// and follow the same ERC-7984 semantics as the share ledger: a transfer larger than the
+/// sender's balance moves an encrypted zero instead of reverting. The owner is the
+/// stablecoin issuer and mints against off-chain reserves.
+contract ConfidentialStablecoin is SepoliaConfig {
+    using FHE for euint64;
+
+    string public constant name = "Confidential USD";
+    string public constant symbol = "cUSD";
+    uint8 public constant decimals = 6;
+
+    address public owner;
+    mapping(address => euint64) private balances;
+    euint64 private totalSupply;
+    mapping(address => mapping(address => uint48)) private operators;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 amount);
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    error NotOwner();
+    error InvalidReceiver();
+    error UnauthorizedSpender();
+    error UnauthorizedAmount();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function mint(address to, externalEuint64 amountInput, bytes calldata inputProof) external onlyOwner {
+        if (to == address(0)) revert InvalidReceiver();
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        totalSupply = totalSupply.add(amount);
+        FHE.allowThis(totalSupply);
+        FHE.allow(totalSupply, owner);
+        _setBalance(to, balances[to].add(amount));
+        FHE.allowThis(amount);
+        FHE.allow(amount, to);
+        emit ConfidentialTransfer(address(0), to, amount);
+    }
+
+    /// @notice Lets `operator` move any of the caller's balance until the `until` timestamp.
+    function setOperator(address operator, uint48 until) external {
+        operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= operators[holder][spender];
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return balances[account];
+    }
+
+    function confidentialTotalSupply() external view returns (euint64) {
+        return totalSupply;
+    }
+
+    function confidentialTransfer(
+        address to,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        transferred = _transfer(msg.sender, to, FHE.fromExternal(amountInput, inputProof));
+    }
+
+    /// @notice Operator transfer of an amount computed on-chain, such as a distribution payout.
+    /// The caller must already be allowed to use `amount`.
+    function operatorTransfer(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender();
+        transferred = _transfer(from, to, amount);
+        FHE.allow(transferred, msg.sender);
+    }
+
+    function _transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidReceiver();
+
+        euint64 fromBalance = balances[from];
+        ebool sufficient = amount.le(fromBalance);
+        transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
+        _setBalance(from, fromBalance.sub(transferred));
+        _setBalance(to, balances[to].add(transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _setBalance(address account, euint64 balance) private {
+        balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,261 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityOrderBook } from "./equityOrderBook.sol";
+
+
+/// @notice Encrypted metrics derived from token valuations: price per share, valuation
+/// implied by the last trade, and the change between successive valuation marks.
+/// Metric viewers can decrypt these without access to the raw valuation or share count.
+///
+/// FHE division only takes a plaintext divisor, so price per share cannot be computed
+/// from the encrypted share count. The issuer submits it instead and the contract checks
+/// homomorphically that it equals valuation / shares rounded down.
+///
+/// Market statistics (total listed valuation and shares, shares traded per volume period)
+/// are summed across all tokens and decrypted publicly through the oracle, but only for periods
+/// that closed with at least `minPublishedListings` tokens listed. The totals are those at the
+/// period's close and periods are published in order, so publications cannot be timed around
+/// a single approval or delisting to isolate one company's figures.
+contract EquityAnalytics is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    struct ValuationMark {
+        euint64 valuation;
+        // Distance from the previous mark, zero for the first mark; `increased` gives the direction
+        euint64 change;
+        ebool increased;
+        uint64 recordedAt;
+    }
+
+    struct PublicationRequest {
+        uint256 period;
+        uint256 listings;
+        bool processed;
+    }
+
+    /// @notice Lowest value `setMinPublishedListings` accepts; one listing would publish a single company.
+    uint256 public constant MIN_PUBLISHED_LISTINGS_FLOOR = 2;
+
+    EquityRegistry public immutable registry;
+    EquityOrderBook public immutable orderBook;
+    mapping(uint256 => euint64) private pricePerShare;
+    mapping(uint256 => ValuationMark[]) private marks;
+    mapping(uint256 => address[]) private viewers;
+    mapping(uint256 => mapping(address => bool)) public isMetricsViewer;
+    uint256 public minPublishedListings;
+    mapping(uint256 => bool) public periodPublished;
+    // Earliest period that may still be published; earlier ones were published or passed over
+    uint256 public nextPeriod;
+    mapping(uint256 => PublicationRequest) public publicationRequests;
+
+    event PricePerShareSubmitted(uint256 indexed tokenId, euint64 pricePerShare);
+    event ValuationMarked(
+        uint256 indexed tokenId,
+        uint256 indexed markIndex,
+        euint64 valuation,
+        euint64 change,
+        ebool increased
+    );
+    event MetricsViewerAdded(uint256 indexed tokenId, address indexed viewer);
+    event MinPublishedListingsUpdated(uint256 previousMinimum, uint256 newMinimum);
+    event MarketStatsRequested(uint256 indexed requestId, uint256 indexed period, uint256 listings);
+    event MarketStatsPublished(
+        uint256 indexed requestId,
+        uint256 indexed period,
+        uint256 listings,
+        uint64 totalValuation,
+        uint64 totalShares,
+        uint64 tradedShares
+    );
+
+    error NotTokenIssuer();
+    error NotIssuerOrViewer();
+    error ViewerNotQualified();
+    error NoTrades();
+    error NotOwner();
+    error TooFewListings();
+    error InvalidPeriod();
+    error AlreadyPublished();
+    error PeriodOutOfOrder();
+    error MinimumTooLow();
+    error UnknownRequest();
+    error ReplayAttempt();
+
+    modifier onlyIssuer(uint256 tokenId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        _;
+    }
+
+    modifier onlyIssuerOrViewer(uint256 tokenId) {
+        if (registry.issuerOf(tokenId) != msg.sender && !isMetricsViewer[tokenId][msg.sender]) {
+            revert NotIssuerOrViewer();
+        }
+        _;
+    }
+
+    constructor(EquityRegistry registry_, EquityOrderBook orderBook_) {
+        registry = registry_;
+        orderBook = orderBook_;
+        minPublishedListings = 3;
+    }
+
+    /// @notice Sets how many tokens must be listed before market statistics are published.
+    /// Only the registry owner may change it, and never below MIN_PUBLISHED_LISTINGS_FLOOR.
+    function setMinPublishedListings(uint256 newMinimum) external {
+        if (msg.sender != registry.owner()) revert NotOwner();
+        if (newMinimum < MIN_PUBLISHED_LISTINGS_FLOOR) revert MinimumTooLow();
+        emit MinPublishedListingsUpdated(minPublishedListings, newMinimum);
+        minPublishedListings = newMinimum;
+    }
+
+    /// @notice Records the token's price per share. A price that is not valuation / shares
+    /// rounded down is stored as an encrypted zero, so a wrong figure is never published.
+    function submitPricePerShare(
+        uint256 tokenId,
+        externalEuint64 priceInput,
+        bytes calldata inputProof
+    ) external onlyIssuer(tokenId) {
+        euint64 price = FHE.fromExternal(priceInput, inputProof);
+        (euint64 valuation, euint64 shares) = registry.analyticsInputs(tokenId);
+
+        // price * shares <= valuation < (price + 1) * shares, widened so the products cannot wrap
+        euint128 wideShares = FHE.asEuint128(shares);
+        euint128 floor = FHE.asEuint128(price).mul(wideShares);
+        euint128 wideValuation = FHE.asEuint128(valuation);
+        ebool exact = FHE.and(floor.le(wideValuation), wideValuation.lt(floor.add(wideShares)));
+
+        euint64 verified = FHE.select(exact, price, FHE.asEuint64(0));
+        pricePerShare[tokenId] = verified;
+        _grantMetric(tokenId, verified);
+        emit PricePerShareSubmitted(tokenId, verified);
+    }
+
+    /// @notice Appends a mark at the valuation implied by the last trade price times the
+    /// share count. Changes are only measured between marks, so neither the issuance
+    /// valuation nor the share count can be worked out from them. Until one of the token's
+    /// matches has filled, marks value the token at zero and record no change.
+    function markToLastTrade(uint256 tokenId) external onlyIssuerOrViewer(tokenId) {
+        (euint64 lastPrice, ebool traded) = orderBook.lastTradeFor(tokenId);
+        if (!FHE.isInitialized(lastPrice)) revert NoTrades();
+        (, euint64 shares) = registry.analyticsInputs(tokenId);
+
+        ValuationMark[] storage tokenMarks = marks[tokenId];
+        euint64 valuation = _saturatingMul(lastPrice, shares);
+        euint64 previous = tokenMarks.length == 0 ? valuation : tokenMarks[tokenMarks.length - 1].valuation;
+        ebool increased = valuation.ge(previous);
+        euint64 change = FHE.select(
+            traded,
+            FHE.select(increased, valuation.sub(previous), previous.sub(valuation)),
+            FHE.asEuint64(0)
+        );
+
+        tokenMarks.push(
+            ValuationMark({ valuation: valuation, change: change, increased: increased, recordedAt: uint64(block.timestamp) })
+        );
+        _grantMetric(tokenId, valuation);
+        _grantMetric(tokenId, change);
+        _grantMetric(tokenId, increased);
+        emit ValuationMarked(tokenId, tokenMarks.length - 1, valuation, change, increased);
+    }
+
+    /// @notice Lets `viewer` decrypt every current and future metric of the token.
+    function addMetricsViewer(uint256 tokenId, address viewer) external onlyIssuer(tokenId) {
+        if (!registry.isQualified(viewer)) revert ViewerNotQualified();
+        if (isMetricsViewer[tokenId][viewer]) return;
+        isMetricsViewer[tokenId][viewer] = true;
+        viewers[tokenId].push(viewer);
+
+        if (FHE.isInitialized(pricePerShare[tokenId])) FHE.allow(pricePerShare[tokenId], viewer);
+        ValuationMark[] storage tokenMarks = marks[tokenId];
+        for (uint256 i = 0; i < tokenMarks.length; i++) {
+            FHE.allow(tokenMarks[i].valuation, viewer);
+            FHE.allow(tokenMarks[i].change, viewer);
+            FHE.allow(tokenMarks[i].increased, viewer);
+        }
+        emit MetricsViewerAdded(tokenId, viewer);
+    }
+
+    /// @notice Asks the oracle to publish the listed totals at the close of `period`, which must
+    /// have ended, together with the shares traded in it. Each period is published once, and
+    /// never after a later one; periods skipped over can no longer be published.
+    function requestMarketStats(uint256 period) external returns (uint256 requestId) {
+        uint256 periodLength = orderBook.VOLUME_PERIOD();
+        if (period >= block.timestamp / periodLength) revert InvalidPeriod();
+        if (periodPublished[period]) revert AlreadyPublished();
+        if (period < nextPeriod) revert PeriodOutOfOrder();
+        (uint256 listings, euint64 valuation, euint64 shares) = registry.marketInputs((period + 1) * periodLength);
+        if (listings == 0 || listings < minPublishedListings) revert TooFewListings();
+
+        euint64 volume = orderBook.periodVolumeFor(period);
+        if (!FHE.isInitialized(volume)) volume = FHE.asEuint64(0);
+
+        bytes32[] memory cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(valuation);
+        cts[1] = FHE.toBytes32(shares);
+        cts[2] = FHE.toBytes32(volume);
+        requestId = FHE.requestDecryption(cts, this.publishMarketStats.selector);
+
+        periodPublished[period] = true;
+        nextPeriod = period + 1;
+        publicationRequests[requestId] = PublicationRequest(period, listings, false);
+        emit MarketStatsRequested(requestId, period, listings);
+    }
+
+    /// @notice Oracle callback; the KMS signatures tie the cleartexts to the requested handles.
+    function publishMarketStats(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        PublicationRequest storage request = publicationRequests[requestId];
+        if (request.listings == 0) revert UnknownRequest();
+        if (request.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        (uint64 totalValuation, uint64 totalShares, uint64 tradedShares) = abi.decode(
+            cleartexts,
+            (uint64, uint64, uint64)
+        );
+
+        request.processed = true;
+        emit MarketStatsPublished(requestId, request.period, request.listings, totalValuation, totalShares, tradedShares);
+    }
+
+    function getPricePerShare(uint256 tokenId) external view returns (euint64) {
+        return pricePerShare[tokenId];
+    }
+
+    function getValuationMarks(uint256 tokenId) external view returns (ValuationMark[] memory) {
+        return marks[tokenId];
+    }
+
+    function getMetricsViewers(uint256 tokenId) external view returns (address[] memory) {
+        return viewers[tokenId];
+    }
+
+    /// @dev Multiplies in 128 bits and caps at the euint64 maximum instead of wrapping.
+    function _saturatingMul(euint64 a, euint64 b) private returns (euint64) {
+        euint128 product = FHE.asEuint128(a).mul(FHE.asEuint128(b));
+        euint128 cap = FHE.asEuint128(type(uint64).max);
+        return FHE.asEuint64(FHE.select(product.gt(cap), cap, product));
+    }
+
+    /// @dev Metrics are readable by the contract, the issuer and every metrics viewer.
+    function _grantMetric(uint256 tokenId, euint64 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, registry.issuerOf(tokenId));
+        address[] storage tokenViewers = viewers[tokenId];
+        for (uint256 i = 0; i < tokenViewers.length; i++) {
+            FHE.allow(value, tokenViewers[i]);
+        }
+    }
+
+    function _grantMetric(uint256 tokenId, ebool value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, registry.issuerOf(tokenId));
+        address[] storage tokenViewers = viewers[tokenId];
+        for (uint256 i = 0; i < tokenViewers.length; i++) {
+            FHE.allow(value, tokenViewers[i]);
+        }
+    }
+}
@@ -0,0 +1,418 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityShareLedger } from "./equityShareLedger.sol";
+import { ConfidentialStablecoin } from "./confidentialStablecoin.sol";
+
+
+/// @notice Sealed-bid, uniform clearing price auctions for primary issuance. Bidders submit
+/// encrypted price and quantity pairs, prices in confidential stablecoin base units per
+/// share; after the deadline the clearing price is found with FHE comparisons and published
+/// through the oracle, and every bidder can decrypt only their own allocation.
+///
+/// A bid escrows its price times its quantity in confidential stablecoin, so bidding needs
+/// the bidder to have made this contract their stablecoin operator. Whether a bid escrowed
+/// anything is published through the oracle, and a bid that escrowed nothing is dropped,
+/// freeing its place for another bidder, unless clearing has already begun.
+///
+/// The clearing price is the highest bid price at which demand covers the shares offered,
+/// or the lowest bid price when the auction is undersubscribed. Bids above it are filled
+/// in full and bids at it share what is left in bidding order. Clearing compares every bid
+/// with every other, so it runs over as many clearAuction calls as the coprocessor's
+/// per-transaction compute limits need, CLEARING_BATCH bid comparisons at a time.
+///
+/// Claiming delivers an allocation against payment at the clearing price out of the escrow:
+/// the payment goes to the issuer, the issuer's shares to the bidder and the rest of the
+/// escrow back to the bidder, so claiming needs the issuer to have made this contract their
+/// share ledger operator.
+contract EquityAuction is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    uint256 public constant MAX_BIDS = 16;
+    /// @notice Work done by one clearAuction call, in encrypted comparisons of one bid with
+    /// another. Trying a price costs one per bid, splitting the supply once the price is known
+    /// two per bid, and allocating ALLOCATION_STEPS per bid.
+    uint256 public constant CLEARING_BATCH = 44;
+    uint256 private constant ALLOCATION_STEPS = 5;
+
+    enum AuctionState {
+        Bidding,
+        Clearing,
+        Settled,
+        Cancelled
+    }
+
+    struct Auction {
+        uint256 id;
+        uint256 tokenId;
+        address issuer;
+        uint64 sharesOffered;
+        uint64 deadline;
+        AuctionState state;
+        euint64 encryptedClearingPrice;
+        // Published by the oracle once the auction settles
+        uint64 clearingPrice;
+    }
+
+    struct Bid {
+        address bidder;
+        euint64 price;
+        euint64 quantity;
+        euint64 escrow;
+        euint64 allocation;
+        bool claimed;
+    }
+
+    /// @dev Progress of clearing an auction over several transactions.
+    struct Clearing {
+        // Bids whose price has been tried as the clearing price
+        uint256 priced;
+        uint256 allocated;
+        // Highest tried price whose demand covers the supply; the clearing price once the supply is split
+        euint64 price;
+        ebool anyCovers;
+        euint64 lowest;
+        // Supply left for bids at the clearing price; set once every price has been tried
+        euint64 remaining;
+    }
+
+    struct DecryptionContext {
+        uint256 auctionId;
+        bool processed;
+    }
+
+    struct FundingCheck {
+        uint256 auctionId;
+        address bidder;
+        bool processed;
+    }
+
+    EquityRegistry public immutable registry;
+    ConfidentialStablecoin public immutable stablecoin;
+    uint256 public auctionCount;
+    mapping(uint256 => Auction) private auctions;
+    mapping(uint256 => uint256[]) private tokenAuctions;
+    mapping(uint256 => Bid[]) private bids;
+    // Bid index + 1, so zero means no bid
+    mapping(uint256 => mapping(address => uint256)) private bidIndex;
+    mapping(uint256 => Clearing) private clearings;
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => FundingCheck) public fundingChecks;
+
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint64 sharesOffered,
+        uint64 deadline
+    );
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, euint64 price, euint64 quantity);
+    event BidDropped(uint256 indexed auctionId, address indexed bidder);
+    event ClearingProgress(uint256 indexed auctionId, uint256 priced, uint256 allocated);
+    event AuctionClearing(uint256 indexed auctionId, uint256 indexed requestId);
+    event AuctionCleared(uint256 indexed auctionId, uint64 clearingPrice);
+    event AuctionCancelled(uint256 indexed auctionId);
+    event AllocationClaimed(uint256 indexed auctionId, address indexed bidder, euint64 shares);
+
+    error NotTokenIssuer();
+    error NotListed();
+    error NoShareLedger();
+    error NotQualified();
+    error InvalidDeadline();
+    error NoSharesOffered();
+    error UnknownAuction();
+    error BiddingClosed();
+    error BiddingOpen();
+    error AlreadyBid();
+    error TooManyBids();
+    error NotSettled();
+    error NoBid();
+    error AlreadyClaimed();
+    error UnknownRequest();
+    error ReplayAttempt();
+
+    modifier auctionExists(uint256 auctionId) {
+        if (auctionId == 0 || auctionId > auctionCount) revert UnknownAuction();
+        _;
+    }
+
+    constructor(EquityRegistry registry_, ConfidentialStablecoin stablecoin_) {
+        registry = registry_;
+        stablecoin = stablecoin_;
+    }
+
+    /// @notice Offers `sharesOffered` shares of an approved or trading token until `deadline`.
+    function createAuction(uint256 tokenId, uint64 sharesOffered, uint64 deadline) external returns (uint256 auctionId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        EquityRegistry.Status status = registry.tokenStatus(tokenId);
+        if (status != EquityRegistry.Status.Approved && status != EquityRegistry.Status.Trading) revert NotListed();
+        if (sharesOffered == 0) revert NoSharesOffered();
+        if (deadline <= block.timestamp) revert InvalidDeadline();
+
+        auctionId = ++auctionCount;
+        Auction storage auction = auctions[auctionId];
+        auction.id = auctionId;
+        auction.tokenId = tokenId;
+        auction.issuer = msg.sender;
+        auction.sharesOffered = sharesOffered;
+        auction.deadline = deadline;
+        tokenAuctions[tokenId].push(auctionId);
+        emit AuctionCreated(auctionId, tokenId, msg.sender, sharesOffered, deadline);
+    }
+
+    /// @notice Places the caller's sealed bid: the highest price per share they will pay
+    /// and the number of shares they want. Each bidder bids once, escrowing price * quantity;
+    /// a bid that cannot escrow all of it, or that would escrow nothing, keeps no quantity
+    /// and is dropped once the oracle reports it.
+    function placeBid(
+        uint256 auctionId,
+        externalEuint64 priceInput,
+        externalEuint64 quantityInput,
+        bytes calldata inputProof
+    ) external auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.state != AuctionState.Bidding || block.timestamp >= auction.deadline) revert BiddingClosed();
+        if (!registry.isQualified(msg.sender)) revert NotQualified();
+        if (bidIndex[auctionId][msg.sender] != 0) revert AlreadyBid();
+        if (bids[auctionId].length >= MAX_BIDS) revert TooManyBids();
+
+        euint64 price = FHE.fromExternal(priceInput, inputProof);
+        // Nobody can be allocated more than the offer, and capping keeps the demand sums small
+        euint64 quantity = FHE.fromExternal(quantityInput, inputProof).min(auction.sharesOffered);
+
+        // A cost past 64 bits exceeds any balance, so it escrows nothing. Transfers move all
+        // of the cost or nothing, so any escrow at all means the bid is paid for in full.
+        euint128 wideCost = FHE.asEuint128(price).mul(FHE.asEuint128(quantity));
+        euint64 cost = FHE.select(
+            wideCost.le(uint128(type(uint64).max)),
+            FHE.asEuint64(wideCost),
+            FHE.asEuint64(0)
+        );
+        FHE.allowTransient(cost, address(stablecoin));
+        euint64 escrow = stablecoin.operatorTransfer(msg.sender, address(this), cost);
+        ebool funded = escrow.gt(0);
+        quantity = FHE.select(funded, quantity, FHE.asEuint64(0));
+        FHE.allowThis(escrow);
+        FHE.allowThis(price);
+        FHE.allow(price, msg.sender);
+        FHE.allowThis(quantity);
+        FHE.allow(quantity, msg.sender);
+
+        bids[auctionId].push(
+            Bid({
+                bidder: msg.sender,
+                price: price,
+                quantity: quantity,
+                escrow: escrow,
+                allocation: euint64.wrap(0),
+                claimed: false
+            })
+        );
+        bidIndex[auctionId][msg.sender] = bids[auctionId].length;
+        emit BidPlaced(auctionId, msg.sender, price, quantity);
+
+        FHE.allowThis(funded);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(funded);
+        uint256 requestId = FHE.requestDecryption(cts, this.checkBidFunding.selector);
+        fundingChecks[requestId] = FundingCheck(auctionId, msg.sender, false);
+    }
+
+    /// @notice Oracle callback for placeBid. Drops a bid that escrowed nothing, so its bidder
+    /// may bid again, unless clearing has already begun; such a bid then simply fills nothing.
+    function checkBidFunding(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        FundingCheck storage check = fundingChecks[requestId];
+        if (check.auctionId == 0) revert UnknownRequest();
+        if (check.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        bool funded = abi.decode(cleartexts, (bool));
+
+        check.processed = true;
+        uint256 auctionId = check.auctionId;
+        if (funded || auctions[auctionId].state != AuctionState.Bidding || clearings[auctionId].priced != 0) return;
+
+        // Shift later bids down so the margin is still shared in bidding order
+        Bid[] storage auctionBids = bids[auctionId];
+        for (uint256 i = bidIndex[auctionId][check.bidder]; i < auctionBids.length; i++) {
+            auctionBids[i - 1] = auctionBids[i];
+            bidIndex[auctionId][auctionBids[i - 1].bidder] = i;
+        }
+        auctionBids.pop();
+        delete bidIndex[auctionId][check.bidder];
+        emit BidDropped(auctionId, check.bidder);
+    }
+
+    /// @notice Computes the encrypted clearing price and allocations after the deadline, up to
+    /// CLEARING_BATCH comparisons per call, and once done asks the oracle to publish the price.
+    /// Anyone may call it until the auction is clearing; an auction without bids is cancelled.
+    function clearAuction(uint256 auctionId) external auctionExists(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.state != AuctionState.Bidding) revert BiddingClosed();
+        if (block.timestamp < auction.deadline) revert BiddingOpen();
+
+        Bid[] storage auctionBids = bids[auctionId];
+        uint256 count = auctionBids.length;
+        if (count == 0) {
+            auction.state = AuctionState.Cancelled;
+            emit AuctionCancelled(auctionId);
+            return;
+        }
+
+        // Every step fits in a fresh batch, since even splitting the supply of a full auction
+        // costs less than CLEARING_BATCH
+        Clearing storage clearing = clearings[auctionId];
+        uint256 budget = CLEARING_BATCH;
+        while (clearing.priced < count && budget >= count) {
+            _tryPrice(clearing, auctionBids, auction.sharesOffered);
+            budget -= count;
+        }
+        if (clearing.priced == count && !FHE.isInitialized(clearing.remaining) && budget >= 2 * count) {
+            _splitSupply(clearing, auctionBids, auction.sharesOffered);
+            budget -= 2 * count;
+        }
+        while (FHE.isInitialized(clearing.remaining) && clearing.allocated < count && budget >= ALLOCATION_STEPS) {
+            _allocate(clearing, auctionBids[clearing.allocated]);
+            budget -= ALLOCATION_STEPS;
+        }
+        if (clearing.allocated < count) {
+            emit ClearingProgress(auctionId, clearing.priced, clearing.allocated);
+            return;
+        }
+
+        euint64 clearingPrice = clearing.price;
+        auction.encryptedClearingPrice = clearingPrice;
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(clearingPrice);
+        uint256 requestId = FHE.requestDecryption(cts, this.settleAuction.selector);
+
+        auction.state = AuctionState.Clearing;
+        decryptionContexts[requestId] = DecryptionContext(auctionId, false);
+        emit AuctionClearing(auctionId, requestId);
+    }
+
+    /// @notice Oracle callback for clearAuction.
+    function settleAuction(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.auctionId == 0) revert UnknownRequest();
+        if (context.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        uint64 clearingPrice = abi.decode(cleartexts, (uint64));
+
+        context.processed = true;
+        Auction storage auction = auctions[context.auctionId];
+        auction.state = AuctionState.Settled;
+        auction.clearingPrice = clearingPrice;
+        emit AuctionCleared(context.auctionId, clearingPrice);
+    }
+
+    /// @notice Pays for the caller's allocation at the clearing price out of the bid's escrow
+    /// and moves the shares from the issuer; the rest of the escrow is refunded, all of it if
+    /// the issuer's shares cannot cover the allocation.
+    function claimAllocation(uint256 auctionId) external auctionExists(auctionId) returns (euint64 shares) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.state != AuctionState.Settled) revert NotSettled();
+        uint256 index = bidIndex[auctionId][msg.sender];
+        if (index == 0) revert NoBid();
+        Bid storage bid = bids[auctionId][index - 1];
+        if (bid.claimed) revert AlreadyClaimed();
+        bid.claimed = true;
+
+        EquityShareLedger ledger = EquityShareLedger(address(registry.shareLedger()));
+        if (address(ledger) == address(0)) revert NoShareLedger();
+
+        FHE.allowTransient(bid.allocation, address(ledger));
+        shares = ledger.operatorTransfer(auction.tokenId, auction.issuer, msg.sender, bid.allocation);
+        FHE.allow(shares, auction.issuer);
+
+        // A transfer moves all of the allocation or nothing. Only bids at or above the clearing
+        // price are allocated, so the payment never exceeds the escrow or wraps.
+        euint64 payment = FHE.select(
+            shares.eq(bid.allocation),
+            bid.allocation.mul(auction.clearingPrice),
+            FHE.asEuint64(0)
+        );
+        FHE.allowTransient(payment, address(stablecoin));
+        stablecoin.operatorTransfer(address(this), auction.issuer, payment);
+        euint64 refund = bid.escrow.sub(payment);
+        FHE.allowTransient(refund, address(stablecoin));
+        stablecoin.operatorTransfer(address(this), msg.sender, refund);
+        emit AllocationClaimed(auctionId, msg.sender, shares);
+    }
+
+    function getAuction(uint256 auctionId) external view auctionExists(auctionId) returns (Auction memory) {
+        return auctions[auctionId];
+    }
+
+    function getTokenAuctions(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenAuctions[tokenId];
+    }
+
+    function getBid(uint256 auctionId, address bidder) external view returns (Bid memory bid) {
+        uint256 index = bidIndex[auctionId][bidder];
+        if (index != 0) bid = bids[auctionId][index - 1];
+    }
+
+    function getBidCount(uint256 auctionId) external view returns (uint256) {
+        return bids[auctionId].length;
+    }
+
+    /// @dev Tries the next bid's price as the clearing price: it replaces the best so far if
+    /// demand at it (shares bid at or above it) covers the supply and it is higher.
+    function _tryPrice(Clearing storage clearing, Bid[] storage auctionBids, uint64 supply) private {
+        euint64 candidate = auctionBids[clearing.priced].price;
+        euint64 demand = FHE.asEuint64(0);
+        for (uint256 i = 0; i < auctionBids.length; i++) {
+            demand = demand.add(FHE.select(auctionBids[i].price.ge(candidate), auctionBids[i].quantity, FHE.asEuint64(0)));
+        }
+        ebool covers = demand.ge(supply);
+
+        if (clearing.priced == 0) {
+            clearing.price = FHE.select(covers, candidate, FHE.asEuint64(0));
+            clearing.anyCovers = covers;
+            clearing.lowest = candidate;
+        } else {
+            clearing.price = FHE.select(FHE.and(covers, candidate.gt(clearing.price)), candidate, clearing.price);
+            clearing.anyCovers = FHE.or(clearing.anyCovers, covers);
+            clearing.lowest = clearing.lowest.min(candidate);
+        }
+        FHE.allowThis(clearing.price);
+        FHE.allowThis(clearing.anyCovers);
+        FHE.allowThis(clearing.lowest);
+        clearing.priced++;
+    }
+
+    /// @dev Settles on the highest covered price, falling back to the lowest bid price when
+    /// none covers, and sets aside the supply that bids above it take in full.
+    function _splitSupply(Clearing storage clearing, Bid[] storage auctionBids, uint64 supply) private {
+        euint64 clearingPrice = FHE.select(clearing.anyCovers, clearing.price, clearing.lowest);
+        euint64 above = FHE.asEuint64(0);
+        for (uint256 i = 0; i < auctionBids.length; i++) {
+            above = above.add(FHE.select(auctionBids[i].price.gt(clearingPrice), auctionBids[i].quantity, FHE.asEuint64(0)));
+        }
+        clearing.price = clearingPrice;
+        // Demand strictly above the clearing price never covers the supply, so this cannot wrap
+        clearing.remaining = FHE.asEuint64(supply).sub(above);
+        FHE.allowThis(clearing.price);
+        FHE.allowThis(clearing.remaining);
+    }
+
+    /// @dev Fills a bid above the clearing price in full and a bid at it from whatever supply
+    /// remains, in bidding order. Bids below it get nothing.
+    function _allocate(Clearing storage clearing, Bid storage bid) private {
+        ebool atPrice = bid.price.eq(clearing.price);
+        euint64 marginal = FHE.select(atPrice, bid.quantity.min(clearing.remaining), FHE.asEuint64(0));
+        clearing.remaining = clearing.remaining.sub(marginal);
+        FHE.allowThis(clearing.remaining);
+        euint64 allocation = FHE.select(bid.price.gt(clearing.price), bid.quantity, marginal);
+
+        bid.allocation = allocation;
+        FHE.allowThis(allocation);
+        FHE.allow(allocation, bid.bidder);
+        clearing.allocated++;
+    }
+}
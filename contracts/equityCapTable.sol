@@ -0,0 +1,272 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+
+
+/// @notice Encrypted capitalization table for registry tokens, kept by each token's issuer.
+/// Holdings, class totals, the option pool and the fully diluted count are all encrypted.
+/// The issuer can read everything, holders read their own rows, and cap table viewers
+/// read the aggregates only, as of the checkpoints the issuer publishes. Each update names
+/// the holder, so aggregates readable after every update would give away that holder's row
+/// as the difference between two totals.
+contract EquityCapTable is SepoliaConfig {
+    using FHE for euint64;
+
+    enum ClassKind {
+        Common,
+        Preferred
+    }
+
+    struct ShareClass {
+        uint256 id;
+        string name;
+        ClassKind kind;
+        euint64 issued;
+    }
+
+    struct Holding {
+        uint256 classId;
+        address holder;
+        euint64 shares;
+    }
+
+    struct OptionGrant {
+        address holder;
+        euint64 options;
+    }
+
+    struct Totals {
+        euint64 issued;
+        euint64 optionPool;
+        euint64 optionsGranted;
+        // issued + optionPool; granted options are part of the pool
+        euint64 fullyDiluted;
+    }
+
+    /// Class and token totals as the issuer published them for viewers
+    struct Checkpoint {
+        uint64 publishedAt;
+        // Indexed by class id; classes added since the checkpoint are missing
+        euint64[] classIssued;
+        Totals totals;
+    }
+
+    EquityRegistry public immutable registry;
+    mapping(uint256 => ShareClass[]) private classes;
+    mapping(uint256 => Holding[]) private holdings;
+    mapping(uint256 => mapping(uint256 => mapping(address => uint256))) private holdingIndex;
+    mapping(uint256 => OptionGrant[]) private optionGrants;
+    mapping(uint256 => mapping(address => uint256)) private optionGrantIndex;
+    mapping(uint256 => Totals) private totals;
+    mapping(uint256 => Checkpoint) private checkpoints;
+    mapping(uint256 => address[]) private viewers;
+    mapping(uint256 => mapping(address => bool)) public isViewer;
+
+    event ShareClassAdded(uint256 indexed tokenId, uint256 indexed classId, string name, ClassKind kind);
+    event HoldingRecorded(uint256 indexed tokenId, uint256 indexed classId, address indexed holder, euint64 shares);
+    event OptionPoolSet(uint256 indexed tokenId, euint64 optionPool);
+    event OptionsGranted(uint256 indexed tokenId, address indexed holder, euint64 totalOptions);
+    event ViewerAdded(uint256 indexed tokenId, address indexed viewer);
+    event CheckpointPublished(uint256 indexed tokenId, uint64 publishedAt);
+
+    error NotTokenIssuer();
+    error UnknownClass();
+    error InvalidHolder();
+    error EmptyClassName();
+    error ViewerNotQualified();
+
+    modifier onlyIssuer(uint256 tokenId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        _;
+    }
+
+    modifier classExists(uint256 tokenId, uint256 classId) {
+        if (classId >= classes[tokenId].length) revert UnknownClass();
+        _;
+    }
+
+    constructor(EquityRegistry registry_) {
+        registry = registry_;
+    }
+
+    function addShareClass(
+        uint256 tokenId,
+        string calldata name,
+        ClassKind kind
+    ) external onlyIssuer(tokenId) returns (uint256 classId) {
+        if (bytes(name).length == 0) revert EmptyClassName();
+        classId = classes[tokenId].length;
+        euint64 issued = FHE.asEuint64(0);
+        classes[tokenId].push(ShareClass({ id: classId, name: name, kind: kind, issued: issued }));
+        _grantAggregate(tokenId, issued);
+        emit ShareClassAdded(tokenId, classId, name, kind);
+    }
+
+    /// @notice Sets `holder`'s position in a share class, replacing any earlier figure.
+    /// Class and token totals are adjusted by the difference without decrypting either.
+    function recordHolding(
+        uint256 tokenId,
+        uint256 classId,
+        address holder,
+        externalEuint64 sharesInput,
+        bytes calldata inputProof
+    ) external onlyIssuer(tokenId) classExists(tokenId, classId) {
+        if (holder == address(0)) revert InvalidHolder();
+        euint64 shares = FHE.fromExternal(sharesInput, inputProof);
+
+        uint256 index = holdingIndex[tokenId][classId][holder];
+        euint64 previous;
+        if (index == 0) {
+            holdings[tokenId].push(Holding({ classId: classId, holder: holder, shares: shares }));
+            holdingIndex[tokenId][classId][holder] = holdings[tokenId].length;
+        } else {
+            previous = holdings[tokenId][index - 1].shares;
+            holdings[tokenId][index - 1].shares = shares;
+        }
+        FHE.allowThis(shares);
+        FHE.allow(shares, msg.sender);
+        FHE.allow(shares, holder);
+
+        ShareClass storage shareClass = classes[tokenId][classId];
+        // An uninitialized `previous` counts as zero
+        shareClass.issued = shareClass.issued.sub(previous).add(shares);
+        _grantAggregate(tokenId, shareClass.issued);
+
+        Totals storage t = totals[tokenId];
+        t.issued = t.issued.sub(previous).add(shares);
+        _grantAggregate(tokenId, t.issued);
+        _updateFullyDiluted(tokenId);
+
+        emit HoldingRecorded(tokenId, classId, holder, shares);
+    }
+
+    /// @notice Resizes the option pool. A pool smaller than the options already granted
+    /// is raised to the granted amount, so grants never exceed the pool.
+    function setOptionPool(
+        uint256 tokenId,
+        externalEuint64 poolInput,
+        bytes calldata inputProof
+    ) external onlyIssuer(tokenId) {
+        euint64 requested = FHE.fromExternal(poolInput, inputProof);
+        Totals storage t = totals[tokenId];
+        t.optionPool = requested.max(t.optionsGranted);
+        _grantAggregate(tokenId, t.optionPool);
+        _updateFullyDiluted(tokenId);
+        emit OptionPoolSet(tokenId, t.optionPool);
+    }
+
+    /// @notice Grants options out of the unallocated pool. A grant larger than what is
+    /// left grants an encrypted zero instead of reverting. The event carries the
+    /// holder's option total after the grant.
+    function grantOptions(
+        uint256 tokenId,
+        address holder,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external onlyIssuer(tokenId) {
+        if (holder == address(0)) revert InvalidHolder();
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+
+        Totals storage t = totals[tokenId];
+        ebool available = amount.le(t.optionPool.sub(t.optionsGranted));
+        euint64 granted = FHE.select(available, amount, FHE.asEuint64(0));
+        t.optionsGranted = t.optionsGranted.add(granted);
+        _grantAggregate(tokenId, t.optionsGranted);
+
+        uint256 index = optionGrantIndex[tokenId][holder];
+        if (index == 0) {
+            optionGrants[tokenId].push(OptionGrant({ holder: holder, options: FHE.asEuint64(0) }));
+            index = optionGrants[tokenId].length;
+            optionGrantIndex[tokenId][holder] = index;
+        }
+        OptionGrant storage grant = optionGrants[tokenId][index - 1];
+        grant.options = grant.options.add(granted);
+        FHE.allowThis(grant.options);
+        FHE.allow(grant.options, msg.sender);
+        FHE.allow(grant.options, holder);
+
+        emit OptionsGranted(tokenId, holder, grant.options);
+    }
+
+    /// @notice Lets `viewer` decrypt the class totals, option pool and fully diluted count of
+    /// the latest checkpoint and every later one. Individual holdings stay private. Once the
+    /// registry has an investor allowlist, viewers must be qualified investors.
+    function addViewer(uint256 tokenId, address viewer) external onlyIssuer(tokenId) {
+        if (!registry.isQualified(viewer)) revert ViewerNotQualified();
+        if (isViewer[tokenId][viewer]) return;
+        isViewer[tokenId][viewer] = true;
+        viewers[tokenId].push(viewer);
+        _allowCheckpoint(tokenId, viewer);
+        emit ViewerAdded(tokenId, viewer);
+    }
+
+    /// @notice Publishes the current class and token totals to viewers. Publish after a
+    /// batch of updates: totals that differ by a single holding reveal it.
+    function publishCheckpoint(uint256 tokenId) external onlyIssuer(tokenId) {
+        Checkpoint storage checkpoint = checkpoints[tokenId];
+        delete checkpoint.classIssued;
+        ShareClass[] storage tokenClasses = classes[tokenId];
+        for (uint256 i = 0; i < tokenClasses.length; i++) {
+            checkpoint.classIssued.push(tokenClasses[i].issued);
+        }
+        checkpoint.totals = totals[tokenId];
+        checkpoint.publishedAt = uint64(block.timestamp);
+
+        address[] storage tokenViewers = viewers[tokenId];
+        for (uint256 i = 0; i < tokenViewers.length; i++) {
+            _allowCheckpoint(tokenId, tokenViewers[i]);
+        }
+        emit CheckpointPublished(tokenId, checkpoint.publishedAt);
+    }
+
+    function getShareClasses(uint256 tokenId) external view returns (ShareClass[] memory) {
+        return classes[tokenId];
+    }
+
+    function getHoldings(uint256 tokenId) external view returns (Holding[] memory) {
+        return holdings[tokenId];
+    }
+
+    function getOptionGrants(uint256 tokenId) external view returns (OptionGrant[] memory) {
+        return optionGrants[tokenId];
+    }
+
+    function getTotals(uint256 tokenId) external view returns (Totals memory) {
+        return totals[tokenId];
+    }
+
+    function getViewers(uint256 tokenId) external view returns (address[] memory) {
+        return viewers[tokenId];
+    }
+
+    /// @notice The latest checkpoint; publishedAt is 0 until the issuer publishes one.
+    function getCheckpoint(uint256 tokenId) external view returns (Checkpoint memory) {
+        return checkpoints[tokenId];
+    }
+
+    function _updateFullyDiluted(uint256 tokenId) private {
+        Totals storage t = totals[tokenId];
+        t.fullyDiluted = t.issued.add(t.optionPool);
+        _grantAggregate(tokenId, t.fullyDiluted);
+    }
+
+    /// @dev Live aggregates are readable by the contract and the issuer only.
+    function _grantAggregate(uint256 tokenId, euint64 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, registry.issuerOf(tokenId));
+    }
+
+    function _allowCheckpoint(uint256 tokenId, address viewer) private {
+        Checkpoint storage checkpoint = checkpoints[tokenId];
+        for (uint256 i = 0; i < checkpoint.classIssued.length; i++) {
+            FHE.allow(checkpoint.classIssued[i], viewer);
+        }
+        Totals storage t = checkpoint.totals;
+        euint64[4] memory aggregates = [t.issued, t.optionPool, t.optionsGranted, t.fullyDiluted];
+        for (uint256 i = 0; i < aggregates.length; i++) {
+            if (FHE.isInitialized(aggregates[i])) FHE.allow(aggregates[i], viewer);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+pragma solidity ^0.8.24;
+
+import { EquityRegistry } from "./equityRegistry.sol";
+import { ITransferRule } from "./transferRules.sol";
+
+
+/// @notice Transfer restriction engine in the style of ERC-3643 compliance. Each issuer
+/// attaches rule modules to its token; the share ledger refuses any share movement a rule
+/// rejects and reports completed transfers back so rules can update their records.
+///
+/// canTransfer is the ERC-1400 style pre-check: wallets call it before asking the holder
+/// to sign, and it names the first rule that fails and why.
+contract EquityCompliance {
+    // Bounds the work every ledger transfer does
+    uint256 public constant MAX_RULES = 8;
+
+    EquityRegistry public immutable registry;
+    mapping(uint256 => ITransferRule[]) private tokenRules;
+
+    event RuleAdded(uint256 indexed tokenId, address indexed rule);
+    event RuleRemoved(uint256 indexed tokenId, address indexed rule);
+
+    error NotTokenIssuer();
+    error NotShareLedger();
+    error RuleAlreadyAdded();
+    error UnknownRule();
+    error TooManyRules();
+
+    modifier onlyIssuer(uint256 tokenId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        _;
+    }
+
+    constructor(EquityRegistry registry_) {
+        registry = registry_;
+    }
+
+    function addRule(uint256 tokenId, ITransferRule rule) external onlyIssuer(tokenId) {
+        ITransferRule[] storage rules = tokenRules[tokenId];
+        if (rules.length >= MAX_RULES) revert TooManyRules();
+        for (uint256 i = 0; i < rules.length; i++) {
+            if (rules[i] == rule) revert RuleAlreadyAdded();
+        }
+        rules.push(rule);
+        emit RuleAdded(tokenId, address(rule));
+    }
+
+    function removeRule(uint256 tokenId, ITransferRule rule) external onlyIssuer(tokenId) {
+        ITransferRule[] storage rules = tokenRules[tokenId];
+        for (uint256 i = 0; i < rules.length; i++) {
+            if (rules[i] == rule) {
+                rules[i] = rules[rules.length - 1];
+                rules.pop();
+                emit RuleRemoved(tokenId, address(rule));
+                return;
+            }
+        }
+        revert UnknownRule();
+    }
+
+    function getRules(uint256 tokenId) external view returns (ITransferRule[] memory) {
+        return tokenRules[tokenId];
+    }
+
+    /// @notice Whether every rule on the token lets `from` send shares to `to`. When one does
+    /// not, returns its name and reason.
+    function canTransfer(
+        uint256 tokenId,
+        address from,
+        address to
+    ) public view returns (bool allowed, string memory rule, string memory reason) {
+        ITransferRule[] storage rules = tokenRules[tokenId];
+        for (uint256 i = 0; i < rules.length; i++) {
+            (allowed, reason) = rules[i].check(tokenId, from, to);
+            if (!allowed) return (false, rules[i].name(), reason);
+        }
+        return (true, "", "");
+    }
+
+    /// @notice Tells every rule on the token that a transfer went through.
+    function transferred(uint256 tokenId, address from, address to) external {
+        if (msg.sender != address(registry.shareLedger())) revert NotShareLedger();
+        ITransferRule[] storage rules = tokenRules[tokenId];
+        for (uint256 i = 0; i < rules.length; i++) {
+            rules[i].transferred(tokenId, from, to);
+        }
+    }
+}
@@ -0,0 +1,151 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityShareLedger } from "./equityShareLedger.sol";
+import { ConfidentialStablecoin } from "./confidentialStablecoin.sol";
+
+
+/// @notice Dividends and other cash distributions to a token's holders, paid in the
+/// confidential stablecoin. The issuer declares a plaintext amount per share; declaring
+/// snapshots the share ledger and escrows the encrypted total (total supply times the
+/// amount) from the issuer, who must have made this contract its stablecoin operator.
+///
+/// Each holder claims once and receives their encrypted holding at the snapshot times the
+/// amount per share, so neither holdings nor payouts are revealed. When the issuer could
+/// not cover the total, or the total does not fit in 64 bits, the escrow moves nothing and
+/// every payout is an encrypted zero; the issuer can decrypt whether the distribution was
+/// funded.
+contract EquityDistributions is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    struct Distribution {
+        uint256 id;
+        uint256 tokenId;
+        address issuer;
+        // In stablecoin base units
+        uint64 amountPerShare;
+        uint256 snapshotId;
+        uint64 declaredAt;
+        euint64 total;
+        ebool funded;
+        uint256 claimCount;
+    }
+
+    EquityRegistry public immutable registry;
+    ConfidentialStablecoin public immutable stablecoin;
+    uint256 public distributionCount;
+    mapping(uint256 => Distribution) private distributions;
+    mapping(uint256 => uint256[]) private tokenDistributions;
+    mapping(uint256 => mapping(address => euint64)) private payouts;
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    event DistributionDeclared(
+        uint256 indexed distributionId,
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint64 amountPerShare,
+        uint256 snapshotId,
+        ebool funded
+    );
+    event DistributionClaimed(uint256 indexed distributionId, address indexed holder, euint64 amount);
+
+    error NotTokenIssuer();
+    error NotListed();
+    error NoShareLedger();
+    error InvalidAmount();
+    error UnknownDistribution();
+    error AlreadyClaimed();
+
+    modifier distributionExists(uint256 distributionId) {
+        if (distributionId == 0 || distributionId > distributionCount) revert UnknownDistribution();
+        _;
+    }
+
+    constructor(EquityRegistry registry_, ConfidentialStablecoin stablecoin_) {
+        registry = registry_;
+        stablecoin = stablecoin_;
+    }
+
+    /// @notice Declares a distribution of `amountPerShare` to every holder of an approved or
+    /// trading token as of now. A total past 64 bits is left unfunded.
+    function declareDistribution(uint256 tokenId, uint64 amountPerShare) external returns (uint256 distributionId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        EquityRegistry.Status status = registry.tokenStatus(tokenId);
+        if (status != EquityRegistry.Status.Approved && status != EquityRegistry.Status.Trading) revert NotListed();
+        if (amountPerShare == 0) revert InvalidAmount();
+        EquityShareLedger ledger = _ledger();
+
+        (uint256 snapshotId, euint64 totalSupply) = ledger.snapshot(tokenId);
+        // Widened so the product cannot wrap; a total past 64 bits exceeds any balance, so it
+        // escrows nothing
+        euint128 wideTotal = FHE.asEuint128(totalSupply).mul(uint128(amountPerShare));
+        ebool fits = wideTotal.le(uint128(type(uint64).max));
+        euint64 total = FHE.select(fits, FHE.asEuint64(wideTotal), FHE.asEuint64(0));
+        FHE.allowThis(total);
+        FHE.allow(total, msg.sender);
+        FHE.allowTransient(total, address(stablecoin));
+        euint64 escrowed = stablecoin.operatorTransfer(msg.sender, address(this), total);
+        ebool funded = FHE.and(fits, escrowed.eq(total));
+        FHE.allowThis(funded);
+        FHE.allow(funded, msg.sender);
+
+        distributionId = ++distributionCount;
+        distributions[distributionId] = Distribution({
+            id: distributionId,
+            tokenId: tokenId,
+            issuer: msg.sender,
+            amountPerShare: amountPerShare,
+            snapshotId: snapshotId,
+            declaredAt: uint64(block.timestamp),
+            total: total,
+            funded: funded,
+            claimCount: 0
+        });
+        tokenDistributions[tokenId].push(distributionId);
+        emit DistributionDeclared(distributionId, tokenId, msg.sender, amountPerShare, snapshotId, funded);
+    }
+
+    /// @notice Pays the caller's share of a distribution into their stablecoin balance.
+    /// Holders with no shares at the snapshot receive an encrypted zero.
+    function claim(uint256 distributionId) external distributionExists(distributionId) returns (euint64 payout) {
+        if (hasClaimed[distributionId][msg.sender]) revert AlreadyClaimed();
+        hasClaimed[distributionId][msg.sender] = true;
+        Distribution storage distribution = distributions[distributionId];
+        distribution.claimCount++;
+
+        euint64 holding = _ledger().balanceAt(distribution.tokenId, msg.sender, distribution.snapshotId);
+        if (!FHE.isInitialized(holding)) holding = FHE.asEuint64(0);
+        // No holding exceeds the total supply, so a funded distribution's payouts fit in 64 bits
+        euint64 owed = FHE.asEuint64(FHE.asEuint128(holding).mul(uint128(distribution.amountPerShare)));
+        payout = FHE.select(distribution.funded, owed, FHE.asEuint64(0));
+        FHE.allowTransient(payout, address(stablecoin));
+        payout = stablecoin.operatorTransfer(address(this), msg.sender, payout);
+
+        payouts[distributionId][msg.sender] = payout;
+        FHE.allowThis(payout);
+        FHE.allow(payout, msg.sender);
+        emit DistributionClaimed(distributionId, msg.sender, payout);
+    }
+
+    function getDistribution(
+        uint256 distributionId
+    ) external view distributionExists(distributionId) returns (Distribution memory) {
+        return distributions[distributionId];
+    }
+
+    function getTokenDistributions(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenDistributions[tokenId];
+    }
+
+    function getPayout(uint256 distributionId, address holder) external view returns (euint64) {
+        return payouts[distributionId][holder];
+    }
+
+    function _ledger() private view returns (EquityShareLedger ledger) {
+        ledger = EquityShareLedger(address(registry.shareLedger()));
+        if (address(ledger) == address(0)) revert NoShareLedger();
+    }
+}
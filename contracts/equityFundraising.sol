@@ -0,0 +1,283 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityShareLedger } from "./equityShareLedger.sol";
+import { ConfidentialStablecoin } from "./confidentialStablecoin.sol";
+
+
+/// @notice Fundraising rounds for registry tokens. The issuer offers a number of shares
+/// against an encrypted target; qualified investors commit encrypted amounts of the
+/// confidential stablecoin until the deadline, and the encrypted total is checked against
+/// the target after every commitment. Committing escrows the amount from the investor, who
+/// must have made this contract their stablecoin operator; an amount the investor cannot
+/// cover, or that would overflow the total, escrows and commits an encrypted zero.
+///
+/// Closing asks the oracle for the outcome. If the target was met the total is published
+/// and every investor is allocated shares pro rata; otherwise only the failure is published
+/// and commitments are refunded from escrow. Allocated shares move from the issuer on the
+/// share ledger, so claiming an allocation needs the issuer to have made this contract its
+/// operator there. The round's price is totalRaised / sharesOffered: the issuer is paid that
+/// for each share delivered and the rest of the escrowed commitment, including what the
+/// rounded-down allocation leaves over, is refunded.
+contract EquityFundraising is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    enum RoundState {
+        Open,
+        Closing,
+        Allocating,
+        Refunding
+    }
+
+    struct Round {
+        uint256 id;
+        uint256 tokenId;
+        address issuer;
+        uint64 sharesOffered;
+        uint64 deadline;
+        euint64 target;
+        euint64 totalCommitted;
+        ebool targetMet;
+        uint256 investorCount;
+        RoundState state;
+        // Published when the target was met; zero otherwise
+        uint64 totalRaised;
+    }
+
+    struct DecryptionContext {
+        uint256 roundId;
+        bool processed;
+    }
+
+    EquityRegistry public immutable registry;
+    ConfidentialStablecoin public immutable stablecoin;
+    uint256 public roundCount;
+    mapping(uint256 => Round) private rounds;
+    mapping(uint256 => uint256[]) private tokenRounds;
+    mapping(uint256 => mapping(address => euint64)) private commitments;
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event RoundOpened(
+        uint256 indexed roundId,
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint64 sharesOffered,
+        uint64 deadline,
+        euint64 target
+    );
+    event Committed(uint256 indexed roundId, address indexed investor, euint64 commitment, ebool targetMet);
+    event RoundCloseRequested(uint256 indexed roundId, uint256 indexed requestId);
+    event RoundClosed(uint256 indexed roundId, bool succeeded, uint64 totalRaised);
+    event SharesAllocated(uint256 indexed roundId, address indexed investor, euint64 shares);
+    event CommitmentRefunded(uint256 indexed roundId, address indexed investor, euint64 amount);
+
+    error NotTokenIssuer();
+    error NotListed();
+    error NoShareLedger();
+    error NotQualified();
+    error InvalidDeadline();
+    error NoSharesOffered();
+    error UnknownRound();
+    error RoundNotOpen();
+    error DeadlinePassed();
+    error DeadlineNotReached();
+    error RoundNotSettled();
+    error NothingToClaim();
+    error AlreadyClaimed();
+    error UnknownRequest();
+    error ReplayAttempt();
+
+    modifier roundExists(uint256 roundId) {
+        if (roundId == 0 || roundId > roundCount) revert UnknownRound();
+        _;
+    }
+
+    constructor(EquityRegistry registry_, ConfidentialStablecoin stablecoin_) {
+        registry = registry_;
+        stablecoin = stablecoin_;
+    }
+
+    /// @notice Opens a round offering `sharesOffered` shares of an approved or trading token.
+    /// The target stays encrypted; the issuer can decrypt it and whether it has been met.
+    function openRound(
+        uint256 tokenId,
+        uint64 sharesOffered,
+        uint64 deadline,
+        externalEuint64 targetInput,
+        bytes calldata inputProof
+    ) external returns (uint256 roundId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        EquityRegistry.Status status = registry.tokenStatus(tokenId);
+        if (status != EquityRegistry.Status.Approved && status != EquityRegistry.Status.Trading) revert NotListed();
+        if (sharesOffered == 0) revert NoSharesOffered();
+        if (deadline <= block.timestamp) revert InvalidDeadline();
+
+        euint64 target = FHE.fromExternal(targetInput, inputProof);
+        euint64 total = FHE.asEuint64(0);
+        ebool targetMet = total.ge(target);
+        FHE.allowThis(target);
+        FHE.allow(target, msg.sender);
+        FHE.allowThis(total);
+        FHE.allowThis(targetMet);
+        FHE.allow(targetMet, msg.sender);
+
+        roundId = ++roundCount;
+        rounds[roundId] = Round({
+            id: roundId,
+            tokenId: tokenId,
+            issuer: msg.sender,
+            sharesOffered: sharesOffered,
+            deadline: deadline,
+            target: target,
+            totalCommitted: total,
+            targetMet: targetMet,
+            investorCount: 0,
+            state: RoundState.Open,
+            totalRaised: 0
+        });
+        tokenRounds[tokenId].push(roundId);
+        emit RoundOpened(roundId, tokenId, msg.sender, sharesOffered, deadline, target);
+    }
+
+    /// @notice Escrows an encrypted amount of stablecoin and adds it to the caller's commitment.
+    /// Nobody but the investor learns the amount, and the issuer only learns whether the target
+    /// is now met.
+    function commit(
+        uint256 roundId,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external roundExists(roundId) {
+        Round storage round = rounds[roundId];
+        if (round.state != RoundState.Open) revert RoundNotOpen();
+        if (block.timestamp >= round.deadline) revert DeadlinePassed();
+        if (!registry.isQualified(msg.sender)) revert NotQualified();
+
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        // Every commitment is part of the total, so a total that cannot wrap means no
+        // commitment can either
+        ebool fits = round.totalCommitted.add(amount).ge(round.totalCommitted);
+        amount = FHE.select(fits, amount, FHE.asEuint64(0));
+        FHE.allowTransient(amount, address(stablecoin));
+        euint64 escrowed = stablecoin.operatorTransfer(msg.sender, address(this), amount);
+
+        euint64 previous = commitments[roundId][msg.sender];
+        if (!FHE.isInitialized(previous)) round.investorCount++;
+        euint64 commitment = previous.add(escrowed);
+        commitments[roundId][msg.sender] = commitment;
+        FHE.allowThis(commitment);
+        FHE.allow(commitment, msg.sender);
+
+        round.totalCommitted = round.totalCommitted.add(escrowed);
+        round.targetMet = round.totalCommitted.ge(round.target);
+        FHE.allowThis(round.totalCommitted);
+        FHE.allowThis(round.targetMet);
+        FHE.allow(round.targetMet, round.issuer);
+        emit Committed(roundId, msg.sender, commitment, round.targetMet);
+    }
+
+    /// @notice Closes a round after its deadline. Anyone may call it. A round without
+    /// commitments fails at once; otherwise the oracle decrypts whether the target was met
+    /// and, only if it was, the total raised.
+    function closeRound(uint256 roundId) external roundExists(roundId) {
+        Round storage round = rounds[roundId];
+        if (round.state != RoundState.Open) revert RoundNotOpen();
+        if (block.timestamp < round.deadline) revert DeadlineNotReached();
+
+        if (round.investorCount == 0) {
+            round.state = RoundState.Refunding;
+            emit RoundClosed(roundId, false, 0);
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(round.targetMet);
+        cts[1] = FHE.toBytes32(FHE.select(round.targetMet, round.totalCommitted, FHE.asEuint64(0)));
+        uint256 requestId = FHE.requestDecryption(cts, this.settleRound.selector);
+
+        round.state = RoundState.Closing;
+        decryptionContexts[requestId] = DecryptionContext(roundId, false);
+        emit RoundCloseRequested(roundId, requestId);
+    }
+
+    /// @notice Oracle callback for closeRound.
+    function settleRound(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.roundId == 0) revert UnknownRequest();
+        if (context.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        (bool succeeded, uint64 totalRaised) = abi.decode(cleartexts, (bool, uint64));
+
+        context.processed = true;
+        Round storage round = rounds[context.roundId];
+        round.state = succeeded ? RoundState.Allocating : RoundState.Refunding;
+        round.totalRaised = totalRaised;
+        emit RoundClosed(context.roundId, succeeded, totalRaised);
+    }
+
+    /// @notice Settles the caller's commitment once the round has closed: a pro rata share
+    /// of the offered shares if the target was met, otherwise a refund of the commitment.
+    /// Allocations revert until the issuer has made this contract their share ledger operator.
+    /// The issuer is paid for the shares delivered at the round's price and the rest of the
+    /// commitment is refunded; when the issuer's shares could not cover the allocation,
+    /// nothing moves and all of it is refunded.
+    function claim(uint256 roundId) external roundExists(roundId) returns (euint64 settled) {
+        Round storage round = rounds[roundId];
+        if (round.state != RoundState.Allocating && round.state != RoundState.Refunding) revert RoundNotSettled();
+        euint64 commitment = commitments[roundId][msg.sender];
+        if (!FHE.isInitialized(commitment)) revert NothingToClaim();
+        if (hasClaimed[roundId][msg.sender]) revert AlreadyClaimed();
+        hasClaimed[roundId][msg.sender] = true;
+
+        if (round.state == RoundState.Refunding) {
+            FHE.allowTransient(commitment, address(stablecoin));
+            settled = stablecoin.operatorTransfer(address(this), msg.sender, commitment);
+            emit CommitmentRefunded(roundId, msg.sender, settled);
+            return settled;
+        }
+
+        EquityShareLedger ledger = EquityShareLedger(address(registry.shareLedger()));
+        if (address(ledger) == address(0)) revert NoShareLedger();
+
+        // commitment * sharesOffered / totalRaised, widened so the product cannot wrap. The
+        // commitment is at most totalRaised, so the quotient is at most sharesOffered
+        euint64 allocation = FHE.asEuint64(
+            FHE.asEuint128(commitment).mul(uint128(round.sharesOffered)).div(uint128(round.totalRaised))
+        );
+        FHE.allowTransient(allocation, address(ledger));
+        settled = ledger.operatorTransfer(round.tokenId, round.issuer, msg.sender, allocation);
+        FHE.allow(settled, round.issuer);
+
+        // settled * totalRaised / sharesOffered, rounded up. The allocation was rounded down,
+        // so this is at most the commitment; a transfer that moved nothing costs nothing
+        euint64 payment = FHE.asEuint64(
+            FHE
+                .asEuint128(settled)
+                .mul(uint128(round.totalRaised))
+                .add(uint128(round.sharesOffered) - 1)
+                .div(uint128(round.sharesOffered))
+        );
+        FHE.allowTransient(payment, address(stablecoin));
+        stablecoin.operatorTransfer(address(this), round.issuer, payment);
+        euint64 refund = commitment.sub(payment);
+        FHE.allowTransient(refund, address(stablecoin));
+        stablecoin.operatorTransfer(address(this), msg.sender, refund);
+        emit SharesAllocated(roundId, msg.sender, settled);
+    }
+
+    function getRound(uint256 roundId) external view roundExists(roundId) returns (Round memory) {
+        return rounds[roundId];
+    }
+
+    function getTokenRounds(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenRounds[tokenId];
+    }
+
+    function getCommitment(uint256 roundId, address investor) external view returns (euint64) {
+        return commitments[roundId][investor];
+    }
+}
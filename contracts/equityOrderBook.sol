@@ -0,0 +1,363 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityShareLedger } from "./equityShareLedger.sol";
+import { ConfidentialStablecoin } from "./confidentialStablecoin.sol";
+
+
+/// @notice Confidential limit orders for registry tokens that are open for trading.
+/// Prices and quantities stay encrypted, prices in confidential stablecoin base units per
+/// share; a match that does not cross fills zero.
+///
+/// Trades settle on the registry's share ledger, where sellers make this contract their
+/// operator. A trade never exceeds the seller's unlocked balance, so an ask backed by too
+/// few shares only fills what the seller can deliver.
+///
+/// Buyers pay in confidential stablecoin, with this contract as their stablecoin operator.
+/// A bid escrows price * quantity when it is placed and a buyer taking an ask escrows the
+/// cost of the fill; each trade pays the seller for the shares delivered out of escrow and
+/// the rest goes back to the buyer. A bid the trader cannot fund in full rests with nothing
+/// to fill, and cancelling a bid refunds what is left of its escrow.
+contract EquityOrderBook is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    enum Side {
+        Bid,
+        Ask
+    }
+
+    struct Order {
+        uint256 id;
+        uint256 tokenId;
+        address trader;
+        Side side;
+        euint64 price;
+        euint64 remaining;
+        bool open;
+        uint64 createdAt;
+    }
+
+    struct Trade {
+        uint256 id;
+        uint256 tokenId;
+        uint256 bidId;
+        uint256 askId;
+        address buyer;
+        address seller;
+        euint64 quantity;
+        euint64 price;
+        uint64 executedAt;
+    }
+
+    /// @notice Length of the periods that traded volume is summed over.
+    uint256 public constant VOLUME_PERIOD = 1 days;
+
+    EquityRegistry public immutable registry;
+    ConfidentialStablecoin public immutable stablecoin;
+    uint256 public orderCount;
+    uint256 public tradeCount;
+    mapping(uint256 => Order) private orders;
+    mapping(uint256 => Trade) private trades;
+    mapping(uint256 => uint256[]) private tokenOrders;
+    mapping(uint256 => euint64) private lastPrices;
+    // Whether any of the token's trades has filled a non-zero quantity
+    mapping(uint256 => ebool) private hasTraded;
+    // Shares traded across all tokens, by block.timestamp / VOLUME_PERIOD
+    mapping(uint256 => euint64) private periodVolumes;
+
+    event OrderPlaced(
+        uint256 indexed orderId,
+        uint256 indexed tokenId,
+        address indexed trader,
+        Side side,
+        euint64 price,
+        euint64 quantity
+    );
+    event OrderCancelled(uint256 indexed orderId, uint256 indexed tokenId, address indexed trader);
+    event TradeExecuted(
+        uint256 indexed tradeId,
+        uint256 indexed tokenId,
+        uint256 bidId,
+        uint256 askId,
+        address buyer,
+        address seller,
+        euint64 quantity,
+        euint64 price
+    );
+
+    error NotTrading();
+    error UnknownOrder();
+    error OrderNotOpen();
+    error NotTrader();
+    error SelfTrade();
+    error InvalidMatch();
+    error NotQualified();
+    error NotAnalytics();
+    error NoShareLedger();
+
+    modifier orderExists(uint256 orderId) {
+        if (orderId == 0 || orderId > orderCount) revert UnknownOrder();
+        _;
+    }
+
+    modifier onlyQualified() {
+        if (!registry.isQualified(msg.sender)) revert NotQualified();
+        _;
+    }
+
+    constructor(EquityRegistry registry_, ConfidentialStablecoin stablecoin_) {
+        registry = registry_;
+        stablecoin = stablecoin_;
+    }
+
+    function placeOrder(
+        uint256 tokenId,
+        Side side,
+        externalEuint64 priceInput,
+        externalEuint64 quantityInput,
+        bytes calldata inputProof
+    ) external onlyQualified returns (uint256 orderId) {
+        if (registry.tokenStatus(tokenId) != EquityRegistry.Status.Trading) revert NotTrading();
+
+        euint64 price = FHE.fromExternal(priceInput, inputProof);
+        euint64 quantity = FHE.fromExternal(quantityInput, inputProof);
+        if (side == Side.Bid) quantity = _escrow(msg.sender, quantity, price);
+        _grant(price, msg.sender);
+        _grant(quantity, msg.sender);
+
+        orderId = ++orderCount;
+        orders[orderId] = Order({
+            id: orderId,
+            tokenId: tokenId,
+            trader: msg.sender,
+            side: side,
+            price: price,
+            remaining: quantity,
+            open: true,
+            createdAt: uint64(block.timestamp)
+        });
+        tokenOrders[tokenId].push(orderId);
+
+        emit OrderPlaced(orderId, tokenId, msg.sender, side, price, quantity);
+    }
+
+    /// @notice Closes the caller's order; a bid's unspent escrow goes back to the trader.
+    function cancelOrder(uint256 orderId) external orderExists(orderId) {
+        Order storage order = orders[orderId];
+        if (order.trader != msg.sender) revert NotTrader();
+        if (!order.open) revert OrderNotOpen();
+        order.open = false;
+        if (order.side == Side.Bid) _release(msg.sender, order.remaining.mul(order.price));
+        emit OrderCancelled(orderId, order.tokenId, msg.sender);
+    }
+
+    /// @notice Takes up to `quantity` of a resting order at its price, provided the
+    /// order's price is within the caller's encrypted limit. A buyer escrows the cost first,
+    /// and gets back whatever the seller could not deliver.
+    function fillOrder(
+        uint256 orderId,
+        externalEuint64 quantityInput,
+        externalEuint64 limitPriceInput,
+        bytes calldata inputProof
+    ) external orderExists(orderId) onlyQualified returns (uint256 tradeId) {
+        Order storage maker = orders[orderId];
+        if (!maker.open) revert OrderNotOpen();
+        if (maker.trader == msg.sender) revert SelfTrade();
+        if (!registry.isQualified(maker.trader)) revert NotQualified();
+        if (registry.tokenStatus(maker.tokenId) != EquityRegistry.Status.Trading) revert NotTrading();
+
+        euint64 wanted = _fillable(
+            maker,
+            FHE.fromExternal(quantityInput, inputProof),
+            FHE.fromExternal(limitPriceInput, inputProof)
+        );
+
+        (uint256 bidId, uint256 askId, address buyer, address seller) = maker.side == Side.Ask
+            ? (uint256(0), orderId, msg.sender, maker.trader)
+            : (orderId, uint256(0), maker.trader, msg.sender);
+        euint64 filled = maker.side == Side.Ask
+            ? _takeAsk(maker, buyer, wanted)
+            : _settle(maker.tokenId, seller, buyer, wanted, maker.price);
+
+        maker.remaining = maker.remaining.sub(filled);
+        _grant(maker.remaining, maker.trader);
+        tradeId = _recordTrade(maker.tokenId, bidId, askId, buyer, seller, filled, maker.price);
+    }
+
+    /// @notice Crosses a resting bid with a resting ask at the ask price; the buyer gets back
+    /// the escrow saved by paying the ask price rather than their bid. When the bid is below
+    /// the ask the trade quantity is an encrypted zero. Only the two traders may match, since
+    /// even an empty trade counts as a transfer to the buyer under the token's transfer rules.
+    function matchOrders(uint256 bidId, uint256 askId) external orderExists(bidId) orderExists(askId) returns (uint256 tradeId) {
+        Order storage bid = orders[bidId];
+        Order storage ask = orders[askId];
+        if (msg.sender != bid.trader && msg.sender != ask.trader) revert NotTrader();
+        if (bid.side != Side.Bid || ask.side != Side.Ask || bid.tokenId != ask.tokenId) revert InvalidMatch();
+        if (!bid.open || !ask.open) revert OrderNotOpen();
+        if (bid.trader == ask.trader) revert SelfTrade();
+        // Either side may have lost its attestation since placing the order
+        if (!registry.isQualified(bid.trader) || !registry.isQualified(ask.trader)) revert NotQualified();
+        if (registry.tokenStatus(bid.tokenId) != EquityRegistry.Status.Trading) revert NotTrading();
+
+        ebool crosses = bid.price.ge(ask.price);
+        euint64 filled = _settle(
+            bid.tokenId,
+            ask.trader,
+            bid.trader,
+            FHE.select(crosses, bid.remaining.min(ask.remaining), FHE.asEuint64(0)),
+            ask.price
+        );
+        // Nothing fills unless the bid is at or above the ask, so the difference cannot wrap
+        _release(bid.trader, filled.mul(bid.price.sub(ask.price)));
+
+        bid.remaining = bid.remaining.sub(filled);
+        ask.remaining = ask.remaining.sub(filled);
+        _grant(bid.remaining, bid.trader);
+        _grant(ask.remaining, ask.trader);
+
+        tradeId = _recordTrade(bid.tokenId, bidId, askId, bid.trader, ask.trader, filled, ask.price);
+    }
+
+    function getOrder(uint256 orderId) external view orderExists(orderId) returns (Order memory) {
+        return orders[orderId];
+    }
+
+    function getTokenOrders(uint256 tokenId) external view returns (uint256[] memory) {
+        return tokenOrders[tokenId];
+    }
+
+    function getTrade(uint256 tradeId) external view returns (Trade memory) {
+        return trades[tradeId];
+    }
+
+    /// @notice The price of the token's last trade that filled a non-zero quantity and whether
+    /// any trade has filled yet, handed to the registry's analytics contract for the current
+    /// transaction only. The price is an encrypted zero while `traded` is false, and both are
+    /// uninitialized until the token's first match.
+    function lastTradeFor(uint256 tokenId) external returns (euint64 price, ebool traded) {
+        address analytics = registry.analytics();
+        if (analytics == address(0) || msg.sender != analytics) revert NotAnalytics();
+        price = lastPrices[tokenId];
+        traded = hasTraded[tokenId];
+        if (FHE.isInitialized(price)) {
+            FHE.allowTransient(price, msg.sender);
+            FHE.allowTransient(traded, msg.sender);
+        }
+    }
+
+    /// @notice Hands the shares traded in `period` to the analytics contract for the current
+    /// transaction only. Uninitialized when nothing traded in the period.
+    function periodVolumeFor(uint256 period) external returns (euint64 volume) {
+        address analytics = registry.analytics();
+        if (analytics == address(0) || msg.sender != analytics) revert NotAnalytics();
+        volume = periodVolumes[period];
+        if (FHE.isInitialized(volume)) FHE.allowTransient(volume, msg.sender);
+    }
+
+    /// @dev Up to `quantity` of the maker's remaining quantity if its price is within
+    /// `limitPrice`, otherwise an encrypted zero.
+    function _fillable(Order storage maker, euint64 quantity, euint64 limitPrice) private returns (euint64) {
+        // A buyer accepts asks at or below the limit, a seller bids at or above it
+        ebool acceptable = maker.side == Side.Ask ? maker.price.le(limitPrice) : maker.price.ge(limitPrice);
+        return FHE.select(acceptable, quantity.min(maker.remaining), FHE.asEuint64(0));
+    }
+
+    /// @dev A buyer taking an ask has nothing in escrow yet, so the fill is paid for up front
+    /// and the cost of whatever the seller does not deliver is refunded.
+    function _takeAsk(Order storage ask, address buyer, euint64 quantity) private returns (euint64 filled) {
+        euint64 funded = _escrow(buyer, quantity, ask.price);
+        filled = _settle(ask.tokenId, ask.trader, buyer, funded, ask.price);
+        _release(buyer, funded.sub(filled).mul(ask.price));
+    }
+
+    /// @dev Moves up to `quantity` shares from seller to buyer, pays the seller `price` for
+    /// each share moved out of the buyer's escrow, and returns how many moved.
+    function _settle(
+        uint256 tokenId,
+        address seller,
+        address buyer,
+        euint64 quantity,
+        euint64 price
+    ) private returns (euint64 filled) {
+        EquityShareLedger ledger = EquityShareLedger(address(registry.shareLedger()));
+        if (address(ledger) == address(0)) revert NoShareLedger();
+
+        euint64 deliverable = quantity.min(ledger.unlockedBalanceFor(tokenId, seller));
+        FHE.allowTransient(deliverable, address(ledger));
+        filled = ledger.operatorTransfer(tokenId, seller, buyer, deliverable);
+        _release(seller, filled.mul(price));
+    }
+
+    /// @dev Escrows price * quantity from `buyer` and returns the quantity it pays for: all of
+    /// it, or an encrypted zero if the buyer cannot cover the cost or it does not fit 64 bits.
+    function _escrow(address buyer, euint64 quantity, euint64 price) private returns (euint64) {
+        euint128 wideCost = FHE.asEuint128(quantity).mul(FHE.asEuint128(price));
+        ebool fits = wideCost.le(uint128(type(uint64).max));
+        euint64 cost = FHE.select(fits, FHE.asEuint64(wideCost), FHE.asEuint64(0));
+        FHE.allowTransient(cost, address(stablecoin));
+        euint64 escrowed = stablecoin.operatorTransfer(buyer, address(this), cost);
+        return FHE.select(FHE.and(fits, escrowed.eq(cost)), quantity, FHE.asEuint64(0));
+    }
+
+    /// @dev Pays `amount` out of escrow.
+    function _release(address to, euint64 amount) private {
+        FHE.allowTransient(amount, address(stablecoin));
+        stablecoin.operatorTransfer(address(this), to, amount);
+    }
+
+    function _recordTrade(
+        uint256 tokenId,
+        uint256 bidId,
+        uint256 askId,
+        address buyer,
+        address seller,
+        euint64 quantity,
+        euint64 price
+    ) private returns (uint256 tradeId) {
+        // Both are encrypted zeros when nothing filled, so no price leaks
+        ebool filled = quantity.gt(0);
+        price = FHE.select(filled, price, FHE.asEuint64(0));
+        _grant(quantity, buyer);
+        FHE.allow(quantity, seller);
+        _grant(price, buyer);
+        FHE.allow(price, seller);
+
+        // Trades that filled nothing keep the previous price
+        euint64 lastPrice = lastPrices[tokenId];
+        if (FHE.isInitialized(lastPrice)) {
+            lastPrices[tokenId] = FHE.select(filled, price, lastPrice);
+            hasTraded[tokenId] = FHE.or(hasTraded[tokenId], filled);
+        } else {
+            lastPrices[tokenId] = price;
+            hasTraded[tokenId] = filled;
+        }
+        FHE.allowThis(lastPrices[tokenId]);
+        FHE.allowThis(hasTraded[tokenId]);
+        uint256 period = block.timestamp / VOLUME_PERIOD;
+        periodVolumes[period] = periodVolumes[period].add(quantity);
+        FHE.allowThis(periodVolumes[period]);
+
+        tradeId = ++tradeCount;
+        trades[tradeId] = Trade({
+            id: tradeId,
+            tokenId: tokenId,
+            bidId: bidId,
+            askId: askId,
+            buyer: buyer,
+            seller: seller,
+            quantity: quantity,
+            price: price,
+            executedAt: uint64(block.timestamp)
+        });
+
+        emit TradeExecuted(tradeId, tokenId, bidId, askId, buyer, seller, quantity, price);
+    }
+
+    function _grant(euint64 value, address account) private {
+        FHE.allowThis(value);
+        FHE.allow(value, account);
+    }
+}
@@ -0,0 +1,431 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { InvestorRegistry } from "./investorRegistry.sol";
+
+
+interface IShareLedger {
+    function mintIssuance(uint256 tokenId, address issuer, euint64 shares) external;
+}
+
+/// @notice Registry of encrypted equity tokens. The owner is the platform admin and
+/// appoints compliance officers, who review issuers' tokens before they can trade.
+///
+/// Lifecycle (see canTransition):
+///   Pending -> Approved | Rejected          compliance officer
+///   Approved -> Trading                     issuer
+///   Trading <-> Suspended                   compliance officer
+///   Approved | Trading | Suspended -> Delisted  issuer or compliance officer
+/// Rejected and Delisted are final.
+contract EquityRegistry is SepoliaConfig {
+    enum Status {
+        Pending,
+        Approved,
+        Trading,
+        Rejected,
+        Suspended,
+        Delisted
+    }
+
+    struct EquityToken {
+        uint256 id;
+        address issuer;
+        string companyName;
+        string description;
+        euint64 encryptedValuation;
+        euint64 encryptedShares;
+        Status status;
+        uint64 createdAt;
+        uint64 updatedAt;
+    }
+
+    /// @dev Listed totals as they stood from `at` until the next checkpoint.
+    struct MarketCheckpoint {
+        uint64 at;
+        uint256 listings;
+        euint64 valuation;
+        euint64 shares;
+    }
+
+    struct StatusChange {
+        Status previousStatus;
+        Status newStatus;
+        address changedBy;
+        uint64 changedAt;
+        string reason;
+    }
+
+    address public owner;
+    mapping(address => bool) public isComplianceOfficer;
+    IShareLedger public shareLedger;
+    InvestorRegistry public investorRegistry;
+    address public analytics;
+    address public distributions;
+    address public vesting;
+    address public transferCompliance;
+    uint256 public tokenCount;
+    // Approved, trading and suspended tokens; their valuations and share counts are summed below
+    uint256 public listedCount;
+    euint64 private listedValuation;
+    euint64 private listedShares;
+    MarketCheckpoint[] private marketCheckpoints;
+    mapping(uint256 => EquityToken) private tokens;
+    mapping(address => uint256[]) private issuerTokens;
+    mapping(uint256 => StatusChange[]) private statusHistory;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event TokenIssued(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        string companyName,
+        string description,
+        euint64 encryptedValuation,
+        euint64 encryptedShares
+    );
+    event ComplianceOfficerAdded(address indexed officer);
+    event ComplianceOfficerRemoved(address indexed officer);
+    event TokenStatusChanged(
+        uint256 indexed tokenId,
+        Status previousStatus,
+        Status newStatus,
+        address indexed changedBy,
+        string reason
+    );
+    event ViewerGranted(uint256 indexed tokenId, address indexed viewer);
+    event ShareLedgerUpdated(address indexed previousLedger, address indexed newLedger);
+    event InvestorRegistryUpdated(address indexed previousRegistry, address indexed newRegistry);
+    event AnalyticsUpdated(address indexed previousAnalytics, address indexed newAnalytics);
+    event DistributionsUpdated(address indexed previousDistributions, address indexed newDistributions);
+    event VestingUpdated(address indexed previousVesting, address indexed newVesting);
+    event TransferComplianceUpdated(address indexed previousCompliance, address indexed newCompliance);
+
+    error NotOwner();
+    error NotIssuer();
+    error NotComplianceOfficer();
+    error SelfReview();
+    error EmptyReason();
+    error UnknownToken();
+    error InvalidStatus();
+    error EmptyCompanyName();
+    error NotQualified();
+    error NotAnalytics();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyComplianceOfficer() {
+        if (!isComplianceOfficer[msg.sender]) revert NotComplianceOfficer();
+        _;
+    }
+
+    modifier onlyIssuerOrComplianceOfficer(uint256 tokenId) {
+        if (tokens[tokenId].issuer != msg.sender && !isComplianceOfficer[msg.sender]) revert NotComplianceOfficer();
+        _;
+    }
+
+    modifier requiresReason(string calldata reason) {
+        if (bytes(reason).length == 0) revert EmptyReason();
+        _;
+    }
+
+    modifier onlyQualified() {
+        if (!isQualified(msg.sender)) revert NotQualified();
+        _;
+    }
+
+    modifier tokenExists(uint256 tokenId) {
+        if (tokenId == 0 || tokenId > tokenCount) revert UnknownToken();
+        _;
+    }
+
+    modifier onlyIssuer(uint256 tokenId) {
+        if (tokens[tokenId].issuer != msg.sender) revert NotIssuer();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function addComplianceOfficer(address officer) external onlyOwner {
+        if (!isComplianceOfficer[officer]) {
+            isComplianceOfficer[officer] = true;
+            emit ComplianceOfficerAdded(officer);
+        }
+    }
+
+    function removeComplianceOfficer(address officer) external onlyOwner {
+        if (isComplianceOfficer[officer]) {
+            isComplianceOfficer[officer] = false;
+            emit ComplianceOfficerRemoved(officer);
+        }
+    }
+
+    /// @notice Sets the ledger that receives each new token's shares; zero disables it.
+    function setShareLedger(IShareLedger newLedger) external onlyOwner {
+        emit ShareLedgerUpdated(address(shareLedger), address(newLedger));
+        shareLedger = newLedger;
+    }
+
+    /// @notice Sets the allowlist that gates issuance, viewing and trading; zero disables the check.
+    function setInvestorRegistry(InvestorRegistry newRegistry) external onlyOwner {
+        emit InvestorRegistryUpdated(address(investorRegistry), address(newRegistry));
+        investorRegistry = newRegistry;
+    }
+
+    /// @notice Sets the contract that derives encrypted metrics from token valuations;
+    /// zero disables it. The order book defers to this address too.
+    function setAnalytics(address newAnalytics) external onlyOwner {
+        emit AnalyticsUpdated(analytics, newAnalytics);
+        analytics = newAnalytics;
+    }
+
+    /// @notice Sets the contract that pays distributions to holders; zero disables it.
+    /// The share ledger lets only this address take balance snapshots.
+    function setDistributions(address newDistributions) external onlyOwner {
+        emit DistributionsUpdated(distributions, newDistributions);
+        distributions = newDistributions;
+    }
+
+    /// @notice Sets the contract holding vesting and lock-up schedules; zero disables it.
+    /// The share ledger only lets holders move shares that have vested there.
+    function setVesting(address newVesting) external onlyOwner {
+        emit VestingUpdated(vesting, newVesting);
+        vesting = newVesting;
+    }
+
+    /// @notice Sets the engine whose per-token transfer rules the share ledger enforces;
+    /// zero disables the rules.
+    function setTransferCompliance(address newCompliance) external onlyOwner {
+        emit TransferComplianceUpdated(transferCompliance, newCompliance);
+        transferCompliance = newCompliance;
+    }
+
+    /// @notice Whether `account` may issue, view or trade tokens. The order book and
+    /// share ledger ask here so the platform has a single allowlist.
+    function isQualified(address account) public view returns (bool) {
+        return address(investorRegistry) == address(0) || investorRegistry.isQualified(account);
+    }
+
+    function issueToken(
+        string calldata companyName,
+        string calldata description,
+        externalEuint64 valuationInput,
+        externalEuint64 sharesInput,
+        bytes calldata inputProof
+    ) external onlyQualified returns (uint256 tokenId) {
+        if (bytes(companyName).length == 0) revert EmptyCompanyName();
+
+        euint64 valuation = FHE.fromExternal(valuationInput, inputProof);
+        euint64 shares = FHE.fromExternal(sharesInput, inputProof);
+        FHE.allowThis(valuation);
+        FHE.allowThis(shares);
+        FHE.allow(valuation, msg.sender);
+        FHE.allow(shares, msg.sender);
+
+        tokenId = ++tokenCount;
+        tokens[tokenId] = EquityToken({
+            id: tokenId,
+            issuer: msg.sender,
+            companyName: companyName,
+            description: description,
+            encryptedValuation: valuation,
+            encryptedShares: shares,
+            status: Status.Pending,
+            createdAt: uint64(block.timestamp),
+            updatedAt: uint64(block.timestamp)
+        });
+        issuerTokens[msg.sender].push(tokenId);
+
+        emit TokenIssued(tokenId, msg.sender, companyName, description, valuation, shares);
+
+        if (address(shareLedger) != address(0)) {
+            FHE.allowTransient(shares, address(shareLedger));
+            shareLedger.mintIssuance(tokenId, msg.sender, shares);
+        }
+    }
+
+    /// @notice Approves a pending token for listing; like a rejection, an approval must say why.
+    /// `reason` is recorded in the token's history.
+    function approveToken(
+        uint256 tokenId,
+        string calldata reason
+    ) external tokenExists(tokenId) onlyComplianceOfficer requiresReason(reason) {
+        if (tokens[tokenId].issuer == msg.sender) revert SelfReview();
+        _transition(tokenId, Status.Pending, Status.Approved, reason);
+    }
+
+    /// @notice Rejects a pending token; a rejection must say why.
+    function rejectToken(
+        uint256 tokenId,
+        string calldata reason
+    ) external tokenExists(tokenId) onlyComplianceOfficer requiresReason(reason) {
+        if (tokens[tokenId].issuer == msg.sender) revert SelfReview();
+        _transition(tokenId, Status.Pending, Status.Rejected, reason);
+    }
+
+    /// @notice Opens an approved token for secondary-market trading.
+    function startTrading(uint256 tokenId) external tokenExists(tokenId) onlyIssuer(tokenId) {
+        _transition(tokenId, Status.Approved, Status.Trading, "");
+    }
+
+    /// @notice Halts trading; the order book rejects orders and fills until trading resumes.
+    function suspendTrading(
+        uint256 tokenId,
+        string calldata reason
+    ) external tokenExists(tokenId) onlyComplianceOfficer requiresReason(reason) {
+        _transition(tokenId, Status.Trading, Status.Suspended, reason);
+    }
+
+    /// @notice Lifts a suspension; like suspending, it must say why.
+    function resumeTrading(
+        uint256 tokenId,
+        string calldata reason
+    ) external tokenExists(tokenId) onlyComplianceOfficer requiresReason(reason) {
+        _transition(tokenId, Status.Suspended, Status.Trading, reason);
+    }
+
+    /// @notice Permanently removes a listed token, at the issuer's request or by compliance.
+    function delistToken(
+        uint256 tokenId,
+        string calldata reason
+    ) external tokenExists(tokenId) onlyIssuerOrComplianceOfficer(tokenId) requiresReason(reason) {
+        _transition(tokenId, tokens[tokenId].status, Status.Delisted, reason);
+    }
+
+    /// @notice Whether the lifecycle has an edge from `from` to `to`, regardless of who may take it.
+    function canTransition(Status from, Status to) public pure returns (bool) {
+        if (from == Status.Pending) return to == Status.Approved || to == Status.Rejected;
+        if (from == Status.Approved) return to == Status.Trading || to == Status.Delisted;
+        if (from == Status.Trading) return to == Status.Suspended || to == Status.Delisted;
+        if (from == Status.Suspended) return to == Status.Trading || to == Status.Delisted;
+        return false;
+    }
+
+    /// @notice Lets `viewer` decrypt the token's valuation and share count.
+    function grantViewer(uint256 tokenId, address viewer) external tokenExists(tokenId) onlyIssuer(tokenId) {
+        if (!isQualified(viewer)) revert NotQualified();
+        EquityToken storage token = tokens[tokenId];
+        FHE.allow(token.encryptedValuation, viewer);
+        FHE.allow(token.encryptedShares, viewer);
+        emit ViewerGranted(tokenId, viewer);
+    }
+
+    function tokenStatus(uint256 tokenId) external view tokenExists(tokenId) returns (Status) {
+        return tokens[tokenId].status;
+    }
+
+    /// @notice Hands a token's valuation and share count to the analytics contract for
+    /// the current transaction only, so derived metrics never need access to the raw values.
+    function analyticsInputs(uint256 tokenId) external tokenExists(tokenId) returns (euint64 valuation, euint64 shares) {
+        if (analytics == address(0) || msg.sender != analytics) revert NotAnalytics();
+        EquityToken storage token = tokens[tokenId];
+        valuation = FHE.allowTransient(token.encryptedValuation, msg.sender);
+        shares = FHE.allowTransient(token.encryptedShares, msg.sender);
+    }
+
+    /// @notice Hands the listed token count and the summed valuation and share count of listed
+    /// tokens, as they stood just before `closesAt`, to the analytics contract for the current
+    /// transaction only. Both handles are uninitialized if no token had been approved by then.
+    function marketInputs(uint256 closesAt) external returns (uint256 listings, euint64 valuation, euint64 shares) {
+        if (analytics == address(0) || msg.sender != analytics) revert NotAnalytics();
+        // Checkpoints are in time order; find the last one taken before `closesAt`
+        uint256 low = 0;
+        uint256 high = marketCheckpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (marketCheckpoints[mid].at < closesAt) low = mid + 1;
+            else high = mid;
+        }
+        if (low == 0) return (0, valuation, shares);
+        MarketCheckpoint storage checkpoint = marketCheckpoints[low - 1];
+        listings = checkpoint.listings;
+        valuation = FHE.allowTransient(checkpoint.valuation, msg.sender);
+        shares = FHE.allowTransient(checkpoint.shares, msg.sender);
+    }
+
+    function issuerOf(uint256 tokenId) external view tokenExists(tokenId) returns (address) {
+        return tokens[tokenId].issuer;
+    }
+
+    /// @notice Every status change of a token, oldest first.
+    function getStatusHistory(uint256 tokenId) external view tokenExists(tokenId) returns (StatusChange[] memory) {
+        return statusHistory[tokenId];
+    }
+
+    function getToken(uint256 tokenId) external view tokenExists(tokenId) returns (EquityToken memory) {
+        return tokens[tokenId];
+    }
+
+    /// @notice Returns up to `limit` tokens, starting at id `offset + 1` and going up.
+    function getTokens(uint256 offset, uint256 limit) external view returns (EquityToken[] memory page) {
+        if (offset >= tokenCount) {
+            return new EquityToken[](0);
+        }
+        uint256 end = offset + limit > tokenCount ? tokenCount : offset + limit;
+        page = new EquityToken[](end - offset);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = tokens[offset + i + 1];
+        }
+    }
+
+    function getIssuerTokens(address issuer) external view returns (uint256[] memory) {
+        return issuerTokens[issuer];
+    }
+
+    /// @dev `from` is the status the caller's action starts from; Trading is reachable
+    /// from both Approved and Suspended by different roles, so the edge alone is not enough.
+    function _transition(uint256 tokenId, Status from, Status to, string memory reason) private {
+        EquityToken storage token = tokens[tokenId];
+        if (token.status != from || !canTransition(from, to)) revert InvalidStatus();
+        token.status = to;
+        token.updatedAt = uint64(block.timestamp);
+        statusHistory[tokenId].push(
+            StatusChange({
+                previousStatus: from,
+                newStatus: to,
+                changedBy: msg.sender,
+                changedAt: uint64(block.timestamp),
+                reason: reason
+            })
+        );
+        emit TokenStatusChanged(tokenId, from, to, msg.sender, reason);
+
+        // Approval lists a token and delisting removes it; other moves stay within the listed set
+        if (to == Status.Approved) {
+            listedCount++;
+            listedValuation = FHE.add(listedValuation, token.encryptedValuation);
+            listedShares = FHE.add(listedShares, token.encryptedShares);
+        } else if (to == Status.Delisted) {
+            listedCount--;
+            listedValuation = FHE.sub(listedValuation, token.encryptedValuation);
+            listedShares = FHE.sub(listedShares, token.encryptedShares);
+        } else {
+            return;
+        }
+        FHE.allowThis(listedValuation);
+        FHE.allowThis(listedShares);
+
+        // One checkpoint per block, so the totals at any period's close can be looked up later
+        uint256 count = marketCheckpoints.length;
+        MarketCheckpoint memory checkpoint = MarketCheckpoint({
+            at: uint64(block.timestamp),
+            listings: listedCount,
+            valuation: listedValuation,
+            shares: listedShares
+        });
+        if (count > 0 && marketCheckpoints[count - 1].at == block.timestamp) {
+            marketCheckpoints[count - 1] = checkpoint;
+        } else {
+            marketCheckpoints.push(checkpoint);
+        }
+    }
+}
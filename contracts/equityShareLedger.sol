@@ -0,0 +1,252 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+
+
+interface IVestingSchedule {
+    function lockedBalance(uint256 tokenId, address holder) external returns (euint64);
+}
+
+interface ITransferCompliance {
+    function canTransfer(
+        uint256 tokenId,
+        address from,
+        address to
+    ) external view returns (bool allowed, string memory rule, string memory reason);
+
+    function transferred(uint256 tokenId, address from, address to) external;
+}
+
+/// @notice Encrypted share balances for every registry token, following ERC-7984
+/// semantics: a transfer larger than the sender's balance moves an encrypted zero
+/// instead of reverting, so failed transfers leak nothing.
+///
+/// Shares move freely while their token is trading. An approved token's shares can only
+/// leave its issuer, for primary sales such as fundraising rounds, auctions and grants;
+/// pending, rejected, suspended and delisted tokens' shares cannot move at all.
+///
+/// When the registry names a transfer compliance engine, every transfer must pass the token's
+/// rules there; a rejected transfer reverts, since rules only ever see the parties. Rules keep
+/// records of who received shares, so under an engine a transfer must also be one its recipient
+/// takes part in: the issuer sends or receives it, the recipient makes it itself or through one
+/// of its operators, or the recipient has accepted transfers from the sender. Otherwise anyone
+/// could send an encrypted zero to make a rule record a receipt that never happened.
+///
+/// When the registry names a vesting contract, only the vested part of a balance can move;
+/// a transfer of unvested shares moves an encrypted zero like any other oversized transfer.
+///
+/// The distributions contract can snapshot a token's balances. A balance is checkpointed
+/// the first time it changes after a snapshot, so holdings at any snapshot stay readable.
+contract EquityShareLedger is SepoliaConfig {
+    using FHE for euint64;
+
+    struct Checkpoint {
+        uint256 snapshotId;
+        euint64 balance;
+    }
+
+    EquityRegistry public immutable registry;
+    mapping(uint256 => mapping(address => euint64)) private balances;
+    mapping(uint256 => euint64) private totalSupplies;
+    mapping(address => mapping(address => uint48)) private operators;
+    // Recipient => sender => until
+    mapping(address => mapping(address => uint48)) private acceptances;
+    mapping(uint256 => uint256) public currentSnapshotId;
+    // Balances as they stood at each snapshot, in ascending snapshot order
+    mapping(uint256 => mapping(address => Checkpoint[])) private checkpoints;
+
+    event ConfidentialTransfer(uint256 indexed tokenId, address indexed from, address indexed to, euint64 amount);
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event TransfersAccepted(address indexed recipient, address indexed sender, uint48 until);
+    event Snapshot(uint256 indexed tokenId, uint256 indexed snapshotId);
+
+    error NotRegistry();
+    error AlreadyIssued();
+    error InvalidReceiver();
+    error UnauthorizedSpender();
+    error NotQualified();
+    error UnauthorizedAmount();
+    error NotDistributions();
+    error UnknownSnapshot();
+    error TransferRestricted();
+    error ReceiptNotAccepted();
+    error NotTransferable();
+
+    constructor(EquityRegistry registry_) {
+        registry = registry_;
+    }
+
+    /// @notice Credits a newly issued token's full share count to its issuer.
+    /// Called by the registry, which grants this contract access to `shares` first.
+    function mintIssuance(uint256 tokenId, address issuer, euint64 shares) external {
+        if (msg.sender != address(registry)) revert NotRegistry();
+        if (FHE.isInitialized(totalSupplies[tokenId])) revert AlreadyIssued();
+
+        totalSupplies[tokenId] = shares;
+        FHE.allowThis(shares);
+        _setBalance(tokenId, issuer, shares);
+        emit ConfidentialTransfer(tokenId, address(0), issuer, shares);
+    }
+
+    /// @notice Lets `operator` move any of the caller's shares until the `until` timestamp.
+    function setOperator(address operator, uint48 until) external {
+        operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= operators[holder][spender];
+    }
+
+    /// @notice Accepts shares sent by `sender` until the `until` timestamp, for tokens under a
+    /// transfer compliance engine.
+    function acceptTransfersFrom(address sender, uint48 until) external {
+        acceptances[msg.sender][sender] = until;
+        emit TransfersAccepted(msg.sender, sender, until);
+    }
+
+    /// @notice Whether `to` takes part in a transfer of `from`'s shares made by `caller`.
+    function acceptsTransfer(uint256 tokenId, address caller, address from, address to) public view returns (bool) {
+        address issuer = registry.issuerOf(tokenId);
+        return
+            from == issuer ||
+            to == issuer ||
+            isOperator(to, caller) ||
+            block.timestamp <= acceptances[to][from];
+    }
+
+    function confidentialBalanceOf(uint256 tokenId, address account) external view returns (euint64) {
+        return balances[tokenId][account];
+    }
+
+    function confidentialTotalSupply(uint256 tokenId) external view returns (euint64) {
+        return totalSupplies[tokenId];
+    }
+
+    function confidentialTransfer(
+        uint256 tokenId,
+        address to,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        transferred = _transfer(tokenId, msg.sender, to, FHE.fromExternal(amountInput, inputProof));
+    }
+
+    function confidentialTransferFrom(
+        uint256 tokenId,
+        address from,
+        address to,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender();
+        transferred = _transfer(tokenId, from, to, FHE.fromExternal(amountInput, inputProof));
+        FHE.allow(transferred, msg.sender);
+    }
+
+    /// @notice Operator transfer of an amount computed on-chain, such as a fundraising allocation.
+    /// The caller must already be allowed to use `amount`.
+    function operatorTransfer(
+        uint256 tokenId,
+        address from,
+        address to,
+        euint64 amount
+    ) external returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender();
+        transferred = _transfer(tokenId, from, to, amount);
+        FHE.allow(transferred, msg.sender);
+    }
+
+    /// @notice Hands the part of `holder`'s balance that can move now, net of unvested shares,
+    /// to one of the holder's operators for the current transaction, so it can size a transfer
+    /// that will not fall back to an encrypted zero.
+    function unlockedBalanceFor(uint256 tokenId, address holder) external returns (euint64 unlocked) {
+        if (!isOperator(holder, msg.sender)) revert UnauthorizedSpender();
+        euint64 balance = balances[tokenId][holder];
+        unlocked = FHE.isInitialized(balance) ? _unlockedBalance(tokenId, holder, balance) : FHE.asEuint64(0);
+        FHE.allowTransient(unlocked, msg.sender);
+    }
+
+    /// @notice Records the token's balances as they stand now and hands its total supply to
+    /// the distributions contract for the current transaction. The supply is fixed at issuance,
+    /// so it needs no snapshot of its own.
+    function snapshot(uint256 tokenId) external returns (uint256 snapshotId, euint64 totalSupply) {
+        if (msg.sender != registry.distributions()) revert NotDistributions();
+        snapshotId = ++currentSnapshotId[tokenId];
+        totalSupply = totalSupplies[tokenId];
+        if (FHE.isInitialized(totalSupply)) FHE.allowTransient(totalSupply, msg.sender);
+        emit Snapshot(tokenId, snapshotId);
+    }
+
+    /// @notice Hands `account`'s balance at a snapshot to the distributions contract for the
+    /// current transaction. Uninitialized when the account held nothing then.
+    function balanceAt(uint256 tokenId, address account, uint256 snapshotId) external returns (euint64 balance) {
+        if (msg.sender != registry.distributions()) revert NotDistributions();
+        if (snapshotId == 0 || snapshotId > currentSnapshotId[tokenId]) revert UnknownSnapshot();
+
+        // The first checkpoint at or after the snapshot holds the balance from before the
+        // next change; without one the balance has not changed since
+        Checkpoint[] storage history = checkpoints[tokenId][account];
+        uint256 low = 0;
+        uint256 high = history.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (history[mid].snapshotId < snapshotId) low = mid + 1;
+            else high = mid;
+        }
+        balance = low == history.length ? balances[tokenId][account] : history[low].balance;
+        if (FHE.isInitialized(balance)) FHE.allowTransient(balance, msg.sender);
+    }
+
+    function _transfer(uint256 tokenId, address from, address to, euint64 amount) private returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidReceiver();
+        EquityRegistry.Status status = registry.tokenStatus(tokenId);
+        if (
+            status != EquityRegistry.Status.Trading &&
+            (status != EquityRegistry.Status.Approved || from != registry.issuerOf(tokenId))
+        ) revert NotTransferable();
+        if (!registry.isQualified(from) || !registry.isQualified(to)) revert NotQualified();
+        ITransferCompliance compliance = ITransferCompliance(registry.transferCompliance());
+        if (address(compliance) != address(0)) {
+            if (!acceptsTransfer(tokenId, msg.sender, from, to)) revert ReceiptNotAccepted();
+            (bool allowed, , ) = compliance.canTransfer(tokenId, from, to);
+            if (!allowed) revert TransferRestricted();
+        }
+
+        euint64 fromBalance = balances[tokenId][from];
+        ebool sufficient = amount.le(_unlockedBalance(tokenId, from, fromBalance));
+        transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
+        _setBalance(tokenId, from, fromBalance.sub(transferred));
+        _setBalance(tokenId, to, balances[tokenId][to].add(transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        emit ConfidentialTransfer(tokenId, from, to, transferred);
+        if (address(compliance) != address(0)) compliance.transferred(tokenId, from, to);
+    }
+
+    function _unlockedBalance(uint256 tokenId, address account, euint64 balance) private returns (euint64) {
+        address vesting = registry.vesting();
+        if (vesting == address(0)) return balance;
+        euint64 locked = IVestingSchedule(vesting).lockedBalance(tokenId, account);
+        if (!FHE.isInitialized(locked)) return balance;
+        return balance.sub(locked.min(balance));
+    }
+
+    function _setBalance(uint256 tokenId, address account, euint64 balance) private {
+        uint256 snapshotId = currentSnapshotId[tokenId];
+        Checkpoint[] storage history = checkpoints[tokenId][account];
+        if (snapshotId != 0 && (history.length == 0 || history[history.length - 1].snapshotId < snapshotId)) {
+            history.push(Checkpoint(snapshotId, balances[tokenId][account]));
+        }
+
+        balances[tokenId][account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,212 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EquityRegistry } from "./equityRegistry.sol";
+import { EquityShareLedger } from "./equityShareLedger.sol";
+
+
+/// @notice Vesting and lock-up schedules over encrypted share grants. The issuer grants a
+/// holder an encrypted number of shares, which move from the issuer on the share ledger at
+/// once but stay locked until they vest:
+///   Cliff      everything unlocks at `cliff` (a plain lock-up)
+///   Linear     nothing until `cliff`, then pro rata between `start` and `end`
+///   Milestone  an equal tranche each time the issuer marks a milestone complete
+///
+/// The ledger asks lockedBalance on every transfer and only lets the rest of a balance
+/// move. Schedules are public; granted amounts are readable by the holder and issuer only.
+contract EquityVesting is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    // Bounds the work every ledger transfer does for a holder
+    uint256 public constant MAX_GRANTS = 8;
+    uint8 public constant MAX_MILESTONES = 12;
+
+    enum ScheduleKind {
+        Cliff,
+        Linear,
+        Milestone
+    }
+
+    struct Grant {
+        uint256 id;
+        uint256 tokenId;
+        address holder;
+        address issuer;
+        ScheduleKind kind;
+        uint64 start;
+        uint64 cliff;
+        uint64 end;
+        uint8 milestoneCount;
+        uint8 milestonesCompleted;
+        // What actually moved from the issuer; zero when the issuer's balance fell short
+        euint64 amount;
+    }
+
+    EquityRegistry public immutable registry;
+    uint256 public grantCount;
+    mapping(uint256 => Grant) private grants;
+    mapping(uint256 => mapping(address => uint256[])) private holderGrants;
+
+    event GrantCreated(
+        uint256 indexed grantId,
+        uint256 indexed tokenId,
+        address indexed holder,
+        ScheduleKind kind,
+        uint64 start,
+        uint64 cliff,
+        uint64 end,
+        uint8 milestoneCount,
+        euint64 amount
+    );
+    event MilestoneCompleted(uint256 indexed grantId, uint8 milestonesCompleted);
+
+    error NotTokenIssuer();
+    error NotShareLedger();
+    error NoShareLedger();
+    error InvalidSchedule();
+    error TooManyGrants();
+    error UnknownGrant();
+    error NotMilestoneGrant();
+    error AllMilestonesCompleted();
+
+    modifier grantExists(uint256 grantId) {
+        if (grantId == 0 || grantId > grantCount) revert UnknownGrant();
+        _;
+    }
+
+    constructor(EquityRegistry registry_) {
+        registry = registry_;
+    }
+
+    /// @notice Grants shares that all unlock at `unlockAt`.
+    function createCliffGrant(
+        uint256 tokenId,
+        address holder,
+        uint64 unlockAt,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (unlockAt <= block.timestamp) revert InvalidSchedule();
+        return _createGrant(tokenId, holder, ScheduleKind.Cliff, unlockAt, unlockAt, unlockAt, 0, amountInput, inputProof);
+    }
+
+    /// @notice Grants shares that vest linearly from `start` to `end`, none before `cliff`.
+    function createLinearGrant(
+        uint256 tokenId,
+        address holder,
+        uint64 start,
+        uint64 cliff,
+        uint64 end,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (start >= end || cliff < start || cliff > end || end <= block.timestamp) revert InvalidSchedule();
+        return _createGrant(tokenId, holder, ScheduleKind.Linear, start, cliff, end, 0, amountInput, inputProof);
+    }
+
+    /// @notice Grants shares that vest in `milestoneCount` equal tranches as the issuer
+    /// completes milestones.
+    function createMilestoneGrant(
+        uint256 tokenId,
+        address holder,
+        uint8 milestoneCount,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        if (milestoneCount == 0 || milestoneCount > MAX_MILESTONES) revert InvalidSchedule();
+        return _createGrant(tokenId, holder, ScheduleKind.Milestone, 0, 0, 0, milestoneCount, amountInput, inputProof);
+    }
+
+    function completeMilestone(uint256 grantId) external grantExists(grantId) {
+        Grant storage grant = grants[grantId];
+        if (grant.issuer != msg.sender) revert NotTokenIssuer();
+        if (grant.kind != ScheduleKind.Milestone) revert NotMilestoneGrant();
+        if (grant.milestonesCompleted == grant.milestoneCount) revert AllMilestonesCompleted();
+        grant.milestonesCompleted++;
+        emit MilestoneCompleted(grantId, grant.milestonesCompleted);
+    }
+
+    /// @notice Hands the holder's still-locked shares of a token to the share ledger for the
+    /// current transaction. Uninitialized when nothing is locked.
+    function lockedBalance(uint256 tokenId, address holder) external returns (euint64 locked) {
+        if (msg.sender != address(registry.shareLedger())) revert NotShareLedger();
+        uint256[] storage ids = holderGrants[tokenId][holder];
+        for (uint256 i = 0; i < ids.length; i++) {
+            Grant storage grant = grants[ids[i]];
+            (uint64 vested, uint64 total) = _vestedFraction(grant);
+            if (vested == total) continue;
+            euint64 unvested = grant.amount.sub(_portion(grant.amount, vested, total));
+            locked = FHE.isInitialized(locked) ? locked.add(unvested) : unvested;
+        }
+        if (FHE.isInitialized(locked)) FHE.allowTransient(locked, msg.sender);
+    }
+
+    /// @notice The vested share of a grant right now, as numerator over denominator.
+    function vestedFraction(uint256 grantId) external view grantExists(grantId) returns (uint64, uint64) {
+        return _vestedFraction(grants[grantId]);
+    }
+
+    function getGrant(uint256 grantId) external view grantExists(grantId) returns (Grant memory) {
+        return grants[grantId];
+    }
+
+    function getHolderGrants(uint256 tokenId, address holder) external view returns (uint256[] memory) {
+        return holderGrants[tokenId][holder];
+    }
+
+    function _createGrant(
+        uint256 tokenId,
+        address holder,
+        ScheduleKind kind,
+        uint64 start,
+        uint64 cliff,
+        uint64 end,
+        uint8 milestoneCount,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) private returns (uint256 grantId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        if (holderGrants[tokenId][holder].length >= MAX_GRANTS) revert TooManyGrants();
+        EquityShareLedger ledger = EquityShareLedger(address(registry.shareLedger()));
+        if (address(ledger) == address(0)) revert NoShareLedger();
+
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        FHE.allowTransient(amount, address(ledger));
+        euint64 granted = ledger.operatorTransfer(tokenId, msg.sender, holder, amount);
+        FHE.allowThis(granted);
+        FHE.allow(granted, holder);
+        FHE.allow(granted, msg.sender);
+
+        grantId = ++grantCount;
+        grants[grantId] = Grant({
+            id: grantId,
+            tokenId: tokenId,
+            holder: holder,
+            issuer: msg.sender,
+            kind: kind,
+            start: start,
+            cliff: cliff,
+            end: end,
+            milestoneCount: milestoneCount,
+            milestonesCompleted: 0,
+            amount: granted
+        });
+        holderGrants[tokenId][holder].push(grantId);
+        emit GrantCreated(grantId, tokenId, holder, kind, start, cliff, end, milestoneCount, granted);
+    }
+
+    function _vestedFraction(Grant storage grant) private view returns (uint64, uint64) {
+        if (grant.kind == ScheduleKind.Milestone) return (grant.milestonesCompleted, grant.milestoneCount);
+        if (block.timestamp < grant.cliff) return (0, 1);
+        if (block.timestamp >= grant.end) return (1, 1);
+        return (uint64(block.timestamp) - grant.start, grant.end - grant.start);
+    }
+
+    /// @dev amount * numerator / denominator, widened so the product cannot overflow.
+    function _portion(euint64 amount, uint64 numerator, uint64 denominator) private returns (euint64) {
+        if (numerator == 0) return FHE.asEuint64(0);
+        return FHE.asEuint64(FHE.asEuint128(amount).mul(uint128(numerator)).div(uint128(denominator)));
+    }
+}
@@ -0,0 +1,75 @@
+pragma solidity ^0.8.24;
+
+
+/// @notice On-chain allowlist of qualified investors. Each entry records the KYC
+/// attestation's expiry and the investor's jurisdiction as an ISO 3166-1 numeric code.
+contract InvestorRegistry {
+    struct Investor {
+        uint16 jurisdiction;
+        uint64 attestedAt;
+        uint64 expiresAt;
+        bool revoked;
+    }
+
+    address public owner;
+    mapping(address => Investor) private investors;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event InvestorAttested(address indexed investor, uint16 jurisdiction, uint64 expiresAt);
+    event InvestorRevoked(address indexed investor);
+
+    error NotOwner();
+    error InvalidInvestor();
+    error InvalidJurisdiction();
+    error InvalidExpiry();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Adds an investor, or renews an existing or revoked attestation.
+    function attestInvestor(address investor, uint16 jurisdiction, uint64 expiresAt) external onlyOwner {
+        if (investor == address(0)) revert InvalidInvestor();
+        if (jurisdiction == 0 || jurisdiction > 999) revert InvalidJurisdiction();
+        if (expiresAt <= block.timestamp) revert InvalidExpiry();
+
+        investors[investor] = Investor({
+            jurisdiction: jurisdiction,
+            attestedAt: uint64(block.timestamp),
+            expiresAt: expiresAt,
+            revoked: false
+        });
+        emit InvestorAttested(investor, jurisdiction, expiresAt);
+    }
+
+    function revokeInvestor(address investor) external onlyOwner {
+        Investor storage entry = investors[investor];
+        if (entry.attestedAt == 0 || entry.revoked) revert InvalidInvestor();
+        entry.revoked = true;
+        emit InvestorRevoked(investor);
+    }
+
+    /// @notice True while the investor's attestation is neither revoked nor expired.
+    function isQualified(address investor) external view returns (bool) {
+        Investor storage entry = investors[investor];
+        return !entry.revoked && block.timestamp < entry.expiresAt;
+    }
+
+    function jurisdictionOf(address investor) external view returns (uint16) {
+        return investors[investor].jurisdiction;
+    }
+
+    function getInvestor(address investor) external view returns (Investor memory) {
+        return investors[investor];
+    }
+}
@@ -1,15 +1,18 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { InvestorRegistry } from "./investorRegistry.sol";
 
 
 contract PrivateEquityFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
     address public owner;
     mapping(address => bool) public isProvider;
+    InvestorRegistry public investorRegistry;
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
@@ -18,8 +21,8 @@ contract PrivateEquityFHE is SepoliaConfig {
     struct Batch {
         uint256 id;
         bool isOpen;
-        uint256 totalEncryptedShares;
-        uint256 totalEncryptedValue;
+        euint32 totalEncryptedShares;
+        euint64 totalEncryptedValue;
     }
     uint256 public currentBatchId;
     mapping(uint256 => Batch) public batches;
@@ -40,23 +43,23 @@ contract PrivateEquityFHE is SepoliaConfig {
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
+    event InvestorRegistryUpdated(address indexed previousRegistry, address indexed newRegistry);
     event PauseToggled(bool indexed paused);
     event CooldownSecondsUpdated(uint256 indexed oldCooldown, uint256 indexed newCooldown);
     event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId, uint256 totalEncryptedShares, uint256 totalEncryptedValue);
+    event BatchClosed(uint256 indexed batchId, euint32 totalEncryptedShares, euint64 totalEncryptedValue);
     event SharesSubmitted(address indexed provider, uint256 indexed batchId, euint32 encryptedShares, euint32 encryptedValuePerShare);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
     event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 totalShares, uint256 totalValue);
 
     error NotOwner();
     error NotProvider();
+    error NotQualified();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
     error InvalidBatch();
     error ReplayAttempt();
     error StateMismatch();
-    error DecryptionFailed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -68,6 +71,13 @@ contract PrivateEquityFHE is SepoliaConfig {
         _;
     }
 
+    modifier onlyQualified() {
+        if (address(investorRegistry) != address(0) && !investorRegistry.isQualified(msg.sender)) {
+            revert NotQualified();
+        }
+        _;
+    }
+
     modifier whenNotPaused() {
         if (paused) revert Paused();
         _;
@@ -113,6 +123,12 @@ contract PrivateEquityFHE is SepoliaConfig {
         }
     }
 
+    /// @notice Requires providers to hold a live investor attestation; zero disables the check.
+    function setInvestorRegistry(InvestorRegistry newRegistry) external onlyOwner {
+        emit InvestorRegistryUpdated(address(investorRegistry), address(newRegistry));
+        investorRegistry = newRegistry;
+    }
+
     function setPaused(bool _paused) external onlyOwner {
         paused = _paused;
         emit PauseToggled(_paused);
@@ -125,7 +141,11 @@ contract PrivateEquityFHE is SepoliaConfig {
 
     function openBatch() external onlyOwner whenNotPaused {
         currentBatchId++;
-        batches[currentBatchId] = Batch(currentBatchId, true, 0, 0);
+        euint32 totalShares = FHE.asEuint32(0);
+        euint64 totalValue = FHE.asEuint64(0);
+        FHE.allowThis(totalShares);
+        FHE.allowThis(totalValue);
+        batches[currentBatchId] = Batch(currentBatchId, true, totalShares, totalValue);
         emit BatchOpened(currentBatchId);
     }
 
@@ -138,34 +158,38 @@ contract PrivateEquityFHE is SepoliaConfig {
         emit BatchClosed(batchId, batch.totalEncryptedShares, batch.totalEncryptedValue);
     }
 
-    function _initIfNeeded(euint32 value) internal {
-        if (!value.isInitialized()) {
-            value.asEuint32(0);
-        }
-    }
-
     function submitEncryptedShares(
         uint256 batchId,
-        euint32 encryptedShares,
-        euint32 encryptedValuePerShare
-    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
+        externalEuint32 encryptedSharesInput,
+        externalEuint32 encryptedValuePerShareInput,
+        bytes calldata inputProof
+    ) external onlyProvider onlyQualified whenNotPaused checkSubmissionCooldown {
         if (batchId == 0 || batchId > currentBatchId || !batches[batchId].isOpen) {
             revert InvalidBatch();
         }
-        _initIfNeeded(encryptedShares);
-        _initIfNeeded(encryptedValuePerShare);
+        euint32 encryptedShares = FHE.fromExternal(encryptedSharesInput, inputProof);
+        euint32 encryptedValuePerShare = FHE.fromExternal(encryptedValuePerShareInput, inputProof);
+        FHE.allowThis(encryptedShares);
+        FHE.allowThis(encryptedValuePerShare);
+        FHE.allow(encryptedShares, msg.sender);
+        FHE.allow(encryptedValuePerShare, msg.sender);
 
         batchShares[batchId][msg.sender] = EncryptedShare(encryptedShares, encryptedValuePerShare);
 
         Batch storage batch = batches[batchId];
         batch.totalEncryptedShares = batch.totalEncryptedShares.add(encryptedShares);
-        batch.totalEncryptedValue = batch.totalEncryptedValue.add(encryptedShares.mul(encryptedValuePerShare));
+        // Widen before multiplying so shares * price cannot wrap at 2^32
+        batch.totalEncryptedValue = batch.totalEncryptedValue.add(
+            encryptedShares.asEuint64().mul(encryptedValuePerShare.asEuint64())
+        );
+        FHE.allowThis(batch.totalEncryptedShares);
+        FHE.allowThis(batch.totalEncryptedValue);
 
         lastSubmissionTime[msg.sender] = block.timestamp;
         emit SharesSubmitted(msg.sender, batchId, encryptedShares, encryptedValuePerShare);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
@@ -175,12 +199,9 @@ contract PrivateEquityFHE is SepoliaConfig {
         }
 
         Batch storage batch = batches[batchId];
-        euint32 memory totalSharesEnc = batch.totalEncryptedShares;
-        euint32 memory totalValueEnc = batch.totalEncryptedValue;
-
         bytes32[] memory cts = new bytes32[](2);
-        cts[0] = totalSharesEnc.toBytes32();
-        cts[1] = totalValueEnc.toBytes32();
+        cts[0] = FHE.toBytes32(batch.totalEncryptedShares);
+        cts[1] = FHE.toBytes32(batch.totalEncryptedValue);
 
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
@@ -205,24 +226,18 @@ contract PrivateEquityFHE is SepoliaConfig {
         }
 
         Batch storage batch = batches[batchId];
-        euint32 memory totalSharesEnc = batch.totalEncryptedShares;
-        euint32 memory totalValueEnc = batch.totalEncryptedValue;
-
         bytes32[] memory cts = new bytes32[](2);
-        cts[0] = totalSharesEnc.toBytes32();
-        cts[1] = totalValueEnc.toBytes32();
+        cts[0] = FHE.toBytes32(batch.totalEncryptedShares);
+        cts[1] = FHE.toBytes32(batch.totalEncryptedValue);
 
         bytes32 currentHash = _hashCiphertexts(cts);
         if (currentHash != decryptionContexts[requestId].stateHash) {
             revert StateMismatch();
         }
 
-        try FHE.checkSignatures(requestId, cleartexts, proof) {} catch {
-            revert DecryptionFailed();
-        }
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256 totalSharesCleartext = abi.decode(cleartexts, (uint256));
-        uint256 totalValueCleartext = abi.decode(cleartexts[32:], (uint256));
+        (uint32 totalSharesCleartext, uint64 totalValueCleartext) = abi.decode(cleartexts, (uint32, uint64));
 
         decryptionContexts[requestId].processed = true;
         emit DecryptionCompleted(requestId, batchId, totalSharesCleartext, totalValueCleartext);
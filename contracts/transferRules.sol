@@ -0,0 +1,240 @@
+pragma solidity ^0.8.24;
+
+import { EquityRegistry } from "./equityRegistry.sol";
+
+
+/// @notice A transfer restriction module. The compliance engine asks every rule attached to a
+/// token before shares move and tells it afterwards, so rules can keep their own records.
+/// Amounts are encrypted, so rules only ever see the parties.
+interface ITransferRule {
+    function name() external view returns (string memory);
+
+    /// @notice Whether the rule lets `from` send shares of `tokenId` to `to`; a short
+    /// reason when it does not.
+    function check(uint256 tokenId, address from, address to) external view returns (bool allowed, string memory reason);
+
+    /// @notice Called once shares have moved. The ledger only lets shares reach a recipient
+    /// that takes part in the transfer, so a receipt reported here was wanted by `to`.
+    function transferred(uint256 tokenId, address from, address to) external;
+}
+
+/// @notice Shared plumbing for rules: each rule serves every token, configured by its issuer.
+abstract contract TransferRule is ITransferRule {
+    EquityRegistry public immutable registry;
+
+    error NotTokenIssuer();
+    error NotCompliance();
+
+    modifier onlyIssuer(uint256 tokenId) {
+        if (registry.issuerOf(tokenId) != msg.sender) revert NotTokenIssuer();
+        _;
+    }
+
+    modifier onlyCompliance() {
+        if (msg.sender != registry.transferCompliance()) revert NotCompliance();
+        _;
+    }
+
+    constructor(EquityRegistry registry_) {
+        registry = registry_;
+    }
+
+    function transferred(uint256, address, address) external virtual onlyCompliance {}
+
+    function _isIssuer(uint256 tokenId, address account) internal view returns (bool) {
+        return registry.issuerOf(tokenId) == account;
+    }
+}
+
+/// @notice Only lets shares go to investors attested in an allowed jurisdiction, using the
+/// ISO 3166-1 numeric codes recorded in the investor registry.
+contract JurisdictionRule is TransferRule {
+    mapping(uint256 => mapping(uint16 => bool)) public isAllowed;
+
+    event JurisdictionsUpdated(uint256 indexed tokenId, uint16[] jurisdictions, bool allowed);
+
+    constructor(EquityRegistry registry_) TransferRule(registry_) {}
+
+    function name() external pure returns (string memory) {
+        return "Jurisdiction allowlist";
+    }
+
+    function setJurisdictions(uint256 tokenId, uint16[] calldata jurisdictions, bool allowed) external onlyIssuer(tokenId) {
+        for (uint256 i = 0; i < jurisdictions.length; i++) {
+            isAllowed[tokenId][jurisdictions[i]] = allowed;
+        }
+        emit JurisdictionsUpdated(tokenId, jurisdictions, allowed);
+    }
+
+    function check(uint256 tokenId, address, address to) external view returns (bool, string memory) {
+        if (address(registry.investorRegistry()) == address(0)) return (false, "No investor registry to look up jurisdictions");
+        if (!isAllowed[tokenId][registry.investorRegistry().jurisdictionOf(to)]) {
+            return (false, "Recipient's jurisdiction is not allowed");
+        }
+        return (true, "");
+    }
+}
+
+/// @notice Caps the number of holders of record. Balances are encrypted, so an account
+/// counts as a holder from the first time it receives shares; the issuer never counts.
+/// A cap of 0, the default, means the rule only counts holders.
+contract MaxHoldersRule is TransferRule {
+    mapping(uint256 => uint256) public maxHolders;
+    mapping(uint256 => uint256) public holderCount;
+    mapping(uint256 => mapping(address => bool)) public isHolder;
+
+    event MaxHoldersUpdated(uint256 indexed tokenId, uint256 maxHolders);
+
+    constructor(EquityRegistry registry_) TransferRule(registry_) {}
+
+    function name() external pure returns (string memory) {
+        return "Maximum holders";
+    }
+
+    function setMaxHolders(uint256 tokenId, uint256 max) external onlyIssuer(tokenId) {
+        maxHolders[tokenId] = max;
+        emit MaxHoldersUpdated(tokenId, max);
+    }
+
+    function check(uint256 tokenId, address, address to) external view returns (bool, string memory) {
+        if (isHolder[tokenId][to] || _isIssuer(tokenId, to)) return (true, "");
+        uint256 max = maxHolders[tokenId];
+        if (max != 0 && holderCount[tokenId] >= max) return (false, "Token has reached its maximum number of holders");
+        return (true, "");
+    }
+
+    function transferred(uint256 tokenId, address, address to) external override onlyCompliance {
+        if (isHolder[tokenId][to] || _isIssuer(tokenId, to)) return;
+        isHolder[tokenId][to] = true;
+        holderCount[tokenId]++;
+    }
+}
+
+/// @notice Makes holders wait a minimum period after they last received shares before they
+/// can send any. Amounts are encrypted, so every receipt restarts the period for the whole
+/// holding. The issuer is exempt so primary distribution is never held up.
+contract HoldingPeriodRule is TransferRule {
+    mapping(uint256 => uint64) public holdingPeriod;
+    mapping(uint256 => mapping(address => uint64)) public lastAcquired;
+
+    event HoldingPeriodUpdated(uint256 indexed tokenId, uint64 holdingPeriod);
+
+    constructor(EquityRegistry registry_) TransferRule(registry_) {}
+
+    function name() external pure returns (string memory) {
+        return "Holding period";
+    }
+
+    function setHoldingPeriod(uint256 tokenId, uint64 period) external onlyIssuer(tokenId) {
+        holdingPeriod[tokenId] = period;
+        emit HoldingPeriodUpdated(tokenId, period);
+    }
+
+    function check(uint256 tokenId, address from, address) external view returns (bool, string memory) {
+        if (_isIssuer(tokenId, from)) return (true, "");
+        if (block.timestamp < lastAcquired[tokenId][from] + holdingPeriod[tokenId]) {
+            return (false, "Sender's holding period has not ended");
+        }
+        return (true, "");
+    }
+
+    function transferred(uint256 tokenId, address, address to) external override onlyCompliance {
+        lastAcquired[tokenId][to] = uint64(block.timestamp);
+    }
+}
+
+/// @notice Gives the issuer first refusal on secondary sales. A holder gives notice of a sale
+/// to a named buyer; the transfer may go ahead once the issuer waives or the response window
+/// passes, unless the issuer exercises the right. An exercised notice stands until the issuer
+/// clears it, so the seller cannot give notice again and wait out the window. Transfers to or
+/// from the issuer are exempt.
+contract RightOfFirstRefusalRule is TransferRule {
+    enum NoticeState {
+        None,
+        Pending,
+        Waived,
+        Exercised
+    }
+
+    struct Notice {
+        address buyer;
+        uint64 givenAt;
+        NoticeState state;
+    }
+
+    mapping(uint256 => uint64) public responseWindow;
+    mapping(uint256 => mapping(address => Notice)) private notices;
+
+    event ResponseWindowUpdated(uint256 indexed tokenId, uint64 responseWindow);
+    event SaleNoticeGiven(uint256 indexed tokenId, address indexed seller, address indexed buyer);
+    event SaleNoticeAnswered(uint256 indexed tokenId, address indexed seller, NoticeState state);
+
+    error NoPendingNotice();
+    error NoticeExercised();
+    error NoExercisedNotice();
+
+    constructor(EquityRegistry registry_) TransferRule(registry_) {}
+
+    function name() external pure returns (string memory) {
+        return "Right of first refusal";
+    }
+
+    function setResponseWindow(uint256 tokenId, uint64 window) external onlyIssuer(tokenId) {
+        responseWindow[tokenId] = window;
+        emit ResponseWindowUpdated(tokenId, window);
+    }
+
+    /// @notice Announces the caller's intent to sell to `buyer`, replacing any earlier notice
+    /// that the issuer has not exercised.
+    function giveNotice(uint256 tokenId, address buyer) external {
+        if (notices[tokenId][msg.sender].state == NoticeState.Exercised) revert NoticeExercised();
+        notices[tokenId][msg.sender] = Notice(buyer, uint64(block.timestamp), NoticeState.Pending);
+        emit SaleNoticeGiven(tokenId, msg.sender, buyer);
+    }
+
+    function waive(uint256 tokenId, address seller) external onlyIssuer(tokenId) {
+        _answer(tokenId, seller, NoticeState.Waived);
+    }
+
+    /// @notice Blocks the noticed sale; the issuer settles the purchase with the seller directly.
+    function exercise(uint256 tokenId, address seller) external onlyIssuer(tokenId) {
+        _answer(tokenId, seller, NoticeState.Exercised);
+    }
+
+    /// @notice Withdraws an exercised notice once the purchase is settled, letting the seller
+    /// give notice again.
+    function clearNotice(uint256 tokenId, address seller) external onlyIssuer(tokenId) {
+        if (notices[tokenId][seller].state != NoticeState.Exercised) revert NoExercisedNotice();
+        delete notices[tokenId][seller];
+        emit SaleNoticeAnswered(tokenId, seller, NoticeState.None);
+    }
+
+    function getNotice(uint256 tokenId, address seller) external view returns (Notice memory) {
+        return notices[tokenId][seller];
+    }
+
+    function check(uint256 tokenId, address from, address to) external view returns (bool, string memory) {
+        if (_isIssuer(tokenId, from) || _isIssuer(tokenId, to)) return (true, "");
+        Notice storage notice = notices[tokenId][from];
+        if (notice.buyer != to || notice.state == NoticeState.None) {
+            return (false, "Give the issuer notice of this sale first");
+        }
+        if (notice.state == NoticeState.Exercised) return (false, "The issuer exercised its right of first refusal");
+        if (notice.state == NoticeState.Pending && block.timestamp < notice.givenAt + responseWindow[tokenId]) {
+            return (false, "The issuer's response window is still open");
+        }
+        return (true, "");
+    }
+
+    /// @dev A notice covers one sale.
+    function transferred(uint256 tokenId, address from, address to) external override onlyCompliance {
+        if (notices[tokenId][from].buyer == to) delete notices[tokenId][from];
+    }
+
+    function _answer(uint256 tokenId, address seller, NoticeState state) private {
+        Notice storage notice = notices[tokenId][seller];
+        if (notice.state != NoticeState.Pending) revert NoPendingNotice();
+        notice.state = state;
+        emit SaleNoticeAnswered(tokenId, seller, state);
+    }
+}
@@ -1,112 +1,436 @@
-// deploy/deploy.ts
-import fs from "fs";
-import path from "path";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet } from "ethers";
-
-async function main() {
-  // --- 1. 定义文件路径 ---
-  // 私钥文件路径 (与此脚本同目录)
-  const privateKeysFile = path.join(__dirname, "sy.txt");
-  // CSV 输出文件路径 (与此脚本同目录)
-  const outputFile = path.join(__dirname, "bushu.csv");
-
-  // --- 2. 读取私钥 ---
-  if (!fs.existsSync(privateKeysFile)) {
-    console.error(`错误：未在 ${privateKeysFile} 找到私钥文件`);
-    process.exit(1);
-  }
-
-  const privateKeys = fs
-    .readFileSync(privateKeysFile, "utf8")
-    .split("\n")
-    .map((k) => k.trim())
-    .filter((k) => k.length > 0); // 过滤掉空行
-
-  if (privateKeys.length === 0) {
-    console.error(`在 ${privateKeysFile} 中未找到任何私钥`);
-    process.exit(1);
-  }
-
-  console.log(`找到 ${privateKeys.length} 个私钥，准备开始批量部署...`);
-
-  // --- 3. 准备 CSV 文件 ---
-  const csvHeader = "DeployerAddress,ContractAddress\n";
-  // 写入表头 (覆盖旧文件)
-  fs.writeFileSync(outputFile, csvHeader);
-  console.log(`部署结果将保存到: ${outputFile}`);
-
-  // --- 4. 批量部署 ---
-  // 从 hardhat.config.ts 获取当前 --network 标志指定的 provider
-  const provider = hardhatEthers.provider;
-  const UniversalAdapterFactoryBase =
-    await hardhatEthers.getContractFactory("UniversalAdapter");
-
-  for (const privateKey of privateKeys) {
-    let wallet: Wallet | undefined;
-    try {
-      // 使用当前 provider 连接钱包
-      wallet = new Wallet(privateKey, provider);
-      console.log(`\n[${privateKeys.indexOf(privateKey) + 1}/${privateKeys.length}] 正在使用地址部署: ${wallet.address}`);
-
-      // 将 factory 连接到当前的钱包
-      const factory = UniversalAdapterFactoryBase.connect(wallet);
-
-      // 部署合约
-      const contract = await factory.deploy();
-      await contract.waitForDeployment();
-
-      // 兼容 ethers v5 (address) 和 v6 (target)
-      const deployedAddress = (contract as any).target || (contract as any).address;
-      console.log(`  -> 成功! 合约地址: ${deployedAddress}`);
-
-      // 将结果追加到 CSV
-      const csvLine = `${wallet.address},${deployedAddress}\n`;
-      fs.appendFileSync(outputFile, csvLine);
-
-    } catch (error) {
-      const deployerAddress = wallet ? wallet.address : "InvalidKey";
-      // 格式化错误信息以安全存入 CSV
-      const errorMessage = (error as Error).message.replace(/\n/g, " ").replace(/,/g, ";");
-      
-      console.error(`  -> 失败! 地址: ${deployerAddress}. 错误:`, (error as Error).message);
-      
-      // 在 CSV 中记录错误
-      const csvErrorLine = `${deployerAddress},"Error: ${errorMessage}"\n`;
-      fs.appendFileSync(outputFile, csvErrorLine);
-    }
-  }
-
-  console.log("\n--- 批量部署完成 ---");
-
-  // --- 5. 复制 ABI 到前端 (此操作与部署次数无关，执行一次即可) ---
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("未找到前端 src 目录，跳过 ABI 复制:", frontendConfigDir);
-  } else {
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("已复制 ABI 到 frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "自动复制 ABI 失败。请手动复制 artifacts/.../UniversalAdapter.json 到 frontend/web/src/abi/",
-        e
-      );
-    }
-  }
-}
-
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
\ No newline at end of file
+// deploy/deploy.ts
+// 用法: npx hardhat run deploy/deploy.ts --network <网络>
+// 部署账户的来源见 deploy/signers.ts；DEPLOY_DRY_RUN=1 只估算并打印将要部署的内容，不发送交易。
+// 可重复运行: 某账户在该网络上已有仍在链上的部署则跳过，上次中断时未确认的交易会先等待其结果。
+// 每个账户部署完后，会把 EquityRegistry 指向该账户部署的账本、投资者名册、分析、分红、归属与合规合约。
+// DEPLOY_VERIFY=1 时通过 hardhat.config.ts 中的 etherscan 设置验证合约源码 (见 deploy/verify.ts)。
+import fs from "fs";
+import path from "path";
+import hre, { ethers as hardhatEthers } from "hardhat";
+import { ethers } from "ethers";
+import type { Artifact } from "hardhat/types";
+import {
+  abiHash,
+  currentGitCommit,
+  DEPLOYABLE_CONTRACTS,
+  findDeployment,
+  findPending,
+  readManifest,
+  removePending,
+  updateFrontend,
+  writeManifest
+} from "./manifest";
+import type { DeployedContract, DeploymentManifest, PendingDeployment } from "./manifest";
+import { loadDeployers } from "./signers";
+import type { Deployer } from "./signers";
+import { verificationUnsupported, verifyDeployment } from "./verify";
+
+// 在估算值之上额外留出的 gas 余量 (百分比)
+const GAS_LIMIT_MARGIN_PERCENT = 20n;
+
+interface DeploymentPlan {
+  factory: ethers.ContractFactory;
+  nonce: number;
+  gasLimit: bigint;
+  // 每单位 gas 最多支付的价格，EIP-1559 网络上为 maxFeePerGas
+  gasPrice: bigint;
+  maxCost: bigint;
+}
+
+/** 估算一次部署的 gas 与最高费用，并检查部署账户余额是否足够。 */
+async function planDeployment(deployer: Deployer, name: string, args: string[]): Promise<DeploymentPlan> {
+  const provider = hardhatEthers.provider;
+  const factory = await hardhatEthers.getContractFactory(name, deployer.signer);
+  const tx = await factory.getDeployTransaction(...args);
+  const estimated = await deployer.signer.estimateGas(tx);
+  const gasLimit = (estimated * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n;
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  const maxCost = gasLimit * gasPrice;
+
+  const balance = await provider.getBalance(deployer.address);
+  if (balance < maxCost) {
+    throw new Error(
+      `余额不足: 需要最多 ${ethers.formatEther(maxCost)} ETH，账户只有 ${ethers.formatEther(balance)} ETH`
+    );
+  }
+  // NonceManager 在本地递增，同一账户的连续部署不会互相覆盖
+  const nonce = await deployer.signer.getNonce("pending");
+  return { factory, nonce, gasLimit, gasPrice, maxCost };
+}
+
+/**
+ * 构造参数: 同一账户部署的依赖合约地址，按 DEPLOYABLE_CONTRACTS 中的顺序。
+ * 返回参数与尚未部署的依赖，有缺失时参数不完整。
+ */
+function constructorArguments(
+  manifest: DeploymentManifest,
+  name: string,
+  deployer: string
+): { args: string[]; missing: string[] } {
+  const args: string[] = [];
+  const missing: string[] = [];
+  for (const dependency of DEPLOYABLE_CONTRACTS[name].constructorArgs) {
+    const deployment = findDeployment(manifest, dependency, deployer);
+    if (deployment) args.push(deployment.address);
+    else missing.push(dependency);
+  }
+  return { args, missing };
+}
+
+/**
+ * 已部署的合约是否仍可直接使用: 链上有代码 (链被重置后会消失)，ABI 与当前编译产物一致，
+ * 且构造时传入的依赖合约仍是当前的部署。返回不可用的原因，可用时返回 null。
+ */
+export async function staleReason(deployment: DeployedContract, artifact: Artifact, args: string[]): Promise<string | null> {
+  if ((await hardhatEthers.provider.getCode(deployment.address)) === "0x") return "链上已无该合约代码";
+  if (deployment.abiHash !== abiHash(artifact)) return "合约 ABI 已变更";
+  if ((deployment.constructorArguments ?? []).join(",") !== args.join(",")) return "依赖的合约已重新部署";
+  return null;
+}
+
+/** 等待交易被打包。与 tx.wait() 不同，交易回滚时返回回执而不抛错，由调用方检查 status。 */
+async function waitForReceipt(tx: ethers.TransactionResponse): Promise<ethers.TransactionReceipt | null> {
+  try {
+    return await tx.wait();
+  } catch (error) {
+    if (ethers.isError(error, "CALL_EXCEPTION") && error.receipt) return error.receipt;
+    throw error;
+  }
+}
+
+/**
+ * 等待上次运行发出但未确认的部署交易，并把结果写入清单。
+ * 交易成功时返回部署记录；交易失败或已被节点丢弃时返回 null，调用方会重新部署。
+ */
+export async function settlePending(
+  manifest: DeploymentManifest,
+  pending: PendingDeployment,
+  artifact: Artifact,
+  gitCommit: string | null
+): Promise<DeployedContract | null> {
+  const provider = hardhatEthers.provider;
+  let receipt = await provider.getTransactionReceipt(pending.transactionHash);
+  if (!receipt) {
+    const tx = await provider.getTransaction(pending.transactionHash);
+    if (tx) receipt = await waitForReceipt(tx);
+  }
+  removePending(manifest, pending);
+
+  if (!receipt) {
+    console.warn(`  -> 上次发出的交易 ${pending.transactionHash} 已被丢弃，将重新部署`);
+    return null;
+  }
+  if (receipt.status !== 1 || !receipt.contractAddress) {
+    console.warn(`  -> 上次发出的交易 ${pending.transactionHash} 执行失败，将重新部署`);
+    manifest.failures.push({
+      name: pending.name,
+      deployer: pending.deployer,
+      error: `部署交易 ${pending.transactionHash} 执行失败`,
+      failedAt: new Date().toISOString()
+    });
+    return null;
+  }
+  const deployment = recordDeployment(
+    manifest,
+    pending.name,
+    pending.deployer,
+    receipt,
+    artifact,
+    pending.constructorArguments ?? [],
+    gitCommit
+  );
+  console.log(`  -> 上次发出的 ${pending.name} 部署已确认: ${deployment.address} (区块 ${receipt.blockNumber})`);
+  return deployment;
+}
+
+function recordDeployment(
+  manifest: DeploymentManifest,
+  name: string,
+  deployer: string,
+  receipt: ethers.TransactionReceipt,
+  artifact: Artifact,
+  args: string[],
+  gitCommit: string | null
+): DeployedContract {
+  const deployment: DeployedContract = {
+    name,
+    deployer,
+    address: receipt.contractAddress!,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    abiHash: abiHash(artifact),
+    gitCommit,
+    deployedAt: new Date().toISOString(),
+    constructorArguments: args
+  };
+  manifest.contracts.push(deployment);
+  return deployment;
+}
+
+/**
+ * 把该账户部署的 EquityRegistry 指向同一账户部署的各合约 (setShareLedger、setAnalytics 等)。
+ * 已指向的跳过；失败只记录在清单中，下次运行会重试。
+ */
+async function wireRegistry(
+  manifest: DeploymentManifest,
+  deployer: Deployer,
+  plannedDeployments: Set<string>,
+  dryRun: boolean
+): Promise<void> {
+  const registryDeployment = findDeployment(manifest, "EquityRegistry", deployer.address);
+  if (!registryDeployment && !plannedDeployments.has("EquityRegistry")) return;
+
+  for (const [name, { registryField }] of Object.entries(DEPLOYABLE_CONTRACTS)) {
+    if (!registryField) continue;
+    const setter = `set${registryField[0].toUpperCase()}${registryField.slice(1)}`;
+    const target = findDeployment(manifest, name, deployer.address);
+    if (plannedDeployments.has(name) || (target && plannedDeployments.has("EquityRegistry"))) {
+      console.log(`  -> [试运行] 部署后将调用 EquityRegistry.${setter}`);
+      continue;
+    }
+    if (!target || !registryDeployment) continue;
+
+    try {
+      const registry = await hardhatEthers.getContractAt("EquityRegistry", registryDeployment.address, deployer.signer);
+      const current: string = await registry.getFunction(registryField)();
+      if (current.toLowerCase() === target.address.toLowerCase()) continue;
+      if (dryRun) {
+        console.log(`  -> [试运行] 将调用 EquityRegistry.${setter}(${target.address})`);
+        continue;
+      }
+      const tx = await registry.getFunction(setter)(target.address);
+      const receipt = await waitForReceipt(tx);
+      if (!receipt || receipt.status !== 1) throw new Error(`交易 ${tx.hash} 执行失败`);
+      console.log(`  -> EquityRegistry.${setter}(${target.address}) 已确认 (区块 ${receipt.blockNumber})`);
+    } catch (error) {
+      deployer.signer.reset();
+      console.error(`  -> EquityRegistry.${setter} 失败! 地址: ${deployer.address}. 错误:`, (error as Error).message);
+      if (dryRun) continue;
+      manifest.failures.push({
+        name: `EquityRegistry.${setter}`,
+        deployer: deployer.address,
+        error: (error as Error).message,
+        failedAt: new Date().toISOString()
+      });
+      writeManifest(manifest);
+    }
+  }
+}
+
+async function main() {
+  const dryRun = ["1", "true"].includes(process.env.DEPLOY_DRY_RUN ?? "");
+  let verify = ["1", "true"].includes(process.env.DEPLOY_VERIFY ?? "");
+
+  // --- 1. 确定要部署的合约 ---
+  // 默认部署所有可部署的合约；可用 DEPLOY_CONTRACTS=PrivateEquityFHE 只部署其中一部分，
+  // 未列出的依赖合约取该账户在清单中已有的部署
+  const requested = (process.env.DEPLOY_CONTRACTS ?? Object.keys(DEPLOYABLE_CONTRACTS).join(","))
+    .split(",")
+    .map((n) => n.trim())
+    .filter((n) => n.length > 0);
+  for (const name of requested) {
+    if (!(name in DEPLOYABLE_CONTRACTS)) {
+      console.error(`未知合约 ${name}，可部署的合约: ${Object.keys(DEPLOYABLE_CONTRACTS).join(", ")}`);
+      process.exit(1);
+    }
+  }
+  // 按 DEPLOYABLE_CONTRACTS 的顺序部署，依赖合约总在前面
+  const contractNames = Object.keys(DEPLOYABLE_CONTRACTS).filter((name) => requested.includes(name));
+
+  const artifacts = new Map<string, Artifact>();
+  for (const name of contractNames) {
+    if (!(await hre.artifacts.artifactExists(name))) {
+      console.error(`未找到 ${name} 的编译产物，请先运行 npx hardhat compile`);
+      process.exit(1);
+    }
+    artifacts.set(name, await hre.artifacts.readArtifact(name));
+  }
+
+  // --- 2. 读取部署账户 ---
+  const { source, deployers, invalid } = await loadDeployers(hre);
+  if (deployers.length === 0 && invalid.length === 0) {
+    console.error(`${source} 中未找到任何部署账户`);
+    process.exit(1);
+  }
+  console.log(
+    `从 ${source} 读取到 ${deployers.length} 个部署账户${invalid.length > 0 ? `，${invalid.length} 个无效` : ""}，` +
+      `准备${dryRun ? "试运行" : "开始"}批量部署 ${contractNames.join(", ")}...`
+  );
+
+  // --- 3. 读取部署清单 ---
+  // 从 hardhat.config.ts 获取当前 --network 标志指定的 provider
+  const provider = hardhatEthers.provider;
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const manifest = readManifest(hre.network.name, chainId);
+  const gitCommit = currentGitCommit();
+  console.log(`网络: ${hre.network.name} (chainId ${chainId})，代码版本: ${gitCommit ?? "未知"}`);
+
+  const unsupported = verify ? verificationUnsupported(hre) : null;
+  if (unsupported) {
+    console.warn(`不进行合约验证: ${unsupported}`);
+    verify = false;
+  }
+
+  for (const { source: invalidSource, error } of invalid) {
+    console.error(`  -> 跳过无效账户 ${invalidSource}: ${error}`);
+    if (dryRun) continue;
+    manifest.failures.push({
+      name: contractNames.join(","),
+      deployer: invalidSource,
+      error,
+      failedAt: new Date().toISOString()
+    });
+    writeManifest(manifest);
+  }
+
+  // 验证失败只记录在清单中，下次运行会重试
+  const verifyIfNeeded = async (deployment: DeployedContract) => {
+    if (!verify || deployment.verification?.status === "verified") return;
+    if (dryRun) {
+      console.log(`  -> [试运行] 将验证 ${deployment.name} (${deployment.address})`);
+      return;
+    }
+    deployment.verification = await verifyDeployment(hre, deployment, artifacts.get(deployment.name)!);
+    if (deployment.verification.status === "verified") {
+      console.log(`  -> ${deployment.name} 源码验证通过`);
+    } else {
+      console.error(`  -> ${deployment.name} 源码验证失败:`, deployment.verification.error);
+    }
+    writeManifest(manifest);
+  };
+
+  // --- 4. 批量部署 ---
+  for (const [index, deployer] of deployers.entries()) {
+    console.log(`\n[${index + 1}/${deployers.length}] 正在使用地址部署: ${deployer.address} (${deployer.source})`);
+    // 试运行时本次将要部署的合约，依赖它们的合约无法预先估算
+    const plannedDeployments = new Set<string>();
+
+    for (const name of contractNames) {
+      const artifact = artifacts.get(name)!;
+      try {
+        // 4a. 上次运行在等待确认时中断
+        const pending = findPending(manifest, name, deployer.address);
+        if (pending && dryRun) {
+          console.log(`  -> [试运行] ${name} 有未确认的部署交易 ${pending.transactionHash}，正式运行时会先等待其结果`);
+          continue;
+        }
+        if (pending) {
+          const settled = await settlePending(manifest, pending, artifact, gitCommit);
+          writeManifest(manifest);
+          if (settled) {
+            await verifyIfNeeded(settled);
+            continue;
+          }
+        }
+
+        const { args, missing } = constructorArguments(manifest, name, deployer.address);
+        const planned = DEPLOYABLE_CONTRACTS[name].constructorArgs.filter((d) => plannedDeployments.has(d));
+        if (dryRun && planned.length > 0) {
+          console.log(`  -> [试运行] 将在 ${planned.join(", ")} 之后部署 ${name}，届时才能估算费用`);
+          plannedDeployments.add(name);
+          continue;
+        }
+        if (missing.length > 0) throw new Error(`依赖的 ${missing.join(", ")} 尚未由该账户部署`);
+
+        // 4b. 已有仍可用的部署则跳过
+        const existing = findDeployment(manifest, name, deployer.address);
+        const reason = existing ? await staleReason(existing, artifact, args) : null;
+        if (existing && !reason) {
+          console.log(`  -> ${name} 已部署在 ${existing.address} (区块 ${existing.blockNumber})，跳过`);
+          await verifyIfNeeded(existing);
+          continue;
+        }
+        if (existing) console.log(`  -> ${name} 之前的部署 ${existing.address} 不再可用 (${reason})，重新部署`);
+
+        // 4c. 部署
+        const plan = await planDeployment(deployer, name, args);
+        const summary =
+          `nonce ${plan.nonce}，gas 上限 ${plan.gasLimit}，` +
+          `gas 价格 ${ethers.formatUnits(plan.gasPrice, "gwei")} gwei，最高费用 ${ethers.formatEther(plan.maxCost)} ETH`;
+        if (dryRun) {
+          console.log(`  -> [试运行] 将部署 ${name}: ${summary}`);
+          plannedDeployments.add(name);
+          if (verify) console.log(`  -> [试运行] 将验证 ${name}`);
+          continue;
+        }
+        console.log(`  -> 部署 ${name}: ${summary}`);
+
+        const contract = await plan.factory.deploy(...args, { nonce: plan.nonce, gasLimit: plan.gasLimit });
+        const sent = contract.deploymentTransaction()!;
+        // 交易发出后立即记下，脚本在等待确认时退出也能在下次运行时接上
+        const sentRecord: PendingDeployment = {
+          name,
+          deployer: deployer.address,
+          transactionHash: sent.hash,
+          nonce: sent.nonce,
+          constructorArguments: args,
+          sentAt: new Date().toISOString()
+        };
+        manifest.pending.push(sentRecord);
+        writeManifest(manifest);
+
+        const receipt = await waitForReceipt(sent);
+        removePending(manifest, sentRecord);
+        if (!receipt || receipt.status !== 1) throw new Error(`部署交易 ${sent.hash} 执行失败`);
+
+        const deployment = recordDeployment(manifest, name, deployer.address, receipt, artifact, args, gitCommit);
+        console.log(`  -> ${name} 成功! 合约地址: ${deployment.address} (区块 ${receipt.blockNumber})`);
+        writeManifest(manifest);
+        await verifyIfNeeded(deployment);
+      } catch (error) {
+        // 发送失败时本地 nonce 可能已递增，重新与链上同步
+        deployer.signer.reset();
+        console.error(`  -> ${name} 失败! 地址: ${deployer.address}. 错误:`, (error as Error).message);
+        if (dryRun) continue;
+        manifest.failures.push({
+          name,
+          deployer: deployer.address,
+          error: (error as Error).message,
+          failedAt: new Date().toISOString()
+        });
+        // 每次失败后立即写入清单，脚本中途退出也不会丢失进度
+        writeManifest(manifest);
+      }
+    }
+
+    // 4d. 把注册表指向该账户部署的合约
+    await wireRegistry(manifest, deployer, plannedDeployments, dryRun);
+  }
+
+  if (dryRun) {
+    console.log("\n--- 试运行结束，未发送任何交易 ---");
+    return;
+  }
+  console.log("\n--- 批量部署完成 ---");
+  console.log(`部署清单已保存到: ${writeManifest(manifest)}`);
+  if (manifest.pending.length > 0) {
+    console.warn(`仍有 ${manifest.pending.length} 笔部署交易未确认，重新运行本脚本会继续等待`);
+  }
+
+  // --- 5. 用清单更新前端的 config.json 与 ABI ---
+  // 取最近一次部署的账户所部署的合约，每个合约取其最新的一次部署
+  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
+  if (!fs.existsSync(frontendConfigDir)) {
+    console.warn("未找到前端 src 目录，跳过前端配置更新:", frontendConfigDir);
+    return;
+  }
+  try {
+    const updated = updateFrontend(manifest, artifacts);
+    if (updated.length > 0) {
+      console.log(`已更新前端 config.json (chainId ${chainId}) 与 abi/: ${updated.join(", ")}`);
+    } else {
+      console.log("清单中没有成功的部署，前端配置保持不变");
+    }
+  } catch (e) {
+    console.warn("自动更新前端配置失败:", (e as Error).message);
+  }
+}
+
+// hardhat run 把本文件作为主模块执行；测试只导入上面导出的函数
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
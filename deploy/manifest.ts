@@ -0,0 +1,234 @@
+// deploy/manifest.ts
+// 部署清单: 每个网络一个 JSON 文件，记录 deploy.ts 部署过的合约；
+// 以及把前端的 config.json 与 abi 目录指向这些部署的步骤。
+import { execSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { Artifact } from "hardhat/types";
+
+/** 清单格式每次变更都会递增，读取方据此拒绝无法识别的文件。 */
+export const MANIFEST_VERSION = 2;
+
+export const MANIFEST_DIR = path.join(__dirname, "..", "deployments");
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+export interface DeployableContract {
+  // 前端 config.json 中存放该合约地址的键
+  addressKey: string;
+  // 构造函数依次接收其地址的合约
+  constructorArgs: string[];
+  // EquityRegistry 中指向该合约的字段，通过对应的 `set<字段>` 设置
+  registryField?: string;
+}
+
+/** deploy.ts 可部署的合约，按部署顺序排列: 每个合约都排在其构造参数所需的合约之后。 */
+export const DEPLOYABLE_CONTRACTS: Record<string, DeployableContract> = {
+  PrivateEquityFHE: { addressKey: "privateEquityAddress", constructorArgs: [] },
+  EquityRegistry: { addressKey: "registryAddress", constructorArgs: [] },
+  ConfidentialStablecoin: { addressKey: "stablecoinAddress", constructorArgs: [] },
+  InvestorRegistry: { addressKey: "investorRegistryAddress", constructorArgs: [], registryField: "investorRegistry" },
+  EquityShareLedger: {
+    addressKey: "shareLedgerAddress",
+    constructorArgs: ["EquityRegistry"],
+    registryField: "shareLedger"
+  },
+  EquityOrderBook: { addressKey: "orderBookAddress", constructorArgs: ["EquityRegistry", "ConfidentialStablecoin"] },
+  EquityAnalytics: {
+    addressKey: "analyticsAddress",
+    constructorArgs: ["EquityRegistry", "EquityOrderBook"],
+    registryField: "analytics"
+  },
+  EquityCapTable: { addressKey: "capTableAddress", constructorArgs: ["EquityRegistry"] },
+  EquityFundraising: { addressKey: "fundraisingAddress", constructorArgs: ["EquityRegistry", "ConfidentialStablecoin"] },
+  EquityAuction: { addressKey: "auctionAddress", constructorArgs: ["EquityRegistry", "ConfidentialStablecoin"] },
+  EquityDistributions: {
+    addressKey: "distributionsAddress",
+    constructorArgs: ["EquityRegistry", "ConfidentialStablecoin"],
+    registryField: "distributions"
+  },
+  EquityVesting: { addressKey: "vestingAddress", constructorArgs: ["EquityRegistry"], registryField: "vesting" },
+  EquityCompliance: {
+    addressKey: "complianceAddress",
+    constructorArgs: ["EquityRegistry"],
+    registryField: "transferCompliance"
+  },
+  JurisdictionRule: { addressKey: "jurisdictionRuleAddress", constructorArgs: ["EquityRegistry"] },
+  MaxHoldersRule: { addressKey: "maxHoldersRuleAddress", constructorArgs: ["EquityRegistry"] },
+  HoldingPeriodRule: { addressKey: "holdingPeriodRuleAddress", constructorArgs: ["EquityRegistry"] },
+  RightOfFirstRefusalRule: { addressKey: "rightOfFirstRefusalRuleAddress", constructorArgs: ["EquityRegistry"] }
+};
+
+export interface DeployedContract {
+  name: string;
+  deployer: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  // 部署时 ABI 的 keccak256，用于判断前端的副本是否仍然一致
+  abiHash: string;
+  gitCommit: string | null;
+  deployedAt: string;
+  // 传给构造函数的地址；记录构造参数之前的部署中没有此项
+  constructorArguments?: string[];
+  // 在 deploy.ts 被要求到区块浏览器验证源码之前没有此项
+  verification?: Verification;
+}
+
+export interface Verification {
+  status: "verified" | "failed";
+  error?: string;
+  checkedAt: string;
+}
+
+/** 已发出但尚未确认打包的部署交易，下次运行时会接着等待。 */
+export interface PendingDeployment {
+  name: string;
+  deployer: string;
+  transactionHash: string;
+  nonce: number;
+  constructorArguments?: string[];
+  sentAt: string;
+}
+
+export interface FailedDeployment {
+  name: string;
+  deployer: string;
+  error: string;
+  failedAt: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  contracts: DeployedContract[];
+  pending: PendingDeployment[];
+  failures: FailedDeployment[];
+}
+
+export function manifestPath(network: string): string {
+  return path.join(MANIFEST_DIR, `${network}.json`);
+}
+
+/** 该网络的部署清单；尚未在该网络部署过时返回空清单。 */
+export function readManifest(network: string, chainId: number): DeploymentManifest {
+  const file = manifestPath(network);
+  if (!fs.existsSync(file)) {
+    return { version: MANIFEST_VERSION, network, chainId, contracts: [], pending: [], failures: [] };
+  }
+  const manifest: DeploymentManifest = JSON.parse(fs.readFileSync(file, "utf8"));
+  // 版本 1 只是没有未确认的部署，其余相同
+  if (manifest.version === 1) {
+    manifest.version = MANIFEST_VERSION;
+    manifest.pending = [];
+  }
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${file} 的清单版本为 ${manifest.version}，本脚本只能读取版本 ${MANIFEST_VERSION}`);
+  }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`${file} 属于 chainId ${manifest.chainId}，但当前网络的 chainId 为 ${chainId}`);
+  }
+  return manifest;
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+  const file = manifestPath(manifest.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+export function abiHash(artifact: Artifact): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(artifact.abi)));
+}
+
+/** 工作区的 HEAD；有未提交的修改时加上 "-dirty" 后缀。 */
+export function currentGitCommit(): string | null {
+  try {
+    const commit = execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    const dirty = execSync("git status --porcelain", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return null;
+  }
+}
+
+/** 清单中 `deployer` 最近一次部署的 `name`，没有时返回 undefined。 */
+export function findDeployment(
+  manifest: DeploymentManifest,
+  name: string,
+  deployer: string
+): DeployedContract | undefined {
+  return manifest.contracts.filter((c) => c.name === name && c.deployer === deployer).pop();
+}
+
+export function findPending(
+  manifest: DeploymentManifest,
+  name: string,
+  deployer: string
+): PendingDeployment | undefined {
+  return manifest.pending.find((p) => p.name === name && p.deployer === deployer);
+}
+
+export function removePending(manifest: DeploymentManifest, pending: PendingDeployment): void {
+  manifest.pending = manifest.pending.filter((p) => p !== pending);
+}
+
+/** 清单中最近一次部署的部署账户，没有部署时返回 undefined。 */
+export function latestDeployer(manifest: DeploymentManifest): string | undefined {
+  return manifest.contracts[manifest.contracts.length - 1]?.deployer;
+}
+
+/**
+ * `deployer` 部署的每个合约最近的一次部署，默认取最近一次部署的账户。
+ * 不同账户各自部署一整套合约，只取同一账户的部署，合约之间才会互相指向。
+ */
+export function latestDeployments(
+  manifest: DeploymentManifest,
+  deployer: string | undefined = latestDeployer(manifest)
+): Map<string, DeployedContract> {
+  const latest = new Map<string, DeployedContract>();
+  for (const contract of manifest.contracts) {
+    if (contract.deployer === deployer) latest.set(contract.name, contract);
+  }
+  return latest;
+}
+
+/**
+ * 把前端指向 `deployer` (默认为最近一次部署的账户) 部署的每个合约最近的一次部署: 将地址、
+ * 部署区块与部署账户写入 config.json 中清单所属链的条目，并把编译产物复制到 abi 目录。
+ * 返回更新过的合约名。
+ */
+export function updateFrontend(
+  manifest: DeploymentManifest,
+  artifacts: Map<string, Artifact>,
+  deployer: string | undefined = latestDeployer(manifest)
+): string[] {
+  const configFile = path.join(FRONTEND_SRC, "config.json");
+  const config = JSON.parse(fs.readFileSync(configFile, "utf8"));
+  const network = config.networks?.[String(manifest.chainId)];
+  if (!network) {
+    throw new Error(`前端 config.json 中没有 chainId ${manifest.chainId} 的条目，请先添加再部署`);
+  }
+
+  const updated: string[] = [];
+  for (const [name, deployment] of latestDeployments(manifest, deployer)) {
+    const addressKey = DEPLOYABLE_CONTRACTS[name]?.addressKey;
+    const artifact = artifacts.get(name);
+    if (!addressKey || !artifact) continue;
+
+    network.contracts[addressKey] = deployment.address;
+    const blockKey = addressKey.replace(/Address$/, "DeployBlock");
+    if (blockKey in network.contracts) network.contracts[blockKey] = deployment.blockNumber;
+
+    const abiDir = path.join(FRONTEND_SRC, "abi");
+    fs.mkdirSync(abiDir, { recursive: true });
+    fs.writeFileSync(path.join(abiDir, `${name}.json`), JSON.stringify(artifact, null, 2));
+    updated.push(name);
+  }
+  if (updated.length > 0) network.contracts.deployer = deployer;
+
+  fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  return updated;
+}
@@ -0,0 +1,156 @@
+// deploy/signers.ts
+// deploy.ts 的部署账户来源，按以下顺序取第一个已配置的:
+//   DEPLOY_IMPERSONATE=0xabc,0xdef   仅限 hardhat 网络或其分叉；直接解锁这些地址，无需私钥
+//   DEPLOY_KEYSTORE=路径[,路径]      加密的 JSON keystore 文件或其所在目录，
+//                                    用 DEPLOY_KEYSTORE_PASSWORD 解密
+//   DEPLOY_MNEMONIC="助记词 ..."     按 DEPLOY_MNEMONIC_PATHS (逗号分隔) 派生，
+//                                    未设置时取前 DEPLOY_MNEMONIC_COUNT 个默认路径
+//   DEPLOY_PRIVATE_KEYS=0x..,0x..
+//   deploy/sy.txt                    每行一个私钥
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// 支持 hardhat_impersonateAccount 的网络，包括分叉
+const IMPERSONATION_NETWORKS = ["hardhat", "localhost"];
+// 没有 ETH 的模拟账户会被充值这么多，用来支付 gas
+const IMPERSONATED_BALANCE = ethers.parseEther("100");
+const LEGACY_KEY_FILE = path.join(__dirname, "sy.txt");
+
+export interface Deployer {
+  address: string;
+  // 在本地分配 nonce，同一账户可连续发出多笔部署交易
+  signer: ethers.NonceManager;
+  // 账户来源，用于日志输出，例如 "keystore deploy/keys/a.json"
+  source: string;
+}
+
+export interface InvalidDeployer {
+  source: string;
+  error: string;
+}
+
+export interface LoadedDeployers {
+  // 所用的账户来源，例如 "DEPLOY_MNEMONIC"
+  source: string;
+  deployers: Deployer[];
+  invalid: InvalidDeployer[];
+}
+
+const list = (value: string) =>
+  value
+    .split(/[,\n]/)
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+
+const keystoreFiles = (entry: string): string[] => {
+  if (!fs.statSync(entry).isDirectory()) return [entry];
+  return fs
+    .readdirSync(entry)
+    .filter((f) => f.endsWith(".json") || f.startsWith("UTC--"))
+    .map((f) => path.join(entry, f));
+};
+
+/** DEPLOY_MNEMONIC_PATHS 中的派生路径，未设置时为前 DEPLOY_MNEMONIC_COUNT 个默认路径。 */
+const mnemonicPaths = (): string[] => {
+  if (process.env.DEPLOY_MNEMONIC_PATHS) return list(process.env.DEPLOY_MNEMONIC_PATHS);
+  const count = Number(process.env.DEPLOY_MNEMONIC_COUNT ?? "1");
+  if (!Number.isInteger(count) || count < 1) throw new Error("DEPLOY_MNEMONIC_COUNT 必须是正整数");
+  return Array.from({ length: count }, (_, i) => ethers.getIndexedAccountPath(i));
+};
+
+// ethers 的错误信息会带上出错的值，私钥不能因此出现在日志与清单中
+const walletFromKey = (key: string) => {
+  try {
+    return new ethers.Wallet(key);
+  } catch {
+    throw new Error("不是有效的私钥");
+  }
+};
+
+async function walletsFrom(
+  entries: { source: string; open: () => Promise<ethers.Wallet | ethers.HDNodeWallet> }[],
+  provider: ethers.Provider
+): Promise<{ deployers: Deployer[]; invalid: InvalidDeployer[] }> {
+  const deployers: Deployer[] = [];
+  const invalid: InvalidDeployer[] = [];
+  for (const { source, open } of entries) {
+    try {
+      const wallet = (await open()).connect(provider);
+      deployers.push({ address: wallet.address, signer: new ethers.NonceManager(wallet), source });
+    } catch (error) {
+      invalid.push({ source, error: (error as Error).message });
+    }
+  }
+  return { deployers, invalid };
+}
+
+async function impersonate(hre: HardhatRuntimeEnvironment, addresses: string[]): Promise<LoadedDeployers> {
+  if (!IMPERSONATION_NETWORKS.includes(hre.network.name)) {
+    throw new Error(`DEPLOY_IMPERSONATE 只能用于 ${IMPERSONATION_NETWORKS.join(" 或 ")}，不能用于 ${hre.network.name}`);
+  }
+  const deployers: Deployer[] = [];
+  const invalid: InvalidDeployer[] = [];
+  for (const address of addresses) {
+    const source = `模拟账户 ${address}`;
+    if (!ethers.isAddress(address)) {
+      invalid.push({ source, error: "不是有效的地址" });
+      continue;
+    }
+    const signer = await hre.ethers.getImpersonatedSigner(address);
+    if ((await hre.ethers.provider.getBalance(address)) === 0n) {
+      await hre.network.provider.send("hardhat_setBalance", [address, ethers.toQuantity(IMPERSONATED_BALANCE)]);
+    }
+    deployers.push({ address: signer.address, signer: new ethers.NonceManager(signer), source });
+  }
+  return { source: "DEPLOY_IMPERSONATE", deployers, invalid };
+}
+
+/** 从第一个已配置的来源读取部署账户，来源见文件开头。 */
+export async function loadDeployers(hre: HardhatRuntimeEnvironment): Promise<LoadedDeployers> {
+  const provider = hre.ethers.provider;
+  const env = process.env;
+
+  if (env.DEPLOY_IMPERSONATE) return impersonate(hre, list(env.DEPLOY_IMPERSONATE));
+
+  if (env.DEPLOY_KEYSTORE) {
+    const password = env.DEPLOY_KEYSTORE_PASSWORD;
+    if (password === undefined) throw new Error("使用 DEPLOY_KEYSTORE 时必须设置 DEPLOY_KEYSTORE_PASSWORD");
+    const files = list(env.DEPLOY_KEYSTORE).flatMap(keystoreFiles);
+    const loaded = await walletsFrom(
+      files.map((file) => ({
+        source: `keystore ${file}`,
+        open: () => ethers.Wallet.fromEncryptedJson(fs.readFileSync(file, "utf8"), password)
+      })),
+      provider
+    );
+    return { source: "DEPLOY_KEYSTORE", ...loaded };
+  }
+
+  if (env.DEPLOY_MNEMONIC) {
+    const mnemonic = ethers.Mnemonic.fromPhrase(env.DEPLOY_MNEMONIC.trim());
+    const loaded = await walletsFrom(
+      mnemonicPaths().map((p) => ({
+        source: `助记词 ${p}`,
+        open: async () => ethers.HDNodeWallet.fromMnemonic(mnemonic, p)
+      })),
+      provider
+    );
+    return { source: "DEPLOY_MNEMONIC", ...loaded };
+  }
+
+  const fromKeys = async (source: string, keys: string[]) => ({
+    source,
+    ...(await walletsFrom(
+      keys.map((key, i) => ({ source: `${source} #${i + 1}`, open: async () => walletFromKey(key) })),
+      provider
+    ))
+  });
+  if (env.DEPLOY_PRIVATE_KEYS) return fromKeys("DEPLOY_PRIVATE_KEYS", list(env.DEPLOY_PRIVATE_KEYS));
+  if (fs.existsSync(LEGACY_KEY_FILE)) return fromKeys("deploy/sy.txt", list(fs.readFileSync(LEGACY_KEY_FILE, "utf8")));
+
+  throw new Error(
+    "未配置部署账户: 请设置 DEPLOY_IMPERSONATE、DEPLOY_KEYSTORE、DEPLOY_MNEMONIC 或 DEPLOY_PRIVATE_KEYS，或创建 deploy/sy.txt"
+  );
+}
@@ -0,0 +1,99 @@
+// deploy/verifier-stub.ts
+// Etherscan 验证 API 的本地替身，用于在 `npx hardhat node` 上试用 deploy.ts 的 DEPLOY_VERIFY:
+//   npm run verifier:local -- [--port 8546] [--rpc http://127.0.0.1:8545]
+//   DEPLOY_VERIFY=1 npx hardhat run deploy/deploy.ts --network localhost
+// 只响应 hardhat-verify 用到的三个调用 (getsourcecode、verifysourcecode 与 checkverifystatus)，
+// 节点上有代码的地址提交什么都会通过。不编译也不持久化: 重启后所有合约都恢复为未验证。
+import http from "http";
+import { parseArgs } from "util";
+import { ethers } from "ethers";
+
+interface Submission {
+  address: string;
+  contractName: string;
+  compilerVersion: string;
+  sourceCode: string;
+}
+
+type ApiResponse = { status: "0" | "1"; message: string; result: unknown };
+
+const ok = (result: unknown): ApiResponse => ({ status: "1", message: "OK", result });
+const notOk = (result: string): ApiResponse => ({ status: "0", message: "NOTOK", result });
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "8546" },
+      rpc: { type: "string", default: "http://127.0.0.1:8545" }
+    }
+  });
+
+  const provider = new ethers.JsonRpcProvider(values.rpc);
+  const verified = new Map<string, Submission>();
+  const submissions = new Map<string, Submission>();
+
+  const handle = async (params: URLSearchParams): Promise<ApiResponse> => {
+    if (params.get("module") !== "contract") return notOk(`不支持的 module: ${params.get("module")}`);
+    switch (params.get("action")) {
+      case "getsourcecode": {
+        const submission = verified.get((params.get("address") ?? "").toLowerCase());
+        return ok([
+          {
+            SourceCode: submission?.sourceCode ?? "",
+            ContractName: submission?.contractName ?? "",
+            CompilerVersion: submission?.compilerVersion ?? ""
+          }
+        ]);
+      }
+      case "verifysourcecode": {
+        const address = (params.get("contractaddress") ?? "").toLowerCase();
+        if (!ethers.isAddress(address)) return notOk("合约地址无效");
+        // 这两条结果 hardhat-verify 按原文匹配，保持 Etherscan 的英文措辞
+        if (verified.has(address)) return notOk("Contract source code already verified");
+        if ((await provider.getCode(address)) === "0x") return notOk(`Unable to locate ContractCode at ${address}`);
+        const guid = ethers.hexlify(ethers.randomBytes(16)).slice(2);
+        submissions.set(guid, {
+          address,
+          contractName: params.get("contractname") ?? "",
+          compilerVersion: params.get("compilerversion") ?? "",
+          sourceCode: params.get("sourceCode") ?? ""
+        });
+        return ok(guid);
+      }
+      case "checkverifystatus": {
+        const submission = submissions.get(params.get("guid") ?? "");
+        if (!submission) return notOk("未知的 guid");
+        verified.set(submission.address, submission);
+        console.log(`已验证 ${submission.contractName} (${submission.address})`);
+        return ok("Pass - Verified");
+      }
+      default:
+        return notOk(`不支持的 action: ${params.get("action")}`);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      // hardhat-verify 的查询放在 URL 参数中，提交放在表单请求体中
+      const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+      for (const [key, value] of new URLSearchParams(body)) params.set(key, value);
+      handle(params)
+        .catch((error) => notOk((error as Error).message))
+        .then((response) => {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(response));
+        });
+    });
+  });
+
+  server.listen(Number(values.port), "127.0.0.1", () => {
+    console.log(`验证服务替身已在 http://127.0.0.1:${values.port}/api 监听，从 ${values.rpc} 读取合约代码`);
+  });
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+// deploy/verify.ts
+// 通过 hardhat-verify 在区块浏览器上验证已部署合约的源码，使用 hardhat.config.ts 中的 etherscan 设置。
+// --network localhost 时指向 deploy/verifier-stub.ts 中的本地替身。
+import type { Artifact, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeployedContract, Verification } from "./manifest";
+
+/** 所选网络上的合约无法验证的原因，可以验证时返回 null。 */
+export function verificationUnsupported(hre: HardhatRuntimeEnvironment): string | null {
+  // 进程内网络在脚本退出后即消失，任何浏览器都无法索引
+  if (hre.network.name === "hardhat") return "进程内的 hardhat 网络没有区块浏览器";
+  if (!hre.config.etherscan.enabled) return "hardhat.config.ts 中已关闭 etherscan 验证";
+  return null;
+}
+
+/**
+ * 把部署的源码与构造参数提交到区块浏览器。浏览器已收录的合约视为验证通过；插件报告的其他错误
+ * 作为失败结果返回而不抛出，一个合约失败不会中断其余合约的验证。
+ */
+export async function verifyDeployment(
+  hre: HardhatRuntimeEnvironment,
+  deployment: DeployedContract,
+  artifact: Artifact
+): Promise<Verification> {
+  try {
+    await hre.run("verify:verify", {
+      address: deployment.address,
+      contract: `${artifact.sourceName}:${artifact.contractName}`,
+      constructorArguments: deployment.constructorArguments ?? []
+    });
+    return { status: "verified", checkedAt: new Date().toISOString() };
+  } catch (error) {
+    return { status: "failed", error: (error as Error).message, checkedAt: new Date().toISOString() };
+  }
+}
@@ -1,51 +1,62 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config, getRegistryWithSigner, selectChain } from "./contract";
+import { DEFAULT_CHAIN_ID, getNetwork, isSupportedChain, supportedNetworkNames } from "./networks";
+import { userDecrypt } from "./fhe";
+import * as registry from "./registry";
+import type { EquityToken, Roles, TokenStatus } from "./registry";
+import * as investors from "./investors";
+import type { InvestorStatus } from "./investors";
+import { projectOrders } from "./orderBook";
+import type { Order } from "./orderBook";
+import { projectCapTable } from "./capTable";
+import type { CapTable as CapTableData } from "./capTable";
+import { projectMarketStats, projectMetrics, requestMarketStats, VOLUME_PERIOD_SECONDS } from "./analytics";
+import type { TokenMetrics } from "./analytics";
+import { projectRounds } from "./rounds";
+import type { FundraisingRound } from "./rounds";
+import { projectAuctions } from "./auctions";
+import type { Auction } from "./auctions";
+import { projectDistributions } from "./distributions";
+import type { Distribution } from "./distributions";
+import { projectGrants } from "./vesting";
+import type { VestingGrant } from "./vesting";
+import { projectAttachedRules, projectSaleNotices } from "./transferRules";
+import type { SaleNotice } from "./transferRules";
+import type { EventIndexer, IndexedEvent } from "./indexer";
+import OrderBook from "./components/OrderBook";
+import TransferDialog from "./components/TransferDialog";
+import InvestorAdmin from "./components/InvestorAdmin";
+import ApprovalQueue from "./components/ApprovalQueue";
+import ComplianceOfficers from "./components/ComplianceOfficers";
+import StatusActions from "./components/StatusActions";
+import CapTable from "./components/CapTable";
+import Analytics from "./components/Analytics";
+import Rounds from "./components/Rounds";
+import Auctions from "./components/Auctions";
+import Distributions from "./components/Distributions";
+import Vesting from "./components/Vesting";
+import TransferRules from "./components/TransferRules";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface EquityToken {
-  id: string;
-  encryptedValuation: string;
-  encryptedShares: string;
-  timestamp: number;
-  issuer: string;
-  companyName: string;
-  status: "pending" | "approved" | "trading" | "rejected";
-  transactionHistory: Transaction[];
-}
-
-interface Transaction {
-  id: string;
-  timestamp: number;
-  from: string;
-  to: string;
-  encryptedAmount: string;
-  type: "issuance" | "transfer" | "trade";
-}
-
-// FHE Encryption/Decryption utilities for numerical data
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}-ZAMA`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-') && encryptedData.endsWith('-ZAMA')) {
-    return parseFloat(atob(encryptedData.substring(4, encryptedData.length - 5)));
-  }
-  return parseFloat(encryptedData);
-};
-
-// Generate mock public key for signature verification
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+import { useAccount } from 'wagmi';
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  // Follow the wallet onto any chain the app runs on; otherwise keep showing the default chain
+  const unsupportedChain = isConnected && walletChainId !== undefined && !isSupportedChain(walletChainId);
+  const networkChainId = walletChainId !== undefined && isSupportedChain(walletChainId) ? walletChainId : DEFAULT_CHAIN_ID;
   const [loading, setLoading] = useState(true);
-  const [tokens, setTokens] = useState<EquityToken[]>([]);
+  const [indexEvents, setIndexEvents] = useState<IndexedEvent[]>([]);
+  const tokens = useMemo(() => registry.projectTokens(indexEvents), [indexEvents]);
+  const [statusFilter, setStatusFilter] = useState<TokenStatus | "all">("all");
+  const filteredTokens = useMemo(
+    () => statusFilter === "all" ? tokens : tokens.filter(t => t.status === statusFilter),
+    [tokens, statusFilter]
+  );
+  const [visibleCount, setVisibleCount] = useState(registry.PAGE_SIZE);
+  const indexerRef = useRef<EventIndexer | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showIssueModal, setShowIssueModal] = useState(false);
   const [issuing, setIssuing] = useState(false);
@@ -57,83 +68,102 @@ const App: React.FC = () => {
     totalShares: 0,
     description: "" 
   });
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
   const [selectedToken, setSelectedToken] = useState<EquityToken | null>(null);
   const [decryptedValuation, setDecryptedValuation] = useState<number | null>(null);
   const [decryptedShares, setDecryptedShares] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [investorStatus, setInvestorStatus] = useState<InvestorStatus | null>(null);
+  const [isInvestorAdmin, setIsInvestorAdmin] = useState(false);
+  const [showInvestorAdmin, setShowInvestorAdmin] = useState(false);
+  const investorList = useMemo(() => investors.projectInvestors(indexEvents), [indexEvents]);
+  const [roles, setRoles] = useState<Roles>({ isPlatformAdmin: false, isComplianceOfficer: false });
+  const [showRoleAdmin, setShowRoleAdmin] = useState(false);
+  const complianceOfficers = useMemo(() => registry.projectComplianceOfficers(indexEvents), [indexEvents]);
+  // Oldest submissions first, so the queue is worked in order
+  const approvalQueue = useMemo(() => tokens.filter(t => t.status === "pending").reverse(), [tokens]);
+
+  // Without a configured allowlist every wallet may issue and trade, as before
+  const allowlistEnabled = !!config.investorRegistryAddress;
+  const qualificationNotice = allowlistEnabled ? investors.qualificationMessage(investorStatus, isConnected) : "";
+  const isQualified = !qualificationNotice;
 
   // Statistics for dashboard
   const approvedCount = tokens.filter(t => t.status === "approved").length;
   const tradingCount = tokens.filter(t => t.status === "trading").length;
   const pendingCount = tokens.filter(t => t.status === "pending").length;
-  const totalValuation = tokens.reduce((sum, token) => sum + (decryptedValuation || 0), 0);
+  // Aggregates stay encrypted until the oracle publishes them for a period
+  const marketStats = useMemo(() => projectMarketStats(indexEvents), [indexEvents]);
+  const latestStats = marketStats.length > 0 ? marketStats[marketStats.length - 1] : null;
+  const lastEndedPeriod = Math.floor(Date.now() / 1000 / VOLUME_PERIOD_SECONDS) - 1;
+  const canPublishStats = !!config.analyticsAddress && isConnected && !marketStats.some(s => s.period === lastEndedPeriod);
 
   useEffect(() => {
-    loadTokens().finally(() => setLoading(false));
-    const initContractParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setPublicKey(generatePublicKey());
+    // Contract getters and the index below now use this chain's deployment
+    selectChain(networkChainId);
+    setIndexEvents([]);
+    setSelectedToken(null);
+    let indexer: EventIndexer | null = null;
+    let cancelled = false;
+    const renderIndex = async () => {
+      if (indexer) setIndexEvents(await indexer.events());
+    };
+    const initIndex = async () => {
+      try {
+        indexer = await registry.createRegistryIndexer();
+        if (!indexer || cancelled) return;
+        indexerRef.current = indexer;
+        // Render the stored index right away; the first sync only fetches blocks since the last visit
+        await renderIndex();
+        setLoading(false);
+        indexer.subscribe(() => { renderIndex(); });
+        indexer.start(e => console.error("Token index sync failed:", e));
+      } catch (e) { console.error("Error loading tokens:", e); }
+      finally { setLoading(false); }
+    };
+    initIndex();
+    return () => {
+      cancelled = true;
+      indexer?.stop();
     };
-    initContractParams();
-  }, []);
+  }, [networkChainId]);
+
+  const loadInvestorStatus = async () => {
+    if (!address || !allowlistEnabled) {
+      setInvestorStatus(null);
+      setIsInvestorAdmin(false);
+      return;
+    }
+    try {
+      const [status, admin] = await Promise.all([investors.getInvestorStatus(address), investors.isInvestorAdmin(address)]);
+      setInvestorStatus(status);
+      setIsInvestorAdmin(admin);
+    } catch (e) { console.error("Error loading investor status:", e); }
+  };
+
+  const loadRoles = async () => {
+    if (!address) {
+      setRoles({ isPlatformAdmin: false, isComplianceOfficer: false });
+      return;
+    }
+    try {
+      setRoles(await registry.getRoles(address));
+    } catch (e) { console.error("Error loading roles:", e); }
+  };
+
+  useEffect(() => {
+    loadInvestorStatus();
+    loadRoles();
+  }, [address, networkChainId]);
 
   const loadTokens = async () => {
+    if (!indexerRef.current) return;
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Test contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.log("Contract not available");
-        return;
-      }
-
-      // Load token keys
-      const keysBytes = await contract.getData("token_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing token keys:", e); }
-      }
-
-      const tokenList: EquityToken[] = [];
-      for (const key of keys) {
-        try {
-          const tokenBytes = await contract.getData(`token_${key}`);
-          if (tokenBytes.length > 0) {
-            try {
-              const tokenData = JSON.parse(ethers.toUtf8String(tokenBytes));
-              tokenList.push({ 
-                id: key, 
-                encryptedValuation: tokenData.encryptedValuation, 
-                encryptedShares: tokenData.encryptedShares,
-                timestamp: tokenData.timestamp, 
-                issuer: tokenData.issuer, 
-                companyName: tokenData.companyName,
-                status: tokenData.status || "pending",
-                transactionHistory: tokenData.transactionHistory || []
-              });
-            } catch (e) { console.error(`Error parsing token data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading token ${key}:`, e); }
-      }
-      tokenList.sort((a, b) => b.timestamp - a.timestamp);
-      setTokens(tokenList);
+      // The indexer subscription re-renders the list when new events arrive
+      await indexerRef.current.sync();
     } catch (e) { console.error("Error loading tokens:", e); } 
-    finally { setIsRefreshing(false); setLoading(false); }
+    finally { setIsRefreshing(false); }
   };
 
   const issueToken = async () => {
@@ -146,45 +176,8 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting equity data with Zama FHE..." });
     
     try {
-      // Encrypt sensitive numerical data using FHE
-      const encryptedValuation = FHEEncryptNumber(newTokenData.valuation);
-      const encryptedShares = FHEEncryptNumber(newTokenData.totalShares);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const tokenId = `token_${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const tokenData = { 
-        encryptedValuation, 
-        encryptedShares,
-        timestamp: Math.floor(Date.now() / 1000), 
-        issuer: address, 
-        companyName: newTokenData.companyName,
-        status: "pending",
-        transactionHistory: [{
-          id: `tx_${Date.now()}`,
-          timestamp: Math.floor(Date.now() / 1000),
-          from: address!,
-          to: address!,
-          encryptedAmount: encryptedShares,
-          type: "issuance"
-        }]
-      };
-
-      // Store token data
-      await contract.setData(tokenId, ethers.toUtf8Bytes(JSON.stringify(tokenData)));
-      
-      // Update token keys list
-      const keysBytes = await contract.getData("token_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { 
-          const keysStr = ethers.toUtf8String(keysBytes);
-          keys = JSON.parse(keysStr); 
-        } catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(tokenId);
-      await contract.setData("token_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      // Valuation and share count are encrypted client-side and bound to the registry and this wallet
+      await registry.issueToken(newTokenData, address!);
       
       setTransactionStatus({ visible: true, status: "success", message: "Equity token issued with FHE encryption!" });
       await loadTokens();
@@ -207,17 +200,18 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (handles: string[]): Promise<Record<string, bigint> | null> => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
       return null; 
     }
     setIsDecrypting(true);
     try {
-      const message = `FHE Decryption Request\nPublic Key: ${publicKey.substring(0, 20)}...\nContract: ${contractAddress.substring(0, 10)}...\nChain: ${chainId}\nTimestamp: ${Date.now()}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate decryption delay
-      return FHEDecryptNumber(encryptedData);
+      const contract = await getRegistryWithSigner();
+      const signer = contract.runner as ethers.Signer;
+      const network = await signer.provider!.getNetwork();
+      // One EIP-712 signature covers every handle; the permit is reused until it expires
+      return await userDecrypt(handles, await contract.getAddress(), signer, Number(network.chainId));
     } catch (e) { 
       console.error("Decryption failed:", e); 
       return null; 
@@ -226,25 +220,32 @@ const App: React.FC = () => {
     }
   };
 
-  const approveToken = async (tokenId: string) => {
+  const startTrading = async (tokenId: string) => {
     if (!isConnected) return;
-    setTransactionStatus({ visible: true, status: "pending", message: "Approving token with FHE verification..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Opening token for trading..." });
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const tokenBytes = await contract.getData(tokenId);
-      if (tokenBytes.length === 0) throw new Error("Token not found");
-      const tokenData = JSON.parse(ethers.toUtf8String(tokenBytes));
+      await registry.startTrading(tokenId);
       
-      const updatedToken = { ...tokenData, status: "approved" };
-      await contract.setData(tokenId, ethers.toUtf8Bytes(JSON.stringify(updatedToken)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Token approved successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Token is now open for trading!" });
       await loadTokens();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Approval failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Opening trading failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const publishMarketStats = async () => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting market statistics from the oracle..." });
+    try {
+      await requestMarketStats(lastEndedPeriod);
+      setTransactionStatus({ visible: true, status: "success", message: "Requested; statistics appear once the oracle publishes them" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const message = e.message?.includes("TooFewListings") ? "Not enough tokens were listed at the period's close to publish statistics"
+        : e.message?.includes("PeriodOutOfOrder") ? "A later period has already been published"
+        : e.shortMessage || e.message || "Unknown error";
+      setTransactionStatus({ visible: true, status: "error", message: "Publishing failed: " + message });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
@@ -274,9 +275,21 @@ const App: React.FC = () => {
           <h1>PrivateEquity<span>FHE</span></h1>
         </div>
         <div className="header-actions">
-          <button onClick={() => setShowIssueModal(true)} className="issue-token-btn vault-button">
-            <div className="add-icon"></div>Issue Equity
-          </button>
+          {isQualified && (
+            <button onClick={() => setShowIssueModal(true)} className="issue-token-btn vault-button">
+              <div className="add-icon"></div>Issue Equity
+            </button>
+          )}
+          {roles.isPlatformAdmin && (
+            <button className="vault-button" onClick={() => setShowRoleAdmin(!showRoleAdmin)}>
+              {showRoleAdmin ? "Hide Roles" : "Roles"}
+            </button>
+          )}
+          {isInvestorAdmin && (
+            <button className="vault-button" onClick={() => setShowInvestorAdmin(!showInvestorAdmin)}>
+              {showInvestorAdmin ? "Hide Investors" : "Investors"}
+            </button>
+          )}
           <button className="vault-button" onClick={() => setShowTutorial(!showTutorial)}>
             {showTutorial ? "Hide Guide" : "Platform Guide"}
           </button>
@@ -299,6 +312,49 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {unsupportedChain && (
+          <div className="network-notice">
+            <strong>Your wallet is connected to an unsupported network.</strong>
+            <p>Switch to {supportedNetworkNames()} to issue, trade or decrypt. Showing {getNetwork(networkChainId).name} until then.</p>
+          </div>
+        )}
+
+        {qualificationNotice && (
+          <div className="qualification-notice">
+            <strong>Issuance and trading are limited to qualified investors.</strong>
+            <p>{qualificationNotice}</p>
+          </div>
+        )}
+
+        {isInvestorAdmin && showInvestorAdmin && (
+          <InvestorAdmin
+            investors={investorList}
+            onChanged={async () => {
+              await loadTokens();
+              await loadInvestorStatus();
+            }}
+          />
+        )}
+
+        {roles.isPlatformAdmin && showRoleAdmin && (
+          <ComplianceOfficers
+            officers={complianceOfficers}
+            onChanged={async () => {
+              await loadTokens();
+              await loadRoles();
+            }}
+          />
+        )}
+
+        {roles.isComplianceOfficer && (
+          <ApprovalQueue
+            tokens={approvalQueue}
+            account={address}
+            onReview={setSelectedToken}
+            onChanged={loadTokens}
+          />
+        )}
+
         {/* Tutorial Section */}
         {showTutorial && (
           <div className="tutorial-section">
@@ -326,9 +382,13 @@ const App: React.FC = () => {
               <div className="stat-label">Total Listings</div>
             </div>
             <div className="stat-card">
-              <div className="stat-value">${(totalValuation / 1000000).toFixed(1)}M</div>
+              <div className="stat-value">{latestStats ? `$${(Number(latestStats.totalValuation) / 1000000).toFixed(1)}M` : "Encrypted"}</div>
               <div className="stat-label">Total Valuation</div>
             </div>
+            <div className="stat-card">
+              <div className="stat-value">{latestStats ? latestStats.tradedShares.toLocaleString() : "Encrypted"}</div>
+              <div className="stat-label">Shares Traded</div>
+            </div>
             <div className="stat-card">
               <div className="stat-value">{tradingCount}</div>
               <div className="stat-label">Active Trades</div>
@@ -338,6 +398,14 @@ const App: React.FC = () => {
               <div className="stat-label">Approved</div>
             </div>
           </div>
+          <div className="market-stats-note">
+            {latestStats
+              ? `Published by the decryption oracle across ${latestStats.listings} listings; volume for ${new Date(latestStats.period * VOLUME_PERIOD_SECONDS * 1000).toLocaleDateString()}.`
+              : "Market totals stay encrypted until enough tokens are listed and the oracle publishes them."}
+            {canPublishStats && (
+              <button onClick={publishMarketStats} className="vault-button small outline">Publish Latest</button>
+            )}
+          </div>
         </div>
 
         {/* Equity Tokens List */}
@@ -348,18 +416,34 @@ const App: React.FC = () => {
               {isRefreshing ? "Refreshing..." : "Refresh"}
             </button>
           </div>
-          
+
+          <div className="status-filters">
+            {(["all", ...registry.STATUSES] as const).map(status => (
+              <button
+                key={status}
+                className={`status-filter ${statusFilter === status ? "active" : ""}`}
+                onClick={() => { setStatusFilter(status); setVisibleCount(registry.PAGE_SIZE); }}
+              >
+                {status} ({status === "all" ? tokens.length : tokens.filter(t => t.status === status).length})
+              </button>
+            ))}
+          </div>
+
           <div className="tokens-list">
             {tokens.length === 0 ? (
               <div className="no-tokens">
                 <div className="no-tokens-icon"></div>
                 <p>No equity tokens listed yet</p>
-                <button className="vault-button primary" onClick={() => setShowIssueModal(true)}>
-                  Issue First Token
-                </button>
+                {isQualified && (
+                  <button className="vault-button primary" onClick={() => setShowIssueModal(true)}>
+                    Issue First Token
+                  </button>
+                )}
               </div>
+            ) : filteredTokens.length === 0 ? (
+              <p className="no-filter-results">No {statusFilter} tokens</p>
             ) : (
-              tokens.map(token => (
+              filteredTokens.slice(0, visibleCount).map(token => (
                 <div key={token.id} className="token-card" onClick={() => setSelectedToken(token)}>
                   <div className="token-header">
                     <h3>{token.companyName}</h3>
@@ -376,9 +460,9 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <div className="token-actions">
-                    {isIssuer(token.issuer) && token.status === "pending" && (
-                      <button className="vault-button small" onClick={(e) => { e.stopPropagation(); approveToken(token.id); }}>
-                        Approve
+                    {isQualified && isIssuer(token.issuer) && token.status === "approved" && (
+                      <button className="vault-button small" onClick={(e) => { e.stopPropagation(); startTrading(token.id); }}>
+                        Open Trading
                       </button>
                     )}
                     <button className="vault-button small outline" onClick={(e) => { e.stopPropagation(); setSelectedToken(token); }}>
@@ -389,6 +473,11 @@ const App: React.FC = () => {
               ))
             )}
           </div>
+          {visibleCount < filteredTokens.length && (
+            <button onClick={() => setVisibleCount(visibleCount + registry.PAGE_SIZE)} className="vault-button outline load-more-btn">
+              {`Load More (${filteredTokens.length - visibleCount} remaining)`}
+            </button>
+          )}
         </div>
       </div>
 
@@ -412,7 +501,29 @@ const App: React.FC = () => {
       {/* Token Detail Modal */}
       {selectedToken && (
         <TokenDetailModal
-          token={selectedToken}
+          token={tokens.find(t => t.id === selectedToken.id) ?? selectedToken}
+          orders={projectOrders(indexEvents, selectedToken.id)}
+          account={address}
+          orderBookEnabled={!!config.orderBookAddress}
+          onOrdersChanged={loadTokens}
+          ledgerEnabled={!!config.shareLedgerAddress}
+          tradingRestriction={qualificationNotice}
+          roles={roles}
+          capTable={projectCapTable(indexEvents, selectedToken.id)}
+          capTableEnabled={!!config.capTableAddress}
+          metrics={projectMetrics(indexEvents, selectedToken.id)}
+          analyticsEnabled={!!config.analyticsAddress}
+          rounds={projectRounds(indexEvents, selectedToken.id)}
+          fundraisingEnabled={!!config.fundraisingAddress && !!config.stablecoinAddress}
+          auctions={projectAuctions(indexEvents, selectedToken.id)}
+          auctionEnabled={!!config.auctionAddress && !!config.stablecoinAddress}
+          distributions={projectDistributions(indexEvents, selectedToken.id)}
+          distributionsEnabled={!!config.distributionsAddress && !!config.stablecoinAddress}
+          grants={projectGrants(indexEvents, selectedToken.id)}
+          vestingEnabled={!!config.vestingAddress}
+          attachedRules={projectAttachedRules(indexEvents, selectedToken.id)}
+          saleNotices={projectSaleNotices(indexEvents, selectedToken.id)}
+          rulesEnabled={!!config.complianceAddress}
           onClose={() => {
             setSelectedToken(null);
             setDecryptedValuation(null);
@@ -628,7 +739,7 @@ const IssueTokenModal: React.FC<IssueTokenModalProps> = ({
                   <div className="encryption-arrow">↓</div>
                   <div className="encrypted-data">
                     <label>FHE Encrypted:</label>
-                    <div>{FHEEncryptNumber(tokenData.valuation).substring(0, 40)}...</div>
+                    <div>euint64 handle + input proof (generated on submit)</div>
                   </div>
                 </div>
               </div>
@@ -660,17 +771,63 @@ const IssueTokenModal: React.FC<IssueTokenModalProps> = ({
 // Token Detail Modal Component
 interface TokenDetailModalProps {
   token: EquityToken;
+  orders: Order[];
+  account?: string;
+  orderBookEnabled: boolean;
+  onOrdersChanged: () => Promise<void>;
+  // False when no share ledger is deployed, so shares cannot be transferred
+  ledgerEnabled: boolean;
+  // Why the connected wallet may not trade or transfer; empty when it may
+  tradingRestriction: string;
+  roles: Roles;
+  capTable: CapTableData;
+  capTableEnabled: boolean;
+  metrics: TokenMetrics;
+  analyticsEnabled: boolean;
+  rounds: FundraisingRound[];
+  fundraisingEnabled: boolean;
+  auctions: Auction[];
+  auctionEnabled: boolean;
+  distributions: Distribution[];
+  distributionsEnabled: boolean;
+  grants: VestingGrant[];
+  vestingEnabled: boolean;
+  attachedRules: string[];
+  saleNotices: SaleNotice[];
+  rulesEnabled: boolean;
   onClose: () => void;
   decryptedValuation: number | null;
   decryptedShares: number | null;
   setDecryptedValuation: (value: number | null) => void;
   setDecryptedShares: (value: number | null) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptWithSignature: (handles: string[]) => Promise<Record<string, bigint> | null>;
 }
 
 const TokenDetailModal: React.FC<TokenDetailModalProps> = ({
   token,
+  orders,
+  account,
+  orderBookEnabled,
+  onOrdersChanged,
+  ledgerEnabled,
+  tradingRestriction,
+  roles,
+  capTable,
+  capTableEnabled,
+  metrics,
+  analyticsEnabled,
+  rounds,
+  fundraisingEnabled,
+  auctions,
+  auctionEnabled,
+  distributions,
+  distributionsEnabled,
+  grants,
+  vestingEnabled,
+  attachedRules,
+  saleNotices,
+  rulesEnabled,
   onClose,
   decryptedValuation,
   decryptedShares,
@@ -679,6 +836,13 @@ const TokenDetailModal: React.FC<TokenDetailModalProps> = ({
   isDecrypting,
   decryptWithSignature
 }) => {
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [tab, setTab] = useState<"overview" | "capTable" | "rounds" | "auctions" | "distributions" | "vesting" | "rules">("overview");
+  // Mirrors the ledger: shares trade freely, and an approved token's only leave its issuer
+  const canTransfer =
+    token.status === "trading" ||
+    (token.status === "approved" && account?.toLowerCase() === token.issuer.toLowerCase());
+
   const handleDecrypt = async () => {
     if (decryptedValuation !== null) {
       setDecryptedValuation(null);
@@ -686,11 +850,11 @@ const TokenDetailModal: React.FC<TokenDetailModalProps> = ({
       return;
     }
     
-    const valuation = await decryptWithSignature(token.encryptedValuation);
-    const shares = await decryptWithSignature(token.encryptedShares);
+    const values = await decryptWithSignature([token.encryptedValuation, token.encryptedShares]);
+    if (!values) return;
     
-    if (valuation !== null) setDecryptedValuation(valuation);
-    if (shares !== null) setDecryptedShares(shares);
+    setDecryptedValuation(Number(values[token.encryptedValuation]));
+    setDecryptedShares(Number(values[token.encryptedShares]));
   };
 
   return (
@@ -701,99 +865,185 @@ const TokenDetailModal: React.FC<TokenDetailModalProps> = ({
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
 
-        <div className="modal-body">
-          <div className="token-info-grid">
-            <div className="info-section">
-              <h3>Basic Information</h3>
-              <div className="info-item">
-                <span>Token ID:</span>
-                <span>#{token.id.substring(0, 8)}</span>
-              </div>
-              <div className="info-item">
-                <span>Issuer:</span>
-                <span>{token.issuer.substring(0, 10)}...{token.issuer.substring(34)}</span>
-              </div>
-              <div className="info-item">
-                <span>Listed:</span>
-                <span>{new Date(token.timestamp * 1000).toLocaleString()}</span>
-              </div>
-              <div className="info-item">
-                <span>Status:</span>
-                <span className={`status-badge ${token.status}`}>{token.status}</span>
-              </div>
-            </div>
+        <div className="modal-tabs">
+          <button className={`modal-tab ${tab === "overview" ? "active" : ""}`} onClick={() => setTab("overview")}>Overview</button>
+          <button className={`modal-tab ${tab === "capTable" ? "active" : ""}`} onClick={() => setTab("capTable")}>Cap Table</button>
+          <button className={`modal-tab ${tab === "rounds" ? "active" : ""}`} onClick={() => setTab("rounds")}>Rounds</button>
+          <button className={`modal-tab ${tab === "auctions" ? "active" : ""}`} onClick={() => setTab("auctions")}>Auctions</button>
+          <button className={`modal-tab ${tab === "distributions" ? "active" : ""}`} onClick={() => setTab("distributions")}>Distributions</button>
+          <button className={`modal-tab ${tab === "vesting" ? "active" : ""}`} onClick={() => setTab("vesting")}>Vesting</button>
+          <button className={`modal-tab ${tab === "rules" ? "active" : ""}`} onClick={() => setTab("rules")}>Rules</button>
+        </div>
 
-            <div className="encrypted-section">
-              <h3>Encrypted Financial Data</h3>
-              <div className="encrypted-data">
-                <div className="data-item">
-                  <label>Valuation:</label>
-                  <span>{token.encryptedValuation.substring(0, 30)}...</span>
-                </div>
-                <div className="data-item">
-                  <label>Shares:</label>
-                  <span>{token.encryptedShares.substring(0, 30)}...</span>
+        <div className="modal-body">
+          {tab === "capTable" ? (
+            <CapTable token={token} capTable={capTable} account={account} enabled={capTableEnabled} onChanged={onOrdersChanged} />
+          ) : tab === "rounds" ? (
+            <Rounds
+              token={token}
+              rounds={rounds}
+              account={account}
+              enabled={fundraisingEnabled}
+              restriction={tradingRestriction}
+              onChanged={onOrdersChanged}
+            />
+          ) : tab === "auctions" ? (
+            <Auctions
+              token={token}
+              auctions={auctions}
+              account={account}
+              enabled={auctionEnabled}
+              restriction={tradingRestriction}
+              onChanged={onOrdersChanged}
+            />
+          ) : tab === "distributions" ? (
+            <Distributions
+              token={token}
+              distributions={distributions}
+              account={account}
+              enabled={distributionsEnabled}
+              onChanged={onOrdersChanged}
+            />
+          ) : tab === "vesting" ? (
+            <Vesting token={token} grants={grants} account={account} enabled={vestingEnabled} onChanged={onOrdersChanged} />
+          ) : tab === "rules" ? (
+            <TransferRules
+              token={token}
+              attached={attachedRules}
+              notices={saleNotices}
+              account={account}
+              enabled={rulesEnabled}
+              onChanged={onOrdersChanged}
+            />
+          ) : (
+            <>
+              <div className="token-info-grid">
+                <div className="info-section">
+                  <h3>Basic Information</h3>
+                  <div className="info-item">
+                    <span>Token ID:</span>
+                    <span>#{token.id.substring(0, 8)}</span>
+                  </div>
+                  <div className="info-item">
+                    <span>Issuer:</span>
+                    <span>{token.issuer.substring(0, 10)}...{token.issuer.substring(34)}</span>
+                  </div>
+                  <div className="info-item">
+                    <span>Listed:</span>
+                    <span>{new Date(token.timestamp * 1000).toLocaleString()}</span>
+                  </div>
+                  <div className="info-item">
+                    <span>Status:</span>
+                    <span className={`status-badge ${token.status}`}>{token.status}</span>
+                  </div>
+                  <div className="info-item">
+                    <span>Since:</span>
+                    <span>{new Date(token.statusChangedAt * 1000).toLocaleString()}</span>
+                  </div>
                 </div>
-              </div>
-              
-              <button 
-                onClick={handleDecrypt} 
-                disabled={isDecrypting}
-                className="vault-button decrypt-btn"
-              >
-                {isDecrypting ? "Decrypting..." : 
-                 decryptedValuation ? "Re-encrypt Data" : "Decrypt with Signature"}
-              </button>
-            </div>
-          </div>
 
-          {/* Transaction History */}
-          <div className="transaction-history">
-            <h3>Transaction History</h3>
-            <div className="timeline">
-              {token.transactionHistory.map(tx => (
-                <div key={tx.id} className="timeline-item">
-                  <div className="timeline-marker"></div>
-                  <div className="timeline-content">
-                    <div className="tx-type">{tx.type.toUpperCase()}</div>
-                    <div className="tx-parties">
-                      {tx.from.substring(0, 8)}... → {tx.to.substring(0, 8)}...
+                <div className="encrypted-section">
+                  <h3>Encrypted Financial Data</h3>
+                  <div className="encrypted-data">
+                    <div className="data-item">
+                      <label>Valuation:</label>
+                      <span>{token.encryptedValuation.substring(0, 30)}...</span>
                     </div>
-                    <div className="tx-time">
-                      {new Date(tx.timestamp * 1000).toLocaleString()}
+                    <div className="data-item">
+                      <label>Shares:</label>
+                      <span>{token.encryptedShares.substring(0, 30)}...</span>
                     </div>
                   </div>
+              
+                  <button 
+                    onClick={handleDecrypt} 
+                    disabled={isDecrypting}
+                    className="vault-button decrypt-btn"
+                  >
+                    {isDecrypting ? "Decrypting..." : 
+                     decryptedValuation ? "Re-encrypt Data" : "Decrypt with Signature"}
+                  </button>
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
 
-          {/* Decrypted Data Display */}
-          {decryptedValuation !== null && decryptedShares !== null && (
-            <div className="decrypted-section">
-              <h3>Decrypted Values</h3>
-              <div className="decrypted-data">
-                <div className="value-item">
-                  <span>Company Valuation:</span>
-                  <strong>${decryptedValuation.toLocaleString()}</strong>
-                </div>
-                <div className="value-item">
-                  <span>Total Shares:</span>
-                  <strong>{decryptedShares.toLocaleString()}</strong>
-                </div>
-                <div className="value-item">
-                  <span>Price per Share:</span>
-                  <strong>${(decryptedValuation / decryptedShares).toFixed(2)}</strong>
+              {/* Transaction History */}
+              <div className="transaction-history">
+                <h3>Transaction History</h3>
+                <div className="timeline">
+                  {token.transactionHistory.map(tx => (
+                    <div key={tx.id} className="timeline-item">
+                      <div className="timeline-marker"></div>
+                      <div className="timeline-content">
+                        <div className="tx-type">{tx.type === "status" ? tx.status!.toUpperCase() : tx.type.toUpperCase()}</div>
+                        {tx.type === "status" ? (
+                          <div className="tx-parties">
+                            by {tx.from.substring(0, 8)}...{tx.reason && <span className="tx-reason"> — {tx.reason}</span>}
+                          </div>
+                        ) : (
+                          <div className="tx-parties">
+                            {tx.from.substring(0, 8)}... → {tx.to.substring(0, 8)}...
+                          </div>
+                        )}
+                        <div className="tx-time">
+                          {new Date(tx.timestamp * 1000).toLocaleString()}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
-            </div>
+
+              <StatusActions token={token} account={account} roles={roles} onChanged={onOrdersChanged} />
+
+              <OrderBook
+                token={token}
+                orders={orders}
+                account={account}
+                enabled={orderBookEnabled}
+                restriction={tradingRestriction}
+                onChanged={onOrdersChanged}
+              />
+
+              <Analytics token={token} metrics={metrics} account={account} enabled={analyticsEnabled} onChanged={onOrdersChanged} />
+
+              {/* Decrypted Data Display */}
+              {decryptedValuation !== null && decryptedShares !== null && (
+                <div className="decrypted-section">
+                  <h3>Decrypted Values</h3>
+                  <div className="decrypted-data">
+                    <div className="value-item">
+                      <span>Company Valuation:</span>
+                      <strong>${decryptedValuation.toLocaleString()}</strong>
+                    </div>
+                    <div className="value-item">
+                      <span>Total Shares:</span>
+                      <strong>{decryptedShares.toLocaleString()}</strong>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
           )}
         </div>
 
         <div className="modal-footer">
           <button onClick={onClose} className="vault-button">Close</button>
+          {ledgerEnabled && !tradingRestriction && canTransfer && (
+            <button onClick={() => setShowTransfer(true)} className="vault-button primary">
+              Transfer Shares
+            </button>
+          )}
         </div>
       </div>
+
+      {showTransfer && (
+        <TransferDialog
+          token={token}
+          account={account}
+          onClose={() => setShowTransfer(false)}
+          onTransferred={onOrdersChanged}
+        />
+      )}
     </div>
   );
 };
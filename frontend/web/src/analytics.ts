@@ -0,0 +1,163 @@
+// analytics.ts
+import { ethers } from "ethers";
+import { getAnalyticsWithSigner } from "./contract";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+
+export interface ValuationMark {
+  index: number;
+  valuation: string;
+  change: string;
+  increased: string;
+  timestamp: number;
+}
+
+export interface TokenMetrics {
+  // Null until the issuer submits a price per share
+  pricePerShare: string | null;
+  // Oldest first
+  marks: ValuationMark[];
+  viewers: string[];
+}
+
+export interface DecryptedMark {
+  valuation: bigint;
+  // Signed change against the previous mark, zero for the first one
+  change: bigint;
+}
+
+export interface DecryptedMetrics {
+  // Zero when the submitted price did not match valuation / shares
+  pricePerShare: bigint | null;
+  marks: Record<number, DecryptedMark>;
+}
+
+export interface MarketStats {
+  requestId: string;
+  // Volume period index, i.e. the period's start time / VOLUME_PERIOD_SECONDS
+  period: number;
+  listings: number;
+  totalValuation: bigint;
+  totalShares: bigint;
+  // Shares traded across all tokens during the period
+  tradedShares: bigint;
+  timestamp: number;
+}
+
+// Mirrors EquityOrderBook.VOLUME_PERIOD
+export const VOLUME_PERIOD_SECONDS = 24 * 60 * 60;
+
+/** Rebuilds a token's encrypted metrics from indexed EquityAnalytics events. */
+export function projectMetrics(events: IndexedEvent[], tokenId: string): TokenMetrics {
+  const metrics: TokenMetrics = { pricePerShare: null, marks: [], viewers: [] };
+  for (const e of events) {
+    if (e.source !== "EquityAnalytics" || String(e.args.tokenId) !== tokenId) continue;
+
+    if (e.name === "PricePerShareSubmitted") {
+      metrics.pricePerShare = String(e.args.pricePerShare);
+    } else if (e.name === "ValuationMarked") {
+      metrics.marks.push({
+        index: Number(e.args.markIndex),
+        valuation: String(e.args.valuation),
+        change: String(e.args.change),
+        increased: String(e.args.increased),
+        timestamp: e.timestamp
+      });
+    } else if (e.name === "MetricsViewerAdded") {
+      metrics.viewers.push(String(e.args.viewer));
+    }
+  }
+  return metrics;
+}
+
+/** Market statistics published by the oracle, oldest first. */
+export function projectMarketStats(events: IndexedEvent[]): MarketStats[] {
+  return events
+    .filter(e => e.source === "EquityAnalytics" && e.name === "MarketStatsPublished")
+    .map(e => ({
+      requestId: String(e.args.requestId),
+      period: Number(e.args.period),
+      listings: Number(e.args.listings),
+      totalValuation: BigInt(String(e.args.totalValuation)),
+      totalShares: BigInt(String(e.args.totalShares)),
+      tradedShares: BigInt(String(e.args.tradedShares)),
+      timestamp: e.timestamp
+    }));
+}
+
+/** The issuer and appointed metrics viewers may decrypt a token's metrics. */
+export function canReadMetrics(metrics: TokenMetrics, issuer: string, account?: string): boolean {
+  if (!account) return false;
+  const me = account.toLowerCase();
+  return issuer.toLowerCase() === me || metrics.viewers.some(v => v.toLowerCase() === me);
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const analyticsChainId = async (analytics: ethers.Contract) =>
+  Number((await analytics.runner!.provider!.getNetwork()).chainId);
+
+/**
+ * Submits the token's price per share. The contract checks it against the encrypted
+ * valuation and share count and stores an encrypted zero unless it is their quotient, rounded down.
+ */
+export async function submitPricePerShare(tokenId: string, price: number, sender: string): Promise<void> {
+  if (price <= 0) throw new Error("Price per share must be positive");
+  const analytics = await getAnalyticsWithSigner();
+  const { handles, inputProof } = await encryptValues(
+    await analytics.getAddress(),
+    sender,
+    await analyticsChainId(analytics),
+    [{ type: "euint64", value: price }]
+  );
+  await submit(analytics.submitPricePerShare(tokenId, handles[0], inputProof));
+}
+
+/** Records the valuation implied by the token's last trade. */
+export async function markToLastTrade(tokenId: string): Promise<void> {
+  const analytics = await getAnalyticsWithSigner();
+  await submit(analytics.markToLastTrade(tokenId));
+}
+
+export async function addMetricsViewer(tokenId: string, viewer: string): Promise<void> {
+  if (!ethers.isAddress(viewer)) throw new Error("Viewer is not a valid address");
+  const analytics = await getAnalyticsWithSigner();
+  await submit(analytics.addMetricsViewer(tokenId, viewer));
+}
+
+/**
+ * Asks the oracle to publish the listed totals at the close of `period`, which must have ended, and its volume.
+ * Reverts with TooFewListings if too few tokens were listed at the close, and with PeriodOutOfOrder once a later
+ * period has been published.
+ */
+export async function requestMarketStats(period: number): Promise<void> {
+  const analytics = await getAnalyticsWithSigner();
+  await submit(analytics.requestMarketStats(period));
+}
+
+export async function decryptMetrics(metrics: TokenMetrics): Promise<DecryptedMetrics> {
+  const handles = [
+    ...(metrics.pricePerShare ? [metrics.pricePerShare] : []),
+    ...metrics.marks.flatMap(m => [m.valuation, m.change, m.increased])
+  ];
+  if (handles.length === 0) return { pricePerShare: null, marks: {} };
+
+  const analytics = await getAnalyticsWithSigner();
+  const values = await userDecrypt(
+    handles,
+    await analytics.getAddress(),
+    analytics.runner as ethers.Signer,
+    await analyticsChainId(analytics)
+  );
+  return {
+    pricePerShare: metrics.pricePerShare ? values[metrics.pricePerShare] : null,
+    marks: Object.fromEntries(metrics.marks.map(m => [m.index, {
+      valuation: values[m.valuation],
+      change: values[m.increased] === 1n ? values[m.change] : -values[m.change]
+    }]))
+  };
+}
@@ -0,0 +1,186 @@
+// auctions.ts
+import { ethers } from "ethers";
+import { config, getAuctionWithSigner, getStablecoinWithSigner } from "./contract";
+import { STABLECOIN_DECIMALS } from "./distributions";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+import { setOperator } from "./ledger";
+
+/**
+ * Bidding until the deadline passes and someone clears the auction; clearing waits for
+ * the oracle to publish the clearing price. Auctions without bids are cancelled.
+ */
+export type AuctionState = "bidding" | "clearing" | "settled" | "cancelled";
+
+export interface AuctionBid {
+  bidder: string;
+  price: string;
+  quantity: string;
+  // Encrypted allocation, once claimed
+  claimed: string | null;
+}
+
+export interface Auction {
+  id: string;
+  tokenId: string;
+  issuer: string;
+  sharesOffered: number;
+  deadline: number;
+  state: AuctionState;
+  // Published by the oracle once the auction settles, in stablecoin base units per share
+  clearingPrice: bigint | null;
+  bids: AuctionBid[];
+  createdAt: number;
+}
+
+export interface OwnBid {
+  price: bigint;
+  quantity: bigint;
+  // Null until the auction has cleared
+  allocation: bigint | null;
+}
+
+// Mirrors EquityAuction.MAX_BIDS
+export const MAX_BIDS = 16;
+
+/** Rebuilds a token's auctions, newest first, from indexed EquityAuction events. */
+export function projectAuctions(events: IndexedEvent[], tokenId: string): Auction[] {
+  const auctions = new Map<string, Auction>();
+  for (const e of events) {
+    if (e.source !== "EquityAuction") continue;
+    const auctionId = String(e.args.auctionId);
+
+    if (e.name === "AuctionCreated") {
+      if (String(e.args.tokenId) !== tokenId) continue;
+      auctions.set(auctionId, {
+        id: auctionId,
+        tokenId,
+        issuer: String(e.args.issuer),
+        sharesOffered: Number(e.args.sharesOffered),
+        deadline: Number(e.args.deadline),
+        state: "bidding",
+        clearingPrice: null,
+        bids: [],
+        createdAt: e.timestamp
+      });
+      continue;
+    }
+
+    const auction = auctions.get(auctionId);
+    if (!auction) continue;
+    if (e.name === "BidPlaced") {
+      auction.bids.push({
+        bidder: String(e.args.bidder),
+        price: String(e.args.price),
+        quantity: String(e.args.quantity),
+        claimed: null
+      });
+    } else if (e.name === "BidDropped") {
+      const bidder = String(e.args.bidder).toLowerCase();
+      auction.bids = auction.bids.filter(b => b.bidder.toLowerCase() !== bidder);
+    } else if (e.name === "AuctionClearing") {
+      auction.state = "clearing";
+    } else if (e.name === "AuctionCleared") {
+      auction.state = "settled";
+      auction.clearingPrice = BigInt(String(e.args.clearingPrice));
+    } else if (e.name === "AuctionCancelled") {
+      auction.state = "cancelled";
+    } else if (e.name === "AllocationClaimed") {
+      const bidder = String(e.args.bidder).toLowerCase();
+      const bid = auction.bids.find(b => b.bidder.toLowerCase() === bidder);
+      if (bid) bid.claimed = String(e.args.shares);
+    }
+  }
+  return [...auctions.values()].reverse();
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const auctionChainId = async (auction: ethers.Contract) =>
+  Number((await auction.runner!.provider!.getNetwork()).chainId);
+
+/** Offers shares of an approved or trading token; `deadline` is a unix timestamp in seconds. */
+export async function createAuction(tokenId: string, sharesOffered: number, deadline: number): Promise<void> {
+  if (sharesOffered <= 0) throw new Error("Offer at least one share");
+  if (!Number.isFinite(deadline) || deadline <= Date.now() / 1000) throw new Error("Deadline must be in the future");
+  const auction = await getAuctionWithSigner();
+  await submit(auction.createAuction(tokenId, sharesOffered, deadline));
+}
+
+/**
+ * Places a sealed bid at `price` whole cUSD per share, escrowing price × quantity. Price and
+ * quantity are encrypted in the browser and only the bidder can read them back; quantities
+ * above the shares offered are capped by the contract. A bid the wallet cannot fund is dropped
+ * once the oracle reports it.
+ */
+export async function placeBid(auctionId: string, price: number, quantity: number, sender: string): Promise<void> {
+  if (price <= 0 || quantity <= 0) throw new Error("Price and quantity must be positive");
+  const auction = await getAuctionWithSigner();
+  const { handles, inputProof } = await encryptValues(
+    await auction.getAddress(),
+    sender,
+    await auctionChainId(auction),
+    [
+      { type: "euint64", value: ethers.parseUnits(String(price), STABLECOIN_DECIMALS) },
+      { type: "euint64", value: quantity }
+    ]
+  );
+  await submit(auction.placeBid(auctionId, handles[0], handles[1], inputProof));
+}
+
+/**
+ * Computes the clearing price after the deadline, sending clearAuction until it finishes; a full
+ * auction takes several transactions. The price arrives with the oracle callback.
+ */
+export async function clearAuction(auctionId: string): Promise<void> {
+  const auction = await getAuctionWithSigner();
+  let unfinished = true;
+  while (unfinished) {
+    const receipt = await submit(auction.clearAuction(auctionId));
+    unfinished = receipt.logs.some(log => auction.interface.parseLog(log)?.name === "ClearingProgress");
+  }
+}
+
+/** Pays for the connected wallet's allocation at the clearing price out of its escrow and receives the shares. */
+export async function claimAllocation(auctionId: string): Promise<void> {
+  const auction = await getAuctionWithSigner();
+  await submit(auction.claimAllocation(auctionId));
+}
+
+/**
+ * Lets the auction contract escrow the connected wallet's stablecoin for bids placed
+ * until `until` (seconds). Until then placing a bid reverts.
+ */
+export async function authorizeAuctionPayments(until: number): Promise<void> {
+  const stablecoin = await getStablecoinWithSigner();
+  await submit(stablecoin.setOperator(config.auctionAddress, until));
+}
+
+/**
+ * Lets the auction contract move the issuer's shares to bidders as they claim,
+ * until `until` (seconds). Until then claiming an allocation reverts.
+ */
+export async function authorizeAuctionAllocations(until: number): Promise<void> {
+  await setOperator(config.auctionAddress, until);
+}
+
+/** Decrypts the connected wallet's bid and, once the auction has cleared, its allocation. */
+export async function decryptOwnBid(auction: Auction): Promise<OwnBid> {
+  const contract = await getAuctionWithSigner();
+  const signer = contract.runner as ethers.Signer;
+  const bid = await contract.getBid(auction.id, await signer.getAddress());
+  if (bid.bidder === ethers.ZeroAddress) throw new Error("You have not bid in this auction");
+
+  const cleared = bid.allocation !== ethers.ZeroHash;
+  const handles: string[] = [bid.price, bid.quantity, ...(cleared ? [bid.allocation] : [])];
+  const values = await userDecrypt(handles, await contract.getAddress(), signer, await auctionChainId(contract));
+  return {
+    price: values[bid.price],
+    quantity: values[bid.quantity],
+    allocation: cleared ? values[bid.allocation] : null
+  };
+}
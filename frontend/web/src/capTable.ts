@@ -0,0 +1,210 @@
+// capTable.ts
+import { ethers } from "ethers";
+import { getCapTableWithSigner } from "./contract";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+import type { EquityToken } from "./registry";
+
+export type ShareClassKind = "common" | "preferred";
+
+export interface ShareClass {
+  id: string;
+  name: string;
+  kind: ShareClassKind;
+}
+
+export interface CapTableRow {
+  key: string;
+  // Null for option grants, which sit outside the share classes
+  classId: string | null;
+  holder: string;
+  // Latest encrypted position; option grants carry the holder's running total
+  handle: string;
+}
+
+export interface CapTable {
+  classes: ShareClass[];
+  rows: CapTableRow[];
+  viewers: string[];
+}
+
+export interface CapTableTotals {
+  issued: bigint;
+  optionPool: bigint;
+  optionsGranted: bigint;
+  fullyDiluted: bigint;
+}
+
+export interface CapTableValues {
+  // Keyed by CapTableRow.key
+  rows: Record<string, bigint>;
+  // Keyed by ShareClass.id; empty unless the wallet may read aggregates
+  classIssued: Record<string, bigint>;
+  totals: CapTableTotals | null;
+  // When the totals are a viewer's checkpoint, its unix time; null for live totals
+  publishedAt: number | null;
+}
+
+/**
+ * What the connected wallet may decrypt: the issuer reads every row and the live totals,
+ * viewers read the totals of the issuer's latest checkpoint, and holders read their own rows.
+ */
+export type CapTableAccess = "issuer" | "viewer" | "holder" | "none";
+
+// Order of EquityCapTable.ClassKind
+export const CLASS_KINDS: ShareClassKind[] = ["common", "preferred"];
+
+/** Rebuilds a token's cap table, in recording order, from indexed EquityCapTable events. */
+export function projectCapTable(events: IndexedEvent[], tokenId: string): CapTable {
+  const classes: ShareClass[] = [];
+  const rows = new Map<string, CapTableRow>();
+  const viewers: string[] = [];
+  for (const e of events) {
+    if (e.source !== "EquityCapTable" || String(e.args.tokenId) !== tokenId) continue;
+
+    if (e.name === "ShareClassAdded") {
+      classes.push({
+        id: String(e.args.classId),
+        name: String(e.args.name),
+        kind: CLASS_KINDS[Number(e.args.kind)]
+      });
+    } else if (e.name === "HoldingRecorded") {
+      const classId = String(e.args.classId);
+      const holder = String(e.args.holder);
+      const key = `${classId}:${holder.toLowerCase()}`;
+      rows.set(key, { key, classId, holder, handle: String(e.args.shares) });
+    } else if (e.name === "OptionsGranted") {
+      const holder = String(e.args.holder);
+      const key = `options:${holder.toLowerCase()}`;
+      rows.set(key, { key, classId: null, holder, handle: String(e.args.totalOptions) });
+    } else if (e.name === "ViewerAdded") {
+      viewers.push(String(e.args.viewer));
+    }
+  }
+  return { classes, rows: [...rows.values()], viewers };
+}
+
+export function capTableAccess(capTable: CapTable, token: EquityToken, account?: string): CapTableAccess {
+  if (!account) return "none";
+  const me = account.toLowerCase();
+  if (token.issuer.toLowerCase() === me) return "issuer";
+  if (capTable.viewers.some(v => v.toLowerCase() === me)) return "viewer";
+  if (capTable.rows.some(r => r.holder.toLowerCase() === me)) return "holder";
+  return "none";
+}
+
+/** The rows the connected wallet is entitled to decrypt; everyone else's stay hidden. */
+export function visibleRows(capTable: CapTable, access: CapTableAccess, account?: string): CapTableRow[] {
+  if (access === "issuer") return capTable.rows;
+  if (!account) return [];
+  return capTable.rows.filter(r => r.holder.toLowerCase() === account.toLowerCase());
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const capTableChainId = async (capTable: ethers.Contract) =>
+  Number((await capTable.runner!.provider!.getNetwork()).chainId);
+
+const encryptAmount = async (capTable: ethers.Contract, sender: string, amount: number) =>
+  encryptValues(await capTable.getAddress(), sender, await capTableChainId(capTable), [
+    { type: "euint64", value: amount }
+  ]);
+
+export async function addShareClass(tokenId: string, name: string, kind: ShareClassKind): Promise<void> {
+  if (!name.trim()) throw new Error("Class name is required");
+  const capTable = await getCapTableWithSigner();
+  await submit(capTable.addShareClass(tokenId, name.trim(), CLASS_KINDS.indexOf(kind)));
+}
+
+/** Sets a holder's position in a class; the contract adjusts the encrypted totals by the difference. */
+export async function recordHolding(
+  tokenId: string,
+  classId: string,
+  holder: string,
+  shares: number,
+  sender: string
+): Promise<void> {
+  if (!ethers.isAddress(holder)) throw new Error("Holder is not a valid address");
+  const capTable = await getCapTableWithSigner();
+  const { handles, inputProof } = await encryptAmount(capTable, sender, shares);
+  await submit(capTable.recordHolding(tokenId, classId, holder, handles[0], inputProof));
+}
+
+export async function setOptionPool(tokenId: string, size: number, sender: string): Promise<void> {
+  const capTable = await getCapTableWithSigner();
+  const { handles, inputProof } = await encryptAmount(capTable, sender, size);
+  await submit(capTable.setOptionPool(tokenId, handles[0], inputProof));
+}
+
+/** Grants options from the pool. A grant larger than the unallocated pool grants an encrypted zero. */
+export async function grantOptions(tokenId: string, holder: string, amount: number, sender: string): Promise<void> {
+  if (!ethers.isAddress(holder)) throw new Error("Holder is not a valid address");
+  const capTable = await getCapTableWithSigner();
+  const { handles, inputProof } = await encryptAmount(capTable, sender, amount);
+  await submit(capTable.grantOptions(tokenId, holder, handles[0], inputProof));
+}
+
+/** Lets viewers decrypt the current totals; later updates stay hidden until the next one. */
+export async function publishCapTableCheckpoint(tokenId: string): Promise<void> {
+  const capTable = await getCapTableWithSigner();
+  await submit(capTable.publishCheckpoint(tokenId));
+}
+
+export async function addCapTableViewer(tokenId: string, viewer: string): Promise<void> {
+  if (!ethers.isAddress(viewer)) throw new Error("Viewer is not a valid address");
+  const capTable = await getCapTableWithSigner();
+  await submit(capTable.addViewer(tokenId, viewer));
+}
+
+/**
+ * Decrypts `rows` and the class totals, option pool and fully diluted count the access
+ * allows: live for the issuer, the latest checkpoint for viewers. Never-initialized
+ * handles read as zero.
+ */
+export async function decryptCapTable(
+  tokenId: string,
+  rows: CapTableRow[],
+  access: CapTableAccess
+): Promise<CapTableValues> {
+  const capTable = await getCapTableWithSigner();
+  let classes: { id: bigint; issued: string }[] = [];
+  let totals = null;
+  let publishedAt: number | null = null;
+  if (access === "issuer") {
+    classes = await capTable.getShareClasses(tokenId);
+    totals = await capTable.getTotals(tokenId);
+  } else if (access === "viewer") {
+    const checkpoint = await capTable.getCheckpoint(tokenId);
+    if (checkpoint.publishedAt > 0n) {
+      classes = checkpoint.classIssued.map((issued: string, i: number) => ({ id: BigInt(i), issued }));
+      totals = checkpoint.totals;
+      publishedAt = Number(checkpoint.publishedAt);
+    }
+  }
+
+  const handles = [
+    ...rows.map(r => r.handle),
+    ...classes.map(c => c.issued),
+    ...(totals ? [totals.issued, totals.optionPool, totals.optionsGranted, totals.fullyDiluted] : [])
+  ].filter(h => h !== ethers.ZeroHash);
+  const values = handles.length
+    ? await userDecrypt([...new Set(handles)], await capTable.getAddress(), capTable.runner as ethers.Signer, await capTableChainId(capTable))
+    : {};
+  const read = (handle: string) => values[handle] ?? 0n;
+
+  return {
+    rows: Object.fromEntries(rows.map(r => [r.key, read(r.handle)])),
+    classIssued: Object.fromEntries(classes.map(c => [c.id.toString(), read(c.issued)])),
+    totals: totals && {
+      issued: read(totals.issued),
+      optionPool: read(totals.optionPool),
+      optionsGranted: read(totals.optionsGranted),
+      fullyDiluted: read(totals.fullyDiluted)
+    },
+    publishedAt
+  };
+}
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import type { EquityToken } from "../registry";
+import { addMetricsViewer, canReadMetrics, decryptMetrics, markToLastTrade, submitPricePerShare } from "../analytics";
+import type { DecryptedMetrics, TokenMetrics } from "../analytics";
+
+interface AnalyticsProps {
+  token: EquityToken;
+  metrics: TokenMetrics;
+  account?: string;
+  // False when no analytics contract is configured for this deployment
+  enabled: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const formatChange = (change: bigint) => `${change < 0n ? "−" : "+"}$${(change < 0n ? -change : change).toLocaleString()}`;
+
+const Analytics: React.FC<AnalyticsProps> = ({ token, metrics, account, enabled, onChanged }) => {
+  const [price, setPrice] = useState(0);
+  const [viewer, setViewer] = useState("");
+  const [values, setValues] = useState<DecryptedMetrics | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const isIssuer = account?.toLowerCase() === token.issuer.toLowerCase();
+  const canRead = canReadMetrics(metrics, token.issuer, account);
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Analytics request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // New handles replace the decrypted ones, so updates clear them
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    setValues(null);
+    await onChanged();
+  });
+
+  if (!enabled) return null;
+
+  return (
+    <div className="analytics">
+      <h3>Encrypted Analytics</h3>
+      <p className="analytics-note">
+        Computed on-chain from the encrypted valuation, share count and trades.
+        {canRead ? "" : " Ask the issuer for metrics access to decrypt them."}
+      </p>
+
+      <div className="decrypted-data">
+        <div className="value-item">
+          <span>Price per Share:</span>
+          <strong>
+            {!metrics.pricePerShare ? "Not submitted" :
+             !values || values.pricePerShare === null ? "Encrypted" :
+             values.pricePerShare === 0n ? "Did not match valuation" : `$${values.pricePerShare.toLocaleString()}`}
+          </strong>
+        </div>
+      </div>
+
+      {metrics.marks.length > 0 && (
+        <table className="analytics-marks">
+          <thead>
+            <tr>
+              <th>Marked</th>
+              <th>Implied valuation</th>
+              <th>Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.marks.map(mark => (
+              <tr key={mark.index}>
+                <td>{new Date(mark.timestamp * 1000).toLocaleString()}</td>
+                <td>{values?.marks[mark.index] ? `$${values.marks[mark.index].valuation.toLocaleString()}` : "Encrypted"}</td>
+                <td className={!values?.marks[mark.index] ? "" : values.marks[mark.index].change < 0n ? "analytics-down" : "analytics-up"}>
+                  {values?.marks[mark.index] ? formatChange(values.marks[mark.index].change) : "Encrypted"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="analytics-actions">
+        {canRead && (
+          <>
+            <button className="vault-button small outline" disabled={busy} onClick={() => run(async () => setValues(await decryptMetrics(metrics)))}>
+              Decrypt Metrics
+            </button>
+            <button className="vault-button small outline" disabled={busy} onClick={() => update(() => markToLastTrade(token.id))}>
+              Mark to Last Trade
+            </button>
+          </>
+        )}
+      </div>
+
+      {isIssuer && (
+        <div className="analytics-form">
+          <input
+            type="number"
+            className="vault-input"
+            placeholder="Price per share"
+            min="1"
+            value={price || ""}
+            onChange={e => setPrice(parseInt(e.target.value) || 0)}
+          />
+          <button className="vault-button small" disabled={busy} onClick={() => update(() => submitPricePerShare(token.id, price, account!))}>
+            Submit Price
+          </button>
+          <input
+            type="text"
+            className="vault-input"
+            placeholder="Metrics viewer (0x...)"
+            value={viewer}
+            onChange={e => setViewer(e.target.value.trim())}
+          />
+          <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+            await addMetricsViewer(token.id, viewer);
+            setViewer("");
+          })}>Add Viewer</button>
+        </div>
+      )}
+      {isIssuer && (
+        <p className="analytics-note">
+          The price is checked against valuation ÷ shares, rounded down, without decrypting either; any other figure is stored as zero.
+        </p>
+      )}
+      {error && <div className="analytics-error">{error}</div>}
+    </div>
+  );
+};
+
+export default Analytics;
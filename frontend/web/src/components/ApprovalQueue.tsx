@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { approveToken, rejectToken } from "../registry";
+import type { EquityToken } from "../registry";
+
+interface ApprovalQueueProps {
+  // Pending tokens, oldest first
+  tokens: EquityToken[];
+  account?: string;
+  onReview: (token: EquityToken) => void;
+  onChanged: () => Promise<void>;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 8)}...${address.substring(38)}`;
+
+const ApprovalQueue: React.FC<ApprovalQueueProps> = ({ tokens, account, onReview, onChanged }) => {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const decide = async (token: EquityToken, approve: boolean) => {
+    const reason = (reasons[token.id] ?? "").trim();
+    if (!reason) {
+      setError(`Give a reason for ${approve ? "approving" : "rejecting"} this token`);
+      return;
+    }
+    setBusy(token.id);
+    setError("");
+    try {
+      await (approve ? approveToken : rejectToken)(token.id, reason);
+      setReasons(prev => ({ ...prev, [token.id]: "" }));
+      await onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Review failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const isOwnToken = (token: EquityToken) => account?.toLowerCase() === token.issuer.toLowerCase();
+
+  return (
+    <div className="approval-queue vault-card">
+      <h2>Approval Queue</h2>
+      {error && <div className="approval-error">{error}</div>}
+      {tokens.length === 0 ? (
+        <p className="approval-note">No tokens are waiting for review.</p>
+      ) : (
+        tokens.map(token => (
+          <div key={token.id} className="approval-row">
+            <div className="approval-summary">
+              <strong>{token.companyName}</strong>
+              <span>Issuer {shortAddress(token.issuer)}</span>
+              <span>Submitted {new Date(token.timestamp * 1000).toLocaleDateString()}</span>
+              <button className="vault-button small outline" onClick={() => onReview(token)}>View Details</button>
+            </div>
+            {isOwnToken(token) ? (
+              <p className="approval-note">You issued this token, so another compliance officer must review it.</p>
+            ) : (
+              <div className="approval-form">
+                <input
+                  type="text"
+                  className="vault-input"
+                  placeholder="Reason (required)"
+                  value={reasons[token.id] ?? ""}
+                  onChange={e => setReasons(prev => ({ ...prev, [token.id]: e.target.value }))}
+                />
+                <button className="vault-button small primary" disabled={busy !== null} onClick={() => decide(token, true)}>
+                  {busy === token.id ? "Submitting..." : "Approve"}
+                </button>
+                <button className="vault-button small outline" disabled={busy !== null} onClick={() => decide(token, false)}>
+                  Reject
+                </button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ApprovalQueue;
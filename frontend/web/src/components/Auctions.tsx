@@ -0,0 +1,242 @@
+import React, { useState } from "react";
+import { formatStablecoin } from "../distributions";
+import type { EquityToken } from "../registry";
+import {
+  authorizeAuctionAllocations,
+  authorizeAuctionPayments,
+  claimAllocation,
+  clearAuction,
+  createAuction,
+  decryptOwnBid,
+  MAX_BIDS,
+  placeBid
+} from "../auctions";
+import type { Auction, OwnBid } from "../auctions";
+
+interface AuctionsProps {
+  token: EquityToken;
+  auctions: Auction[];
+  account?: string;
+  // False when no auction contract is configured for this deployment
+  enabled: boolean;
+  // Why the connected wallet may not bid; empty when it may
+  restriction: string;
+  onChanged: () => Promise<void>;
+}
+
+const STATE_LABELS: Record<Auction["state"], string> = {
+  bidding: "Bidding",
+  clearing: "Awaiting oracle",
+  settled: "Settled",
+  cancelled: "Cancelled"
+};
+
+// Allocations may be claimed for a while after the auction clears
+const AUTHORIZATION_SECONDS = 30 * 24 * 60 * 60;
+
+const Auctions: React.FC<AuctionsProps> = ({ token, auctions, account, enabled, restriction, onChanged }) => {
+  const [form, setForm] = useState({ sharesOffered: 0, deadline: "" });
+  const [bids, setBids] = useState<Record<string, { price: number; quantity: number }>>({});
+  const [ownBids, setOwnBids] = useState<Record<string, OwnBid>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const me = account?.toLowerCase();
+  const isIssuer = me === token.issuer.toLowerCase();
+  const canCreate = isIssuer && (token.status === "approved" || token.status === "trading");
+  const now = Date.now() / 1000;
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Auction update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Decrypted bids go stale once an auction changes, so updates clear them
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    setOwnBids({});
+    await onChanged();
+  });
+
+  if (!enabled) {
+    return (
+      <div className="auctions">
+        <h3>Sealed-Bid Auctions</h3>
+        <p className="auctions-note">No auction contract is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="auctions">
+      <h3>Sealed-Bid Auctions</h3>
+      <p className="auctions-note">
+        Bids are encrypted price and quantity pairs, and each escrows price × quantity in cUSD until it is claimed.
+        Everyone pays the same clearing price, which is the only figure the oracle publishes, and gets the rest of
+        their escrow back; each bidder can decrypt their own allocation.
+      </p>
+      {!isIssuer && !restriction && (
+        <button
+          className="vault-button small outline"
+          disabled={busy}
+          onClick={() => run(() => authorizeAuctionPayments(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+        >
+          Authorize Payments for 30 Days
+        </button>
+      )}
+
+      {auctions.length === 0 ? (
+        <p className="auctions-note">No auctions yet.</p>
+      ) : auctions.map(auction => {
+        const own = auction.bids.find(b => b.bidder.toLowerCase() === me);
+        const decrypted = ownBids[auction.id];
+        const pastDeadline = now >= auction.deadline;
+        const draft = bids[auction.id] ?? { price: 0, quantity: 0 };
+        const canBid = auction.state === "bidding" && !pastDeadline && !isIssuer && !own && !restriction
+          && auction.bids.length < MAX_BIDS;
+        return (
+          <div key={auction.id} className="auction-card">
+            <div className="auction-header">
+              <strong>Auction #{auction.id}</strong>
+              <span className={`auction-state ${auction.state}`}>
+                {auction.state === "bidding" && pastDeadline ? "Ready to clear" : STATE_LABELS[auction.state]}
+              </span>
+            </div>
+            <div className="info-item">
+              <span>Shares offered:</span>
+              <span>{auction.sharesOffered.toLocaleString()}</span>
+            </div>
+            <div className="info-item">
+              <span>Deadline:</span>
+              <span>{new Date(auction.deadline * 1000).toLocaleString()}</span>
+            </div>
+            <div className="info-item">
+              <span>Bids:</span>
+              <span>{auction.bids.length} / {MAX_BIDS}</span>
+            </div>
+            {auction.clearingPrice !== null && (
+              <div className="info-item">
+                <span>Clearing price:</span>
+                <span>{formatStablecoin(auction.clearingPrice)} per share</span>
+              </div>
+            )}
+            {decrypted && (
+              <>
+                <div className="info-item">
+                  <span>Your bid:</span>
+                  <span>{decrypted.quantity.toLocaleString()} shares at {formatStablecoin(decrypted.price)}</span>
+                </div>
+                {decrypted.allocation !== null && (
+                  <div className="info-item">
+                    <span>Your allocation:</span>
+                    <span>{decrypted.allocation.toLocaleString()} shares</span>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="auction-actions">
+              {canBid && (
+                <>
+                  <input
+                    type="number"
+                    className="vault-input"
+                    placeholder="Max price per share (cUSD)"
+                    min="1"
+                    value={draft.price || ""}
+                    onChange={e => setBids({ ...bids, [auction.id]: { ...draft, price: parseInt(e.target.value) || 0 } })}
+                  />
+                  <input
+                    type="number"
+                    className="vault-input"
+                    placeholder="Shares"
+                    min="1"
+                    value={draft.quantity || ""}
+                    onChange={e => setBids({ ...bids, [auction.id]: { ...draft, quantity: parseInt(e.target.value) || 0 } })}
+                  />
+                  <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+                    await placeBid(auction.id, draft.price, draft.quantity, account!);
+                    setBids({ ...bids, [auction.id]: { price: 0, quantity: 0 } });
+                  })}>Place Sealed Bid</button>
+                </>
+              )}
+              {auction.state === "bidding" && pastDeadline && (
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => clearAuction(auction.id))}>
+                  Clear Auction
+                </button>
+              )}
+              {own && !own.claimed && auction.state === "settled" && (
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => claimAllocation(auction.id))}>
+                  Claim Allocation
+                </button>
+              )}
+              {own && (
+                <button
+                  className="vault-button small outline"
+                  disabled={busy}
+                  onClick={() => run(async () => setOwnBids({ ...ownBids, [auction.id]: await decryptOwnBid(auction) }))}
+                >
+                  Decrypt My Bid
+                </button>
+              )}
+            </div>
+            {auction.state === "bidding" && !pastDeadline && restriction && !isIssuer && (
+              <p className="auctions-note">{restriction}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {canCreate && (
+        <div className="auctions-form">
+          <h4>Start an Auction</h4>
+          <div className="auction-actions">
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Shares offered"
+              min="1"
+              value={form.sharesOffered || ""}
+              onChange={e => setForm({ ...form, sharesOffered: parseInt(e.target.value) || 0 })}
+            />
+            <input
+              type="datetime-local"
+              className="vault-input"
+              value={form.deadline}
+              onChange={e => setForm({ ...form, deadline: e.target.value })}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              await createAuction(token.id, form.sharesOffered, Math.floor(new Date(form.deadline).getTime() / 1000));
+              setForm({ sharesOffered: 0, deadline: "" });
+            })}>Start Auction</button>
+          </div>
+          <p className="auctions-note">
+            Allocated shares move from your balance when bidders claim and pay. Bidders cannot claim until you
+            authorize the auction contract.
+          </p>
+          <button
+            className="vault-button small outline"
+            disabled={busy}
+            onClick={() => run(() => authorizeAuctionAllocations(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+          >
+            Authorize Allocations for 30 Days
+          </button>
+        </div>
+      )}
+      {error && <div className="auctions-error">{error}</div>}
+    </div>
+  );
+};
+
+export default Auctions;
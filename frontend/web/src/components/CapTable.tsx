@@ -0,0 +1,275 @@
+import React, { useState } from "react";
+import type { EquityToken } from "../registry";
+import {
+  addCapTableViewer,
+  addShareClass,
+  capTableAccess,
+  decryptCapTable,
+  grantOptions,
+  publishCapTableCheckpoint,
+  recordHolding,
+  setOptionPool,
+  visibleRows
+} from "../capTable";
+import type { CapTable as CapTableData, CapTableValues, ShareClassKind } from "../capTable";
+
+interface CapTableProps {
+  token: EquityToken;
+  capTable: CapTableData;
+  account?: string;
+  // False when no cap table contract is configured for this deployment
+  enabled: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 8)}...${address.substring(38)}`;
+
+const percentOf = (part: bigint, whole: bigint) =>
+  whole === 0n ? "—" : `${(Number((part * 10000n) / whole) / 100).toFixed(2)}%`;
+
+const CapTable: React.FC<CapTableProps> = ({ token, capTable, account, enabled, onChanged }) => {
+  const [className, setClassName] = useState("");
+  const [classKind, setClassKind] = useState<ShareClassKind>("common");
+  const [holding, setHolding] = useState({ classId: "", holder: "", shares: 0 });
+  const [poolSize, setPoolSize] = useState(0);
+  const [grant, setGrant] = useState({ holder: "", amount: 0 });
+  const [viewer, setViewer] = useState("");
+  const [values, setValues] = useState<CapTableValues | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const access = capTableAccess(capTable, token, account);
+  const rows = visibleRows(capTable, access, account);
+  const seesAggregates = access === "issuer" || access === "viewer";
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Cap table update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Decrypted figures go stale once the table changes, so updates clear them
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    setValues(null);
+    await onChanged();
+  });
+
+  const handleDecrypt = () => run(async () => {
+    setValues(await decryptCapTable(token.id, rows, access));
+  });
+
+  if (!enabled) {
+    return (
+      <div className="cap-table">
+        <h3>Cap Table</h3>
+        <p className="cap-table-note">No cap table is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  const classLabel = (classId: string | null) =>
+    classId === null ? "Options" : capTable.classes.find(c => c.id === classId)?.name ?? `Class #${classId}`;
+  const fullyDiluted = values?.totals?.fullyDiluted;
+
+  return (
+    <div className="cap-table">
+      <h3>Cap Table</h3>
+      <p className="cap-table-note">
+        {access === "issuer" && "As the issuer you can decrypt every holding and total."}
+        {access === "viewer" && "You can decrypt the class and fully diluted totals as of the issuer's latest checkpoint, plus any position you hold."}
+        {access === "holder" && "You can decrypt your own positions. Other holders' rows are not shown."}
+        {access === "none" && "You hold no position in this cap table and have not been granted viewer access."}
+      </p>
+
+      {capTable.classes.length > 0 && (
+        <div className="cap-table-classes">
+          {capTable.classes.map(c => (
+            <div key={c.id} className="cap-table-class">
+              <span className={`class-kind ${c.kind}`}>{c.kind}</span>
+              <strong>{c.name}</strong>
+              {values && seesAggregates && <span>{(values.classIssued[c.id] ?? 0n).toLocaleString()} shares</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="cap-table-note">No rows to show.</p>
+      ) : (
+        <table className="cap-table-rows">
+          <thead>
+            <tr>
+              <th>Holder</th>
+              <th>Class</th>
+              <th>Amount</th>
+              <th>Fully diluted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key}>
+                <td title={row.holder}>{row.holder.toLowerCase() === account?.toLowerCase() ? "You" : shortAddress(row.holder)}</td>
+                <td>{classLabel(row.classId)}</td>
+                <td>{values ? (values.rows[row.key] ?? 0n).toLocaleString() : "Encrypted"}</td>
+                <td>{values && fullyDiluted !== undefined ? percentOf(values.rows[row.key] ?? 0n, fullyDiluted) : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {values && access === "viewer" && (
+        <p className="cap-table-note">
+          {values.publishedAt === null
+            ? "The issuer has not published any totals yet."
+            : `Totals as published on ${new Date(values.publishedAt * 1000).toLocaleString()}.`}
+        </p>
+      )}
+
+      {values?.totals && (
+        <div className="cap-table-totals">
+          <div className="value-item">
+            <span>Issued:</span>
+            <strong>{values.totals.issued.toLocaleString()}</strong>
+          </div>
+          <div className="value-item">
+            <span>Option pool:</span>
+            <strong>
+              {values.totals.optionPool.toLocaleString()} ({values.totals.optionsGranted.toLocaleString()} granted)
+            </strong>
+          </div>
+          <div className="value-item">
+            <span>Fully diluted:</span>
+            <strong>{values.totals.fullyDiluted.toLocaleString()}</strong>
+          </div>
+        </div>
+      )}
+
+      {access !== "none" && (
+        <button className="vault-button decrypt-btn" disabled={busy} onClick={handleDecrypt}>
+          {busy ? "Decrypting..." : values ? "Refresh" : "Decrypt with Signature"}
+        </button>
+      )}
+      {error && <div className="cap-table-error">{error}</div>}
+
+      {access === "issuer" && (
+        <div className="cap-table-forms">
+          <h4>Manage</h4>
+          <div className="cap-table-form">
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="Class name (e.g. Series A Preferred)"
+              value={className}
+              onChange={e => setClassName(e.target.value)}
+            />
+            <select className="vault-input" value={classKind} onChange={e => setClassKind(e.target.value as ShareClassKind)}>
+              <option value="common">Common</option>
+              <option value="preferred">Preferred</option>
+            </select>
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              await addShareClass(token.id, className, classKind);
+              setClassName("");
+            })}>Add Class</button>
+          </div>
+          {capTable.classes.length > 0 && (
+            <div className="cap-table-form">
+              <select className="vault-input" value={holding.classId} onChange={e => setHolding({ ...holding, classId: e.target.value })}>
+                <option value="">Class</option>
+                {capTable.classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <input
+                type="text"
+                className="vault-input"
+                placeholder="Holder (0x...)"
+                value={holding.holder}
+                onChange={e => setHolding({ ...holding, holder: e.target.value.trim() })}
+              />
+              <input
+                type="number"
+                className="vault-input"
+                placeholder="Shares"
+                min="0"
+                value={holding.shares || ""}
+                onChange={e => setHolding({ ...holding, shares: parseInt(e.target.value) || 0 })}
+              />
+              <button className="vault-button small" disabled={busy || !holding.classId} onClick={() => update(async () => {
+                await recordHolding(token.id, holding.classId, holding.holder, holding.shares, account!);
+                setHolding({ classId: holding.classId, holder: "", shares: 0 });
+              })}>Record Holding</button>
+            </div>
+          )}
+          <div className="cap-table-form">
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Option pool size"
+              min="0"
+              value={poolSize || ""}
+              onChange={e => setPoolSize(parseInt(e.target.value) || 0)}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(() => setOptionPool(token.id, poolSize, account!))}>
+              Set Pool
+            </button>
+          </div>
+          <div className="cap-table-form">
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="Grantee (0x...)"
+              value={grant.holder}
+              onChange={e => setGrant({ ...grant, holder: e.target.value.trim() })}
+            />
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Options"
+              min="1"
+              value={grant.amount || ""}
+              onChange={e => setGrant({ ...grant, amount: parseInt(e.target.value) || 0 })}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              if (grant.amount <= 0) throw new Error("Options must be positive");
+              await grantOptions(token.id, grant.holder, grant.amount, account!);
+              setGrant({ holder: "", amount: 0 });
+            })}>Grant Options</button>
+          </div>
+          <div className="cap-table-form">
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="Viewer (0x...)"
+              value={viewer}
+              onChange={e => setViewer(e.target.value.trim())}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              await addCapTableViewer(token.id, viewer);
+              setViewer("");
+            })}>Add Viewer</button>
+            <button className="vault-button small outline" disabled={busy} onClick={() => update(() => publishCapTableCheckpoint(token.id))}>
+              Publish Totals
+            </button>
+          </div>
+          <p className="cap-table-note">
+            Grants larger than the unallocated pool grant zero, and the pool never shrinks below what is already granted.
+            Viewers see totals only, as of the last time you publish them; publish after several updates so no single
+            holding shows as the difference.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapTable;
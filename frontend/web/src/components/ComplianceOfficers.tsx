@@ -0,0 +1,73 @@
+import React, { useState } from "react";
+import { addComplianceOfficer, removeComplianceOfficer } from "../registry";
+
+interface ComplianceOfficersProps {
+  officers: string[];
+  onChanged: () => Promise<void>;
+}
+
+const ComplianceOfficers: React.FC<ComplianceOfficersProps> = ({ officers, onChanged }) => {
+  const [officer, setOfficer] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="investor-admin vault-card">
+      <h2>Compliance Officers</h2>
+      <p className="investor-note">Compliance officers review pending tokens. Issuers cannot approve their own listings.</p>
+      <div className="investor-form">
+        <input
+          type="text"
+          className="vault-input"
+          placeholder="Wallet address (0x...)"
+          value={officer}
+          onChange={e => setOfficer(e.target.value)}
+        />
+        <button
+          className="vault-button primary"
+          disabled={busy || !officer}
+          onClick={() => run(async () => {
+            await addComplianceOfficer(officer.trim());
+            setOfficer("");
+          })}
+        >
+          Appoint
+        </button>
+      </div>
+      {error && <div className="investor-error">{error}</div>}
+      {officers.length === 0 ? (
+        <p className="investor-note">No compliance officers have been appointed, so no token can be approved.</p>
+      ) : (
+        <table className="investor-table">
+          <tbody>
+            {officers.map(address => (
+              <tr key={address}>
+                <td>{address}</td>
+                <td>
+                  <button className="vault-button small outline" disabled={busy} onClick={() => run(() => removeComplianceOfficer(address))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ComplianceOfficers;
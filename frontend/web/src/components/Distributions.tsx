@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import type { EquityToken } from "../registry";
+import {
+  authorizeDistributionEscrow,
+  claimDistribution,
+  declareDistribution,
+  decryptDistribution,
+  decryptStablecoinBalance,
+  formatStablecoin
+} from "../distributions";
+import type { Distribution, DistributionValues } from "../distributions";
+
+interface DistributionsProps {
+  token: EquityToken;
+  distributions: Distribution[];
+  account?: string;
+  // False when no distributions contract is configured for this deployment
+  enabled: boolean;
+  onChanged: () => Promise<void>;
+}
+
+// Distributions may be declared for a while after authorizing the escrow
+const AUTHORIZATION_SECONDS = 30 * 24 * 60 * 60;
+
+const Distributions: React.FC<DistributionsProps> = ({ token, distributions, account, enabled, onChanged }) => {
+  const [amountPerShare, setAmountPerShare] = useState("");
+  const [values, setValues] = useState<Record<string, DistributionValues>>({});
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const me = account?.toLowerCase();
+  const isIssuer = me === token.issuer.toLowerCase();
+  const canDeclare = isIssuer && (token.status === "approved" || token.status === "trading");
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Distribution update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Payouts move stablecoin, so updates clear every decrypted value
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    setValues({});
+    setBalance(null);
+    await onChanged();
+  });
+
+  if (!enabled) {
+    return (
+      <div className="distributions">
+        <h3>Distributions</h3>
+        <p className="distributions-note">No distributions contract is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="distributions">
+      <h3>Distributions</h3>
+      <p className="distributions-note">
+        Each holder is paid their encrypted holding at declaration times the amount per share, into a
+        confidential stablecoin balance only they can read.
+      </p>
+
+      <div className="info-item">
+        <span>Your stablecoin balance:</span>
+        <span>{balance !== null ? formatStablecoin(balance) : "Encrypted"}</span>
+      </div>
+      <button
+        className="vault-button small outline"
+        disabled={busy}
+        onClick={() => run(async () => setBalance(await decryptStablecoinBalance()))}
+      >
+        Decrypt Balance
+      </button>
+
+      <h4>History</h4>
+      {distributions.length === 0 ? (
+        <p className="distributions-note">No distributions yet.</p>
+      ) : (
+        <table className="distributions-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Declared</th>
+              <th>Per share</th>
+              <th>Claims</th>
+              <th>Yours</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {distributions.map(distribution => {
+              const claimed = distribution.claims.some(c => c.holder.toLowerCase() === me);
+              const decrypted = values[distribution.id];
+              const canDecrypt = claimed || isIssuer;
+              return (
+                <tr key={distribution.id}>
+                  <td>{distribution.id}</td>
+                  <td>{new Date(distribution.declaredAt * 1000).toLocaleDateString()}</td>
+                  <td>{formatStablecoin(distribution.amountPerShare)}</td>
+                  <td>{distribution.claims.length}</td>
+                  <td>
+                    {decrypted?.payout != null ? formatStablecoin(decrypted.payout) : claimed ? "Encrypted" : "Unclaimed"}
+                    {decrypted?.funded != null && (
+                      <span className={`distribution-funded ${decrypted.funded ? "yes" : "no"}`}>
+                        {decrypted.funded ? "Funded" : "Not funded"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="distribution-actions">
+                    {account && !claimed && (
+                      <button className="vault-button small" disabled={busy} onClick={() => update(() => claimDistribution(distribution.id))}>
+                        Claim
+                      </button>
+                    )}
+                    {canDecrypt && (
+                      <button
+                        className="vault-button small outline"
+                        disabled={busy}
+                        onClick={() => run(async () => setValues({
+                          ...values,
+                          [distribution.id]: await decryptDistribution(distribution, account!)
+                        }))}
+                      >
+                        Decrypt
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {canDeclare && (
+        <div className="distributions-form">
+          <h4>Declare a Distribution</h4>
+          <div className="distribution-actions">
+            <input
+              type="text"
+              inputMode="decimal"
+              className="vault-input"
+              placeholder="Amount per share (cUSD)"
+              value={amountPerShare}
+              onChange={e => setAmountPerShare(e.target.value)}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              await declareDistribution(token.id, amountPerShare);
+              setAmountPerShare("");
+            })}>Declare</button>
+          </div>
+          <p className="distributions-note">
+            Declaring escrows the total from your stablecoin balance, once you authorize the distributions contract.
+            If your balance cannot cover it, every payout is zero.
+          </p>
+          <button
+            className="vault-button small outline"
+            disabled={busy}
+            onClick={() => run(() => authorizeDistributionEscrow(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+          >
+            Authorize Escrow for 30 Days
+          </button>
+        </div>
+      )}
+      {error && <div className="distributions-error">{error}</div>}
+    </div>
+  );
+};
+
+export default Distributions;
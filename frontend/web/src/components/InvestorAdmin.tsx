@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { attestInvestor, JURISDICTIONS, jurisdictionName, revokeInvestor } from "../investors";
+import type { InvestorStatus } from "../investors";
+
+interface InvestorAdminProps {
+  investors: InvestorStatus[];
+  onChanged: () => Promise<void>;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 8)}...${address.substring(38)}`;
+
+// Default attestation lifetime offered in the form
+const oneYearFromNow = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() + 1);
+  return date.toISOString().substring(0, 10);
+};
+
+const InvestorAdmin: React.FC<InvestorAdminProps> = ({ investors, onChanged }) => {
+  const [account, setAccount] = useState("");
+  const [jurisdiction, setJurisdiction] = useState(840);
+  const [expiry, setExpiry] = useState(oneYearFromNow);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAttest = () => run(async () => {
+    const expiresAt = new Date(`${expiry}T23:59:59`);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) throw new Error("Expiry must be in the future");
+    await attestInvestor(account.trim(), jurisdiction, expiresAt);
+    setAccount("");
+  });
+
+  const statusLabel = (investor: InvestorStatus) =>
+    investor.revoked ? "revoked" : investor.qualified ? "qualified" : "expired";
+
+  return (
+    <div className="investor-admin vault-card">
+      <h2>Qualified Investors</h2>
+      <div className="investor-form">
+        <input
+          type="text"
+          className="vault-input"
+          placeholder="Wallet address (0x...)"
+          value={account}
+          onChange={e => setAccount(e.target.value)}
+        />
+        <select className="vault-input" value={jurisdiction} onChange={e => setJurisdiction(Number(e.target.value))}>
+          {Object.entries(JURISDICTIONS).map(([code, name]) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+        <input type="date" className="vault-input" value={expiry} onChange={e => setExpiry(e.target.value)} />
+        <button className="vault-button primary" disabled={busy || !account} onClick={handleAttest}>
+          Add / Renew
+        </button>
+      </div>
+      {error && <div className="investor-error">{error}</div>}
+
+      {investors.length === 0 ? (
+        <p className="investor-note">No investors have been attested yet.</p>
+      ) : (
+        <table className="investor-table">
+          <thead>
+            <tr>
+              <th>Wallet</th>
+              <th>Jurisdiction</th>
+              <th>Attested</th>
+              <th>Expires</th>
+              <th>Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {investors.map(investor => (
+              <tr key={investor.address}>
+                <td title={investor.address}>{shortAddress(investor.address)}</td>
+                <td>{jurisdictionName(investor.jurisdiction)}</td>
+                <td>{new Date(investor.attestedAt * 1000).toLocaleDateString()}</td>
+                <td>{new Date(investor.expiresAt * 1000).toLocaleDateString()}</td>
+                <td><span className={`status-badge ${statusLabel(investor)}`}>{statusLabel(investor)}</span></td>
+                <td>
+                  {!investor.revoked && (
+                    <button className="vault-button small outline" disabled={busy} onClick={() => run(() => revokeInvestor(investor.address))}>
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default InvestorAdmin;
@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import type { EquityToken } from "../registry";
+import { authorizeTrading, cancelOrder, decryptOrder, fillOrder, placeOrder } from "../orderBook";
+import type { Order, OrderSide } from "../orderBook";
+
+interface OrderBookProps {
+  token: EquityToken;
+  orders: Order[];
+  account?: string;
+  // False when no order book contract is configured for this deployment
+  enabled: boolean;
+  // Why the connected wallet may not trade; empty when it may
+  restriction: string;
+  onChanged: () => Promise<void>;
+}
+
+// How long the order book may settle the wallet's sales
+const AUTHORIZATION_SECONDS = 30 * 24 * 60 * 60;
+
+const shortAddress = (address: string) => `${address.substring(0, 8)}...${address.substring(38)}`;
+
+const OrderBook: React.FC<OrderBookProps> = ({ token, orders, account, enabled, restriction, onChanged }) => {
+  const [side, setSide] = useState<OrderSide>("bid");
+  const [price, setPrice] = useState(0);
+  const [quantity, setQuantity] = useState(0);
+  const [filling, setFilling] = useState<string | null>(null);
+  const [fill, setFill] = useState({ quantity: 0, limitPrice: 0 });
+  const [decrypted, setDecrypted] = useState<Record<string, { price: bigint; remaining: bigint }>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const isMine = (order: Order) => account?.toLowerCase() === order.trader.toLowerCase();
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      await onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Order failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePlace = () => run(async () => {
+    if (price <= 0 || quantity <= 0) throw new Error("Price and quantity must be positive");
+    await placeOrder(token.id, side, { price, quantity }, account!);
+    setPrice(0);
+    setQuantity(0);
+  });
+
+  const handleFill = (orderId: string) => run(async () => {
+    if (fill.quantity <= 0 || fill.limitPrice <= 0) throw new Error("Quantity and limit price must be positive");
+    await fillOrder(orderId, fill, account!);
+    setFilling(null);
+    setFill({ quantity: 0, limitPrice: 0 });
+  });
+
+  const handleDecrypt = (orderId: string) => run(async () => {
+    const values = await decryptOrder(orderId);
+    setDecrypted(prev => ({ ...prev, [orderId]: values }));
+  });
+
+  if (!enabled) {
+    return (
+      <div className="order-book">
+        <h3>Order Book</h3>
+        <p className="order-book-note">No order book is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  const renderOrder = (order: Order) => (
+    <div key={order.id} className={`order-row ${order.side}`}>
+      <div className="order-summary">
+        <span>#{order.id}</span>
+        <span>{isMine(order) ? "You" : shortAddress(order.trader)}</span>
+        <span>{new Date(order.timestamp * 1000).toLocaleDateString()}</span>
+      </div>
+      {decrypted[order.id] && (
+        <div className="order-values">
+          {decrypted[order.id].remaining.toString()} @ ${decrypted[order.id].price.toString()}
+        </div>
+      )}
+      <div className="order-actions">
+        {isMine(order) ? (
+          <>
+            <button className="vault-button small outline" disabled={busy} onClick={() => handleDecrypt(order.id)}>Decrypt</button>
+            <button className="vault-button small outline" disabled={busy} onClick={() => run(() => cancelOrder(order.id))}>Cancel</button>
+          </>
+        ) : (
+          <button className="vault-button small" disabled={busy || !!restriction || token.status !== "trading"} onClick={() => setFilling(filling === order.id ? null : order.id)}>
+            {order.side === "ask" ? "Buy" : "Sell"}
+          </button>
+        )}
+      </div>
+      {filling === order.id && (
+        <div className="fill-form">
+          <input
+            type="number"
+            className="vault-input"
+            placeholder="Quantity"
+            min="1"
+            value={fill.quantity || ""}
+            onChange={e => setFill({ ...fill, quantity: parseInt(e.target.value) || 0 })}
+          />
+          <input
+            type="number"
+            className="vault-input"
+            placeholder={order.side === "ask" ? "Max price" : "Min price"}
+            min="1"
+            value={fill.limitPrice || ""}
+            onChange={e => setFill({ ...fill, limitPrice: parseInt(e.target.value) || 0 })}
+          />
+          <button className="vault-button small primary" disabled={busy} onClick={() => handleFill(order.id)}>Confirm</button>
+        </div>
+      )}
+    </div>
+  );
+
+  const open = orders.filter(o => o.open);
+  const bids = open.filter(o => o.side === "bid");
+  const asks = open.filter(o => o.side === "ask");
+
+  return (
+    <div className="order-book">
+      <h3>Order Book</h3>
+      {token.status === "suspended" ? (
+        <p className="order-book-note">Trading is suspended by compliance. Orders and fills resume once it is lifted.</p>
+      ) : token.status !== "trading" ? (
+        <p className="order-book-note">Orders open once the issuer starts trading this token.</p>
+      ) : restriction ? (
+        <p className="order-book-note">{restriction}</p>
+      ) : (
+        <div className="order-form">
+          <select className="vault-input" value={side} onChange={e => setSide(e.target.value as OrderSide)}>
+            <option value="bid">Bid (buy)</option>
+            <option value="ask">Ask (sell)</option>
+          </select>
+          <input
+            type="number"
+            className="vault-input"
+            placeholder="Price per share"
+            min="1"
+            value={price || ""}
+            onChange={e => setPrice(parseInt(e.target.value) || 0)}
+          />
+          <input
+            type="number"
+            className="vault-input"
+            placeholder="Quantity"
+            min="1"
+            value={quantity || ""}
+            onChange={e => setQuantity(parseInt(e.target.value) || 0)}
+          />
+          <button className="vault-button primary" disabled={busy} onClick={handlePlace}>
+            {busy ? "Encrypting..." : "Place Encrypted Order"}
+          </button>
+        </div>
+      )}
+      {error && <div className="order-book-error">{error}</div>}
+      <p className="order-book-note">
+        Prices and quantities are encrypted. Fills only execute when the hidden price is within your limit; otherwise they fill zero.
+        Shares move on the ledger as trades fill, and a sale never exceeds the seller's unlocked balance.
+        Buyers pay in stablecoin: a bid escrows price × quantity when placed, and cancelling refunds what has not filled.
+      </p>
+      {account && !restriction && token.status === "trading" && (
+        <button
+          className="vault-button small outline"
+          disabled={busy}
+          onClick={() => run(() => authorizeTrading(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+        >
+          Authorize Trading for 30 Days
+        </button>
+      )}
+      <div className="order-columns">
+        <div>
+          <h4>Bids</h4>
+          {bids.length === 0 ? <p className="order-book-note">No open bids</p> : bids.map(renderOrder)}
+        </div>
+        <div>
+          <h4>Asks</h4>
+          {asks.length === 0 ? <p className="order-book-note">No open asks</p> : asks.map(renderOrder)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderBook;
@@ -0,0 +1,249 @@
+import React, { useState } from "react";
+import { formatStablecoin } from "../distributions";
+import type { EquityToken } from "../registry";
+import {
+  authorizeAllocations,
+  authorizeCommitments,
+  claimRound,
+  closeRound,
+  commitToRound,
+  decryptRound,
+  openRound
+} from "../rounds";
+import type { FundraisingRound, RoundValues } from "../rounds";
+
+interface RoundsProps {
+  token: EquityToken;
+  rounds: FundraisingRound[];
+  account?: string;
+  // False when no fundraising contract is configured for this deployment
+  enabled: boolean;
+  // Why the connected wallet may not commit; empty when it may
+  restriction: string;
+  onChanged: () => Promise<void>;
+}
+
+const STATE_LABELS: Record<FundraisingRound["state"], string> = {
+  open: "Open",
+  closing: "Awaiting oracle",
+  allocating: "Target met",
+  refunding: "Refunding"
+};
+
+// Allocations may be claimed for a while after the round closes
+const AUTHORIZATION_SECONDS = 30 * 24 * 60 * 60;
+
+const Rounds: React.FC<RoundsProps> = ({ token, rounds, account, enabled, restriction, onChanged }) => {
+  const [form, setForm] = useState({ sharesOffered: 0, target: 0, deadline: "" });
+  const [amounts, setAmounts] = useState<Record<string, number>>({});
+  const [values, setValues] = useState<Record<string, RoundValues>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const me = account?.toLowerCase();
+  const isIssuer = me === token.issuer.toLowerCase();
+  const canOpen = isIssuer && (token.status === "approved" || token.status === "trading");
+  const now = Date.now() / 1000;
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Round update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Decrypted figures go stale once a round changes, so updates clear them
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    setValues({});
+    await onChanged();
+  });
+
+  if (!enabled) {
+    return (
+      <div className="rounds">
+        <h3>Fundraising Rounds</h3>
+        <p className="rounds-note">No fundraising contract is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounds">
+      <h3>Fundraising Rounds</h3>
+      <p className="rounds-note">
+        Commitments are encrypted and escrowed in cUSD. When a round closes the oracle publishes whether the
+        target was met, and the total raised only if it was.
+      </p>
+      {!isIssuer && !restriction && (
+        <button
+          className="vault-button small outline"
+          disabled={busy}
+          onClick={() => run(() => authorizeCommitments(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+        >
+          Authorize Commitments for 30 Days
+        </button>
+      )}
+
+      {rounds.length === 0 ? (
+        <p className="rounds-note">No rounds yet.</p>
+      ) : rounds.map(round => {
+        const own = round.commitments.find(c => c.investor.toLowerCase() === me);
+        const decrypted = values[round.id];
+        const pastDeadline = now >= round.deadline;
+        return (
+          <div key={round.id} className="round-card">
+            <div className="round-header">
+              <strong>Round #{round.id}</strong>
+              <span className={`round-state ${round.state}`}>
+                {round.state === "open" && pastDeadline ? "Ready to close" : STATE_LABELS[round.state]}
+              </span>
+            </div>
+            <div className="info-item">
+              <span>Shares offered:</span>
+              <span>{round.sharesOffered.toLocaleString()}</span>
+            </div>
+            <div className="info-item">
+              <span>Deadline:</span>
+              <span>{new Date(round.deadline * 1000).toLocaleString()}</span>
+            </div>
+            <div className="info-item">
+              <span>Investors:</span>
+              <span>{round.commitments.length}</span>
+            </div>
+            {round.totalRaised !== null && (
+              <div className="info-item">
+                <span>Total raised:</span>
+                <span>{formatStablecoin(round.totalRaised)}</span>
+              </div>
+            )}
+            {decrypted?.target != null && (
+              <div className="info-item">
+                <span>Target:</span>
+                <span>
+                  {formatStablecoin(decrypted.target)}
+                  {decrypted.targetMet !== null && (decrypted.targetMet ? " (met)" : " (not yet met)")}
+                </span>
+              </div>
+            )}
+            {me && decrypted?.commitments[me] !== undefined && (
+              <div className="info-item">
+                <span>Your commitment:</span>
+                <span>{formatStablecoin(decrypted.commitments[me])}</span>
+              </div>
+            )}
+            {me && decrypted?.settled[me] !== undefined && (
+              <div className="info-item">
+                <span>{round.state === "allocating" ? "Your allocation:" : "Refunded:"}</span>
+                <span>
+                  {round.state === "allocating"
+                    ? `${decrypted.settled[me].toLocaleString()} shares`
+                    : formatStablecoin(decrypted.settled[me])}
+                </span>
+              </div>
+            )}
+
+            <div className="round-actions">
+              {round.state === "open" && !pastDeadline && !isIssuer && !restriction && (
+                <>
+                  <input
+                    type="number"
+                    className="vault-input"
+                    placeholder="Amount to commit (cUSD)"
+                    min="1"
+                    value={amounts[round.id] || ""}
+                    onChange={e => setAmounts({ ...amounts, [round.id]: parseInt(e.target.value) || 0 })}
+                  />
+                  <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+                    await commitToRound(round.id, amounts[round.id] || 0, account!);
+                    setAmounts({ ...amounts, [round.id]: 0 });
+                  })}>Commit</button>
+                </>
+              )}
+              {round.state === "open" && pastDeadline && (
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => closeRound(round.id))}>
+                  Close Round
+                </button>
+              )}
+              {own && !own.settled && (round.state === "allocating" || round.state === "refunding") && (
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => claimRound(round.id))}>
+                  {round.state === "allocating" ? "Claim Shares" : "Claim Refund"}
+                </button>
+              )}
+              {(isIssuer || own) && (
+                <button
+                  className="vault-button small outline"
+                  disabled={busy}
+                  onClick={() => run(async () => setValues({ ...values, [round.id]: await decryptRound(round, account!) }))}
+                >
+                  Decrypt
+                </button>
+              )}
+            </div>
+            {round.state === "open" && !pastDeadline && restriction && !isIssuer && (
+              <p className="rounds-note">{restriction}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {canOpen && (
+        <div className="rounds-form">
+          <h4>Open a Round</h4>
+          <div className="round-actions">
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Shares offered"
+              min="1"
+              value={form.sharesOffered || ""}
+              onChange={e => setForm({ ...form, sharesOffered: parseInt(e.target.value) || 0 })}
+            />
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Target (cUSD, encrypted)"
+              min="1"
+              value={form.target || ""}
+              onChange={e => setForm({ ...form, target: parseInt(e.target.value) || 0 })}
+            />
+            <input
+              type="datetime-local"
+              className="vault-input"
+              value={form.deadline}
+              onChange={e => setForm({ ...form, deadline: e.target.value })}
+            />
+            <button className="vault-button small" disabled={busy} onClick={() => update(async () => {
+              const deadline = Math.floor(new Date(form.deadline).getTime() / 1000);
+              await openRound(token.id, form.sharesOffered, deadline, form.target, account!);
+              setForm({ sharesOffered: 0, target: 0, deadline: "" });
+            })}>Open Round</button>
+          </div>
+          <p className="rounds-note">
+            Allocated shares move from your balance when investors claim, and each claim pays you that investor's
+            escrowed commitment. Investors cannot claim until you authorize the fundraising contract.
+          </p>
+          <button
+            className="vault-button small outline"
+            disabled={busy}
+            onClick={() => run(() => authorizeAllocations(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+          >
+            Authorize Allocations for 30 Days
+          </button>
+        </div>
+      )}
+      {error && <div className="rounds-error">{error}</div>}
+    </div>
+  );
+};
+
+export default Rounds;
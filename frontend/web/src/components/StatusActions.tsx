@@ -0,0 +1,71 @@
+import React, { useState } from "react";
+import { availableStatusActions, changeStatus } from "../registry";
+import type { EquityToken, Roles, StatusAction } from "../registry";
+
+interface StatusActionsProps {
+  token: EquityToken;
+  account?: string;
+  roles: Roles;
+  onChanged: () => Promise<void>;
+}
+
+const LABELS: Record<StatusAction, string> = {
+  suspend: "Suspend Trading",
+  resume: "Resume Trading",
+  delist: "Delist"
+};
+
+const StatusActions: React.FC<StatusActionsProps> = ({ token, account, roles, onChanged }) => {
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const actions = availableStatusActions(token, account, roles);
+
+  if (actions.length === 0) return null;
+
+  const run = async (action: StatusAction) => {
+    if (!reason.trim()) {
+      setError("Give a reason for this change");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await changeStatus(token.id, action, reason.trim());
+      setReason("");
+      await onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Status change failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="status-actions">
+      <h3>Listing Status</h3>
+      <div className="approval-form">
+        <input
+          type="text"
+          className="vault-input"
+          placeholder="Reason (recorded on-chain)"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+        />
+        {actions.map(action => (
+          <button
+            key={action}
+            className={`vault-button small ${action === "resume" ? "primary" : "outline"}`}
+            disabled={busy}
+            onClick={() => run(action)}
+          >
+            {LABELS[action]}
+          </button>
+        ))}
+      </div>
+      {error && <div className="approval-error">{error}</div>}
+    </div>
+  );
+};
+
+export default StatusActions;
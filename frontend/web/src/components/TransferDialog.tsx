@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import type { EquityToken } from "../registry";
+import { decryptBalance, transferShares } from "../ledger";
+import { giveSaleNotice, precheckTransfer } from "../transferRules";
+import type { TransferCheck } from "../transferRules";
+
+interface TransferDialogProps {
+  token: EquityToken;
+  account?: string;
+  onClose: () => void;
+  onTransferred: () => Promise<void>;
+}
+
+const TransferDialog: React.FC<TransferDialogProps> = ({ token, account, onClose, onTransferred }) => {
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  // Result of running the token's transfer rules for the current recipient
+  const [check, setCheck] = useState<TransferCheck | null>(null);
+  const [checkedAt, setCheckedAt] = useState(0);
+
+  useEffect(() => {
+    const to = recipient.trim();
+    setCheck(null);
+    if (!account || !ethers.isAddress(to)) return;
+    let stale = false;
+    precheckTransfer(token.id, account, to)
+      .then(result => { if (!stale) setCheck(result); })
+      .catch(() => { if (!stale) setCheck(null); });
+    return () => { stale = true; };
+  }, [token.id, account, recipient, checkedAt]);
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Transfer failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDecrypt = () => run(async () => {
+    setBalance(await decryptBalance(token.id));
+  });
+
+  const handleTransfer = () => run(async () => {
+    if (amount <= 0) throw new Error("Amount must be positive");
+    await transferShares(token.id, recipient.trim(), amount, account!);
+    setAmount(0);
+    setRecipient("");
+    // The previous plaintext no longer matches the new balance handle
+    setBalance(null);
+    await onTransferred();
+  });
+
+  const handleGiveNotice = () => run(async () => {
+    await giveSaleNotice(token.id, recipient.trim());
+    setCheckedAt(Date.now());
+  });
+
+  return (
+    <div className="modal-overlay">
+      <div className="transfer-dialog vault-card">
+        <div className="modal-header">
+          <h2>Transfer {token.companyName} Shares</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="transfer-balance">
+            <span>Your balance:</span>
+            {balance === null ? (
+              <button className="vault-button small outline" disabled={busy} onClick={handleDecrypt}>
+                Decrypt with Signature
+              </button>
+            ) : (
+              <strong>{balance.toLocaleString()} shares</strong>
+            )}
+          </div>
+          <div className="form-group">
+            <label>Recipient</label>
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="0x..."
+              value={recipient}
+              onChange={e => setRecipient(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Shares</label>
+            <input
+              type="number"
+              className="vault-input"
+              placeholder="Amount to transfer"
+              min="1"
+              value={amount || ""}
+              onChange={e => setAmount(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          {check && (check.allowed ? (
+            <div className="transfer-check allowed">All transfer rules pass</div>
+          ) : (
+            <div className="transfer-check blocked">
+              Blocked by {check.rule}: {check.reason}
+              {check.rule === "Right of first refusal" && check.reason.includes("notice") && (
+                <button className="vault-button small outline" disabled={busy} onClick={handleGiveNotice}>
+                  Give Notice of Sale
+                </button>
+              )}
+            </div>
+          ))}
+          {error && <div className="transfer-error">{error}</div>}
+          <p className="transfer-note">
+            The amount is encrypted before it leaves your browser. Transfers above your balance, or above its vested part when shares are under a vesting grant, move zero shares instead of failing.
+          </p>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="vault-button">Cancel</button>
+          <button onClick={handleTransfer} disabled={busy || check?.allowed === false} className="vault-button primary">
+            {busy ? "Encrypting..." : "Send Encrypted Transfer"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from "react";
+import { acceptTransfersFrom } from "../ledger";
+import type { EquityToken } from "../registry";
+import {
+  answerSaleNotice,
+  clearSaleNotice,
+  attachRule,
+  detachRule,
+  loadRuleSettings,
+  parseJurisdictions,
+  RULE_MODULES,
+  setHoldingPeriod,
+  setJurisdictions,
+  setMaxHolders,
+  setResponseWindow
+} from "../transferRules";
+import type { RuleSettings, SaleNotice } from "../transferRules";
+
+interface TransferRulesProps {
+  token: EquityToken;
+  // Lowercased addresses of the rule modules attached to the token
+  attached: string[];
+  notices: SaleNotice[];
+  account?: string;
+  // False when no compliance engine is configured for this deployment
+  enabled: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const DAY = 24 * 60 * 60;
+
+// How long an acceptance of incoming transfers lasts
+const ACCEPTANCE_SECONDS = 30 * DAY;
+
+const formatDays = (seconds: number | null) => seconds === null ? "-" : `${(seconds / DAY).toLocaleString()} days`;
+
+const TransferRules: React.FC<TransferRulesProps> = ({ token, attached, notices, account, enabled, onChanged }) => {
+  const [settings, setSettings] = useState<RuleSettings | null>(null);
+  const [form, setForm] = useState({ jurisdictions: "", maxHolders: 0, holdingDays: 0, responseDays: 0 });
+  const [sender, setSender] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const isIssuer = account?.toLowerCase() === token.issuer.toLowerCase();
+  const pending = notices.filter(n => n.state === "pending");
+  const exercised = notices.filter(n => n.state === "exercised");
+
+  useEffect(() => {
+    if (!enabled) return;
+    loadRuleSettings(token.id).then(setSettings).catch(() => setSettings(null));
+  }, [enabled, token.id, attached.length]);
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Rule update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    await onChanged();
+    setSettings(await loadRuleSettings(token.id));
+  });
+
+  if (!enabled) {
+    return (
+      <div className="rules">
+        <h3>Transfer Rules</h3>
+        <p className="rules-note">No compliance engine is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rules">
+      <h3>Transfer Rules</h3>
+      <p className="rules-note">
+        Every transfer of this token, including trades and grants, must pass each attached rule. Transfers a rule
+        rejects are refused before any shares move.
+      </p>
+
+      <table className="rules-table">
+        <thead>
+          <tr>
+            <th>Rule</th>
+            <th>Setting</th>
+            <th>Status</th>
+            {isIssuer && <th></th>}
+          </tr>
+        </thead>
+        <tbody>
+          {RULE_MODULES.map(module => {
+            const isAttached = attached.includes(module.address.toLowerCase());
+            return (
+              <tr key={module.address}>
+                <td>{module.label}</td>
+                <td>
+                  {module.kind === "maxHolders"
+                    ? settings?.maxHolders != null
+                      ? settings.maxHolders === 0
+                        ? `${settings.holderCount} holders, no cap`
+                        : `${settings.holderCount} of ${settings.maxHolders} holders`
+                      : "-"
+                    : module.kind === "holdingPeriod"
+                      ? formatDays(settings?.holdingPeriod ?? null)
+                      : module.kind === "rightOfFirstRefusal"
+                        ? `${formatDays(settings?.responseWindow ?? null)} to respond`
+                        : "Set by jurisdiction code"}
+                </td>
+                <td>
+                  <span className={`rules-state ${isAttached ? "active" : ""}`}>{isAttached ? "Active" : "Off"}</span>
+                </td>
+                {isIssuer && (
+                  <td>
+                    <button
+                      className="vault-button small outline"
+                      disabled={busy}
+                      onClick={() => update(() => (isAttached ? detachRule : attachRule)(token.id, module.address))}
+                    >
+                      {isAttached ? "Detach" : "Attach"}
+                    </button>
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {pending.length > 0 && (
+        <div className="rules-notices">
+          <h4>Pending Sale Notices</h4>
+          {pending.map(notice => (
+            <div key={notice.seller} className="rules-notice">
+              <span>
+                {notice.seller.substring(0, 10)}... to sell to {notice.buyer.substring(0, 10)}... &middot; given{" "}
+                {new Date(notice.givenAt * 1000).toLocaleDateString()}
+              </span>
+              {isIssuer && (
+                <span className="rules-actions">
+                  <button className="vault-button small" disabled={busy} onClick={() => update(() => answerSaleNotice(token.id, notice.seller, false))}>
+                    Waive
+                  </button>
+                  <button className="vault-button small outline" disabled={busy} onClick={() => update(() => answerSaleNotice(token.id, notice.seller, true))}>
+                    Exercise
+                  </button>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {exercised.length > 0 && (
+        <div className="rules-notices">
+          <h4>Exercised Sale Notices</h4>
+          {exercised.map(notice => (
+            <div key={notice.seller} className="rules-notice">
+              <span>
+                {notice.seller.substring(0, 10)}... to sell to {notice.buyer.substring(0, 10)}... &middot; blocked until cleared
+              </span>
+              {isIssuer && (
+                <span className="rules-actions">
+                  <button className="vault-button small outline" disabled={busy} onClick={() => update(() => clearSaleNotice(token.id, notice.seller))}>
+                    Clear
+                  </button>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {account && !isIssuer && (
+        <div className="rules-form">
+          <h4>Accept Transfers</h4>
+          <p className="rules-note">
+            Holders can only send you shares of a token under transfer rules once you accept them as a sender, so
+            nobody can make the rules record a transfer you did not want. Shares from the issuer need no acceptance.
+          </p>
+          <div className="form-group">
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="Sender address (0x...)"
+              value={sender}
+              onChange={e => setSender(e.target.value)}
+            />
+            <button
+              className="vault-button small"
+              disabled={busy}
+              onClick={() => run(async () => {
+                await acceptTransfersFrom(sender.trim(), Math.floor(Date.now() / 1000) + ACCEPTANCE_SECONDS);
+                setSender("");
+              })}
+            >
+              Accept for 30 Days
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isIssuer && (
+        <div className="rules-form">
+          <h4>Configure Rules</h4>
+          {RULE_MODULES.some(m => m.kind === "jurisdiction") && (
+            <div className="form-group">
+              <label>Jurisdictions (ISO 3166-1 numeric, e.g. 840, 276)</label>
+              <input
+                type="text"
+                className="vault-input"
+                value={form.jurisdictions}
+                onChange={e => setForm({ ...form, jurisdictions: e.target.value })}
+              />
+              <div className="rules-actions">
+                <button
+                  className="vault-button small"
+                  disabled={busy}
+                  onClick={() => update(() => setJurisdictions(token.id, parseJurisdictions(form.jurisdictions), true))}
+                >
+                  Allow
+                </button>
+                <button
+                  className="vault-button small outline"
+                  disabled={busy}
+                  onClick={() => update(() => setJurisdictions(token.id, parseJurisdictions(form.jurisdictions), false))}
+                >
+                  Disallow
+                </button>
+              </div>
+            </div>
+          )}
+          {RULE_MODULES.some(m => m.kind === "maxHolders") && (
+            <div className="form-group">
+              <label>Maximum holders (0 for no cap)</label>
+              <div className="rules-actions">
+                <input
+                  type="number"
+                  className="vault-input"
+                  min="0"
+                  value={form.maxHolders || ""}
+                  onChange={e => setForm({ ...form, maxHolders: parseInt(e.target.value) || 0 })}
+                />
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => setMaxHolders(token.id, form.maxHolders))}>
+                  Set
+                </button>
+              </div>
+            </div>
+          )}
+          {RULE_MODULES.some(m => m.kind === "holdingPeriod") && (
+            <div className="form-group">
+              <label>Holding period (days)</label>
+              <div className="rules-actions">
+                <input
+                  type="number"
+                  className="vault-input"
+                  min="0"
+                  value={form.holdingDays || ""}
+                  onChange={e => setForm({ ...form, holdingDays: parseFloat(e.target.value) || 0 })}
+                />
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => setHoldingPeriod(token.id, form.holdingDays * DAY))}>
+                  Set
+                </button>
+              </div>
+            </div>
+          )}
+          {RULE_MODULES.some(m => m.kind === "rightOfFirstRefusal") && (
+            <div className="form-group">
+              <label>First refusal response window (days)</label>
+              <div className="rules-actions">
+                <input
+                  type="number"
+                  className="vault-input"
+                  min="0"
+                  value={form.responseDays || ""}
+                  onChange={e => setForm({ ...form, responseDays: parseFloat(e.target.value) || 0 })}
+                />
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => setResponseWindow(token.id, form.responseDays * DAY))}>
+                  Set
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <div className="rules-error">{error}</div>}
+    </div>
+  );
+};
+
+export default TransferRules;
@@ -0,0 +1,208 @@
+import React, { useState } from "react";
+import type { EquityToken } from "../registry";
+import { authorizeGrants, completeMilestone, createGrant, decryptGrants, MAX_MILESTONES } from "../vesting";
+import type { ScheduleKind, VestingGrant } from "../vesting";
+import VestingTimeline from "./VestingTimeline";
+
+interface VestingProps {
+  token: EquityToken;
+  grants: VestingGrant[];
+  account?: string;
+  // False when no vesting contract is configured for this deployment
+  enabled: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const KIND_LABELS: Record<ScheduleKind, string> = {
+  cliff: "Lock-up",
+  linear: "Linear vesting",
+  milestone: "Milestone vesting"
+};
+
+// New grants may be created for a while after authorizing the vesting contract
+const AUTHORIZATION_SECONDS = 30 * 24 * 60 * 60;
+
+const toSeconds = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const Vesting: React.FC<VestingProps> = ({ token, grants, account, enabled, onChanged }) => {
+  const [form, setForm] = useState({
+    holder: "",
+    amount: 0,
+    kind: "linear" as ScheduleKind,
+    start: "",
+    cliff: "",
+    end: "",
+    milestoneCount: 4
+  });
+  const [amounts, setAmounts] = useState<Record<string, bigint>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const me = account?.toLowerCase();
+  const isIssuer = me === token.issuer.toLowerCase();
+  // Holders see their own grants, the issuer sees every grant
+  const visible = grants.filter(g => isIssuer || g.holder.toLowerCase() === me);
+  const now = Date.now() / 1000;
+
+  const run = async (action: () => Promise<void>) => {
+    if (!account) {
+      setError("Please connect wallet first");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Vesting update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (action: () => Promise<void>) => run(async () => {
+    await action();
+    await onChanged();
+  });
+
+  const handleCreate = () => update(async () => {
+    const cliff = form.kind === "cliff" ? toSeconds(form.end) : toSeconds(form.cliff || form.start);
+    await createGrant(token.id, form.holder.trim(), form.amount, {
+      kind: form.kind,
+      start: toSeconds(form.start),
+      cliff,
+      end: toSeconds(form.end),
+      milestoneCount: form.milestoneCount
+    }, account!);
+    setForm({ ...form, holder: "", amount: 0 });
+  });
+
+  if (!enabled) {
+    return (
+      <div className="vesting">
+        <h3>Vesting &amp; Lock-ups</h3>
+        <p className="vesting-note">No vesting contract is deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="vesting">
+      <h3>Vesting &amp; Lock-ups</h3>
+      <p className="vesting-note">
+        Granted shares sit in the holder's balance but only their vested part can be transferred. Schedules are
+        public; granted amounts are visible to the holder and issuer only.
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="vesting-note">{isIssuer ? "No grants yet." : "You have no vesting grants for this token."}</p>
+      ) : (
+        <>
+          <button
+            className="vault-button small outline"
+            disabled={busy}
+            onClick={() => run(async () => setAmounts(await decryptGrants(visible)))}
+          >
+            Decrypt Amounts
+          </button>
+          {visible.map(grant => (
+            <div key={grant.id} className="vesting-card">
+              <div className="vesting-header">
+                <strong>Grant #{grant.id} &middot; {KIND_LABELS[grant.kind]}</strong>
+                {isIssuer && <span className="vesting-holder">{grant.holder.substring(0, 10)}...{grant.holder.substring(34)}</span>}
+              </div>
+              <VestingTimeline grant={grant} amount={amounts[grant.id] ?? null} now={now} />
+              {isIssuer && grant.kind === "milestone" && grant.milestonesCompleted < grant.milestoneCount && (
+                <button className="vault-button small" disabled={busy} onClick={() => update(() => completeMilestone(grant.id))}>
+                  Complete Milestone {grant.milestonesCompleted + 1}
+                </button>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      {isIssuer && (
+        <div className="vesting-form">
+          <h4>Grant Shares</h4>
+          <div className="form-group">
+            <label>Holder</label>
+            <input
+              type="text"
+              className="vault-input"
+              placeholder="0x..."
+              value={form.holder}
+              onChange={e => setForm({ ...form, holder: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label>Shares</label>
+            <input
+              type="number"
+              className="vault-input"
+              min="1"
+              value={form.amount || ""}
+              onChange={e => setForm({ ...form, amount: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="form-group">
+            <label>Schedule</label>
+            <select
+              className="vault-input"
+              value={form.kind}
+              onChange={e => setForm({ ...form, kind: e.target.value as ScheduleKind })}
+            >
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {form.kind === "linear" && (
+            <>
+              <div className="form-group">
+                <label>Vesting starts</label>
+                <input type="datetime-local" className="vault-input" value={form.start} onChange={e => setForm({ ...form, start: e.target.value })} />
+              </div>
+              <div className="form-group">
+                <label>Cliff (optional)</label>
+                <input type="datetime-local" className="vault-input" value={form.cliff} onChange={e => setForm({ ...form, cliff: e.target.value })} />
+              </div>
+            </>
+          )}
+          {form.kind !== "milestone" ? (
+            <div className="form-group">
+              <label>{form.kind === "cliff" ? "Unlocks" : "Fully vested"}</label>
+              <input type="datetime-local" className="vault-input" value={form.end} onChange={e => setForm({ ...form, end: e.target.value })} />
+            </div>
+          ) : (
+            <div className="form-group">
+              <label>Milestones</label>
+              <input
+                type="number"
+                className="vault-input"
+                min="1"
+                max={MAX_MILESTONES}
+                value={form.milestoneCount || ""}
+                onChange={e => setForm({ ...form, milestoneCount: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          )}
+          <div className="vesting-actions">
+            <button className="vault-button small" disabled={busy} onClick={handleCreate}>Grant</button>
+            <button
+              className="vault-button small outline"
+              disabled={busy}
+              onClick={() => run(() => authorizeGrants(Math.floor(Date.now() / 1000) + AUTHORIZATION_SECONDS))}
+            >
+              Authorize Grants for 30 Days
+            </button>
+          </div>
+          <p className="vesting-note">Granted shares move from your balance, once you authorize the vesting contract.</p>
+        </div>
+      )}
+      {error && <div className="vesting-error">{error}</div>}
+    </div>
+  );
+};
+
+export default Vesting;
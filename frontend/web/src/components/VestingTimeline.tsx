@@ -0,0 +1,73 @@
+import React from "react";
+import { vestedFraction, vestedShares } from "../vesting";
+import type { VestingGrant } from "../vesting";
+
+interface VestingTimelineProps {
+  grant: VestingGrant;
+  // Decrypted granted amount, when the viewer has decrypted it
+  amount: bigint | null;
+  now: number;
+}
+
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
+/**
+ * Progress bar of a grant's schedule: dated from start (or grant date) to end for cliff and
+ * linear grants, one segment per milestone otherwise.
+ */
+const VestingTimeline: React.FC<VestingTimelineProps> = ({ grant, amount, now }) => {
+  const fraction = vestedFraction(grant, now);
+  const vested = amount !== null ? vestedShares(grant, amount, now) : null;
+
+  const summary = (
+    <div className="vesting-summary">
+      <span>{Math.floor(fraction * 100)}% vested</span>
+      {amount !== null && vested !== null && (
+        <span>
+          {vested.toLocaleString()} of {amount.toLocaleString()} shares unlocked, {(amount - vested).toLocaleString()} locked
+        </span>
+      )}
+    </div>
+  );
+
+  if (grant.kind === "milestone") {
+    return (
+      <div className="vesting-timeline">
+        <div className="vesting-milestones">
+          {Array.from({ length: grant.milestoneCount }, (_, i) => (
+            <div key={i} className={`vesting-milestone ${i < grant.milestonesCompleted ? "done" : ""}`} title={`Milestone ${i + 1}`} />
+          ))}
+        </div>
+        <div className="vesting-labels">
+          <span>{grant.milestonesCompleted} of {grant.milestoneCount} milestones complete</span>
+        </div>
+        {summary}
+      </div>
+    );
+  }
+
+  // Cliff grants have no vesting period, so draw them from the day they were granted
+  const from = grant.kind === "cliff" ? grant.grantedAt : grant.start;
+  const span = Math.max(grant.end - from, 1);
+  const position = (at: number) => `${Math.min(Math.max((at - from) / span, 0), 1) * 100}%`;
+
+  return (
+    <div className="vesting-timeline">
+      <div className="vesting-bar">
+        <div className="vesting-fill" style={{ width: `${fraction * 100}%` }} />
+        {grant.kind === "linear" && grant.cliff > grant.start && (
+          <div className="vesting-marker" style={{ left: position(grant.cliff) }} title={`Cliff ${formatDate(grant.cliff)}`} />
+        )}
+        <div className="vesting-now" style={{ left: position(now) }} title="Today" />
+      </div>
+      <div className="vesting-labels">
+        <span>{formatDate(from)}</span>
+        {grant.kind === "linear" && grant.cliff > grant.start && <span>Cliff {formatDate(grant.cliff)}</span>}
+        <span>{grant.kind === "cliff" ? "Unlocks" : "Fully vested"} {formatDate(grant.end)}</span>
+      </div>
+      {summary}
+    </div>
+  );
+};
+
+export default VestingTimeline;
@@ -1,86 +1,235 @@
-// contract.ts
-import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
-
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
-
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
-}
-
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
-}
-
-export function normAddr(a: string) { 
-  return a ? a.toLowerCase() : a; 
+// contract.ts
+import { ethers } from "ethers";
+import type { InterfaceAbi } from "ethers";
+import registryAbiJson from "./abi/EquityRegistry.json";
+import orderBookAbiJson from "./abi/EquityOrderBook.json";
+import shareLedgerAbiJson from "./abi/EquityShareLedger.json";
+import investorRegistryAbiJson from "./abi/InvestorRegistry.json";
+import capTableAbiJson from "./abi/EquityCapTable.json";
+import analyticsAbiJson from "./abi/EquityAnalytics.json";
+import fundraisingAbiJson from "./abi/EquityFundraising.json";
+import auctionAbiJson from "./abi/EquityAuction.json";
+import distributionsAbiJson from "./abi/EquityDistributions.json";
+import stablecoinAbiJson from "./abi/ConfidentialStablecoin.json";
+import vestingAbiJson from "./abi/EquityVesting.json";
+import complianceAbiJson from "./abi/EquityCompliance.json";
+import rightOfFirstRefusalRuleAbiJson from "./abi/RightOfFirstRefusalRule.json";
+import jurisdictionRuleAbiJson from "./abi/JurisdictionRule.json";
+import maxHoldersRuleAbiJson from "./abi/MaxHoldersRule.json";
+import holdingPeriodRuleAbiJson from "./abi/HoldingPeriodRule.json";
+import { getActiveChainId, getNetwork, isSupportedChain, setActiveChainId, supportedNetworkNames } from "./networks";
+import type { ContractAddresses } from "./networks";
+import { getReadProvider } from "./provider";
+
+export const REGISTRY_ABI: InterfaceAbi = registryAbiJson.abi;
+export const ORDER_BOOK_ABI: InterfaceAbi = orderBookAbiJson.abi;
+export const SHARE_LEDGER_ABI: InterfaceAbi = shareLedgerAbiJson.abi;
+export const INVESTOR_REGISTRY_ABI: InterfaceAbi = investorRegistryAbiJson.abi;
+export const CAP_TABLE_ABI: InterfaceAbi = capTableAbiJson.abi;
+export const ANALYTICS_ABI: InterfaceAbi = analyticsAbiJson.abi;
+export const FUNDRAISING_ABI: InterfaceAbi = fundraisingAbiJson.abi;
+export const AUCTION_ABI: InterfaceAbi = auctionAbiJson.abi;
+export const DISTRIBUTIONS_ABI: InterfaceAbi = distributionsAbiJson.abi;
+export const STABLECOIN_ABI: InterfaceAbi = stablecoinAbiJson.abi;
+export const VESTING_ABI: InterfaceAbi = vestingAbiJson.abi;
+export const COMPLIANCE_ABI: InterfaceAbi = complianceAbiJson.abi;
+export const RIGHT_OF_FIRST_REFUSAL_RULE_ABI: InterfaceAbi = rightOfFirstRefusalRuleAbiJson.abi;
+export const JURISDICTION_RULE_ABI: InterfaceAbi = jurisdictionRuleAbiJson.abi;
+export const MAX_HOLDERS_RULE_ABI: InterfaceAbi = maxHoldersRuleAbiJson.abi;
+export const HOLDING_PERIOD_RULE_ABI: InterfaceAbi = holdingPeriodRuleAbiJson.abi;
+
+/** Addresses of the deployment on the active chain; selectChain swaps them in place. */
+export const config: ContractAddresses = { ...getNetwork(getActiveChainId()).contracts };
+
+/** Points contract getters and read providers at the deployment on `chainId`. */
+export function selectChain(chainId: number) {
+  setActiveChainId(chainId);
+  Object.assign(config, getNetwork(chainId).contracts);
+}
+
+/**
+ * The injected wallet's signer. Follows the wallet onto another supported chain, so the
+ * contract it signs for is always the one deployed on the chain it sends to.
+ */
+const getWalletSigner = async () => {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (!isSupportedChain(chainId)) {
+    throw new Error(`Your wallet is on an unsupported network; switch to ${supportedNetworkNames()}`);
+  }
+  if (chainId !== getActiveChainId()) selectChain(chainId);
+  return provider.getSigner();
+};
+
+const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    if (retries > 0) {
+      await new Promise(res => setTimeout(res, delay));
+      return retry(fn, retries - 1, delay * 2);
+    }
+    throw e;
+  }
+};
+
+export async function getRegistryReadOnly() {
+  if (!config.registryAddress) return null;
+  try {
+    const provider = await getReadProvider();
+    const code = await retry(() => provider.getCode(config.registryAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return new ethers.Contract(config.registryAddress, REGISTRY_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only registry:", error);
+    return null;
+  }
+}
+
+export async function getRegistryWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.registryAddress) {
+    throw new Error("Equity registry address is not configured");
+  }
+  return new ethers.Contract(config.registryAddress, REGISTRY_ABI, signer);
+}
+
+export async function getOrderBookWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.orderBookAddress) {
+    throw new Error("Order book address is not configured");
+  }
+  return new ethers.Contract(config.orderBookAddress, ORDER_BOOK_ABI, signer);
+}
+
+export async function getShareLedgerWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.shareLedgerAddress) {
+    throw new Error("Share ledger address is not configured");
+  }
+  return new ethers.Contract(config.shareLedgerAddress, SHARE_LEDGER_ABI, signer);
+}
+
+export async function getInvestorRegistryReadOnly() {
+  if (!config.investorRegistryAddress) return null;
+  try {
+    const provider = await getReadProvider();
+    return new ethers.Contract(config.investorRegistryAddress, INVESTOR_REGISTRY_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only investor registry:", error);
+    return null;
+  }
+}
+
+export async function getInvestorRegistryWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.investorRegistryAddress) {
+    throw new Error("Investor registry address is not configured");
+  }
+  return new ethers.Contract(config.investorRegistryAddress, INVESTOR_REGISTRY_ABI, signer);
+}
+
+export async function getCapTableWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.capTableAddress) {
+    throw new Error("Cap table address is not configured");
+  }
+  return new ethers.Contract(config.capTableAddress, CAP_TABLE_ABI, signer);
+}
+
+export async function getAnalyticsWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.analyticsAddress) {
+    throw new Error("Analytics address is not configured");
+  }
+  return new ethers.Contract(config.analyticsAddress, ANALYTICS_ABI, signer);
+}
+
+export async function getFundraisingWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.fundraisingAddress) {
+    throw new Error("Fundraising address is not configured");
+  }
+  return new ethers.Contract(config.fundraisingAddress, FUNDRAISING_ABI, signer);
+}
+
+export async function getAuctionWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.auctionAddress) {
+    throw new Error("Auction address is not configured");
+  }
+  return new ethers.Contract(config.auctionAddress, AUCTION_ABI, signer);
+}
+
+export async function getDistributionsWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.distributionsAddress) {
+    throw new Error("Distributions address is not configured");
+  }
+  return new ethers.Contract(config.distributionsAddress, DISTRIBUTIONS_ABI, signer);
+}
+
+export async function getStablecoinWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.stablecoinAddress) {
+    throw new Error("Stablecoin address is not configured");
+  }
+  return new ethers.Contract(config.stablecoinAddress, STABLECOIN_ABI, signer);
+}
+
+export async function getVestingWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.vestingAddress) {
+    throw new Error("Vesting address is not configured");
+  }
+  return new ethers.Contract(config.vestingAddress, VESTING_ABI, signer);
+}
+
+export async function getComplianceWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.complianceAddress) {
+    throw new Error("Transfer compliance address is not configured");
+  }
+  return new ethers.Contract(config.complianceAddress, COMPLIANCE_ABI, signer);
+}
+
+export async function getRightOfFirstRefusalRuleWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.rightOfFirstRefusalRuleAddress) {
+    throw new Error("Right of first refusal rule address is not configured");
+  }
+  return new ethers.Contract(config.rightOfFirstRefusalRuleAddress, RIGHT_OF_FIRST_REFUSAL_RULE_ABI, signer);
+}
+
+export async function getJurisdictionRuleWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.jurisdictionRuleAddress) {
+    throw new Error("Jurisdiction rule address is not configured");
+  }
+  return new ethers.Contract(config.jurisdictionRuleAddress, JURISDICTION_RULE_ABI, signer);
+}
+
+export async function getMaxHoldersRuleWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.maxHoldersRuleAddress) {
+    throw new Error("Max holders rule address is not configured");
+  }
+  return new ethers.Contract(config.maxHoldersRuleAddress, MAX_HOLDERS_RULE_ABI, signer);
+}
+
+export async function getHoldingPeriodRuleWithSigner() {
+  const signer = await getWalletSigner();
+  if (!config.holdingPeriodRuleAddress) {
+    throw new Error("Holding period rule address is not configured");
+  }
+  return new ethers.Contract(config.holdingPeriodRuleAddress, HOLDING_PERIOD_RULE_ABI, signer);
+}
+
+export function normAddr(a: string) { 
+  return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
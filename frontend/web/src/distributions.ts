@@ -0,0 +1,141 @@
+// distributions.ts
+import { ethers } from "ethers";
+import { config, getDistributionsWithSigner, getStablecoinWithSigner } from "./contract";
+import { userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+
+// Mirrors ConfidentialStablecoin.decimals
+export const STABLECOIN_DECIMALS = 6;
+export const STABLECOIN_SYMBOL = "cUSD";
+
+export interface DistributionClaim {
+  holder: string;
+  // Encrypted payout
+  amount: string;
+}
+
+export interface Distribution {
+  id: string;
+  tokenId: string;
+  issuer: string;
+  // In stablecoin base units
+  amountPerShare: bigint;
+  snapshotId: string;
+  // Encrypted check that the issuer covered the total; only the issuer may decrypt it
+  funded: string;
+  claims: DistributionClaim[];
+  declaredAt: number;
+}
+
+export interface DistributionValues {
+  funded: boolean | null;
+  payout: bigint | null;
+}
+
+/** Formats stablecoin base units, e.g. 1500000n as "1.5 cUSD". */
+export const formatStablecoin = (amount: bigint) =>
+  `${ethers.formatUnits(amount, STABLECOIN_DECIMALS)} ${STABLECOIN_SYMBOL}`;
+
+/** Rebuilds a token's distribution history, newest first, from indexed EquityDistributions events. */
+export function projectDistributions(events: IndexedEvent[], tokenId: string): Distribution[] {
+  const distributions = new Map<string, Distribution>();
+  for (const e of events) {
+    if (e.source !== "EquityDistributions") continue;
+    const distributionId = String(e.args.distributionId);
+
+    if (e.name === "DistributionDeclared") {
+      if (String(e.args.tokenId) !== tokenId) continue;
+      distributions.set(distributionId, {
+        id: distributionId,
+        tokenId,
+        issuer: String(e.args.issuer),
+        amountPerShare: BigInt(String(e.args.amountPerShare)),
+        snapshotId: String(e.args.snapshotId),
+        funded: String(e.args.funded),
+        claims: [],
+        declaredAt: e.timestamp
+      });
+    } else if (e.name === "DistributionClaimed") {
+      distributions.get(distributionId)?.claims.push({
+        holder: String(e.args.holder),
+        amount: String(e.args.amount)
+      });
+    }
+  }
+  return [...distributions.values()].reverse();
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const contractChainId = async (contract: ethers.Contract) =>
+  Number((await contract.runner!.provider!.getNetwork()).chainId);
+
+/**
+ * Declares a distribution of `amountPerShare` (a decimal stablecoin amount, e.g. "0.25")
+ * to every current holder. The contract escrows the total from the issuer's stablecoin
+ * balance, so authorize it first.
+ */
+export async function declareDistribution(tokenId: string, amountPerShare: string): Promise<void> {
+  let units: bigint;
+  try {
+    units = ethers.parseUnits(amountPerShare || "0", STABLECOIN_DECIMALS);
+  } catch {
+    throw new Error("Amount per share is not a valid number");
+  }
+  if (units <= 0n) throw new Error("Amount per share must be positive");
+  const distributions = await getDistributionsWithSigner();
+  await submit(distributions.declareDistribution(tokenId, units));
+}
+
+/**
+ * Lets the distributions contract escrow the connected wallet's stablecoin for
+ * distributions declared until `until` (seconds).
+ */
+export async function authorizeDistributionEscrow(until: number): Promise<void> {
+  const stablecoin = await getStablecoinWithSigner();
+  await submit(stablecoin.setOperator(config.distributionsAddress, until));
+}
+
+/** Pays the connected wallet's share of a distribution into its stablecoin balance. */
+export async function claimDistribution(distributionId: string): Promise<void> {
+  const distributions = await getDistributionsWithSigner();
+  await submit(distributions.claim(distributionId));
+}
+
+/**
+ * Decrypts what the connected wallet may read in a distribution: the issuer reads whether
+ * it was funded, holders read their own payout once claimed.
+ */
+export async function decryptDistribution(distribution: Distribution, account: string): Promise<DistributionValues> {
+  const me = account.toLowerCase();
+  const isIssuer = distribution.issuer.toLowerCase() === me;
+  const claim = distribution.claims.find(c => c.holder.toLowerCase() === me);
+  const handles = [...(isIssuer ? [distribution.funded] : []), ...(claim ? [claim.amount] : [])];
+  if (handles.length === 0) return { funded: null, payout: null };
+
+  const contract = await getDistributionsWithSigner();
+  const values = await userDecrypt(
+    handles,
+    await contract.getAddress(),
+    contract.runner as ethers.Signer,
+    await contractChainId(contract)
+  );
+  return {
+    funded: isIssuer ? values[distribution.funded] === 1n : null,
+    payout: claim ? values[claim.amount] : null
+  };
+}
+
+/** Decrypts the connected wallet's stablecoin balance; 0 when it never held any. */
+export async function decryptStablecoinBalance(): Promise<bigint> {
+  const stablecoin = await getStablecoinWithSigner();
+  const signer = stablecoin.runner as ethers.Signer;
+  const handle: string = await stablecoin.confidentialBalanceOf(await signer.getAddress());
+  if (handle === ethers.ZeroHash) return 0n;
+  const values = await userDecrypt([handle], await stablecoin.getAddress(), signer, await contractChainId(stablecoin));
+  return values[handle];
+}
@@ -0,0 +1,202 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { MockFhevmInstance } from "@fhevm/mock-utils";
+import { getNetwork } from "./networks";
+
+export type FheValueType = "euint32" | "euint64";
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Local Hardhat nodes have no relayer/KMS; the fhevm hardhat plugin runs a mock coprocessor instead.
+// The contracts verify input proofs, so mock mode encrypts through it rather than just encoding values.
+const MOCK_CHAIN_IDS = [31337];
+// Gateway-side addresses and chain id the fhevm hardhat plugin signs mock inputs and decryptions for
+const MOCK_GATEWAY = {
+  gatewayChainId: 55815,
+  verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+  verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810"
+};
+
+const MAX_VALUES: Record<FheValueType, bigint> = {
+  euint32: 2n ** 32n - 1n,
+  euint64: 2n ** 64n - 1n
+};
+
+// How long a signed user-decryption permit stays valid
+const PERMIT_DURATION_DAYS = 1;
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+const permits = new Map<string, DecryptionPermit>();
+
+export function isMockChain(chainId: number) {
+  return MOCK_CHAIN_IDS.includes(chainId);
+}
+
+// MockFhevmInstance implements the relayer SDK's FhevmInstance, so callers cannot tell the two apart
+const createMockInstance = async (chainId: number): Promise<FhevmInstance> => {
+  // fhevm_relayer_metadata is a Hardhat-only method, so talk to the node directly
+  const provider = new ethers.JsonRpcProvider(getNetwork(chainId).rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  return MockFhevmInstance.create(provider, provider, {
+    ...MOCK_GATEWAY,
+    chainId,
+    aclContractAddress: metadata.ACLAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress
+  });
+};
+
+const createRelayerInstance = async (chainId: number): Promise<FhevmInstance> => {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const { fhevm } = getNetwork(chainId);
+  if (!fhevm.ACLAddress || !fhevm.KMSVerifierAddress || !fhevm.InputVerifierAddress) {
+    throw new Error(`FHEVM addresses are not configured for chain ${chainId}`);
+  }
+  await initSDK();
+  // Zama's relayer and gateway stay those of SepoliaConfig; the host contracts come from config.json
+  return createInstance({
+    ...SepoliaConfig,
+    chainId,
+    aclContractAddress: fhevm.ACLAddress,
+    kmsContractAddress: fhevm.KMSVerifierAddress,
+    inputVerifierContractAddress: fhevm.InputVerifierAddress,
+    network: window.ethereum
+  });
+};
+
+export async function getFhevmInstance(chainId: number): Promise<FhevmInstance> {
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = isMockChain(chainId) ? createMockInstance(chainId) : createRelayerInstance(chainId);
+    instances.set(chainId, instance);
+    // Allow a later call to retry when WASM loading or key fetching failed
+    instance.catch(() => instances.delete(chainId));
+  }
+  return instance;
+}
+
+const toBigInt = (value: number | bigint, type: FheValueType): bigint => {
+  if (typeof value === "number" && (!Number.isFinite(value) || !Number.isInteger(value))) {
+    throw new Error(`${type} values must be whole numbers, got ${value}`);
+  }
+  const v = BigInt(value);
+  if (v < 0n || v > MAX_VALUES[type]) {
+    throw new Error(`Value ${v} does not fit in ${type}`);
+  }
+  return v;
+};
+
+/**
+ * Encrypts the values in a single input so they share one input proof.
+ * Handles are bound to `contractAddress` and `userAddress`: only that contract
+ * can consume them, and only in a transaction sent by that user.
+ */
+export async function encryptValues(
+  contractAddress: string,
+  userAddress: string,
+  chainId: number,
+  values: { type: FheValueType; value: number | bigint }[]
+): Promise<EncryptedInputs> {
+  const plain = values.map(v => ({ type: v.type, value: toBigInt(v.value, v.type) }));
+
+  const instance = await getFhevmInstance(chainId);
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  for (const v of plain) {
+    if (v.type === "euint32") input.add32(v.value);
+    else input.add64(v.value);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+const permitKey = (chainId: number, userAddress: string, contractAddress: string) =>
+  `${chainId}:${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+
+const isPermitValid = (permit: DecryptionPermit) => {
+  const expiresAt = permit.startTimestamp + permit.durationDays * 24 * 60 * 60;
+  // Treat permits that are about to expire as stale so a request cannot race the expiry
+  return Math.floor(Date.now() / 1000) < expiresAt - 60;
+};
+
+/**
+ * Returns a signed EIP-712 user-decryption permit for `contractAddress`,
+ * prompting the wallet only when no valid permit is cached.
+ */
+async function getDecryptionPermit(
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  contractAddress: string,
+  chainId: number
+): Promise<DecryptionPermit> {
+  const userAddress = await signer.getAddress();
+  const key = permitKey(chainId, userAddress, contractAddress);
+  const cached = permits.get(key);
+  if (cached && isPermitValid(cached)) return cached;
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, PERMIT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp, durationDays: PERMIT_DURATION_DAYS };
+  permits.set(key, permit);
+  return permit;
+}
+
+/**
+ * Decrypts handles the signer has been granted access to on `contractAddress`.
+ * All handles are re-encrypted under one keypair, so a single signature covers them.
+ */
+export async function userDecrypt(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer,
+  chainId: number
+): Promise<Record<string, bigint>> {
+  const instance = await getFhevmInstance(chainId);
+  const target = ethers.getAddress(contractAddress);
+  const userAddress = await signer.getAddress();
+  const permit = await getDecryptionPermit(instance, signer, target, chainId);
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress: target })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [target],
+    userAddress,
+    permit.startTimestamp,
+    permit.durationDays
+  );
+
+  return Object.fromEntries(handles.map(h => {
+    const value = results[h] ?? results[h.toLowerCase()];
+    if (value === undefined) throw new Error(`No decryption result for handle ${h}`);
+    return [h, BigInt(value)];
+  }));
+}
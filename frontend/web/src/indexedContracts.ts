@@ -0,0 +1,119 @@
+// indexedContracts.ts
+// The platform contracts whose events are indexed, shared by the app's IndexedDB indexer and
+// the Node CLI so both build the same index.
+import type { InterfaceAbi } from "ethers";
+import analyticsAbiJson from "./abi/EquityAnalytics.json";
+import fundraisingAbiJson from "./abi/EquityFundraising.json";
+import capTableAbiJson from "./abi/EquityCapTable.json";
+import investorRegistryAbiJson from "./abi/InvestorRegistry.json";
+import orderBookAbiJson from "./abi/EquityOrderBook.json";
+import registryAbiJson from "./abi/EquityRegistry.json";
+import shareLedgerAbiJson from "./abi/EquityShareLedger.json";
+import auctionAbiJson from "./abi/EquityAuction.json";
+import distributionsAbiJson from "./abi/EquityDistributions.json";
+import vestingAbiJson from "./abi/EquityVesting.json";
+import complianceAbiJson from "./abi/EquityCompliance.json";
+import rightOfFirstRefusalRuleAbiJson from "./abi/RightOfFirstRefusalRule.json";
+import type { IndexedContract } from "./indexer";
+import type { ContractAddresses } from "./networks";
+
+type KeyEndingIn<Suffix extends string> = Extract<keyof ContractAddresses, `${string}${Suffix}`>;
+
+interface IndexedSource {
+  name: string;
+  abi: InterfaceAbi;
+  address: KeyEndingIn<"Address">;
+  deployBlock: KeyEndingIn<"DeployBlock">;
+}
+
+// The registry comes first and is required; the rest are indexed when deployed
+const SOURCES: IndexedSource[] = [
+  {
+    name: "EquityRegistry",
+    abi: registryAbiJson.abi,
+    address: "registryAddress",
+    deployBlock: "registryDeployBlock"
+  },
+  {
+    name: "EquityOrderBook",
+    abi: orderBookAbiJson.abi,
+    address: "orderBookAddress",
+    deployBlock: "orderBookDeployBlock"
+  },
+  {
+    name: "EquityShareLedger",
+    abi: shareLedgerAbiJson.abi,
+    address: "shareLedgerAddress",
+    deployBlock: "shareLedgerDeployBlock"
+  },
+  {
+    name: "InvestorRegistry",
+    abi: investorRegistryAbiJson.abi,
+    address: "investorRegistryAddress",
+    deployBlock: "investorRegistryDeployBlock"
+  },
+  {
+    name: "EquityCapTable",
+    abi: capTableAbiJson.abi,
+    address: "capTableAddress",
+    deployBlock: "capTableDeployBlock"
+  },
+  {
+    name: "EquityAnalytics",
+    abi: analyticsAbiJson.abi,
+    address: "analyticsAddress",
+    deployBlock: "analyticsDeployBlock"
+  },
+  {
+    name: "EquityFundraising",
+    abi: fundraisingAbiJson.abi,
+    address: "fundraisingAddress",
+    deployBlock: "fundraisingDeployBlock"
+  },
+  {
+    name: "EquityAuction",
+    abi: auctionAbiJson.abi,
+    address: "auctionAddress",
+    deployBlock: "auctionDeployBlock"
+  },
+  {
+    name: "EquityDistributions",
+    abi: distributionsAbiJson.abi,
+    address: "distributionsAddress",
+    deployBlock: "distributionsDeployBlock"
+  },
+  {
+    name: "EquityVesting",
+    abi: vestingAbiJson.abi,
+    address: "vestingAddress",
+    deployBlock: "vestingDeployBlock"
+  },
+  {
+    name: "EquityCompliance",
+    abi: complianceAbiJson.abi,
+    address: "complianceAddress",
+    deployBlock: "complianceDeployBlock"
+  },
+  {
+    name: "RightOfFirstRefusalRule",
+    abi: rightOfFirstRefusalRuleAbiJson.abi,
+    address: "rightOfFirstRefusalRuleAddress",
+    deployBlock: "rightOfFirstRefusalRuleDeployBlock"
+  }
+];
+
+/**
+ * The contracts of a deployment to index: the registry, investor allowlist, order books,
+ * share transfers, cap tables, token metrics, fundraising rounds, auctions, distributions,
+ * vesting grants, transfer rules and sale notices. Contracts without an address are left
+ * out; null when the registry itself is not deployed.
+ */
+export function indexedContracts(config: ContractAddresses): IndexedContract[] | null {
+  if (!config.registryAddress) return null;
+  return SOURCES.filter(source => !!config[source.address]).map(source => ({
+    name: source.name,
+    address: config[source.address],
+    abi: source.abi,
+    startBlock: config[source.deployBlock]
+  }));
+}
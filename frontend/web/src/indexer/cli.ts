@@ -0,0 +1,53 @@
+// cli.ts
+// Node entry point that keeps a JSON copy of the platform event index:
+//   npm run indexer -- [--chain <id>] [--out equity-index.json] [--rpc <url>] [--follow]
+// Indexes the deployment config.json lists for the chain (its defaultChainId unless --chain
+// is given), reading through that chain's configured endpoints unless --rpc is given.
+import { parseArgs } from "util";
+import { ethers } from "ethers";
+import { EventIndexer } from "./indexer";
+import { JsonFileStore } from "./jsonFileStore";
+import { indexedContracts } from "../indexedContracts";
+import { DEFAULT_CHAIN_ID, getNetwork } from "../networks";
+import { getReadProvider } from "../provider";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chain: { type: "string", default: String(DEFAULT_CHAIN_ID) },
+      out: { type: "string", default: "equity-index.json" },
+      rpc: { type: "string" },
+      follow: { type: "boolean", default: false }
+    }
+  });
+
+  const chainId = Number(values.chain);
+  const contracts = indexedContracts(getNetwork(chainId).contracts);
+  if (!contracts) {
+    throw new Error(`registryAddress is not set for chain ${chainId} in frontend/web/src/config.json`);
+  }
+
+  const indexer = new EventIndexer({
+    provider: values.rpc ? new ethers.JsonRpcProvider(values.rpc) : await getReadProvider(chainId),
+    store: new JsonFileStore(values.out!),
+    contracts
+  });
+
+  indexer.subscribe(({ added, rolledBackTo, head }) => {
+    if (rolledBackTo !== null) console.log(`Reorg detected, rolled back to block ${rolledBackTo}`);
+    for (const e of added) console.log(`#${e.blockNumber} ${e.source}.${e.name} ${JSON.stringify(e.args)}`);
+    console.log(`Indexed up to block ${head?.number ?? "-"}`);
+  });
+
+  if (values.follow) {
+    indexer.start(error => console.error("Sync failed:", error));
+  } else {
+    const { head } = await indexer.sync();
+    console.log(`Index is up to date at block ${head?.number ?? "-"} (${values.out})`);
+  }
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,7 @@
+// index.ts
+// The JSON file store is Node only and is imported from "./jsonFileStore" directly.
+export { EventIndexer } from "./indexer";
+export type { EventIndexerOptions, IndexedContract, IndexListener, IndexUpdate } from "./indexer";
+export { IndexedDbStore } from "./indexedDbStore";
+export { MemoryStore } from "./memoryStore";
+export type { BlockRef, ChainReader, EventArg, IndexedEvent, IndexStore, RawLog } from "./types";
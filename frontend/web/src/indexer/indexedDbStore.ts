@@ -0,0 +1,71 @@
+// indexedDbStore.ts
+// Browser only: persists the index in IndexedDB so reloads only fetch new blocks.
+import type { BlockRef, IndexedEvent, IndexStore } from "./types";
+
+const EVENTS = "events";
+const META = "meta";
+const HEAD_KEY = "head";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export class IndexedDbStore implements IndexStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /** Use one database per chain and contract set so indexes never mix. */
+  constructor(private readonly name: string) {}
+
+  private open() {
+    if (!this.db) {
+      const req = indexedDB.open(this.name, 1);
+      req.onupgradeneeded = () => {
+        // Events are keyed by chain position, which keeps them in order for free
+        req.result.createObjectStore(EVENTS, { keyPath: ["blockNumber", "logIndex"] });
+        req.result.createObjectStore(META);
+      };
+      this.db = request(req);
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  async getHead() {
+    const db = await this.open();
+    const head = await request(db.transaction(META).objectStore(META).get(HEAD_KEY));
+    return (head as BlockRef | undefined) ?? null;
+  }
+
+  async getEvents() {
+    const db = await this.open();
+    return request(db.transaction(EVENTS).objectStore(EVENTS).getAll()) as Promise<IndexedEvent[]>;
+  }
+
+  async append(events: IndexedEvent[], head: BlockRef) {
+    const db = await this.open();
+    const tx = db.transaction([EVENTS, META], "readwrite");
+    const store = tx.objectStore(EVENTS);
+    for (const event of events) store.put(event);
+    tx.objectStore(META).put(head, HEAD_KEY);
+    await completion(tx);
+  }
+
+  async rollback(head: BlockRef | null) {
+    const db = await this.open();
+    const tx = db.transaction([EVENTS, META], "readwrite");
+    const firstDropped = head ? head.number + 1 : 0;
+    tx.objectStore(EVENTS).delete(IDBKeyRange.lowerBound([firstDropped, 0]));
+    if (head) tx.objectStore(META).put(head, HEAD_KEY);
+    else tx.objectStore(META).delete(HEAD_KEY);
+    await completion(tx);
+  }
+}
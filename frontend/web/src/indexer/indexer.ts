@@ -0,0 +1,220 @@
+// indexer.ts
+import { Interface } from "ethers";
+import type { InterfaceAbi } from "ethers";
+import type { BlockRef, ChainReader, EventArg, IndexedEvent, IndexStore, RawLog } from "./types";
+
+export interface IndexedContract {
+  name: string;
+  address: string;
+  abi: InterfaceAbi;
+  /** Deployment block; nothing before it is scanned */
+  startBlock: number;
+}
+
+export interface EventIndexerOptions {
+  provider: ChainReader;
+  contracts: IndexedContract[];
+  store: IndexStore;
+  /** Depth after which blocks are treated as final; a reorg rolls the index back this far */
+  confirmations?: number;
+  /** Largest block span requested in one eth_getLogs call */
+  chunkSize?: number;
+  pollIntervalMs?: number;
+}
+
+export interface IndexUpdate {
+  added: IndexedEvent[];
+  /** Last block kept when a reorg forced a rollback, otherwise null */
+  rolledBackTo: number | null;
+  head: BlockRef | null;
+}
+
+export type IndexListener = (update: IndexUpdate) => void;
+
+type ChainBlock = NonNullable<Awaited<ReturnType<ChainReader["getBlock"]>>>;
+
+const toEventArg = (value: unknown): EventArg => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return Array.from(value, toEventArg);
+  return value as EventArg;
+};
+
+/**
+ * Backfills contract events into an IndexStore from the contracts' deployment
+ * blocks, then follows new blocks. Every pass first checks that the stored head
+ * is still on the canonical chain; if not, the index is rolled back by
+ * `confirmations` blocks and rescanned from there.
+ */
+export class EventIndexer {
+  private readonly provider: ChainReader;
+  private readonly store: IndexStore;
+  private readonly contracts: Map<string, IndexedContract & { iface: Interface }>;
+  private readonly startBlock: number;
+  private readonly confirmations: number;
+  private readonly chunkSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly listeners = new Set<IndexListener>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private following = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: EventIndexerOptions) {
+    if (options.contracts.length === 0) {
+      throw new Error("EventIndexer needs at least one contract");
+    }
+    this.provider = options.provider;
+    this.store = options.store;
+    this.contracts = new Map(
+      options.contracts.map(c => [c.address.toLowerCase(), { ...c, iface: new Interface(c.abi) }])
+    );
+    this.startBlock = Math.min(...options.contracts.map(c => c.startBlock));
+    this.confirmations = options.confirmations ?? 12;
+    this.chunkSize = options.chunkSize ?? 5000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 12_000;
+  }
+
+  events() {
+    return this.store.getEvents();
+  }
+
+  /** Registers a listener for passes that changed the index; returns the unsubscribe function. */
+  subscribe(listener: IndexListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Indexes everything up to the current chain head. Concurrent calls run one after another. */
+  sync(): Promise<IndexUpdate> {
+    const pass = this.queue.then(() => this.runSync());
+    this.queue = pass.catch(() => undefined);
+    return pass;
+  }
+
+  /** Syncs now and then every `pollIntervalMs` until stop() is called. */
+  start(onError?: (error: unknown) => void) {
+    if (this.following) return;
+    this.following = true;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError?.(error);
+      }
+      if (this.following) this.timer = setTimeout(tick, this.pollIntervalMs);
+    };
+    tick();
+  }
+
+  stop() {
+    this.following = false;
+    clearTimeout(this.timer);
+  }
+
+  private async runSync(): Promise<IndexUpdate> {
+    const latest = await this.provider.getBlockNumber();
+    let head = await this.store.getHead();
+    let rolledBackTo: number | null = null;
+    const added: IndexedEvent[] = [];
+
+    const rollBack = async (from: BlockRef) => {
+      head = await this.rollBack(from, latest);
+      const kept = head ? head.number : this.startBlock - 1;
+      rolledBackTo = rolledBackTo === null ? kept : Math.min(rolledBackTo, kept);
+      // Events added earlier in this pass may have been dropped again
+      const keep = added.filter(e => e.blockNumber <= kept);
+      added.length = 0;
+      added.push(...keep);
+    };
+
+    if (head && (await this.provider.getBlock(head.number))?.hash !== head.hash) {
+      await rollBack(head);
+    }
+
+    let from = head ? head.number + 1 : this.startBlock;
+    scan: while (from <= latest) {
+      const to = Math.min(from + this.chunkSize - 1, latest);
+      const blocks = new Map<number, ChainBlock>();
+      const first = await this.getBlock(from);
+      blocks.set(from, first);
+      if (head && first.parentHash !== head.hash) {
+        // The chain changed between the head check and this chunk
+        await rollBack(head);
+        from = head ? head.number + 1 : this.startBlock;
+        continue;
+      }
+
+      const logs = await this.provider.getLogs({
+        address: [...this.contracts.keys()],
+        fromBlock: from,
+        toBlock: to
+      });
+      const events: IndexedEvent[] = [];
+      for (const log of logs) {
+        let block = blocks.get(log.blockNumber);
+        if (!block) {
+          block = await this.getBlock(log.blockNumber);
+          blocks.set(log.blockNumber, block);
+        }
+        // Logs from a fork that was replaced mid-request; the next pass rescans them
+        if (block.hash !== log.blockHash) break scan;
+        const event = this.decode(log, block.timestamp);
+        if (event) events.push(event);
+      }
+
+      const last = blocks.get(to) ?? (await this.getBlock(to));
+      head = { number: to, hash: last.hash! };
+      await this.store.append(events, head);
+      added.push(...events);
+      from = to + 1;
+    }
+
+    const update: IndexUpdate = { added, rolledBackTo, head };
+    if (added.length > 0 || rolledBackTo !== null) {
+      this.listeners.forEach(listener => listener(update));
+    }
+    return update;
+  }
+
+  private async rollBack(head: BlockRef, latest: number): Promise<BlockRef | null> {
+    const target = Math.min(head.number - this.confirmations, latest);
+    if (target < this.startBlock) {
+      await this.store.rollback(null);
+      return null;
+    }
+    const block = await this.getBlock(target);
+    const ref = { number: target, hash: block.hash! };
+    await this.store.rollback(ref);
+    return ref;
+  }
+
+  private async getBlock(blockNumber: number) {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) throw new Error(`Block ${blockNumber} is not available`);
+    return block;
+  }
+
+  private decode(log: RawLog, timestamp: number): IndexedEvent | null {
+    const contract = this.contracts.get(log.address.toLowerCase());
+    if (!contract || log.blockNumber < contract.startBlock) return null;
+    const parsed = contract.iface.parseLog(log);
+    if (!parsed) return null;
+
+    const args: Record<string, EventArg> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = toEventArg(parsed.args[i]);
+    });
+    return {
+      source: contract.name,
+      address: contract.address,
+      name: parsed.name,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp,
+      transactionHash: log.transactionHash,
+      logIndex: log.index
+    };
+  }
+}
@@ -0,0 +1,65 @@
+// jsonFileStore.ts
+// Node only: keeps the index in a JSON file so a process can resume after restarting.
+import { promises as fs } from "fs";
+import { MemoryStore } from "./memoryStore";
+import type { BlockRef, IndexedEvent } from "./types";
+
+interface IndexFile {
+  head: BlockRef | null;
+  events: IndexedEvent[];
+}
+
+export class JsonFileStore extends MemoryStore {
+  private loaded: Promise<void> | null = null;
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.path, "utf8").then(
+        text => {
+          const data = JSON.parse(text) as IndexFile;
+          this.head = data.head;
+          this.events = data.events;
+        },
+        (error: NodeJS.ErrnoException) => {
+          // A missing file is an empty index
+          if (error.code !== "ENOENT") throw error;
+        }
+      );
+    }
+    return this.loaded;
+  }
+
+  private async save() {
+    const data: IndexFile = { head: this.head, events: this.events };
+    // Write then rename so a crash never leaves a truncated index behind
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, this.path);
+  }
+
+  async getHead() {
+    await this.load();
+    return super.getHead();
+  }
+
+  async getEvents() {
+    await this.load();
+    return super.getEvents();
+  }
+
+  async append(events: IndexedEvent[], head: BlockRef) {
+    await this.load();
+    await super.append(events, head);
+    await this.save();
+  }
+
+  async rollback(head: BlockRef | null) {
+    await this.load();
+    await super.rollback(head);
+    await this.save();
+  }
+}
@@ -0,0 +1,27 @@
+// memoryStore.ts
+import type { BlockRef, IndexedEvent, IndexStore } from "./types";
+
+/** Keeps the index in memory only; the base for file-backed stores. */
+export class MemoryStore implements IndexStore {
+  protected head: BlockRef | null = null;
+  protected events: IndexedEvent[] = [];
+
+  async getHead() {
+    return this.head;
+  }
+
+  async getEvents() {
+    return [...this.events];
+  }
+
+  async append(events: IndexedEvent[], head: BlockRef) {
+    this.events.push(...events);
+    this.head = head;
+  }
+
+  async rollback(head: BlockRef | null) {
+    const keepUpTo = head ? head.number : -1;
+    this.events = this.events.filter(e => e.blockNumber <= keepUpTo);
+    this.head = head;
+  }
+}
@@ -0,0 +1,62 @@
+// types.ts
+
+/** JSON-safe event argument: uint values are stored as decimal strings. */
+export type EventArg = string | number | boolean | null | EventArg[];
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface IndexedEvent {
+  /** Name of the indexed contract that emitted the event, e.g. "EquityRegistry" */
+  source: string;
+  address: string;
+  name: string;
+  args: Record<string, EventArg>;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Persistence behind an EventIndexer. Events are kept in chain order together
+ * with the last indexed block, so an index can resume where it stopped.
+ */
+export interface IndexStore {
+  getHead(): Promise<BlockRef | null>;
+  /** All events, ordered by block number and log index */
+  getEvents(): Promise<IndexedEvent[]>;
+  /** Adds events and moves the head forward in one step */
+  append(events: IndexedEvent[], head: BlockRef): Promise<void>;
+  /** Drops every event above `head` (all of them when `head` is null) and moves the head back */
+  rollback(head: BlockRef | null): Promise<void>;
+}
+
+/** Log fields the indexer reads; matches ethers' Log. */
+export interface RawLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+}
+
+/**
+ * The slice of an ethers Provider the indexer needs. Declared structurally so
+ * both browser providers and Hardhat's provider can be passed in.
+ */
+export interface ChainReader {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{
+    number: number;
+    hash: string | null;
+    parentHash: string;
+    timestamp: number;
+  } | null>;
+  getLogs(filter: { address: string[]; fromBlock: number; toBlock: number }): Promise<RawLog[]>;
+}
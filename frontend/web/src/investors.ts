@@ -0,0 +1,103 @@
+// investors.ts
+import { getInvestorRegistryReadOnly, getInvestorRegistryWithSigner } from "./contract";
+import type { IndexedEvent } from "./indexer";
+
+export interface InvestorStatus {
+  address: string;
+  qualified: boolean;
+  // ISO 3166-1 numeric code, 0 when the wallet was never attested
+  jurisdiction: number;
+  attestedAt: number;
+  expiresAt: number;
+  revoked: boolean;
+}
+
+// Jurisdictions offered in the admin screen; any ISO 3166-1 numeric code is accepted on-chain
+export const JURISDICTIONS: Record<number, string> = {
+  36: "Australia",
+  124: "Canada",
+  250: "France",
+  276: "Germany",
+  344: "Hong Kong",
+  372: "Ireland",
+  392: "Japan",
+  528: "Netherlands",
+  702: "Singapore",
+  756: "Switzerland",
+  826: "United Kingdom",
+  840: "United States"
+};
+
+export const jurisdictionName = (code: number) => JURISDICTIONS[code] ?? `Code ${code}`;
+
+const isQualifiedAt = (status: Omit<InvestorStatus, "qualified">, now: number) =>
+  !status.revoked && now < status.expiresAt;
+
+/** Reads a wallet's attestation, or null when no investor allowlist is configured. */
+export async function getInvestorStatus(account: string): Promise<InvestorStatus | null> {
+  const investors = await getInvestorRegistryReadOnly();
+  if (!investors) return null;
+  const [entry, qualified] = await Promise.all([investors.getInvestor(account), investors.isQualified(account)]);
+  return {
+    address: account,
+    qualified,
+    jurisdiction: Number(entry.jurisdiction),
+    attestedAt: Number(entry.attestedAt),
+    expiresAt: Number(entry.expiresAt),
+    revoked: entry.revoked
+  };
+}
+
+export async function isInvestorAdmin(account: string): Promise<boolean> {
+  const investors = await getInvestorRegistryReadOnly();
+  if (!investors) return false;
+  return (await investors.owner()).toLowerCase() === account.toLowerCase();
+}
+
+/** Explains why a wallet may not issue or trade; empty when it may. */
+export function qualificationMessage(status: InvestorStatus | null, connected: boolean): string {
+  if (!connected) return "Connect a qualified investor wallet to issue or trade equity.";
+  if (!status || status.qualified) return "";
+  if (status.attestedAt === 0) {
+    return "This wallet is not on the qualified investor allowlist. Contact the platform administrator to complete KYC.";
+  }
+  if (status.revoked) return "This wallet's investor attestation was revoked. Issuance and trading are disabled.";
+  return `This wallet's investor attestation expired on ${new Date(status.expiresAt * 1000).toLocaleDateString()}. Renew your KYC to continue.`;
+}
+
+/** Rebuilds the allowlist, most recently attested first, from indexed InvestorRegistry events. */
+export function projectInvestors(events: IndexedEvent[], now = Math.floor(Date.now() / 1000)): InvestorStatus[] {
+  const entries = new Map<string, Omit<InvestorStatus, "qualified">>();
+  for (const e of events) {
+    if (e.source !== "InvestorRegistry") continue;
+    const address = String(e.args.investor);
+    const key = address.toLowerCase();
+
+    if (e.name === "InvestorAttested") {
+      entries.delete(key);
+      entries.set(key, {
+        address,
+        jurisdiction: Number(e.args.jurisdiction),
+        attestedAt: e.timestamp,
+        expiresAt: Number(e.args.expiresAt),
+        revoked: false
+      });
+    } else if (e.name === "InvestorRevoked") {
+      const entry = entries.get(key);
+      if (entry) entry.revoked = true;
+    }
+  }
+  return [...entries.values()].reverse().map(entry => ({ ...entry, qualified: isQualifiedAt(entry, now) }));
+}
+
+export async function attestInvestor(account: string, jurisdiction: number, expiresAt: Date): Promise<void> {
+  const investors = await getInvestorRegistryWithSigner();
+  const tx = await investors.attestInvestor(account, jurisdiction, Math.floor(expiresAt.getTime() / 1000));
+  await tx.wait();
+}
+
+export async function revokeInvestor(account: string): Promise<void> {
+  const investors = await getInvestorRegistryWithSigner();
+  const tx = await investors.revokeInvestor(account);
+  await tx.wait();
+}
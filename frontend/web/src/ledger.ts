@@ -0,0 +1,52 @@
+// ledger.ts
+import { ethers } from "ethers";
+import { getShareLedgerWithSigner } from "./contract";
+import { encryptValues, userDecrypt } from "./fhe";
+
+const ledgerChainId = async (ledger: ethers.Contract) =>
+  Number((await ledger.runner!.provider!.getNetwork()).chainId);
+
+/**
+ * Sends `amount` shares of a token to `to`. The amount is encrypted in the browser;
+ * if it exceeds the sender's balance the ledger moves an encrypted zero instead of reverting.
+ */
+export async function transferShares(tokenId: string, to: string, amount: number, sender: string): Promise<void> {
+  if (!ethers.isAddress(to)) throw new Error("Recipient is not a valid address");
+  const ledger = await getShareLedgerWithSigner();
+  const { handles, inputProof } = await encryptValues(
+    await ledger.getAddress(),
+    sender,
+    await ledgerChainId(ledger),
+    [{ type: "euint64", value: amount }]
+  );
+  const receipt = await (await ledger.confidentialTransfer(tokenId, to, handles[0], inputProof)).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+}
+
+/** Decrypts the connected wallet's share balance of a token; 0 when it never held any. */
+export async function decryptBalance(tokenId: string): Promise<bigint> {
+  const ledger = await getShareLedgerWithSigner();
+  const signer = ledger.runner as ethers.Signer;
+  const handle: string = await ledger.confidentialBalanceOf(tokenId, await signer.getAddress());
+  if (handle === ethers.ZeroHash) return 0n;
+  const values = await userDecrypt([handle], await ledger.getAddress(), signer, await ledgerChainId(ledger));
+  return values[handle];
+}
+
+/**
+ * Accepts shares sent by `sender` until the `until` timestamp (seconds). Tokens under transfer
+ * rules only move to recipients who accepted the sender, unless the issuer is a party.
+ */
+export async function acceptTransfersFrom(sender: string, until: number): Promise<void> {
+  if (!ethers.isAddress(sender)) throw new Error("Sender is not a valid address");
+  const ledger = await getShareLedgerWithSigner();
+  const receipt = await (await ledger.acceptTransfersFrom(sender, until)).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+}
+
+/** Lets `operator` move the connected wallet's shares until the `until` timestamp (seconds). */
+export async function setOperator(operator: string, until: number): Promise<void> {
+  const ledger = await getShareLedgerWithSigner();
+  const receipt = await (await ledger.setOperator(operator, until)).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+}
@@ -0,0 +1,66 @@
+// networks.ts
+import configJson from "./config.json";
+
+/** Zama's FHEVM host contracts on a chain, named as in precompiled-fhevm-core-contracts-addresses.json. */
+export interface FhevmAddresses {
+  ACLAddress?: string;
+  CoprocessorAddress?: string;
+  HCULimitAddress?: string;
+  InputVerifierAddress?: string;
+  KMSVerifierAddress?: string;
+  DecryptionOracleAddress?: string;
+}
+
+/** Addresses and deploy blocks of the app's own contracts; empty when not deployed on a chain. */
+export type ContractAddresses = (typeof configJson.networks)["11155111"]["contracts"];
+
+export interface NetworkConfig {
+  name: string;
+  rpcUrls: string[];
+  // How many endpoints must agree on a result before a read is trusted
+  quorum: number;
+  fhevm: FhevmAddresses;
+  contracts: ContractAddresses;
+}
+
+const networks = configJson.networks as unknown as Record<string, NetworkConfig>;
+
+/** The chain the app shows before a wallet connects, or while it is on an unsupported chain. */
+export const DEFAULT_CHAIN_ID: number = configJson.defaultChainId;
+
+/**
+ * Chains the app runs on. A chain needs FHEVM deployed to be usable, so entries that only
+ * list RPC endpoints (mainnet, for now) are not supported.
+ */
+export const SUPPORTED_CHAIN_IDS = Object.keys(networks)
+  .map(Number)
+  .filter(chainId => !!networks[chainId].fhevm.ACLAddress);
+
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export function isSupportedChain(chainId: number): boolean {
+  return SUPPORTED_CHAIN_IDS.includes(chainId);
+}
+
+export function getNetwork(chainId: number): NetworkConfig {
+  const network = networks[String(chainId)];
+  if (!network) throw new Error(`Chain ${chainId} is not configured`);
+  return network;
+}
+
+/** Human-readable list of the supported networks, e.g. for "switch to ..." hints. */
+export function supportedNetworkNames(): string {
+  return SUPPORTED_CHAIN_IDS.map(chainId => getNetwork(chainId).name).join(" or ");
+}
+
+/** The chain whose deployment contract getters and read providers currently use. */
+export function getActiveChainId(): number {
+  return activeChainId;
+}
+
+export function setActiveChainId(chainId: number): void {
+  if (!isSupportedChain(chainId)) {
+    throw new Error(`Chain ${chainId} is not supported; switch to ${supportedNetworkNames()}`);
+  }
+  activeChainId = chainId;
+}
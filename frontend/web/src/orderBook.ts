@@ -0,0 +1,125 @@
+// orderBook.ts
+import { ethers } from "ethers";
+import { config, getOrderBookWithSigner, getStablecoinWithSigner } from "./contract";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+import { setOperator } from "./ledger";
+
+export type OrderSide = "bid" | "ask";
+
+export interface Order {
+  id: string;
+  tokenId: string;
+  trader: string;
+  side: OrderSide;
+  open: boolean;
+  timestamp: number;
+}
+
+// Order of EquityOrderBook.Side
+const SIDES: OrderSide[] = ["bid", "ask"];
+
+/** Rebuilds a token's orders, newest first, from indexed order book events. */
+export function projectOrders(events: IndexedEvent[], tokenId: string): Order[] {
+  const orders = new Map<string, Order>();
+  for (const e of events) {
+    if (e.source !== "EquityOrderBook" || String(e.args.tokenId) !== tokenId) continue;
+    const id = String(e.args.orderId);
+
+    if (e.name === "OrderPlaced") {
+      orders.set(id, {
+        id,
+        tokenId,
+        trader: String(e.args.trader),
+        side: SIDES[Number(e.args.side)],
+        open: true,
+        timestamp: e.timestamp
+      });
+    } else if (e.name === "OrderCancelled") {
+      const order = orders.get(id);
+      if (order) order.open = false;
+    }
+  }
+  return [...orders.values()].reverse();
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const orderBookChainId = async (orderBook: ethers.Contract) =>
+  Number((await orderBook.runner!.provider!.getNetwork()).chainId);
+
+export async function placeOrder(
+  tokenId: string,
+  side: OrderSide,
+  order: { price: number; quantity: number },
+  trader: string
+): Promise<void> {
+  const orderBook = await getOrderBookWithSigner();
+  const { handles, inputProof } = await encryptValues(
+    await orderBook.getAddress(),
+    trader,
+    await orderBookChainId(orderBook),
+    [
+      { type: "euint64", value: order.price },
+      { type: "euint64", value: order.quantity }
+    ]
+  );
+  await submit(orderBook.placeOrder(tokenId, SIDES.indexOf(side), handles[0], handles[1], inputProof));
+}
+
+export async function cancelOrder(orderId: string): Promise<void> {
+  const orderBook = await getOrderBookWithSigner();
+  await submit(orderBook.cancelOrder(orderId));
+}
+
+/**
+ * Takes up to `quantity` from a resting order. The contract only fills when the
+ * order's hidden price is within `limitPrice`; otherwise the trade is an encrypted zero.
+ */
+export async function fillOrder(
+  orderId: string,
+  fill: { quantity: number; limitPrice: number },
+  taker: string
+): Promise<void> {
+  const orderBook = await getOrderBookWithSigner();
+  const { handles, inputProof } = await encryptValues(
+    await orderBook.getAddress(),
+    taker,
+    await orderBookChainId(orderBook),
+    [
+      { type: "euint64", value: fill.quantity },
+      { type: "euint64", value: fill.limitPrice }
+    ]
+  );
+  await submit(orderBook.fillOrder(orderId, handles[0], handles[1], inputProof));
+}
+
+/**
+ * Lets the order book move the connected wallet's shares when its asks fill or it sells into
+ * a bid, and its stablecoin when it bids or buys from an ask, until `until` (seconds). Without
+ * the share authorization those trades revert, as do buys of a token under transfer rules,
+ * whose recipients must take part in every transfer to them; without the stablecoin one a bid
+ * escrows nothing and fills nothing.
+ */
+export async function authorizeTrading(until: number): Promise<void> {
+  await setOperator(config.orderBookAddress, until);
+  const stablecoin = await getStablecoinWithSigner();
+  await submit(stablecoin.setOperator(config.orderBookAddress, until));
+}
+
+/** Decrypts the price and remaining quantity of one of the connected wallet's orders. */
+export async function decryptOrder(orderId: string): Promise<{ price: bigint; remaining: bigint }> {
+  const orderBook = await getOrderBookWithSigner();
+  const order = await orderBook.getOrder(orderId);
+  const values = await userDecrypt(
+    [order.price, order.remaining],
+    await orderBook.getAddress(),
+    orderBook.runner as ethers.Signer,
+    await orderBookChainId(orderBook)
+  );
+  return { price: values[order.price], remaining: values[order.remaining] };
+}
@@ -0,0 +1,135 @@
+// provider.ts
+import { ethers } from "ethers";
+import { getActiveChainId, getNetwork } from "./networks";
+
+interface ProbeResult {
+  url: string;
+  latency: number;
+}
+
+interface CachedEndpoints {
+  urls: string[];
+  checkedAt: number;
+}
+
+// An endpoint that has not answered eth_chainId within this long counts as down
+const PROBE_TIMEOUT_MS = 4000;
+// Healthy endpoints are reused for this long before they are probed again
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// How long the fallback provider waits on one endpoint before also asking the next
+const STALL_TIMEOUT_MS = 1500;
+const STORAGE_PREFIX = "equity-rpc-endpoints:";
+
+const providers = new Map<number, Promise<ethers.AbstractProvider>>();
+
+const getRpcNetwork = (chainId: number) => {
+  const network = getNetwork(chainId);
+  if (network.rpcUrls.length === 0) throw new Error(`No RPC endpoints are configured for chain ${chainId}`);
+  return network;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), ms))
+  ]);
+
+const connect = (url: string, chainId: number, name: string) => {
+  const network = new ethers.Network(name, chainId);
+  // A static network skips ethers' own chain detection, which retries forever against dead endpoints
+  return new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+};
+
+const probe = async (url: string, chainId: number, name: string): Promise<ProbeResult | null> => {
+  const provider = connect(url, chainId, name);
+  const started = Date.now();
+  try {
+    const reported = await withTimeout(provider.send("eth_chainId", []), PROBE_TIMEOUT_MS);
+    // An endpoint serving another chain is as good as down
+    if (Number(reported) !== chainId) return null;
+    return { url, latency: Date.now() - started };
+  } catch {
+    return null;
+  } finally {
+    provider.destroy();
+  }
+};
+
+// Browsers keep the chosen endpoints across reloads; the Node indexer just probes again
+const readCache = (chainId: number): string[] | null => {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    const cached: CachedEndpoints = JSON.parse(localStorage.getItem(STORAGE_PREFIX + chainId) ?? "null");
+    if (!cached || Date.now() - cached.checkedAt > CACHE_TTL_MS) return null;
+    return cached.urls;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (chainId: number, urls: string[]) => {
+  if (typeof localStorage === "undefined") return;
+  const cached: CachedEndpoints = { urls, checkedAt: Date.now() };
+  localStorage.setItem(STORAGE_PREFIX + chainId, JSON.stringify(cached));
+};
+
+/** Probes every configured endpoint at once and returns the healthy ones, fastest first. */
+export async function probeEndpoints(chainId: number = getActiveChainId()): Promise<string[]> {
+  const { name, rpcUrls } = getRpcNetwork(chainId);
+  const results = await Promise.all(rpcUrls.map(url => probe(url, chainId, name)));
+  return results
+    .filter((r): r is ProbeResult => r !== null)
+    .sort((a, b) => a.latency - b.latency)
+    .map(r => r.url);
+}
+
+const createProvider = async (chainId: number): Promise<ethers.AbstractProvider> => {
+  const { name, quorum } = getRpcNetwork(chainId);
+  let urls = readCache(chainId);
+  if (!urls) {
+    urls = await probeEndpoints(chainId);
+    if (urls.length < quorum) {
+      throw new Error(`Only ${urls.length} of the RPC endpoints for ${name} are reachable; ${quorum} are needed`);
+    }
+    writeCache(chainId, urls);
+  }
+
+  if (urls.length === 1) return connect(urls[0], chainId, name);
+  const network = new ethers.Network(name, chainId);
+  return new ethers.FallbackProvider(
+    urls.map((url, i) => ({
+      provider: connect(url, chainId, name),
+      // Faster endpoints are asked first
+      priority: i + 1,
+      weight: 1,
+      stallTimeout: STALL_TIMEOUT_MS
+    })),
+    network,
+    { quorum }
+  );
+};
+
+/**
+ * Read-only provider for `chainId` (the active chain by default), backed by the healthy
+ * endpoints configured for it in config.json. With more than one healthy endpoint reads go
+ * through a FallbackProvider that needs `quorum` of them to agree. The provider is shared
+ * until resetProvider.
+ */
+export function getReadProvider(chainId: number = getActiveChainId()): Promise<ethers.AbstractProvider> {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = createProvider(chainId);
+    // A failed setup should not stick; the next call probes again
+    provider.catch(() => providers.delete(chainId));
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+/** Forgets the chosen endpoints so the next read probes them again, e.g. after repeated RPC errors. */
+export async function resetProvider(chainId: number = getActiveChainId()): Promise<void> {
+  const provider = providers.get(chainId);
+  providers.delete(chainId);
+  if (typeof localStorage !== "undefined") localStorage.removeItem(STORAGE_PREFIX + chainId);
+  if (provider) (await provider.catch(() => null))?.destroy();
+}
@@ -0,0 +1,240 @@
+// registry.ts
+import { ethers } from "ethers";
+import { config, getRegistryReadOnly, getRegistryWithSigner } from "./contract";
+import { encryptValues } from "./fhe";
+import { getReadProvider } from "./provider";
+import { EventIndexer, IndexedDbStore } from "./indexer";
+import type { IndexedEvent } from "./indexer";
+import { indexedContracts } from "./indexedContracts";
+
+export type TokenStatus = "pending" | "approved" | "trading" | "rejected" | "suspended" | "delisted";
+
+export interface Transaction {
+  id: string;
+  timestamp: number;
+  from: string;
+  to: string;
+  encryptedAmount: string;
+  type: "issuance" | "transfer" | "trade" | "status";
+  // Status changes only: the new status and the reason given by `from`
+  status?: TokenStatus;
+  reason?: string;
+}
+
+export interface Roles {
+  isPlatformAdmin: boolean;
+  isComplianceOfficer: boolean;
+}
+
+export interface EquityToken {
+  id: string;
+  encryptedValuation: string;
+  encryptedShares: string;
+  timestamp: number;
+  issuer: string;
+  companyName: string;
+  description: string;
+  status: TokenStatus;
+  // When the token entered its current status
+  statusChangedAt: number;
+  transactionHistory: Transaction[];
+}
+
+// Order of EquityRegistry.Status
+export const STATUSES: TokenStatus[] = ["pending", "approved", "trading", "rejected", "suspended", "delisted"];
+
+// Tokens shown per "Load More" step
+export const PAGE_SIZE = 20;
+
+/**
+ * Creates the indexer behind the token list and every other projection of the
+ * contracts in indexedContracts.ts. Its IndexedDB database is named after the
+ * chain and contract addresses, so pointing the app at another deployment starts
+ * a fresh index.
+ */
+export async function createRegistryIndexer(): Promise<EventIndexer | null> {
+  const contracts = indexedContracts(config);
+  if (!contracts) return null;
+  const provider = await getReadProvider();
+  const { chainId } = await provider.getNetwork();
+  const storeName = ["equity-index", chainId, ...contracts.map(c => c.address.toLowerCase())].join(":");
+  return new EventIndexer({ provider, store: new IndexedDbStore(storeName), contracts });
+}
+
+// Contracts whose events make up the token list; the others have their own projections
+const TOKEN_SOURCES = new Set(["EquityRegistry", "EquityOrderBook", "EquityShareLedger"]);
+
+/** Rebuilds the token list, newest first, from indexed registry, order book and ledger events. */
+export function projectTokens(events: IndexedEvent[]): EquityToken[] {
+  const tokens = new Map<string, EquityToken>();
+  for (const e of events) {
+    if (!TOKEN_SOURCES.has(e.source)) continue;
+    const id = String(e.args.tokenId);
+
+    if (e.source === "EquityOrderBook") {
+      if (e.name === "TradeExecuted") {
+        tokens.get(id)?.transactionHistory.push({
+          id: `${e.transactionHash}-${e.logIndex}`,
+          timestamp: e.timestamp,
+          from: String(e.args.seller),
+          to: String(e.args.buyer),
+          encryptedAmount: String(e.args.quantity),
+          type: "trade"
+        });
+      }
+    } else if (e.source === "EquityShareLedger") {
+      // Mints from address(0) duplicate the issuance entry recorded from TokenIssued
+      if (e.name === "ConfidentialTransfer" && String(e.args.from) !== ethers.ZeroAddress) {
+        tokens.get(id)?.transactionHistory.push({
+          id: `${e.transactionHash}-${e.logIndex}`,
+          timestamp: e.timestamp,
+          from: String(e.args.from),
+          to: String(e.args.to),
+          encryptedAmount: String(e.args.amount),
+          type: "transfer"
+        });
+      }
+    } else if (e.name === "TokenIssued") {
+      const issuer = String(e.args.issuer);
+      tokens.set(id, {
+        id,
+        encryptedValuation: String(e.args.encryptedValuation),
+        encryptedShares: String(e.args.encryptedShares),
+        timestamp: e.timestamp,
+        issuer,
+        companyName: String(e.args.companyName),
+        description: String(e.args.description),
+        status: "pending",
+        statusChangedAt: e.timestamp,
+        transactionHistory: [{
+          id: `${e.transactionHash}-${e.logIndex}`,
+          timestamp: e.timestamp,
+          from: issuer,
+          to: issuer,
+          encryptedAmount: String(e.args.encryptedShares),
+          type: "issuance"
+        }]
+      });
+    } else if (e.name === "TokenStatusChanged") {
+      const token = tokens.get(id);
+      const status = STATUSES[Number(e.args.newStatus)];
+      if (!token || !status) continue;
+      token.status = status;
+      token.statusChangedAt = e.timestamp;
+      token.transactionHistory.push({
+        id: `${e.transactionHash}-${e.logIndex}`,
+        timestamp: e.timestamp,
+        from: String(e.args.changedBy),
+        to: token.issuer,
+        encryptedAmount: "",
+        type: "status",
+        status,
+        reason: String(e.args.reason)
+      });
+    }
+  }
+  return [...tokens.values()].reverse();
+}
+
+/** Current compliance officers, in appointment order, from indexed registry events. */
+export function projectComplianceOfficers(events: IndexedEvent[]): string[] {
+  const officers = new Map<string, string>();
+  for (const e of events) {
+    if (e.source !== "EquityRegistry") continue;
+    const officer = String(e.args.officer);
+    if (e.name === "ComplianceOfficerAdded") officers.set(officer.toLowerCase(), officer);
+    else if (e.name === "ComplianceOfficerRemoved") officers.delete(officer.toLowerCase());
+  }
+  return [...officers.values()];
+}
+
+export async function getRoles(account: string): Promise<Roles> {
+  const registry = await getRegistryReadOnly();
+  if (!registry) return { isPlatformAdmin: false, isComplianceOfficer: false };
+  const [owner, isComplianceOfficer] = await Promise.all([registry.owner(), registry.isComplianceOfficer(account)]);
+  return { isPlatformAdmin: owner.toLowerCase() === account.toLowerCase(), isComplianceOfficer };
+}
+
+export async function issueToken(
+  data: { companyName: string; description: string; valuation: number; totalShares: number },
+  issuer: string
+): Promise<string> {
+  const registry = await getRegistryWithSigner();
+  const network = await registry.runner!.provider!.getNetwork();
+
+  // Encrypt sensitive numerical data with the relayer SDK, bound to the registry and issuer
+  const { handles, inputProof } = await encryptValues(
+    await registry.getAddress(),
+    issuer,
+    Number(network.chainId),
+    [
+      { type: "euint64", value: data.valuation },
+      { type: "euint64", value: data.totalShares }
+    ]
+  );
+
+  const tx = await registry.issueToken(data.companyName, data.description, handles[0], handles[1], inputProof);
+  const receipt: ethers.ContractTransactionReceipt = await tx.wait();
+  for (const log of receipt.logs) {
+    const parsed = registry.interface.parseLog(log);
+    if (parsed?.name === "TokenIssued") return parsed.args.tokenId.toString();
+  }
+  throw new Error("TokenIssued event missing from receipt");
+}
+
+/** Compliance officers only; the issuer of a token cannot review it, and the contract requires a non-empty reason. */
+export async function approveToken(tokenId: string, reason: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const tx = await registry.approveToken(tokenId, reason);
+  await tx.wait();
+}
+
+/** Compliance officers only; the contract requires a non-empty reason. */
+export async function rejectToken(tokenId: string, reason: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const tx = await registry.rejectToken(tokenId, reason);
+  await tx.wait();
+}
+
+export async function addComplianceOfficer(officer: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const tx = await registry.addComplianceOfficer(officer);
+  await tx.wait();
+}
+
+export async function removeComplianceOfficer(officer: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const tx = await registry.removeComplianceOfficer(officer);
+  await tx.wait();
+}
+
+export async function startTrading(tokenId: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const tx = await registry.startTrading(tokenId);
+  await tx.wait();
+}
+
+export type StatusAction = "suspend" | "resume" | "delist";
+
+/**
+ * Status changes the connected wallet may make, mirroring the registry's guards:
+ * compliance suspends and resumes trading, and the issuer or compliance delists.
+ */
+export function availableStatusActions(token: EquityToken, account: string | undefined, roles: Roles): StatusAction[] {
+  const isIssuer = !!account && account.toLowerCase() === token.issuer.toLowerCase();
+  const actions: StatusAction[] = [];
+  if (roles.isComplianceOfficer && token.status === "trading") actions.push("suspend");
+  if (roles.isComplianceOfficer && token.status === "suspended") actions.push("resume");
+  if ((isIssuer || roles.isComplianceOfficer) && ["approved", "trading", "suspended"].includes(token.status)) {
+    actions.push("delist");
+  }
+  return actions;
+}
+
+/** Every status change is recorded on-chain with a reason. */
+export async function changeStatus(tokenId: string, action: StatusAction, reason: string): Promise<void> {
+  const registry = await getRegistryWithSigner();
+  const method = { suspend: "suspendTrading", resume: "resumeTrading", delist: "delistToken" }[action];
+  const tx = await registry[method](tokenId, reason);
+  await tx.wait();
+}
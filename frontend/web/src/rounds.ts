@@ -0,0 +1,192 @@
+// rounds.ts
+import { ethers } from "ethers";
+import { config, getFundraisingWithSigner, getStablecoinWithSigner } from "./contract";
+import { STABLECOIN_DECIMALS } from "./distributions";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+import { setOperator } from "./ledger";
+
+/**
+ * Open until the deadline passes and someone closes the round; closing waits for the
+ * oracle, then the round allocates shares or refunds commitments.
+ */
+export type RoundState = "open" | "closing" | "allocating" | "refunding";
+
+export interface RoundCommitment {
+  investor: string;
+  // Running total of the investor's commitments
+  handle: string;
+  // Allocated shares or refunded stablecoin, once claimed
+  settled: string | null;
+}
+
+export interface FundraisingRound {
+  id: string;
+  tokenId: string;
+  issuer: string;
+  sharesOffered: number;
+  deadline: number;
+  target: string;
+  // Latest encrypted check of the total against the target; the issuer may decrypt it
+  targetMet: string | null;
+  state: RoundState;
+  // Published by the oracle when the target was met, in stablecoin base units
+  totalRaised: bigint | null;
+  commitments: RoundCommitment[];
+  openedAt: number;
+}
+
+export interface RoundValues {
+  target: bigint | null;
+  targetMet: boolean | null;
+  // Keyed by investor address, lowercase
+  commitments: Record<string, bigint>;
+  settled: Record<string, bigint>;
+}
+
+/** Rebuilds a token's fundraising rounds, newest first, from indexed EquityFundraising events. */
+export function projectRounds(events: IndexedEvent[], tokenId: string): FundraisingRound[] {
+  const rounds = new Map<string, FundraisingRound>();
+  for (const e of events) {
+    if (e.source !== "EquityFundraising") continue;
+    const roundId = String(e.args.roundId);
+
+    if (e.name === "RoundOpened") {
+      if (String(e.args.tokenId) !== tokenId) continue;
+      rounds.set(roundId, {
+        id: roundId,
+        tokenId,
+        issuer: String(e.args.issuer),
+        sharesOffered: Number(e.args.sharesOffered),
+        deadline: Number(e.args.deadline),
+        target: String(e.args.target),
+        targetMet: null,
+        state: "open",
+        totalRaised: null,
+        commitments: [],
+        openedAt: e.timestamp
+      });
+      continue;
+    }
+
+    const round = rounds.get(roundId);
+    if (!round) continue;
+    if (e.name === "Committed") {
+      const investor = String(e.args.investor);
+      const existing = round.commitments.find(c => c.investor.toLowerCase() === investor.toLowerCase());
+      if (existing) existing.handle = String(e.args.commitment);
+      else round.commitments.push({ investor, handle: String(e.args.commitment), settled: null });
+      round.targetMet = String(e.args.targetMet);
+    } else if (e.name === "RoundCloseRequested") {
+      round.state = "closing";
+    } else if (e.name === "RoundClosed") {
+      round.state = e.args.succeeded ? "allocating" : "refunding";
+      round.totalRaised = e.args.succeeded ? BigInt(String(e.args.totalRaised)) : null;
+    } else if (e.name === "SharesAllocated" || e.name === "CommitmentRefunded") {
+      const investor = String(e.args.investor).toLowerCase();
+      const commitment = round.commitments.find(c => c.investor.toLowerCase() === investor);
+      if (commitment) commitment.settled = String(e.name === "SharesAllocated" ? e.args.shares : e.args.amount);
+    }
+  }
+  return [...rounds.values()].reverse();
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const fundraisingChainId = async (fundraising: ethers.Contract) =>
+  Number((await fundraising.runner!.provider!.getNetwork()).chainId);
+
+// Targets and commitments are entered in whole cUSD and encrypted in stablecoin base units
+const encryptAmount = async (fundraising: ethers.Contract, sender: string, amount: number) =>
+  encryptValues(await fundraising.getAddress(), sender, await fundraisingChainId(fundraising), [
+    { type: "euint64", value: ethers.parseUnits(String(amount), STABLECOIN_DECIMALS) }
+  ]);
+
+/** Opens a round on an approved or trading token; `deadline` is a unix timestamp in seconds. */
+export async function openRound(
+  tokenId: string,
+  sharesOffered: number,
+  deadline: number,
+  target: number,
+  sender: string
+): Promise<void> {
+  if (sharesOffered <= 0) throw new Error("Offer at least one share");
+  if (target <= 0) throw new Error("Target must be positive");
+  if (!Number.isFinite(deadline) || deadline <= Date.now() / 1000) throw new Error("Deadline must be in the future");
+  const fundraising = await getFundraisingWithSigner();
+  const { handles, inputProof } = await encryptAmount(fundraising, sender, target);
+  await submit(fundraising.openRound(tokenId, sharesOffered, deadline, handles[0], inputProof));
+}
+
+/**
+ * Escrows an encrypted amount of the connected wallet's stablecoin and adds it to its
+ * commitment. An amount the wallet cannot cover commits nothing.
+ */
+export async function commitToRound(roundId: string, amount: number, sender: string): Promise<void> {
+  if (amount <= 0) throw new Error("Commitment must be positive");
+  const fundraising = await getFundraisingWithSigner();
+  const { handles, inputProof } = await encryptAmount(fundraising, sender, amount);
+  await submit(fundraising.commit(roundId, handles[0], inputProof));
+}
+
+/** Closes a round past its deadline; the outcome arrives with the oracle callback. */
+export async function closeRound(roundId: string): Promise<void> {
+  const fundraising = await getFundraisingWithSigner();
+  await submit(fundraising.closeRound(roundId));
+}
+
+/** Claims the connected wallet's allocation or refund from a settled round. */
+export async function claimRound(roundId: string): Promise<void> {
+  const fundraising = await getFundraisingWithSigner();
+  await submit(fundraising.claim(roundId));
+}
+
+/**
+ * Lets the fundraising contract escrow the connected wallet's stablecoin for commitments
+ * made until `until` (seconds).
+ */
+export async function authorizeCommitments(until: number): Promise<void> {
+  const stablecoin = await getStablecoinWithSigner();
+  await submit(stablecoin.setOperator(config.fundraisingAddress, until));
+}
+
+/**
+ * Lets the fundraising contract move the issuer's shares to investors as they claim,
+ * until `until` (seconds). Until then claiming an allocation reverts.
+ */
+export async function authorizeAllocations(until: number): Promise<void> {
+  await setOperator(config.fundraisingAddress, until);
+}
+
+/**
+ * Decrypts what the connected wallet may read in a round: the issuer reads the target
+ * and whether it is met, investors read their own commitment and settlement.
+ */
+export async function decryptRound(round: FundraisingRound, account: string): Promise<RoundValues> {
+  const me = account.toLowerCase();
+  const isIssuer = round.issuer.toLowerCase() === me;
+  const own = round.commitments.filter(c => c.investor.toLowerCase() === me);
+  const handles = [
+    ...(isIssuer ? [round.target, ...(round.targetMet ? [round.targetMet] : [])] : []),
+    ...own.flatMap(c => [c.handle, ...(c.settled ? [c.settled] : [])])
+  ];
+  if (handles.length === 0) return { target: null, targetMet: null, commitments: {}, settled: {} };
+
+  const fundraising = await getFundraisingWithSigner();
+  const values = await userDecrypt(
+    [...new Set(handles)],
+    await fundraising.getAddress(),
+    fundraising.runner as ethers.Signer,
+    await fundraisingChainId(fundraising)
+  );
+  return {
+    target: isIssuer ? values[round.target] : null,
+    targetMet: isIssuer && round.targetMet ? values[round.targetMet] === 1n : null,
+    commitments: Object.fromEntries(own.map(c => [me, values[c.handle]])),
+    settled: Object.fromEntries(own.filter(c => c.settled).map(c => [me, values[c.settled!]]))
+  };
+}
@@ -0,0 +1,185 @@
+// transferRules.ts
+import { ethers } from "ethers";
+import {
+  config,
+  getComplianceWithSigner,
+  getHoldingPeriodRuleWithSigner,
+  getJurisdictionRuleWithSigner,
+  getMaxHoldersRuleWithSigner,
+  getRightOfFirstRefusalRuleWithSigner,
+  getShareLedgerWithSigner
+} from "./contract";
+import type { IndexedEvent } from "./indexer";
+
+export type RuleKind = "jurisdiction" | "maxHolders" | "holdingPeriod" | "rightOfFirstRefusal";
+
+export interface RuleModule {
+  kind: RuleKind;
+  label: string;
+  address: string;
+}
+
+/** Rule modules deployed on this network, in the order the Rules tab lists them. */
+export const RULE_MODULES: RuleModule[] = ([
+  { kind: "jurisdiction", label: "Jurisdiction allowlist", address: config.jurisdictionRuleAddress },
+  { kind: "maxHolders", label: "Maximum holders", address: config.maxHoldersRuleAddress },
+  { kind: "holdingPeriod", label: "Holding period", address: config.holdingPeriodRuleAddress },
+  { kind: "rightOfFirstRefusal", label: "Right of first refusal", address: config.rightOfFirstRefusalRuleAddress }
+] as RuleModule[]).filter(m => m.address);
+
+export interface TransferCheck {
+  allowed: boolean;
+  // Name of the first failing rule and its reason; empty when allowed
+  rule: string;
+  reason: string;
+}
+
+/** Mirrors RightOfFirstRefusalRule.NoticeState; None, a cleared notice, has no entry. */
+export type NoticeState = "pending" | "waived" | "exercised";
+const NOTICE_STATES: (NoticeState | null)[] = [null, "pending", "waived", "exercised"];
+
+export interface SaleNotice {
+  seller: string;
+  buyer: string;
+  state: NoticeState;
+  givenAt: number;
+}
+
+export interface RuleSettings {
+  maxHolders: number | null;
+  holderCount: number | null;
+  // Seconds
+  holdingPeriod: number | null;
+  responseWindow: number | null;
+}
+
+/** Addresses of the rule modules attached to a token, from indexed EquityCompliance events. */
+export function projectAttachedRules(events: IndexedEvent[], tokenId: string): string[] {
+  let attached: string[] = [];
+  for (const e of events) {
+    if (e.source !== "EquityCompliance" || String(e.args.tokenId) !== tokenId) continue;
+    const rule = String(e.args.rule).toLowerCase();
+    if (e.name === "RuleAdded") attached.push(rule);
+    else if (e.name === "RuleRemoved") attached = attached.filter(r => r !== rule);
+  }
+  return attached;
+}
+
+/** Each seller's latest sale notice for a token, from indexed RightOfFirstRefusalRule events. */
+export function projectSaleNotices(events: IndexedEvent[], tokenId: string): SaleNotice[] {
+  const notices = new Map<string, SaleNotice>();
+  for (const e of events) {
+    if (e.source !== "RightOfFirstRefusalRule" || String(e.args.tokenId) !== tokenId) continue;
+    const seller = String(e.args.seller);
+    if (e.name === "SaleNoticeGiven") {
+      notices.set(seller.toLowerCase(), { seller, buyer: String(e.args.buyer), state: "pending", givenAt: e.timestamp });
+    } else if (e.name === "SaleNoticeAnswered") {
+      const notice = notices.get(seller.toLowerCase());
+      const state = NOTICE_STATES[Number(e.args.state)];
+      if (!state) notices.delete(seller.toLowerCase());
+      else if (notice) notice.state = state;
+    }
+  }
+  return [...notices.values()];
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+/**
+ * Runs the token's transfer rules against a prospective transfer without sending anything,
+ * so the wallet can show which rule would refuse it before the user signs. The ledger also
+ * refuses transfers the recipient has not accepted, which is checked first.
+ */
+export async function precheckTransfer(tokenId: string, from: string, to: string): Promise<TransferCheck> {
+  if (!config.complianceAddress) return { allowed: true, rule: "", reason: "" };
+  const ledger = await getShareLedgerWithSigner();
+  if (!(await ledger.acceptsTransfer(tokenId, from, from, to))) {
+    return { allowed: false, rule: "Recipient acceptance", reason: "The recipient has not accepted transfers from you" };
+  }
+  const compliance = await getComplianceWithSigner();
+  const [allowed, rule, reason] = await compliance.canTransfer(tokenId, from, to);
+  return { allowed, rule, reason };
+}
+
+export async function attachRule(tokenId: string, rule: string): Promise<void> {
+  const compliance = await getComplianceWithSigner();
+  await submit(compliance.addRule(tokenId, rule));
+}
+
+export async function detachRule(tokenId: string, rule: string): Promise<void> {
+  const compliance = await getComplianceWithSigner();
+  await submit(compliance.removeRule(tokenId, rule));
+}
+
+/** Parses a comma-separated list of ISO 3166-1 numeric codes, e.g. "840, 276". */
+export function parseJurisdictions(value: string): number[] {
+  const codes = value.split(",").map(s => s.trim()).filter(Boolean).map(Number);
+  if (codes.length === 0 || codes.some(c => !Number.isInteger(c) || c < 1 || c > 999)) {
+    throw new Error("Enter ISO 3166-1 numeric codes between 1 and 999, separated by commas");
+  }
+  return codes;
+}
+
+export async function setJurisdictions(tokenId: string, codes: number[], allowed: boolean): Promise<void> {
+  const rule = await getJurisdictionRuleWithSigner();
+  await submit(rule.setJurisdictions(tokenId, codes, allowed));
+}
+
+export async function setMaxHolders(tokenId: string, max: number): Promise<void> {
+  if (!Number.isInteger(max) || max < 0) throw new Error("Maximum holders must be a whole number");
+  const rule = await getMaxHoldersRuleWithSigner();
+  await submit(rule.setMaxHolders(tokenId, max));
+}
+
+export async function setHoldingPeriod(tokenId: string, seconds: number): Promise<void> {
+  if (!Number.isFinite(seconds) || seconds < 0) throw new Error("Holding period must not be negative");
+  const rule = await getHoldingPeriodRuleWithSigner();
+  await submit(rule.setHoldingPeriod(tokenId, Math.floor(seconds)));
+}
+
+export async function setResponseWindow(tokenId: string, seconds: number): Promise<void> {
+  if (!Number.isFinite(seconds) || seconds < 0) throw new Error("Response window must not be negative");
+  const rule = await getRightOfFirstRefusalRuleWithSigner();
+  await submit(rule.setResponseWindow(tokenId, Math.floor(seconds)));
+}
+
+/** Tells the issuer the connected wallet intends to sell to `buyer`. */
+export async function giveSaleNotice(tokenId: string, buyer: string): Promise<void> {
+  if (!ethers.isAddress(buyer)) throw new Error("Buyer is not a valid address");
+  const rule = await getRightOfFirstRefusalRuleWithSigner();
+  await submit(rule.giveNotice(tokenId, buyer));
+}
+
+export async function answerSaleNotice(tokenId: string, seller: string, exercise: boolean): Promise<void> {
+  const rule = await getRightOfFirstRefusalRuleWithSigner();
+  await submit(exercise ? rule.exercise(tokenId, seller) : rule.waive(tokenId, seller));
+}
+
+/** Withdraws an exercised notice once the issuer has settled the purchase with the seller. */
+export async function clearSaleNotice(tokenId: string, seller: string): Promise<void> {
+  const rule = await getRightOfFirstRefusalRuleWithSigner();
+  await submit(rule.clearNotice(tokenId, seller));
+}
+
+/** Reads the token's current settings on every deployed rule module. */
+export async function loadRuleSettings(tokenId: string): Promise<RuleSettings> {
+  const settings: RuleSettings = { maxHolders: null, holderCount: null, holdingPeriod: null, responseWindow: null };
+  if (config.maxHoldersRuleAddress) {
+    const rule = await getMaxHoldersRuleWithSigner();
+    settings.maxHolders = Number(await rule.maxHolders(tokenId));
+    settings.holderCount = Number(await rule.holderCount(tokenId));
+  }
+  if (config.holdingPeriodRuleAddress) {
+    const rule = await getHoldingPeriodRuleWithSigner();
+    settings.holdingPeriod = Number(await rule.holdingPeriod(tokenId));
+  }
+  if (config.rightOfFirstRefusalRuleAddress) {
+    const rule = await getRightOfFirstRefusalRuleWithSigner();
+    settings.responseWindow = Number(await rule.responseWindow(tokenId));
+  }
+  return settings;
+}
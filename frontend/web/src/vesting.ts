@@ -0,0 +1,159 @@
+// vesting.ts
+import { ethers } from "ethers";
+import { config, getVestingWithSigner } from "./contract";
+import { encryptValues, userDecrypt } from "./fhe";
+import type { IndexedEvent } from "./indexer";
+import { setOperator } from "./ledger";
+
+/** Mirrors EquityVesting.ScheduleKind. */
+export type ScheduleKind = "cliff" | "linear" | "milestone";
+const SCHEDULE_KINDS: ScheduleKind[] = ["cliff", "linear", "milestone"];
+
+// Mirrors EquityVesting.MAX_GRANTS and MAX_MILESTONES
+export const MAX_GRANTS = 8;
+export const MAX_MILESTONES = 12;
+
+export interface VestingGrant {
+  id: string;
+  tokenId: string;
+  holder: string;
+  kind: ScheduleKind;
+  // Unix seconds; zero for milestone grants
+  start: number;
+  cliff: number;
+  end: number;
+  milestoneCount: number;
+  milestonesCompleted: number;
+  // Encrypted granted amount; the holder and issuer may decrypt it
+  amount: string;
+  grantedAt: number;
+}
+
+/** Rebuilds a token's vesting grants, oldest first, from indexed EquityVesting events. */
+export function projectGrants(events: IndexedEvent[], tokenId: string): VestingGrant[] {
+  const grants = new Map<string, VestingGrant>();
+  for (const e of events) {
+    if (e.source !== "EquityVesting") continue;
+    const grantId = String(e.args.grantId);
+
+    if (e.name === "GrantCreated") {
+      if (String(e.args.tokenId) !== tokenId) continue;
+      grants.set(grantId, {
+        id: grantId,
+        tokenId,
+        holder: String(e.args.holder),
+        kind: SCHEDULE_KINDS[Number(e.args.kind)],
+        start: Number(e.args.start),
+        cliff: Number(e.args.cliff),
+        end: Number(e.args.end),
+        milestoneCount: Number(e.args.milestoneCount),
+        milestonesCompleted: 0,
+        amount: String(e.args.amount),
+        grantedAt: e.timestamp
+      });
+    } else if (e.name === "MilestoneCompleted") {
+      const grant = grants.get(grantId);
+      if (grant) grant.milestonesCompleted = Number(e.args.milestonesCompleted);
+    }
+  }
+  return [...grants.values()];
+}
+
+/** The share of a grant vested at `now` (seconds), between 0 and 1, as the contract computes it. */
+export function vestedFraction(grant: VestingGrant, now: number): number {
+  if (grant.kind === "milestone") return grant.milestonesCompleted / grant.milestoneCount;
+  if (now < grant.cliff) return 0;
+  if (now >= grant.end) return 1;
+  return (now - grant.start) / (grant.end - grant.start);
+}
+
+/** Vested shares of a decrypted grant amount, rounded down like the contract. */
+export function vestedShares(grant: VestingGrant, amount: bigint, now: number): bigint {
+  if (grant.kind === "milestone") return (amount * BigInt(grant.milestonesCompleted)) / BigInt(grant.milestoneCount);
+  if (now < grant.cliff) return 0n;
+  if (now >= grant.end) return amount;
+  return (amount * BigInt(Math.floor(now) - grant.start)) / BigInt(grant.end - grant.start);
+}
+
+export interface GrantSchedule {
+  kind: ScheduleKind;
+  // Unix seconds; the cliff grant unlocks at `cliff`
+  start: number;
+  cliff: number;
+  end: number;
+  milestoneCount: number;
+}
+
+const submit = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+};
+
+const vestingChainId = async (vesting: ethers.Contract) =>
+  Number((await vesting.runner!.provider!.getNetwork()).chainId);
+
+/**
+ * Grants `amount` shares to `holder` on `schedule`. The amount is encrypted in the browser
+ * and moves from the issuer at once; it is recorded as zero if the issuer's balance falls short.
+ */
+export async function createGrant(
+  tokenId: string,
+  holder: string,
+  amount: number,
+  schedule: GrantSchedule,
+  sender: string
+): Promise<void> {
+  if (!ethers.isAddress(holder)) throw new Error("Holder is not a valid address");
+  if (amount <= 0) throw new Error("Amount must be positive");
+  const now = Date.now() / 1000;
+  if (schedule.kind === "cliff" && !(schedule.cliff > now)) throw new Error("Unlock date must be in the future");
+  if (schedule.kind === "linear") {
+    const { start, cliff, end } = schedule;
+    if (!(start < end && cliff >= start && cliff <= end && end > now)) {
+      throw new Error("Vesting must start before it ends, with the cliff in between, and end in the future");
+    }
+  }
+  if (schedule.kind === "milestone" && !(schedule.milestoneCount >= 1 && schedule.milestoneCount <= MAX_MILESTONES)) {
+    throw new Error(`Use between 1 and ${MAX_MILESTONES} milestones`);
+  }
+
+  const vesting = await getVestingWithSigner();
+  const { handles, inputProof } = await encryptValues(await vesting.getAddress(), sender, await vestingChainId(vesting), [
+    { type: "euint64", value: amount }
+  ]);
+  if (schedule.kind === "cliff") {
+    await submit(vesting.createCliffGrant(tokenId, holder, schedule.cliff, handles[0], inputProof));
+  } else if (schedule.kind === "linear") {
+    await submit(
+      vesting.createLinearGrant(tokenId, holder, schedule.start, schedule.cliff, schedule.end, handles[0], inputProof)
+    );
+  } else {
+    await submit(vesting.createMilestoneGrant(tokenId, holder, schedule.milestoneCount, handles[0], inputProof));
+  }
+}
+
+export async function completeMilestone(grantId: string): Promise<void> {
+  const vesting = await getVestingWithSigner();
+  await submit(vesting.completeMilestone(grantId));
+}
+
+/**
+ * Lets the vesting contract move the issuer's shares into new grants until `until` (seconds).
+ */
+export async function authorizeGrants(until: number): Promise<void> {
+  await setOperator(config.vestingAddress, until);
+}
+
+/** Decrypts the granted amounts the connected wallet may read, keyed by grant id. */
+export async function decryptGrants(grants: VestingGrant[]): Promise<Record<string, bigint>> {
+  if (grants.length === 0) return {};
+  const vesting = await getVestingWithSigner();
+  const values = await userDecrypt(
+    [...new Set(grants.map(g => g.amount))],
+    await vesting.getAddress(),
+    vesting.runner as ethers.Signer,
+    await vestingChainId(vesting)
+  );
+  return Object.fromEntries(grants.map(g => [g.id, values[g.amount]]));
+}
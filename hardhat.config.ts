@@ -2,6 +2,21 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import { ethers } from "ethers";
+
+import "./tasks/privateEquity";
+
+// Where `npm run verifier:local` serves its stand-in for the Etherscan API
+const localVerifierUrl =
+  process.env.LOCAL_VERIFIER_URL ?? "http://127.0.0.1:8546";
+
+// Sepolia accounts for the pe:* tasks, from the same DEPLOY_PRIVATE_KEYS list
+// deploy/signers.ts reads. Malformed keys are left out rather than failing every
+// command; deploy/signers.ts reports them when deploying.
+const sepoliaAccounts = (process.env.DEPLOY_PRIVATE_KEYS ?? "")
+  .split(/[,\n]/)
+  .map((key) => key.trim())
+  .filter((key) => ethers.isHexString(key, 32));
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -12,7 +27,7 @@ const config: HardhatUserConfig = {
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
-      accounts: [],
+      accounts: sepoliaAccounts,
     },
   },
   solidity: {
@@ -41,8 +56,20 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY ?? "",
+      // Any key does for the stand-in
+      localhost: "local",
     },
+    customChains: [
+      {
+        network: "localhost",
+        chainId: 31337,
+        urls: {
+          apiURL: `${localVerifierUrl}/api`,
+          browserURL: localVerifierUrl,
+        },
+      },
+    ],
   },
   gasReporter: {
     enabled: process.env.REPORT_GAS ? true : false,
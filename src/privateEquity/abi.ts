@@ -0,0 +1,51 @@
+// Human-readable ABI of contracts/privateEquityFHE.sol. Encrypted types
+// (euint32, euint64, externalEuint32) are bytes32 handles on the ABI level.
+export const PRIVATE_EQUITY_ABI = [
+  "constructor()",
+
+  "error CooldownActive()",
+  "error HandlesAlreadySavedForRequestID()",
+  "error InvalidBatch()",
+  "error InvalidKMSSignatures()",
+  "error NoHandleFoundForRequestID()",
+  "error NotOwner()",
+  "error NotProvider()",
+  "error NotQualified()",
+  "error Paused()",
+  "error ReplayAttempt()",
+  "error StateMismatch()",
+
+  "event BatchClosed(uint256 indexed batchId, bytes32 totalEncryptedShares, bytes32 totalEncryptedValue)",
+  "event BatchOpened(uint256 indexed batchId)",
+  "event CooldownSecondsUpdated(uint256 indexed oldCooldown, uint256 indexed newCooldown)",
+  "event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 totalShares, uint256 totalValue)",
+  "event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash)",
+  "event InvestorRegistryUpdated(address indexed previousRegistry, address indexed newRegistry)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event PauseToggled(bool indexed paused)",
+  "event ProviderAdded(address indexed provider)",
+  "event ProviderRemoved(address indexed provider)",
+  "event SharesSubmitted(address indexed provider, uint256 indexed batchId, bytes32 encryptedShares, bytes32 encryptedValuePerShare)",
+
+  "function addProvider(address provider)",
+  "function batchShares(uint256, address) view returns (bytes32 encryptedShares, bytes32 encryptedValuePerShare)",
+  "function batches(uint256) view returns (uint256 id, bool isOpen, bytes32 totalEncryptedShares, bytes32 totalEncryptedValue)",
+  "function closeBatch(uint256 batchId)",
+  "function cooldownSeconds() view returns (uint256)",
+  "function currentBatchId() view returns (uint256)",
+  "function decryptionContexts(uint256) view returns (uint256 batchId, bytes32 stateHash, bool processed)",
+  "function investorRegistry() view returns (address)",
+  "function isProvider(address) view returns (bool)",
+  "function lastDecryptionRequestTime(address) view returns (uint256)",
+  "function lastSubmissionTime(address) view returns (uint256)",
+  "function openBatch()",
+  "function owner() view returns (address)",
+  "function paused() view returns (bool)",
+  "function removeProvider(address provider)",
+  "function requestBatchDecryption(uint256 batchId)",
+  "function setCooldownSeconds(uint256 newCooldownSeconds)",
+  "function setInvestorRegistry(address newRegistry)",
+  "function setPaused(bool _paused)",
+  "function submitEncryptedShares(uint256 batchId, bytes32 encryptedSharesInput, bytes32 encryptedValuePerShareInput, bytes inputProof)",
+  "function transferOwnership(address newOwner)",
+] as const;
@@ -0,0 +1,445 @@
+import {
+  BytesLike,
+  Contract,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  EventLog,
+  Interface,
+  Log,
+  Provider,
+  hexlify,
+} from "ethers";
+import { PRIVATE_EQUITY_ABI } from "./abi";
+import { rethrowDecoded } from "./errors";
+
+export interface BatchInfo {
+  id: bigint;
+  isOpen: boolean;
+  /** euint32 handle */
+  totalEncryptedShares: string;
+  /** euint64 handle */
+  totalEncryptedValue: string;
+}
+
+export interface DecryptionContext {
+  batchId: bigint;
+  stateHash: string;
+  processed: boolean;
+}
+
+/** Output of an fhevm encrypted input holding the share count then the value per share, both euint32. */
+export interface EncryptedShareInput {
+  handles: [BytesLike, BytesLike];
+  inputProof: BytesLike;
+}
+
+interface EventBase {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type PrivateEquityEvent = EventBase &
+  (
+    | { name: "OwnershipTransferred"; previousOwner: string; newOwner: string }
+    | { name: "ProviderAdded"; provider: string }
+    | { name: "ProviderRemoved"; provider: string }
+    | { name: "PauseToggled"; paused: boolean }
+    | {
+        name: "CooldownSecondsUpdated";
+        oldCooldown: bigint;
+        newCooldown: bigint;
+      }
+    | { name: "BatchOpened"; batchId: bigint }
+    | {
+        name: "BatchClosed";
+        batchId: bigint;
+        totalEncryptedShares: string;
+        totalEncryptedValue: string;
+      }
+    | {
+        name: "SharesSubmitted";
+        provider: string;
+        batchId: bigint;
+        encryptedShares: string;
+        encryptedValuePerShare: string;
+      }
+    | {
+        name: "DecryptionRequested";
+        requestId: bigint;
+        batchId: bigint;
+        stateHash: string;
+      }
+    | {
+        name: "DecryptionCompleted";
+        requestId: bigint;
+        batchId: bigint;
+        totalShares: bigint;
+        totalValue: bigint;
+      }
+  );
+
+export type PrivateEquityEventName = PrivateEquityEvent["name"];
+
+export type PrivateEquityEventOf<N extends PrivateEquityEventName> = Extract<
+  PrivateEquityEvent,
+  { name: N }
+>;
+
+export interface EventStreamOptions {
+  fromBlock?: number;
+  /** Stop after this block. When omitted the stream follows new blocks until aborted. */
+  toBlock?: number;
+  /** Maximum block range per eth_getLogs call. */
+  chunkSize?: number;
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CHUNK_SIZE = 5_000;
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+/**
+ * Typed ethers v6 client for PrivateEquityFHE. Transactions wait for their
+ * receipt, and reverts are rethrown as a decoded PrivateEquityError.
+ */
+export class PrivateEquityClient {
+  static readonly abi = PRIVATE_EQUITY_ABI;
+  static readonly interface = new Interface(PRIVATE_EQUITY_ABI);
+
+  readonly contract: Contract;
+
+  constructor(
+    readonly address: string,
+    runner: ContractRunner,
+  ) {
+    this.contract = new Contract(address, PRIVATE_EQUITY_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): PrivateEquityClient {
+    return new PrivateEquityClient(address, runner);
+  }
+
+  private get provider(): Provider {
+    const runner = this.contract.runner;
+    const provider =
+      runner && "getBlockNumber" in runner
+        ? (runner as Provider)
+        : runner?.provider;
+    if (!provider)
+      throw new Error("PrivateEquityClient needs a runner with a provider");
+    return provider;
+  }
+
+  // --- Reads ---
+
+  async owner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  async isProvider(account: string): Promise<boolean> {
+    return this.contract.isProvider(account);
+  }
+
+  async investorRegistry(): Promise<string> {
+    return this.contract.investorRegistry();
+  }
+
+  async paused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  async cooldownSeconds(): Promise<bigint> {
+    return this.contract.cooldownSeconds();
+  }
+
+  async currentBatchId(): Promise<bigint> {
+    return this.contract.currentBatchId();
+  }
+
+  async lastSubmissionTime(account: string): Promise<bigint> {
+    return this.contract.lastSubmissionTime(account);
+  }
+
+  async lastDecryptionRequestTime(account: string): Promise<bigint> {
+    return this.contract.lastDecryptionRequestTime(account);
+  }
+
+  async getBatch(batchId: bigint | number): Promise<BatchInfo> {
+    const [id, isOpen, totalEncryptedShares, totalEncryptedValue] =
+      await this.contract.batches(batchId);
+    return { id, isOpen, totalEncryptedShares, totalEncryptedValue };
+  }
+
+  async getShareSubmission(
+    batchId: bigint | number,
+    provider: string,
+  ): Promise<{ encryptedShares: string; encryptedValuePerShare: string }> {
+    const [encryptedShares, encryptedValuePerShare] =
+      await this.contract.batchShares(batchId, provider);
+    return { encryptedShares, encryptedValuePerShare };
+  }
+
+  async getDecryptionContext(
+    requestId: bigint | number,
+  ): Promise<DecryptionContext> {
+    const [batchId, stateHash, processed] =
+      await this.contract.decryptionContexts(requestId);
+    return { batchId, stateHash, processed };
+  }
+
+  // --- Administration ---
+
+  async transferOwnership(
+    newOwner: string,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("transferOwnership", [newOwner]);
+  }
+
+  async addProvider(provider: string): Promise<ContractTransactionReceipt> {
+    return this.send("addProvider", [provider]);
+  }
+
+  async removeProvider(provider: string): Promise<ContractTransactionReceipt> {
+    return this.send("removeProvider", [provider]);
+  }
+
+  /** Gates submissions on an InvestorRegistry; ZeroAddress disables the check. */
+  async setInvestorRegistry(
+    registry: string,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setInvestorRegistry", [registry]);
+  }
+
+  async setPaused(paused: boolean): Promise<ContractTransactionReceipt> {
+    return this.send("setPaused", [paused]);
+  }
+
+  async setCooldownSeconds(
+    seconds: bigint | number,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setCooldownSeconds", [seconds]);
+  }
+
+  // --- Batch lifecycle ---
+
+  async openBatch(): Promise<{
+    batchId: bigint;
+    receipt: ContractTransactionReceipt;
+  }> {
+    const receipt = await this.send("openBatch", []);
+    const event = this.findEvent(receipt, "BatchOpened");
+    return { batchId: event.batchId, receipt };
+  }
+
+  async submitEncryptedShares(
+    batchId: bigint | number,
+    input: EncryptedShareInput,
+  ): Promise<
+    PrivateEquityEventOf<"SharesSubmitted"> & {
+      receipt: ContractTransactionReceipt;
+    }
+  > {
+    const [shares, valuePerShare] = input.handles.map((h) => hexlify(h));
+    const receipt = await this.send("submitEncryptedShares", [
+      batchId,
+      shares,
+      valuePerShare,
+      hexlify(input.inputProof),
+    ]);
+    return { ...this.findEvent(receipt, "SharesSubmitted"), receipt };
+  }
+
+  async closeBatch(batchId: bigint | number): Promise<
+    PrivateEquityEventOf<"BatchClosed"> & {
+      receipt: ContractTransactionReceipt;
+    }
+  > {
+    const receipt = await this.send("closeBatch", [batchId]);
+    return { ...this.findEvent(receipt, "BatchClosed"), receipt };
+  }
+
+  async requestBatchDecryption(batchId: bigint | number): Promise<
+    PrivateEquityEventOf<"DecryptionRequested"> & {
+      receipt: ContractTransactionReceipt;
+    }
+  > {
+    const receipt = await this.send("requestBatchDecryption", [batchId]);
+    return { ...this.findEvent(receipt, "DecryptionRequested"), receipt };
+  }
+
+  /** Resolves with the DecryptionCompleted event for `requestId` once the oracle has called back. */
+  async waitForDecryption(
+    requestId: bigint,
+    options: Omit<EventStreamOptions, "toBlock"> = {},
+  ): Promise<PrivateEquityEventOf<"DecryptionCompleted">> {
+    for await (const event of this.events("DecryptionCompleted", options)) {
+      if (event.requestId === requestId) return event;
+    }
+    throw new Error(`Stopped waiting for decryption request ${requestId}`);
+  }
+
+  // --- Events ---
+
+  /**
+   * Async iterator over decoded contract events, oldest first. Backfills from
+   * `fromBlock`, then polls for new blocks unless `toBlock` is given.
+   */
+  events<N extends PrivateEquityEventName>(
+    name: N,
+    options?: EventStreamOptions,
+  ): AsyncGenerator<PrivateEquityEventOf<N>>;
+  events(
+    name?: undefined,
+    options?: EventStreamOptions,
+  ): AsyncGenerator<PrivateEquityEvent>;
+  async *events(
+    name?: PrivateEquityEventName,
+    options: EventStreamOptions = {},
+  ): AsyncGenerator<PrivateEquityEvent> {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const topics = name
+      ? [PrivateEquityClient.interface.getEvent(name)!.topicHash]
+      : undefined;
+
+    let next = options.fromBlock ?? (await this.provider.getBlockNumber());
+    while (!options.signal?.aborted) {
+      const head = await this.provider.getBlockNumber();
+      const last =
+        options.toBlock !== undefined ? Math.min(options.toBlock, head) : head;
+
+      while (next <= last && !options.signal?.aborted) {
+        const to = Math.min(next + chunkSize - 1, last);
+        const logs = await this.provider.getLogs({
+          address: this.address,
+          topics,
+          fromBlock: next,
+          toBlock: to,
+        });
+        for (const log of logs) {
+          const event = PrivateEquityClient.decodeLog(log);
+          if (event) yield event;
+        }
+        next = to + 1;
+      }
+
+      if (options.toBlock !== undefined && next > options.toBlock) return;
+      await sleep(pollIntervalMs, options.signal);
+    }
+  }
+
+  /** Decodes a raw log of this contract, or returns undefined for unknown topics. */
+  static decodeLog(log: Log | EventLog): PrivateEquityEvent | undefined {
+    const parsed = PrivateEquityClient.interface.parseLog(log);
+    if (!parsed) return undefined;
+
+    const base: EventBase = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+    const args = parsed.args;
+    switch (parsed.name) {
+      case "OwnershipTransferred":
+        return {
+          ...base,
+          name: parsed.name,
+          previousOwner: args.previousOwner,
+          newOwner: args.newOwner,
+        };
+      case "ProviderAdded":
+      case "ProviderRemoved":
+        return { ...base, name: parsed.name, provider: args.provider };
+      case "PauseToggled":
+        return { ...base, name: parsed.name, paused: args.paused };
+      case "CooldownSecondsUpdated":
+        return {
+          ...base,
+          name: parsed.name,
+          oldCooldown: args.oldCooldown,
+          newCooldown: args.newCooldown,
+        };
+      case "BatchOpened":
+        return { ...base, name: parsed.name, batchId: args.batchId };
+      case "BatchClosed":
+        return {
+          ...base,
+          name: parsed.name,
+          batchId: args.batchId,
+          totalEncryptedShares: args.totalEncryptedShares,
+          totalEncryptedValue: args.totalEncryptedValue,
+        };
+      case "SharesSubmitted":
+        return {
+          ...base,
+          name: parsed.name,
+          provider: args.provider,
+          batchId: args.batchId,
+          encryptedShares: args.encryptedShares,
+          encryptedValuePerShare: args.encryptedValuePerShare,
+        };
+      case "DecryptionRequested":
+        return {
+          ...base,
+          name: parsed.name,
+          requestId: args.requestId,
+          batchId: args.batchId,
+          stateHash: args.stateHash,
+        };
+      case "DecryptionCompleted":
+        return {
+          ...base,
+          name: parsed.name,
+          requestId: args.requestId,
+          batchId: args.batchId,
+          totalShares: args.totalShares,
+          totalValue: args.totalValue,
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  private async send(
+    method: string,
+    args: unknown[],
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx: ContractTransactionResponse = await this.contract.getFunction(
+        method,
+      )(...args);
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+      return receipt;
+    } catch (e) {
+      rethrowDecoded(e);
+    }
+  }
+
+  private findEvent<N extends PrivateEquityEventName>(
+    receipt: ContractTransactionReceipt,
+    name: N,
+  ): PrivateEquityEventOf<N> {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const event = PrivateEquityClient.decodeLog(log);
+      if (event?.name === name) return event as PrivateEquityEventOf<N>;
+    }
+    throw new Error(`${name} event missing from transaction ${receipt.hash}`);
+  }
+}
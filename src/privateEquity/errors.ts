@@ -0,0 +1,100 @@
+import { Interface, isCallException } from "ethers";
+import { PRIVATE_EQUITY_ABI } from "./abi";
+
+export type PrivateEquityErrorName =
+  | "CooldownActive"
+  | "HandlesAlreadySavedForRequestID"
+  | "InvalidBatch"
+  | "InvalidKMSSignatures"
+  | "NoHandleFoundForRequestID"
+  | "NotOwner"
+  | "NotProvider"
+  | "NotQualified"
+  | "Paused"
+  | "ReplayAttempt"
+  | "StateMismatch";
+
+const MESSAGES: Record<PrivateEquityErrorName, string> = {
+  CooldownActive: "The caller is still inside the cooldown window",
+  HandlesAlreadySavedForRequestID:
+    "A decryption request with this id already exists",
+  InvalidBatch: "The batch does not exist or is in the wrong open/closed state",
+  InvalidKMSSignatures: "The decryption proof is not signed by the KMS",
+  NoHandleFoundForRequestID: "No decryption request is recorded for this id",
+  NotOwner: "Only the contract owner can do this",
+  NotProvider: "Only a registered provider can do this",
+  NotQualified: "The caller is not a qualified investor",
+  Paused: "The contract is paused",
+  ReplayAttempt: "This decryption request was already processed",
+  StateMismatch: "The batch totals changed after decryption was requested",
+};
+
+const iface = new Interface(PRIVATE_EQUITY_ABI);
+
+/** A revert of PrivateEquityFHE, decoded from its custom error. */
+export class PrivateEquityError extends Error {
+  constructor(
+    public readonly errorName: PrivateEquityErrorName,
+    public readonly data: string,
+    options?: ErrorOptions,
+  ) {
+    super(`${errorName}: ${MESSAGES[errorName]}`, options);
+    this.name = "PrivateEquityError";
+  }
+}
+
+const isObject = (value: unknown): value is object =>
+  typeof value === "object" && value !== null;
+
+const nestedError = (value: object): unknown => {
+  if ("error" in value && value.error != null) return value.error;
+  if (
+    "info" in value &&
+    isObject(value.info) &&
+    "error" in value.info &&
+    value.info.error != null
+  ) {
+    return value.info.error;
+  }
+  return "cause" in value ? value.cause : undefined;
+};
+
+const findRevertData = (error: unknown): string | undefined => {
+  // Providers nest the revert data differently; walk the usual places
+  let current: unknown = error;
+  for (let depth = 0; isObject(current) && depth < 5; depth++) {
+    if (
+      "data" in current &&
+      typeof current.data === "string" &&
+      current.data.startsWith("0x")
+    ) {
+      return current.data;
+    }
+    current = nestedError(current);
+  }
+  return undefined;
+};
+
+/**
+ * Returns the decoded PrivateEquityFHE error behind `error`, or undefined when
+ * it is not a revert with one of the contract's custom errors.
+ */
+export function decodePrivateEquityError(
+  error: unknown,
+): PrivateEquityError | undefined {
+  if (error instanceof PrivateEquityError) return error;
+
+  const data = (isCallException(error) && error.data) || findRevertData(error);
+  if (!data || data.length < 10) return undefined;
+
+  const parsed = iface.parseError(data);
+  if (!parsed || !(parsed.name in MESSAGES)) return undefined;
+  return new PrivateEquityError(parsed.name as PrivateEquityErrorName, data, {
+    cause: error,
+  });
+}
+
+/** Rethrows `error` as a PrivateEquityError when it can be decoded. */
+export function rethrowDecoded(error: unknown): never {
+  throw decodePrivateEquityError(error) ?? error;
+}
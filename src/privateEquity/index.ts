@@ -0,0 +1,4 @@
+export { PRIVATE_EQUITY_ABI } from "./abi";
+export * from "./client";
+export { PrivateEquityError, decodePrivateEquityError } from "./errors";
+export type { PrivateEquityErrorName } from "./errors";
@@ -0,0 +1,240 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionReceipt, Signer } from "ethers";
+import { latestDeployments, readManifest } from "../deploy/manifest";
+import { PrivateEquityClient } from "../src/privateEquity";
+import type { PrivateEquityEvent } from "../src/privateEquity";
+
+/**
+ * Tasks for operating a deployed PrivateEquityFHE, e.g.
+ *   npx hardhat pe:batch:open --network sepolia
+ *   npx hardhat pe:batch:submit --shares 100 --price 25 --from 0x... --network sepolia
+ *
+ * Every task takes `--address`, defaulting to the latest PrivateEquityFHE in the
+ * network's deployment manifest (deployments/<network>.json), and `--from`,
+ * defaulting to the network's first account. On sepolia the accounts are the
+ * keys in DEPLOY_PRIVATE_KEYS. Events emitted by each transaction are printed
+ * once it is mined.
+ */
+
+const MAX_UINT32 = 2 ** 32 - 1;
+const DEFAULT_DECRYPTION_TIMEOUT_SECONDS = 300;
+
+interface CommonArgs {
+  address?: string;
+  from?: string;
+}
+
+async function connect(
+  hre: HardhatRuntimeEnvironment,
+  { address, from }: CommonArgs,
+): Promise<{ client: PrivateEquityClient; signer: Signer }> {
+  const signer = from
+    ? await hre.ethers.getSigner(from)
+    : (await hre.ethers.getSigners())[0];
+  if (!signer) {
+    throw new Error(
+      `No accounts are configured for network ${hre.network.name}; set DEPLOY_PRIVATE_KEYS`,
+    );
+  }
+  if (!address) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const manifest = readManifest(hre.network.name, Number(chainId));
+    address = latestDeployments(manifest).get("PrivateEquityFHE")?.address;
+    if (!address) {
+      throw new Error(
+        `No PrivateEquityFHE deployment is recorded for network ${hre.network.name}; pass --address`,
+      );
+    }
+  }
+  return { client: PrivateEquityClient.connect(address, signer), signer };
+}
+
+/** One line describing `event`, e.g. "Batch #3 opened". */
+function describeEvent(event: PrivateEquityEvent): string {
+  switch (event.name) {
+    case "OwnershipTransferred":
+      return `Ownership transferred from ${event.previousOwner} to ${event.newOwner}`;
+    case "ProviderAdded":
+      return `Provider ${event.provider} added`;
+    case "ProviderRemoved":
+      return `Provider ${event.provider} removed`;
+    case "PauseToggled":
+      return event.paused ? "Contract paused" : "Contract unpaused";
+    case "CooldownSecondsUpdated":
+      return `Cooldown changed from ${event.oldCooldown}s to ${event.newCooldown}s`;
+    case "BatchOpened":
+      return `Batch #${event.batchId} opened`;
+    case "BatchClosed":
+      return `Batch #${event.batchId} closed (encrypted total shares ${event.totalEncryptedShares}, total value ${event.totalEncryptedValue})`;
+    case "SharesSubmitted":
+      return `Provider ${event.provider} submitted to batch #${event.batchId} (encrypted shares ${event.encryptedShares}, value per share ${event.encryptedValuePerShare})`;
+    case "DecryptionRequested":
+      return `Decryption of batch #${event.batchId} requested as request ${event.requestId} (state hash ${event.stateHash})`;
+    case "DecryptionCompleted":
+      return `Batch #${event.batchId} decrypted by request ${event.requestId}: ${event.totalShares} shares worth ${event.totalValue} in total`;
+  }
+}
+
+function printReceipt(receipt: ContractTransactionReceipt): void {
+  console.log(
+    `Transaction ${receipt.hash} mined in block ${receipt.blockNumber} (gas used ${receipt.gasUsed})`,
+  );
+  for (const log of receipt.logs) {
+    const event = PrivateEquityClient.decodeLog(log);
+    if (event) console.log(`  ${describeEvent(event)}`);
+  }
+}
+
+const parseUint32 = (name: string, value: number): number => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`--${name} must be a whole number from 0 to ${MAX_UINT32}`);
+  }
+  return value;
+};
+
+const withCommonParams = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam(
+      "address",
+      "PrivateEquityFHE address (default: latest in the deployment manifest)",
+    )
+    .addOptionalParam(
+      "from",
+      "Account to send from (default: the network's first account)",
+    );
+
+withCommonParams("pe:provider:add", "Registers a share provider")
+  .addParam("provider", "Address of the provider")
+  .setAction(async (args: CommonArgs & { provider: string }, hre) => {
+    const { client } = await connect(hre, args);
+    printReceipt(await client.addProvider(args.provider));
+  });
+
+withCommonParams("pe:provider:remove", "Unregisters a share provider")
+  .addParam("provider", "Address of the provider")
+  .setAction(async (args: CommonArgs & { provider: string }, hre) => {
+    const { client } = await connect(hre, args);
+    printReceipt(await client.removeProvider(args.provider));
+  });
+
+withCommonParams(
+  "pe:pause",
+  "Pauses batches, submissions and decryption requests",
+).setAction(async (args: CommonArgs, hre) => {
+  const { client } = await connect(hre, args);
+  printReceipt(await client.setPaused(true));
+});
+
+withCommonParams("pe:unpause", "Lifts a pause").setAction(
+  async (args: CommonArgs, hre) => {
+    const { client } = await connect(hre, args);
+    printReceipt(await client.setPaused(false));
+  },
+);
+
+withCommonParams(
+  "pe:cooldown:set",
+  "Sets how long a provider waits between submissions, and the owner between decryption requests",
+)
+  .addParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .setAction(async (args: CommonArgs & { seconds: number }, hre) => {
+    if (args.seconds < 0) throw new Error("--seconds cannot be negative");
+    const { client } = await connect(hre, args);
+    printReceipt(await client.setCooldownSeconds(args.seconds));
+  });
+
+withCommonParams("pe:batch:open", "Opens a new batch").setAction(
+  async (args: CommonArgs, hre) => {
+    const { client } = await connect(hre, args);
+    const { receipt } = await client.openBatch();
+    printReceipt(receipt);
+  },
+);
+
+withCommonParams("pe:batch:close", "Closes a batch to further submissions")
+  .addOptionalParam(
+    "batch",
+    "Batch id (default: the current batch)",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args: CommonArgs & { batch?: number }, hre) => {
+    const { client } = await connect(hre, args);
+    const batchId = args.batch ?? (await client.currentBatchId());
+    const { receipt } = await client.closeBatch(batchId);
+    printReceipt(receipt);
+  });
+
+withCommonParams(
+  "pe:batch:submit",
+  "Encrypts a share count and value per share and submits them to a batch as a provider",
+)
+  .addParam("shares", "Number of shares", undefined, types.int)
+  .addParam("price", "Value per share", undefined, types.int)
+  .addOptionalParam(
+    "batch",
+    "Batch id (default: the current batch)",
+    undefined,
+    types.int,
+  )
+  .setAction(
+    async (
+      args: CommonArgs & { shares: number; price: number; batch?: number },
+      hre,
+    ) => {
+      const shares = parseUint32("shares", args.shares);
+      const price = parseUint32("price", args.price);
+      const { client, signer } = await connect(hre, args);
+      const batchId = args.batch ?? (await client.currentBatchId());
+
+      await hre.fhevm.initializeCLIApi();
+      const encrypted = await hre.fhevm
+        .createEncryptedInput(client.address, await signer.getAddress())
+        .add32(shares)
+        .add32(price)
+        .encrypt();
+      const { receipt } = await client.submitEncryptedShares(batchId, {
+        handles: [encrypted.handles[0], encrypted.handles[1]],
+        inputProof: encrypted.inputProof,
+      });
+      printReceipt(receipt);
+    },
+  );
+
+withCommonParams(
+  "pe:batch:decrypt",
+  "Requests decryption of a closed batch's totals and waits for the oracle's answer",
+)
+  .addOptionalParam(
+    "batch",
+    "Batch id (default: the current batch)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "timeout",
+    "Seconds to wait for the decryption oracle",
+    DEFAULT_DECRYPTION_TIMEOUT_SECONDS,
+    types.int,
+  )
+  .setAction(
+    async (args: CommonArgs & { batch?: number; timeout: number }, hre) => {
+      const { client } = await connect(hre, args);
+      const batchId = args.batch ?? (await client.currentBatchId());
+      const requested = await client.requestBatchDecryption(batchId);
+      printReceipt(requested.receipt);
+
+      console.log(
+        `Waiting up to ${args.timeout}s for the decryption oracle...`,
+      );
+      // The mock oracle only answers when asked to; a real one answers on its own
+      await hre.fhevm.initializeCLIApi();
+      if (hre.fhevm.isMock) await hre.fhevm.awaitDecryptionOracle();
+      const completed = await client.waitForDecryption(requested.requestId, {
+        fromBlock: requested.receipt.blockNumber,
+        signal: AbortSignal.timeout(args.timeout * 1000),
+      });
+      console.log(describeEvent(completed));
+    },
+  );
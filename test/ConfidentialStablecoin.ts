@@ -0,0 +1,134 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin = (await factory.deploy()) as ConfidentialStablecoin;
+  const stablecoinAddress = await stablecoin.getAddress();
+  return { stablecoin, stablecoinAddress };
+}
+
+describe("ConfidentialStablecoin", function () {
+  let signers: Signers;
+  let stablecoin: ConfidentialStablecoin;
+  let stablecoinAddress: string;
+
+  async function encryptAmount(signer: HardhatEthersSigner, amount: number) {
+    return fhevm
+      .createEncryptedInput(stablecoinAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function mint(to: HardhatEthersSigner, amount: number) {
+    const input = await encryptAmount(signers.owner, amount);
+    return stablecoin
+      .connect(signers.owner)
+      .mint(to.address, input.handles[0], input.inputProof);
+  }
+
+  async function transfer(
+    signer: HardhatEthersSigner,
+    to: string,
+    amount: number,
+  ) {
+    const input = await encryptAmount(signer, amount);
+    return stablecoin
+      .connect(signer)
+      .confidentialTransfer(to, input.handles[0], input.inputProof);
+  }
+
+  async function balanceOf(account: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await stablecoin.confidentialBalanceOf(account.address),
+      stablecoinAddress,
+      account,
+    );
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ stablecoin, stablecoinAddress } = await deployFixture());
+  });
+
+  it("lets only the owner mint", async function () {
+    await expect(mint(signers.alice, 1_000_000))
+      .to.emit(stablecoin, "ConfidentialTransfer")
+      .withArgs(ethers.ZeroAddress, signers.alice.address, (handle: string) =>
+        ethers.isHexString(handle, 32),
+      );
+    expect(await balanceOf(signers.alice)).to.eq(1_000_000);
+
+    const input = await encryptAmount(signers.alice, 1);
+    await expect(
+      simulate(
+        stablecoin.connect(signers.alice).mint,
+        signers.alice.address,
+        input.handles[0],
+        input.inputProof,
+      ),
+    ).to.be.revertedWithCustomError(stablecoin, "NotOwner");
+  });
+
+  it("moves nothing when the balance is too small", async function () {
+    await mint(signers.alice, 1_000);
+    await transfer(signers.alice, signers.bob.address, 400);
+    await transfer(signers.alice, signers.bob.address, 601);
+
+    expect(await balanceOf(signers.alice)).to.eq(600);
+    expect(await balanceOf(signers.bob)).to.eq(400);
+    await expect(
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await stablecoin.confidentialBalanceOf(signers.alice.address),
+        stablecoinAddress,
+        signers.bob,
+      ),
+    ).to.be.rejected;
+  });
+
+  it("only lets operators move on-chain amounts they may use", async function () {
+    await mint(signers.alice, 1_000);
+    const handle = await stablecoin.confidentialBalanceOf(
+      signers.alice.address,
+    );
+    await expect(
+      simulate(
+        stablecoin.connect(signers.bob).operatorTransfer,
+        signers.alice.address,
+        signers.bob.address,
+        handle,
+      ),
+    ).to.be.revertedWithCustomError(stablecoin, "UnauthorizedAmount");
+  });
+});
@@ -0,0 +1,165 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { artifacts, ethers, network } from "hardhat";
+import type { Artifact } from "hardhat/types";
+import { settlePending, staleReason } from "../deploy/deploy";
+import {
+  DeploymentManifest,
+  MANIFEST_VERSION,
+  PendingDeployment,
+  abiHash,
+} from "../deploy/manifest";
+
+const NAME = "PrivateEquityFHE";
+const GIT_COMMIT = "0123456789abcdef";
+
+function emptyManifest(): DeploymentManifest {
+  return {
+    version: MANIFEST_VERSION,
+    network: network.name,
+    chainId: 31337,
+    contracts: [],
+    pending: [],
+    failures: [],
+  };
+}
+
+describe("Deploy", function () {
+  let deployer: HardhatEthersSigner;
+  let artifact: Artifact;
+  let manifest: DeploymentManifest;
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+    artifact = await artifacts.readArtifact(NAME);
+  });
+
+  beforeEach(function () {
+    manifest = emptyManifest();
+  });
+
+  /** Records `hash` the way deploy.ts does right after sending, before it is mined. */
+  function recordPending(hash: string, nonce: number): PendingDeployment {
+    const pending = {
+      name: NAME,
+      deployer: deployer.address,
+      transactionHash: hash,
+      nonce,
+      constructorArguments: [],
+      sentAt: new Date().toISOString(),
+    };
+    manifest.pending.push(pending);
+    return pending;
+  }
+
+  describe("resuming pending deployments", function () {
+    afterEach(async function () {
+      await network.provider.send("evm_setAutomine", [true]);
+    });
+
+    it("waits for a deployment sent by an interrupted run", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      const contract = await ethers.deployContract(NAME);
+      const sent = contract.deploymentTransaction()!;
+      const pending = recordPending(sent.hash, sent.nonce);
+
+      const settling = settlePending(manifest, pending, artifact, GIT_COMMIT);
+      await network.provider.send("evm_mine");
+      const deployment = await settling;
+
+      expect(deployment).to.deep.include({
+        name: NAME,
+        deployer: deployer.address,
+        address: await contract.getAddress(),
+        transactionHash: sent.hash,
+        abiHash: abiHash(artifact),
+        gitCommit: GIT_COMMIT,
+        constructorArguments: [],
+      });
+      expect(manifest.contracts).to.deep.eq([deployment]);
+      expect(manifest.pending).to.deep.eq([]);
+      expect(manifest.failures).to.deep.eq([]);
+    });
+
+    it("records deployments that were mined while nothing was running", async function () {
+      const contract = await ethers.deployContract(NAME);
+      const sent = contract.deploymentTransaction()!;
+      const pending = recordPending(sent.hash, sent.nonce);
+
+      const deployment = await settlePending(manifest, pending, artifact, null);
+      expect(deployment!.address).to.eq(await contract.getAddress());
+      expect(deployment!.blockNumber).to.eq((await sent.wait())!.blockNumber);
+      expect(manifest.pending).to.deep.eq([]);
+    });
+
+    it("forgets transactions the node has dropped", async function () {
+      const pending = recordPending(ethers.id("dropped"), 0);
+
+      expect(await settlePending(manifest, pending, artifact, null)).to.eq(
+        null,
+      );
+      expect(manifest.pending).to.deep.eq([]);
+      expect(manifest.contracts).to.deep.eq([]);
+      expect(manifest.failures).to.deep.eq([]);
+    });
+
+    it("records deployments that reverted as failures", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      // INVALID as init code: the creation reverts once mined
+      const sent = await deployer.sendTransaction({
+        data: "0xfe",
+        gasLimit: 100_000,
+      });
+      const pending = recordPending(sent.hash, sent.nonce);
+
+      const settling = settlePending(manifest, pending, artifact, null);
+      await network.provider.send("evm_mine");
+      expect(await settling).to.eq(null);
+
+      expect(manifest.pending).to.deep.eq([]);
+      expect(manifest.contracts).to.deep.eq([]);
+      expect(manifest.failures).to.have.length(1);
+      expect(manifest.failures[0]).to.deep.include({
+        name: NAME,
+        deployer: deployer.address,
+        error: `部署交易 ${sent.hash} 执行失败`,
+      });
+    });
+  });
+
+  describe("staleReason", function () {
+    it("reuses deployments only while their code, ABI and dependencies are current", async function () {
+      const contract = await ethers.deployContract(NAME);
+      const deployment = {
+        name: NAME,
+        deployer: deployer.address,
+        address: await contract.getAddress(),
+        transactionHash: contract.deploymentTransaction()!.hash,
+        blockNumber: 0,
+        abiHash: abiHash(artifact),
+        gitCommit: null,
+        deployedAt: new Date().toISOString(),
+        constructorArguments: [deployer.address],
+      };
+
+      expect(await staleReason(deployment, artifact, [deployer.address])).to.eq(
+        null,
+      );
+      expect(await staleReason(deployment, artifact, [])).to.eq(
+        "依赖的合约已重新部署",
+      );
+      expect(
+        await staleReason({ ...deployment, abiHash: "0x" }, artifact, [
+          deployer.address,
+        ]),
+      ).to.eq("合约 ABI 已变更");
+      expect(
+        await staleReason(
+          { ...deployment, address: deployer.address },
+          artifact,
+          [deployer.address],
+        ),
+      ).to.eq("链上已无该合约代码");
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+import { loadDeployers } from "../deploy/signers";
+
+const MNEMONIC = "test test test test test test test test test test test junk";
+const SOURCES = [
+  "DEPLOY_IMPERSONATE",
+  "DEPLOY_KEYSTORE",
+  "DEPLOY_KEYSTORE_PASSWORD",
+  "DEPLOY_MNEMONIC",
+  "DEPLOY_MNEMONIC_PATHS",
+  "DEPLOY_MNEMONIC_COUNT",
+  "DEPLOY_PRIVATE_KEYS",
+];
+
+describe("DeploySigners", function () {
+  const saved: Record<string, string | undefined> = {};
+
+  before(function () {
+    for (const key of SOURCES) saved[key] = process.env[key];
+  });
+
+  beforeEach(function () {
+    for (const key of SOURCES) delete process.env[key];
+  });
+
+  after(function () {
+    for (const key of SOURCES) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  describe("private keys", function () {
+    it("reports invalid keys without echoing them", async function () {
+      const wallet = ethers.Wallet.createRandom();
+      const badKey = "0x1234deadbeef";
+      process.env.DEPLOY_PRIVATE_KEYS = `${wallet.privateKey},\n${badKey}`;
+
+      const { source, deployers, invalid } = await loadDeployers(hre);
+      expect(source).to.eq("DEPLOY_PRIVATE_KEYS");
+      expect(deployers.map((d) => d.address)).to.deep.eq([wallet.address]);
+      expect(deployers[0].source).to.eq("DEPLOY_PRIVATE_KEYS #1");
+      expect(invalid).to.deep.eq([
+        { source: "DEPLOY_PRIVATE_KEYS #2", error: "不是有效的私钥" },
+      ]);
+      expect(JSON.stringify(invalid)).to.not.include("deadbeef");
+    });
+
+    it("connects deployers to the selected network", async function () {
+      process.env.DEPLOY_PRIVATE_KEYS = ethers.Wallet.createRandom().privateKey;
+      const [deployer] = (await loadDeployers(hre)).deployers;
+      expect(deployer.signer.provider).to.eq(hre.ethers.provider);
+      expect(await deployer.signer.getNonce()).to.eq(0);
+    });
+  });
+
+  describe("mnemonic", function () {
+    it("derives the first DEPLOY_MNEMONIC_COUNT default accounts", async function () {
+      process.env.DEPLOY_MNEMONIC = ` ${MNEMONIC} `;
+      process.env.DEPLOY_MNEMONIC_COUNT = "2";
+
+      const { source, deployers, invalid } = await loadDeployers(hre);
+      expect(source).to.eq("DEPLOY_MNEMONIC");
+      expect(invalid).to.deep.eq([]);
+      expect(deployers.map((d) => d.address)).to.deep.eq(
+        [0, 1].map(
+          (i) =>
+            ethers.HDNodeWallet.fromPhrase(
+              MNEMONIC,
+              undefined,
+              ethers.getIndexedAccountPath(i),
+            ).address,
+        ),
+      );
+      expect(deployers[1].source).to.eq(
+        `助记词 ${ethers.getIndexedAccountPath(1)}`,
+      );
+    });
+
+    it("derives the listed paths instead when given", async function () {
+      const custom = "m/44'/60'/1'/0/0";
+      process.env.DEPLOY_MNEMONIC = MNEMONIC;
+      process.env.DEPLOY_MNEMONIC_COUNT = "5";
+      process.env.DEPLOY_MNEMONIC_PATHS = custom;
+
+      const { deployers } = await loadDeployers(hre);
+      expect(deployers.map((d) => d.address)).to.deep.eq([
+        ethers.HDNodeWallet.fromPhrase(MNEMONIC, undefined, custom).address,
+      ]);
+    });
+
+    it("rejects a count that is not a positive integer", async function () {
+      process.env.DEPLOY_MNEMONIC = MNEMONIC;
+      for (const count of ["0", "-1", "1.5", "two"]) {
+        process.env.DEPLOY_MNEMONIC_COUNT = count;
+        await expect(loadDeployers(hre)).to.be.rejectedWith(
+          "DEPLOY_MNEMONIC_COUNT 必须是正整数",
+        );
+      }
+    });
+  });
+
+  describe("keystores", function () {
+    let dir: string;
+
+    const writeKeystore = (name: string, password: string) => {
+      const { address, privateKey } = ethers.Wallet.createRandom();
+      // A cheap scrypt setting keeps the test fast; the format is the same
+      const json = ethers.encryptKeystoreJsonSync(
+        { address, privateKey },
+        password,
+        {
+          scrypt: { N: 1 << 10 },
+        },
+      );
+      fs.writeFileSync(path.join(dir, name), json);
+      return address;
+    };
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-keystore-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("opens keystore files in a directory and reports the ones it cannot decrypt", async function () {
+      const opened = writeKeystore("a.json", "secret");
+      writeKeystore("UTC--b", "other password");
+      fs.writeFileSync(path.join(dir, "notes.txt"), "not a keystore");
+      process.env.DEPLOY_KEYSTORE = dir;
+      process.env.DEPLOY_KEYSTORE_PASSWORD = "secret";
+
+      const { source, deployers, invalid } = await loadDeployers(hre);
+      expect(source).to.eq("DEPLOY_KEYSTORE");
+      expect(deployers.map((d) => d.address)).to.deep.eq([opened]);
+      expect(invalid.map((i) => i.source)).to.deep.eq([
+        `keystore ${path.join(dir, "UTC--b")}`,
+      ]);
+    });
+
+    it("needs the keystore password", async function () {
+      writeKeystore("a.json", "secret");
+      process.env.DEPLOY_KEYSTORE = dir;
+
+      await expect(loadDeployers(hre)).to.be.rejectedWith(
+        "使用 DEPLOY_KEYSTORE 时必须设置 DEPLOY_KEYSTORE_PASSWORD",
+      );
+    });
+  });
+
+  describe("impersonation", function () {
+    it("unlocks and funds the listed addresses on the hardhat network", async function () {
+      const address = ethers.Wallet.createRandom().address;
+      process.env.DEPLOY_IMPERSONATE = `${address},not-an-address`;
+      // Impersonation wins over the other sources
+      process.env.DEPLOY_PRIVATE_KEYS = ethers.Wallet.createRandom().privateKey;
+
+      const { source, deployers, invalid } = await loadDeployers(hre);
+      expect(source).to.eq("DEPLOY_IMPERSONATE");
+      expect(deployers.map((d) => d.address)).to.deep.eq([address]);
+      expect(invalid).to.deep.eq([
+        { source: "模拟账户 not-an-address", error: "不是有效的地址" },
+      ]);
+      expect(await hre.ethers.provider.getBalance(address)).to.eq(
+        ethers.parseEther("100"),
+      );
+
+      const tx = await deployers[0].signer.sendTransaction({ to: address });
+      expect((await tx.wait())!.from).to.eq(address);
+    });
+  });
+
+  it("fails when no source is configured", async function () {
+    if (fs.existsSync(path.join(__dirname, "..", "deploy", "sy.txt"))) {
+      this.skip();
+    }
+    await expect(loadDeployers(hre)).to.be.rejectedWith("未配置部署账户");
+  });
+});
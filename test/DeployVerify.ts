@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployedContract } from "../deploy/manifest";
+import { verificationUnsupported, verifyDeployment } from "../deploy/verify";
+
+const ADDRESS = "0x00000000000000000000000000000000000000A1";
+
+const deployment: DeployedContract = {
+  name: "EquityVesting",
+  deployer: ADDRESS,
+  address: ADDRESS,
+  transactionHash: `0x${"00".repeat(32)}`,
+  blockNumber: 1,
+  abiHash: "0x",
+  gitCommit: null,
+  deployedAt: new Date(0).toISOString(),
+  constructorArguments: [ADDRESS],
+};
+
+/** The parts of the runtime verify.ts reads, on a network other than the in-process one. */
+function runtime(
+  networkName: string,
+  etherscanEnabled: boolean,
+  run: HardhatRuntimeEnvironment["run"] = hre.run,
+): HardhatRuntimeEnvironment {
+  return {
+    network: { name: networkName },
+    config: { etherscan: { enabled: etherscanEnabled } },
+    run,
+  } as unknown as HardhatRuntimeEnvironment;
+}
+
+describe("DeployVerify", function () {
+  it("only verifies on networks a block explorer can index", function () {
+    expect(verificationUnsupported(hre)).to.eq(
+      "进程内的 hardhat 网络没有区块浏览器",
+    );
+    expect(verificationUnsupported(runtime("sepolia", false))).to.eq(
+      "hardhat.config.ts 中已关闭 etherscan 验证",
+    );
+    expect(verificationUnsupported(runtime("sepolia", true))).to.eq(null);
+  });
+
+  it("submits the artifact's source and the recorded constructor arguments", async function () {
+    const artifact = await hre.artifacts.readArtifact(deployment.name);
+    const calls: unknown[][] = [];
+    const run = (async (...args: unknown[]) => {
+      calls.push(args);
+    }) as HardhatRuntimeEnvironment["run"];
+
+    const verification = await verifyDeployment(
+      runtime("sepolia", true, run),
+      deployment,
+      artifact,
+    );
+    expect(verification.status).to.eq("verified");
+    expect(calls).to.deep.eq([
+      [
+        "verify:verify",
+        {
+          address: ADDRESS,
+          contract: `${artifact.sourceName}:${artifact.contractName}`,
+          constructorArguments: [ADDRESS],
+        },
+      ],
+    ]);
+  });
+
+  it("returns the plugin's errors as failed verifications", async function () {
+    const artifact = await hre.artifacts.readArtifact(deployment.name);
+
+    // hardhat-verify itself refuses the in-process network
+    const verification = await verifyDeployment(hre, deployment, artifact);
+    expect(verification.status).to.eq("failed");
+    expect(verification.error).to.be.a("string").and.not.be.empty;
+  });
+});
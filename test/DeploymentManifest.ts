@@ -0,0 +1,224 @@
+import { expect } from "chai";
+import fs from "fs";
+import { artifacts } from "hardhat";
+import path from "path";
+import {
+  DeployedContract,
+  DeploymentManifest,
+  MANIFEST_DIR,
+  MANIFEST_VERSION,
+  findDeployment,
+  findPending,
+  latestDeployer,
+  latestDeployments,
+  manifestPath,
+  readManifest,
+  removePending,
+  updateFrontend,
+  writeManifest,
+} from "../deploy/manifest";
+
+const NETWORK = "manifest-test";
+const CHAIN_ID = 31337;
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000B0";
+
+function deployment(
+  name: string,
+  deployer: string,
+  address: string,
+  blockNumber: number,
+): DeployedContract {
+  return {
+    name,
+    deployer,
+    address,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    blockNumber,
+    abiHash: "0x",
+    gitCommit: null,
+    deployedAt: new Date(0).toISOString(),
+    constructorArguments: [],
+  };
+}
+
+function emptyManifest(): DeploymentManifest {
+  return {
+    version: MANIFEST_VERSION,
+    network: NETWORK,
+    chainId: CHAIN_ID,
+    contracts: [],
+    pending: [],
+    failures: [],
+  };
+}
+
+describe("DeploymentManifest", function () {
+  const file = manifestPath(NETWORK);
+  const createdDir = !fs.existsSync(MANIFEST_DIR);
+
+  afterEach(function () {
+    fs.rmSync(file, { force: true });
+  });
+
+  after(function () {
+    if (createdDir) fs.rmSync(MANIFEST_DIR, { recursive: true, force: true });
+  });
+
+  describe("reading and writing", function () {
+    it("starts networks without a manifest from an empty one", function () {
+      expect(readManifest(NETWORK, CHAIN_ID)).to.deep.eq(emptyManifest());
+    });
+
+    it("reads back what it writes", function () {
+      const manifest = emptyManifest();
+      manifest.contracts.push(deployment("EquityRegistry", ALICE, ALICE, 3));
+      expect(writeManifest(manifest)).to.eq(file);
+      expect(readManifest(NETWORK, CHAIN_ID)).to.deep.eq(manifest);
+    });
+
+    it("migrates version 1 manifests, which had no pending deployments", function () {
+      const contracts = [deployment("PrivateEquityFHE", ALICE, ALICE, 1)];
+      fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          version: 1,
+          network: NETWORK,
+          chainId: CHAIN_ID,
+          contracts,
+          failures: [],
+        }),
+      );
+
+      const manifest = readManifest(NETWORK, CHAIN_ID);
+      expect(manifest.version).to.eq(MANIFEST_VERSION);
+      expect(manifest.pending).to.deep.eq([]);
+      expect(manifest.contracts).to.deep.eq(contracts);
+    });
+
+    it("rejects unknown versions and other chains' manifests", function () {
+      writeManifest({ ...emptyManifest(), version: MANIFEST_VERSION + 1 });
+      expect(() => readManifest(NETWORK, CHAIN_ID)).to.throw(
+        `的清单版本为 ${MANIFEST_VERSION + 1}`,
+      );
+
+      writeManifest(emptyManifest());
+      expect(() => readManifest(NETWORK, 1)).to.throw(
+        `属于 chainId ${CHAIN_ID}，但当前网络的 chainId 为 1`,
+      );
+    });
+  });
+
+  describe("lookups", function () {
+    it("finds each deployer's latest deployment and pending transaction", function () {
+      const manifest = emptyManifest();
+      const first = deployment("EquityRegistry", ALICE, ALICE, 1);
+      const second = deployment("EquityRegistry", ALICE, BOB, 2);
+      manifest.contracts.push(first, second);
+      manifest.pending.push({
+        name: "InvestorRegistry",
+        deployer: ALICE,
+        transactionHash: "0x01",
+        nonce: 7,
+        sentAt: new Date(0).toISOString(),
+      });
+
+      expect(findDeployment(manifest, "EquityRegistry", ALICE)).to.eq(second);
+      expect(findDeployment(manifest, "EquityRegistry", BOB)).to.eq(undefined);
+
+      const pending = findPending(manifest, "InvestorRegistry", ALICE)!;
+      expect(pending.nonce).to.eq(7);
+      expect(findPending(manifest, "InvestorRegistry", BOB)).to.eq(undefined);
+      removePending(manifest, pending);
+      expect(manifest.pending).to.deep.eq([]);
+    });
+
+    it("takes the latest deployments of a single deployer", function () {
+      const manifest = emptyManifest();
+      expect(latestDeployer(manifest)).to.eq(undefined);
+      expect(latestDeployments(manifest).size).to.eq(0);
+
+      const aliceRegistry = deployment("EquityRegistry", ALICE, ALICE, 1);
+      const aliceInvestors = deployment("InvestorRegistry", ALICE, ALICE, 2);
+      const bobRegistry = deployment("EquityRegistry", BOB, BOB, 3);
+      manifest.contracts.push(aliceRegistry, aliceInvestors, bobRegistry);
+
+      // Bob deployed last and never deployed an InvestorRegistry
+      expect(latestDeployer(manifest)).to.eq(BOB);
+      expect([...latestDeployments(manifest)]).to.deep.eq([
+        ["EquityRegistry", bobRegistry],
+      ]);
+      expect([...latestDeployments(manifest, ALICE)]).to.deep.eq([
+        ["EquityRegistry", aliceRegistry],
+        ["InvestorRegistry", aliceInvestors],
+      ]);
+    });
+  });
+
+  describe("updateFrontend", function () {
+    const touched = [
+      path.join(FRONTEND_SRC, "config.json"),
+      path.join(FRONTEND_SRC, "abi", "EquityRegistry.json"),
+      path.join(FRONTEND_SRC, "abi", "InvestorRegistry.json"),
+    ];
+    let saved: string[];
+
+    beforeEach(function () {
+      saved = touched.map((f) => fs.readFileSync(f, "utf8"));
+    });
+
+    afterEach(function () {
+      touched.forEach((f, i) => fs.writeFileSync(f, saved[i]));
+    });
+
+    const readConfig = () =>
+      JSON.parse(fs.readFileSync(touched[0], "utf8")).networks[String(CHAIN_ID)]
+        .contracts;
+
+    it("points the frontend at one deployer's contracts", async function () {
+      const manifest = emptyManifest();
+      manifest.contracts.push(
+        deployment("EquityRegistry", ALICE, ALICE, 1),
+        deployment("InvestorRegistry", ALICE, ALICE, 2),
+        deployment("EquityRegistry", BOB, BOB, 3),
+      );
+      const compiled = new Map([
+        ["EquityRegistry", await artifacts.readArtifact("EquityRegistry")],
+        ["InvestorRegistry", await artifacts.readArtifact("InvestorRegistry")],
+      ]);
+      const before = readConfig();
+
+      expect(updateFrontend(manifest, compiled)).to.deep.eq(["EquityRegistry"]);
+      let contracts = readConfig();
+      expect(contracts.registryAddress).to.eq(BOB);
+      expect(contracts.registryDeployBlock).to.eq(3);
+      expect(contracts.deployer).to.eq(BOB);
+      // Bob has no InvestorRegistry, and Alice's is not wired to Bob's registry
+      expect(contracts.investorRegistryAddress).to.eq(
+        before.investorRegistryAddress,
+      );
+      expect(JSON.parse(fs.readFileSync(touched[1], "utf8")).abi).to.deep.eq(
+        compiled.get("EquityRegistry")!.abi,
+      );
+
+      expect(updateFrontend(manifest, compiled, ALICE)).to.deep.eq([
+        "EquityRegistry",
+        "InvestorRegistry",
+      ]);
+      contracts = readConfig();
+      expect(contracts.registryAddress).to.eq(ALICE);
+      expect(contracts.investorRegistryAddress).to.eq(ALICE);
+      expect(contracts.investorRegistryDeployBlock).to.eq(2);
+      expect(contracts.deployer).to.eq(ALICE);
+    });
+
+    it("needs a config.json entry for the manifest's chain", function () {
+      expect(() =>
+        updateFrontend({ ...emptyManifest(), chainId: 5 }, new Map()),
+      ).to.throw("前端 config.json 中没有 chainId 5 的条目");
+    });
+  });
+});
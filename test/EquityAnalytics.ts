@@ -0,0 +1,586 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+  EquityAnalytics,
+  EquityAnalytics__factory,
+  EquityOrderBook,
+  EquityOrderBook__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const Side = { Bid: 0, Ask: 1 };
+const DAY = 24n * 60n * 60n;
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+  seller: HardhatEthersSigner,
+  buyer: HardhatEthersSigner,
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const stablecoinFactory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin =
+    (await stablecoinFactory.deploy()) as ConfidentialStablecoin;
+
+  const bookFactory = (await ethers.getContractFactory(
+    "EquityOrderBook",
+  )) as EquityOrderBook__factory;
+  const book = (await bookFactory.deploy(
+    registryAddress,
+    await stablecoin.getAddress(),
+  )) as EquityOrderBook;
+  const bookAddress = await book.getAddress();
+
+  const analyticsFactory = (await ethers.getContractFactory(
+    "EquityAnalytics",
+  )) as EquityAnalytics__factory;
+  const analytics = (await analyticsFactory.deploy(
+    registryAddress,
+    bookAddress,
+  )) as EquityAnalytics;
+  const analyticsAddress = await analytics.getAddress();
+  await registry.connect(issuer).setAnalytics(analyticsAddress);
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  // $5,000,000 over 10,000 shares: $500 per share
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+  await registry.connect(issuer).startTrading(1);
+
+  // The seller's shares back every ask in these tests
+  const shares = await fhevm
+    .createEncryptedInput(ledgerAddress, issuer.address)
+    .add64(1_000)
+    .encrypt();
+  await ledger
+    .connect(issuer)
+    .confidentialTransfer(
+      1,
+      seller.address,
+      shares.handles[0],
+      shares.inputProof,
+    );
+  await ledger
+    .connect(seller)
+    .setOperator(bookAddress, (await time.latest()) + 30 * 24 * 3600);
+
+  // And the buyer's stablecoin pays for them
+  const cash = await fhevm
+    .createEncryptedInput(await stablecoin.getAddress(), issuer.address)
+    .add64(1_000_000)
+    .encrypt();
+  await stablecoin
+    .connect(issuer)
+    .mint(buyer.address, cash.handles[0], cash.inputProof);
+  await stablecoin
+    .connect(buyer)
+    .setOperator(bookAddress, (await time.latest()) + 30 * 24 * 3600);
+
+  return {
+    registry,
+    registryAddress,
+    book,
+    bookAddress,
+    analytics,
+    analyticsAddress,
+  };
+}
+
+describe("EquityAnalytics", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+  let book: EquityOrderBook;
+  let bookAddress: string;
+  let analytics: EquityAnalytics;
+  let analyticsAddress: string;
+
+  async function submitPricePerShare(price: number) {
+    const input = await fhevm
+      .createEncryptedInput(analyticsAddress, signers.issuer.address)
+      .add64(price)
+      .encrypt();
+    return analytics
+      .connect(signers.issuer)
+      .submitPricePerShare(1, input.handles[0], input.inputProof);
+  }
+
+  // Alice asks `quantity` at `askPrice`; Bob takes it with a `limitPrice` ceiling
+  async function trade(askPrice: number, limitPrice: number, quantity = 10) {
+    const ask = await fhevm
+      .createEncryptedInput(bookAddress, signers.alice.address)
+      .add64(askPrice)
+      .add64(quantity)
+      .encrypt();
+    await book
+      .connect(signers.alice)
+      .placeOrder(1, Side.Ask, ask.handles[0], ask.handles[1], ask.inputProof);
+    const fill = await fhevm
+      .createEncryptedInput(bookAddress, signers.bob.address)
+      .add64(quantity)
+      .add64(limitPrice)
+      .encrypt();
+    await book
+      .connect(signers.bob)
+      .fillOrder(
+        await book.orderCount(),
+        fill.handles[0],
+        fill.handles[1],
+        fill.inputProof,
+      );
+  }
+
+  const decrypt = (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, analyticsAddress, signer);
+
+  async function decryptMark(index: number, signer: HardhatEthersSigner) {
+    const mark = (await analytics.getValuationMarks(1))[index];
+    return {
+      valuation: await decrypt(mark.valuation, signer),
+      change: await decrypt(mark.change, signer),
+      increased: await fhevm.userDecryptEbool(
+        mark.increased,
+        analyticsAddress,
+        signer,
+      ),
+    };
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      officer: ethSigners[3],
+      carol: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      registry,
+      registryAddress,
+      book,
+      bookAddress,
+      analytics,
+      analyticsAddress,
+    } = await deployFixture(
+      signers.issuer,
+      signers.officer,
+      signers.alice,
+      signers.bob,
+    ));
+  });
+
+  describe("price per share", function () {
+    it("keeps a price equal to valuation / shares rounded down", async function () {
+      await expect(submitPricePerShare(500))
+        .to.emit(analytics, "PricePerShareSubmitted")
+        .withArgs(1, (handle: string) => ethers.isHexString(handle, 32));
+      expect(
+        await decrypt(await analytics.getPricePerShare(1), signers.issuer),
+      ).to.eq(500);
+    });
+
+    it("stores zero for any other price", async function () {
+      for (const price of [499, 501, 2n ** 63n]) {
+        const input = await fhevm
+          .createEncryptedInput(analyticsAddress, signers.issuer.address)
+          .add64(price)
+          .encrypt();
+        await analytics
+          .connect(signers.issuer)
+          .submitPricePerShare(1, input.handles[0], input.inputProof);
+        expect(
+          await decrypt(await analytics.getPricePerShare(1), signers.issuer),
+        ).to.eq(0);
+      }
+    });
+
+    it("only accepts prices from the issuer", async function () {
+      const input = await fhevm
+        .createEncryptedInput(analyticsAddress, signers.alice.address)
+        .add64(500)
+        .encrypt();
+      await expect(
+        simulate(
+          analytics.connect(signers.alice).submitPricePerShare,
+          1,
+          input.handles[0],
+          input.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(analytics, "NotTokenIssuer");
+    });
+  });
+
+  describe("valuation marks", function () {
+    it("needs a trade to mark against", async function () {
+      await expect(
+        simulate(analytics.markToLastTrade, 1),
+      ).to.be.revertedWithCustomError(analytics, "NoTrades");
+    });
+
+    it("values the token at zero until an order fills", async function () {
+      // Bob's limit is below the ask, so the first match fills nothing
+      await trade(400, 300);
+      await analytics.markToLastTrade(1);
+      expect(await decryptMark(0, signers.issuer)).to.deep.eq({
+        valuation: 0n,
+        change: 0n,
+        increased: true,
+      });
+    });
+
+    it("implies valuations from the last crossing trade and tracks the change", async function () {
+      await trade(600, 600);
+      await expect(analytics.markToLastTrade(1))
+        .to.emit(analytics, "ValuationMarked")
+        .withArgs(
+          1,
+          0,
+          (handle: string) => ethers.isHexString(handle, 32),
+          (handle: string) => ethers.isHexString(handle, 32),
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+      // The first mark starts the series, so it says nothing about the $5,000,000
+      // issuance valuation
+      expect(await decryptMark(0, signers.issuer)).to.deep.eq({
+        valuation: 6_000_000n,
+        change: 0n,
+        increased: true,
+      });
+
+      // Bob's limit is below the ask, so nothing trades and the price stands
+      await trade(400, 300);
+      await analytics.markToLastTrade(1);
+      expect(await decryptMark(1, signers.issuer)).to.deep.eq({
+        valuation: 6_000_000n,
+        change: 0n,
+        increased: true,
+      });
+
+      await trade(400, 400);
+      await analytics.markToLastTrade(1);
+      expect(await decryptMark(2, signers.issuer)).to.deep.eq({
+        valuation: 4_000_000n,
+        change: 2_000_000n,
+        increased: false,
+      });
+    });
+  });
+
+  describe("metrics viewers", function () {
+    it("decrypt derived metrics but not the raw valuation or share count", async function () {
+      await submitPricePerShare(500);
+      await trade(550, 550);
+      await analytics.markToLastTrade(1);
+
+      await expect(
+        analytics
+          .connect(signers.issuer)
+          .addMetricsViewer(1, signers.carol.address),
+      )
+        .to.emit(analytics, "MetricsViewerAdded")
+        .withArgs(1, signers.carol.address);
+      expect(await analytics.getMetricsViewers(1)).to.deep.eq([
+        signers.carol.address,
+      ]);
+
+      expect(
+        await decrypt(await analytics.getPricePerShare(1), signers.carol),
+      ).to.eq(500);
+      expect((await decryptMark(0, signers.carol)).valuation).to.eq(5_500_000);
+
+      // Marks recorded after the grant are readable too, and viewers may record them
+      await analytics.connect(signers.carol).markToLastTrade(1);
+      expect((await decryptMark(1, signers.carol)).change).to.eq(0);
+
+      const token = await registry.getToken(1);
+      for (const handle of [token.encryptedValuation, token.encryptedShares]) {
+        await expect(
+          fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            handle,
+            registryAddress,
+            signers.carol,
+          ),
+        ).to.be.rejected;
+      }
+    });
+
+    it("are appointed by the issuer and may record marks", async function () {
+      await trade(600, 600);
+      await expect(
+        simulate(analytics.connect(signers.carol).markToLastTrade, 1),
+      ).to.be.revertedWithCustomError(analytics, "NotIssuerOrViewer");
+      await expect(
+        simulate(
+          analytics.connect(signers.alice).addMetricsViewer,
+          1,
+          signers.carol.address,
+        ),
+      ).to.be.revertedWithCustomError(analytics, "NotTokenIssuer");
+    });
+  });
+
+  describe("market statistics", function () {
+    async function listToken(valuation: number, shares: number) {
+      const input = await fhevm
+        .createEncryptedInput(registryAddress, signers.issuer.address)
+        .add64(valuation)
+        .add64(shares)
+        .encrypt();
+      await registry
+        .connect(signers.issuer)
+        .issueToken(
+          "Listed Co",
+          "",
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+      const tokenId = await registry.tokenCount();
+      await registry.connect(signers.officer).approveToken(tokenId, "Reviewed");
+      return tokenId;
+    }
+
+    async function requestStats(period: bigint) {
+      const receipt = await (await analytics.requestMarketStats(period)).wait();
+      const event = receipt!.logs
+        .map((log) => analytics.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "MarketStatsRequested")!;
+      return event.args.requestId as bigint;
+    }
+
+    async function publishedStats(requestId: bigint) {
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await analytics.queryFilter(
+        analytics.filters.MarketStatsPublished(requestId),
+      );
+      return {
+        period: event.args.period,
+        listings: event.args.listings,
+        totalValuation: event.args.totalValuation,
+        totalShares: event.args.totalShares,
+        tradedShares: event.args.tradedShares,
+      };
+    }
+
+    const currentPeriod = async () => BigInt(await time.latest()) / DAY;
+
+    it("publishes listed totals and a closed period's volume through the oracle", async function () {
+      const period = await currentPeriod();
+      await trade(600, 600, 10);
+      // Did not cross, so it adds nothing
+      await trade(400, 300, 5);
+      await listToken(2_000_000, 4_000);
+      await listToken(1_000_000, 1_000);
+      // Pending tokens are not listed
+      const input = await fhevm
+        .createEncryptedInput(registryAddress, signers.alice.address)
+        .add64(9_000_000)
+        .add64(9_000)
+        .encrypt();
+      await registry
+        .connect(signers.alice)
+        .issueToken(
+          "Pending Co",
+          "",
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+      expect(await registry.listedCount()).to.eq(3);
+
+      await time.increase(DAY);
+      const requestId = await requestStats(period);
+      expect(await publishedStats(requestId)).to.deep.eq({
+        period,
+        listings: 3n,
+        totalValuation: 8_000_000n,
+        totalShares: 15_000n,
+        tradedShares: 10n,
+      });
+      expect((await analytics.publicationRequests(requestId)).processed).to.eq(
+        true,
+      );
+    });
+
+    it("waits for the minimum listing count and leaves delisted tokens out", async function () {
+      const period = await currentPeriod();
+      await listToken(2_000_000, 4_000);
+      const third = await listToken(1_000_000, 1_000);
+      await registry.connect(signers.issuer).delistToken(third, "Acquired");
+      expect(await registry.listedCount()).to.eq(2);
+      await time.increase(DAY);
+      await expect(
+        simulate(analytics.requestMarketStats, period),
+      ).to.be.revertedWithCustomError(analytics, "TooFewListings");
+
+      await expect(
+        simulate(analytics.connect(signers.alice).setMinPublishedListings, 2),
+      ).to.be.revertedWithCustomError(analytics, "NotOwner");
+      await expect(analytics.setMinPublishedListings(2))
+        .to.emit(analytics, "MinPublishedListingsUpdated")
+        .withArgs(3, 2);
+
+      const stats = await publishedStats(await requestStats(period));
+      expect(stats.listings).to.eq(2);
+      expect(stats.totalValuation).to.eq(7_000_000);
+      expect(stats.totalShares).to.eq(14_000);
+      expect(stats.tradedShares).to.eq(0);
+    });
+
+    it("never lets the minimum drop to a single listing", async function () {
+      for (const minimum of [0, 1]) {
+        await expect(
+          simulate(analytics.setMinPublishedListings, minimum),
+        ).to.be.revertedWithCustomError(analytics, "MinimumTooLow");
+      }
+    });
+
+    it("publishes the totals at the period's close", async function () {
+      const period = await currentPeriod();
+      await listToken(2_000_000, 4_000);
+      await listToken(1_000_000, 1_000);
+      await time.increase(DAY);
+      // Listed and delisted after the close, before the request
+      await listToken(3_000_000, 3_000);
+      await registry.connect(signers.issuer).delistToken(1, "Acquired");
+
+      const stats = await publishedStats(await requestStats(period));
+      expect(stats.listings).to.eq(3);
+      expect(stats.totalValuation).to.eq(8_000_000);
+      expect(stats.totalShares).to.eq(15_000);
+
+      await time.increase(DAY);
+      const next = await publishedStats(await requestStats(period + 1n));
+      expect(next.listings).to.eq(3);
+      expect(next.totalValuation).to.eq(6_000_000);
+      expect(next.totalShares).to.eq(8_000);
+    });
+
+    it("publishes each ended period once and in order", async function () {
+      await listToken(2_000_000, 4_000);
+      await listToken(1_000_000, 1_000);
+      const period = await currentPeriod();
+      await expect(
+        simulate(analytics.requestMarketStats, period),
+      ).to.be.revertedWithCustomError(analytics, "InvalidPeriod");
+
+      await time.increase(2n * DAY);
+      await requestStats(period + 1n);
+      expect(await analytics.nextPeriod()).to.eq(period + 2n);
+      await expect(
+        simulate(analytics.requestMarketStats, period + 1n),
+      ).to.be.revertedWithCustomError(analytics, "AlreadyPublished");
+      await expect(
+        simulate(analytics.requestMarketStats, period),
+      ).to.be.revertedWithCustomError(analytics, "PeriodOutOfOrder");
+    });
+
+    it("rejects replayed and unknown callbacks", async function () {
+      await listToken(2_000_000, 4_000);
+      await listToken(1_000_000, 1_000);
+      const period = await currentPeriod();
+      await time.increase(DAY);
+      const requestId = await requestStats(period);
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint64", "uint64", "uint64"],
+        [1, 1, 1],
+      );
+      await expect(
+        simulate(analytics.publishMarketStats, requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(analytics, "ReplayAttempt");
+      await expect(
+        simulate(
+          analytics.publishMarketStats,
+          requestId + 1n,
+          cleartexts,
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(analytics, "UnknownRequest");
+    });
+  });
+
+  it("keeps raw inputs away from everyone but the analytics contract", async function () {
+    await expect(
+      simulate(registry.analyticsInputs, 1),
+    ).to.be.revertedWithCustomError(registry, "NotAnalytics");
+    await expect(
+      simulate(registry.marketInputs, 0),
+    ).to.be.revertedWithCustomError(registry, "NotAnalytics");
+    await expect(simulate(book.lastTradeFor, 1)).to.be.revertedWithCustomError(
+      book,
+      "NotAnalytics",
+    );
+    await expect(
+      simulate(book.periodVolumeFor, 0),
+    ).to.be.revertedWithCustomError(book, "NotAnalytics");
+
+    await expect(
+      simulate(
+        registry.connect(signers.alice).setAnalytics,
+        ethers.ZeroAddress,
+      ),
+    ).to.be.revertedWithCustomError(registry, "NotOwner");
+    await expect(registry.setAnalytics(ethers.ZeroAddress))
+      .to.emit(registry, "AnalyticsUpdated")
+      .withArgs(analyticsAddress, ethers.ZeroAddress);
+  });
+});
@@ -0,0 +1,559 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+  EquityAuction,
+  EquityAuction__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const AuctionState = { Bidding: 0, Clearing: 1, Settled: 2, Cancelled: 3 };
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  const stablecoinFactory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin =
+    (await stablecoinFactory.deploy()) as ConfidentialStablecoin;
+  const stablecoinAddress = await stablecoin.getAddress();
+
+  const auctionFactory = (await ethers.getContractFactory(
+    "EquityAuction",
+  )) as EquityAuction__factory;
+  const auction = (await auctionFactory.deploy(
+    registryAddress,
+    stablecoinAddress,
+  )) as EquityAuction;
+  const auctionAddress = await auction.getAddress();
+
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+
+  return {
+    ledger,
+    ledgerAddress,
+    stablecoin,
+    stablecoinAddress,
+    auction,
+    auctionAddress,
+  };
+}
+
+describe("EquityAuction", function () {
+  let signers: Signers;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+  let stablecoin: ConfidentialStablecoin;
+  let stablecoinAddress: string;
+  let auction: EquityAuction;
+  let auctionAddress: string;
+
+  async function createAuction(sharesOffered = 1_000) {
+    const deadline = (await time.latest()) + 3600;
+    await auction
+      .connect(signers.issuer)
+      .createAuction(1, sharesOffered, deadline);
+    return { auctionId: await auction.auctionCount(), deadline };
+  }
+
+  async function bidArgs(
+    signer: HardhatEthersSigner,
+    auctionId: bigint,
+    price: number,
+    quantity: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(auctionAddress, signer.address)
+      .add64(price)
+      .add64(quantity)
+      .encrypt();
+    return [
+      auctionId,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    ] as const;
+  }
+
+  async function bid(
+    signer: HardhatEthersSigner,
+    auctionId: bigint,
+    price: number,
+    quantity: number,
+  ) {
+    const args = await bidArgs(signer, auctionId, price, quantity);
+    return auction.connect(signer).placeBid(...args);
+  }
+
+  async function simulateBid(
+    signer: HardhatEthersSigner,
+    auctionId: bigint,
+    price: number,
+    quantity: number,
+  ) {
+    const args = await bidArgs(signer, auctionId, price, quantity);
+    return simulate(auction.connect(signer).placeBid, ...args);
+  }
+
+  async function fund(signer: HardhatEthersSigner, amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(stablecoinAddress, signers.issuer.address)
+      .add64(amount)
+      .encrypt();
+    await stablecoin
+      .connect(signers.issuer)
+      .mint(signer.address, input.handles[0], input.inputProof);
+    await stablecoin
+      .connect(signer)
+      .setOperator(auctionAddress, (await time.latest()) + 86400);
+  }
+
+  // Runs clearAuction until it asks the oracle for the price; returns the number of calls
+  async function runClearing(auctionId: bigint, deadline: number) {
+    await fhevm.awaitDecryptionOracle();
+    await time.increaseTo(deadline);
+    let calls = 0;
+    do {
+      await auction.clearAuction(auctionId);
+      calls++;
+    } while (
+      (await auction.getAuction(auctionId)).state ===
+      BigInt(AuctionState.Bidding)
+    );
+    return calls;
+  }
+
+  async function clear(auctionId: bigint, deadline: number) {
+    await runClearing(auctionId, deadline);
+    await fhevm.awaitDecryptionOracle();
+    const [event] = await auction.queryFilter(
+      auction.filters.AuctionCleared(auctionId),
+    );
+    return event.args.clearingPrice;
+  }
+
+  const decrypt = (
+    handle: string,
+    contractAddress: string,
+    signer: HardhatEthersSigner,
+  ) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+
+  const allocationOf = async (auctionId: bigint, signer: HardhatEthersSigner) =>
+    decrypt(
+      (await auction.getBid(auctionId, signer.address)).allocation,
+      auctionAddress,
+      signer,
+    );
+
+  const balanceOf = async (signer: HardhatEthersSigner) =>
+    decrypt(
+      await ledger.confidentialBalanceOf(1, signer.address),
+      ledgerAddress,
+      signer,
+    );
+
+  const cashOf = async (signer: HardhatEthersSigner) =>
+    decrypt(
+      await stablecoin.confidentialBalanceOf(signer.address),
+      stablecoinAddress,
+      signer,
+    );
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+      officer: ethSigners[6],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      ledger,
+      ledgerAddress,
+      stablecoin,
+      stablecoinAddress,
+      auction,
+      auctionAddress,
+    } = await deployFixture(signers.issuer, signers.officer));
+  });
+
+  describe("bidding", function () {
+    it("only lets the issuer auction a listed token", async function () {
+      const deadline = (await time.latest()) + 3600;
+      await expect(
+        simulate(
+          auction.connect(signers.alice).createAuction,
+          1,
+          1_000,
+          deadline,
+        ),
+      ).to.be.revertedWithCustomError(auction, "NotTokenIssuer");
+      await expect(
+        simulate(auction.connect(signers.issuer).createAuction, 1, 0, deadline),
+      ).to.be.revertedWithCustomError(auction, "NoSharesOffered");
+      await expect(
+        simulate(
+          auction.connect(signers.issuer).createAuction,
+          1,
+          1_000,
+          await time.latest(),
+        ),
+      ).to.be.revertedWithCustomError(auction, "InvalidDeadline");
+
+      await expect(
+        auction.connect(signers.issuer).createAuction(1, 1_000, deadline),
+      )
+        .to.emit(auction, "AuctionCreated")
+        .withArgs(1, 1, signers.issuer.address, 1_000, deadline);
+      expect(await auction.getTokenAuctions(1)).to.deep.eq([1n]);
+    });
+
+    it("keeps each bid sealed from everyone but its bidder", async function () {
+      const { auctionId, deadline } = await createAuction();
+      await fund(signers.alice, 10_000);
+      await expect(bid(signers.alice, auctionId, 12, 500)).to.emit(
+        auction,
+        "BidPlaced",
+      );
+      await expect(
+        simulateBid(signers.alice, auctionId, 13, 500),
+      ).to.be.revertedWithCustomError(auction, "AlreadyBid");
+
+      const sealed = await auction.getBid(auctionId, signers.alice.address);
+      expect(await decrypt(sealed.price, auctionAddress, signers.alice)).to.eq(
+        12,
+      );
+      for (const signer of [signers.bob, signers.issuer]) {
+        await expect(decrypt(sealed.price, auctionAddress, signer)).to.be
+          .rejected;
+        await expect(decrypt(sealed.quantity, auctionAddress, signer)).to.be
+          .rejected;
+      }
+
+      await expect(
+        simulate(auction.clearAuction, auctionId),
+      ).to.be.revertedWithCustomError(auction, "BiddingOpen");
+      await time.increaseTo(deadline);
+      await expect(
+        simulateBid(signers.bob, auctionId, 10, 400),
+      ).to.be.revertedWithCustomError(auction, "BiddingClosed");
+    });
+
+    it("escrows each bid's price times its quantity", async function () {
+      const { auctionId } = await createAuction();
+      await expect(
+        simulateBid(signers.alice, auctionId, 12, 500),
+      ).to.be.revertedWithCustomError(stablecoin, "UnauthorizedSpender");
+
+      await fund(signers.alice, 10_000);
+      await bid(signers.alice, auctionId, 12, 500);
+      expect(await cashOf(signers.alice)).to.eq(10_000 - 6_000);
+      expect(
+        await decrypt(
+          (await auction.getBid(auctionId, signers.alice.address)).escrow,
+          auctionAddress,
+          signers.alice,
+        ),
+      ).to.eq(6_000);
+    });
+
+    it("drops bids that escrow nothing and frees their places", async function () {
+      const { auctionId } = await createAuction();
+      await fund(signers.alice, 5_999);
+      await fund(signers.bob, 10_000);
+      await fund(signers.carol, 10_000);
+      await bid(signers.alice, auctionId, 12, 500);
+      // Nothing to pay for
+      await bid(signers.bob, auctionId, 12, 0);
+      await bid(signers.carol, auctionId, 10, 300);
+      expect(await auction.getBidCount(auctionId)).to.eq(3);
+
+      await fhevm.awaitDecryptionOracle();
+      const dropped = await auction.queryFilter(
+        auction.filters.BidDropped(auctionId),
+      );
+      expect(dropped.map((event) => event.args.bidder)).to.have.members([
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+      expect(await auction.getBidCount(auctionId)).to.eq(1);
+      expect(
+        (await auction.getBid(auctionId, signers.alice.address)).bidder,
+      ).to.eq(ethers.ZeroAddress);
+      expect(
+        (await auction.getBid(auctionId, signers.carol.address)).bidder,
+      ).to.eq(signers.carol.address);
+      expect(await cashOf(signers.alice)).to.eq(5_999);
+
+      // A dropped bidder may bid again
+      await bid(signers.alice, auctionId, 11, 400);
+      expect(await auction.getBidCount(auctionId)).to.eq(2);
+    });
+
+    it("keeps an unfunded bid once clearing has begun, filling nothing", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      await fund(signers.alice, 10_000);
+      await bid(signers.alice, auctionId, 12, 500);
+      await fhevm.awaitDecryptionOracle();
+      await fund(signers.bob, 100);
+      await bid(signers.bob, auctionId, 12, 500);
+
+      await time.increaseTo(deadline);
+      await auction.clearAuction(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await auction.getBidCount(auctionId)).to.eq(2);
+      expect(await allocationOf(auctionId, signers.alice)).to.eq(500);
+      expect(await allocationOf(auctionId, signers.bob)).to.eq(0);
+    });
+  });
+
+  describe("clearing", function () {
+    it("clears at the highest price demand covers and fills the margin in bidding order", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      for (const signer of [
+        signers.alice,
+        signers.bob,
+        signers.carol,
+        signers.dave,
+      ]) {
+        await fund(signer, 10_000);
+      }
+      await bid(signers.alice, auctionId, 12, 500);
+      await bid(signers.bob, auctionId, 10, 400);
+      await bid(signers.carol, auctionId, 10, 300);
+      await bid(signers.dave, auctionId, 8, 600);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(auctionAddress, deadline + 3600);
+
+      await expect(
+        simulate(auction.connect(signers.alice).claimAllocation, auctionId),
+      ).to.be.revertedWithCustomError(auction, "NotSettled");
+      // Demand is 500 at 12, 1,200 at 10 and 1,800 at 8
+      expect(await clear(auctionId, deadline)).to.eq(10);
+      expect((await auction.getAuction(auctionId)).state).to.eq(
+        AuctionState.Settled,
+      );
+
+      expect(await allocationOf(auctionId, signers.alice)).to.eq(500);
+      expect(await allocationOf(auctionId, signers.bob)).to.eq(400);
+      expect(await allocationOf(auctionId, signers.carol)).to.eq(100);
+      expect(await allocationOf(auctionId, signers.dave)).to.eq(0);
+      await expect(
+        decrypt(
+          (await auction.getBid(auctionId, signers.alice.address)).allocation,
+          auctionAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+
+      for (const signer of [
+        signers.alice,
+        signers.bob,
+        signers.carol,
+        signers.dave,
+      ]) {
+        await expect(
+          auction.connect(signer).claimAllocation(auctionId),
+        ).to.emit(auction, "AllocationClaimed");
+      }
+      expect(await balanceOf(signers.alice)).to.eq(500);
+      expect(await balanceOf(signers.carol)).to.eq(100);
+      expect(await balanceOf(signers.issuer)).to.eq(10_000 - 1_000);
+      // Every allocation is paid for at the clearing price of 10 and the rest refunded
+      expect(await cashOf(signers.alice)).to.eq(10_000 - 5_000);
+      expect(await cashOf(signers.carol)).to.eq(10_000 - 1_000);
+      expect(await cashOf(signers.dave)).to.eq(10_000);
+      expect(await cashOf(signers.issuer)).to.eq(10_000);
+
+      await expect(
+        simulate(auction.connect(signers.alice).claimAllocation, auctionId),
+      ).to.be.revertedWithCustomError(auction, "AlreadyClaimed");
+      await expect(
+        simulate(auction.connect(signers.issuer).claimAllocation, auctionId),
+      ).to.be.revertedWithCustomError(auction, "NoBid");
+    });
+
+    it("clears at the lowest bid when undersubscribed", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      await fund(signers.alice, 10_000);
+      await fund(signers.bob, 10_000);
+      await bid(signers.alice, auctionId, 12, 300);
+      await bid(signers.bob, auctionId, 9, 200);
+
+      expect(await clear(auctionId, deadline)).to.eq(9);
+      expect(await allocationOf(auctionId, signers.alice)).to.eq(300);
+      expect(await allocationOf(auctionId, signers.bob)).to.eq(200);
+    });
+
+    it("caps each bid at the shares offered", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      await fund(signers.alice, 20_000);
+      await fund(signers.bob, 20_000);
+      await bid(signers.alice, auctionId, 12, 5_000);
+      await bid(signers.bob, auctionId, 15, 400);
+
+      expect(await clear(auctionId, deadline)).to.eq(12);
+      expect(await allocationOf(auctionId, signers.bob)).to.eq(400);
+      expect(await allocationOf(auctionId, signers.alice)).to.eq(600);
+    });
+
+    it("needs the issuer to let the auction move their shares", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      await fund(signers.alice, 10_000);
+      await bid(signers.alice, auctionId, 12, 500);
+      await clear(auctionId, deadline);
+
+      await expect(
+        simulate(auction.connect(signers.alice).claimAllocation, auctionId),
+      ).to.be.revertedWithCustomError(ledger, "UnauthorizedSpender");
+      expect((await auction.getBid(auctionId, signers.alice.address)).claimed)
+        .to.be.false;
+    });
+
+    it("refunds a payment the issuer's shares cannot cover", async function () {
+      const { auctionId, deadline } = await createAuction(20_000);
+      await fund(signers.alice, 200_000);
+      await bid(signers.alice, auctionId, 12, 15_000);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(auctionAddress, deadline + 3600);
+      await clear(auctionId, deadline);
+
+      await auction.connect(signers.alice).claimAllocation(auctionId);
+      expect(await balanceOf(signers.alice)).to.eq(0);
+      expect(await cashOf(signers.alice)).to.eq(200_000);
+      expect(await cashOf(signers.issuer)).to.eq(0);
+    });
+
+    it("cancels an auction without bids", async function () {
+      const { auctionId, deadline } = await createAuction();
+      await time.increaseTo(deadline);
+      await expect(auction.clearAuction(auctionId))
+        .to.emit(auction, "AuctionCancelled")
+        .withArgs(auctionId);
+      await expect(
+        simulate(auction.clearAuction, auctionId),
+      ).to.be.revertedWithCustomError(auction, "BiddingClosed");
+    });
+
+    it("clears a full auction over several calls", async function () {
+      const { auctionId, deadline } = await createAuction(1_000);
+      const bidders = (await ethers.getSigners()).filter(
+        (signer) =>
+          signer.address !== signers.issuer.address &&
+          signer.address !== signers.officer.address,
+      );
+      const maxBids = Number(await auction.MAX_BIDS());
+      // Prices 20 down to 5, 100 shares each: the ten bids at 11 or more cover the offer
+      for (const [i, signer] of bidders.slice(0, maxBids).entries()) {
+        await fund(signer, 2_000);
+        await bid(signer, auctionId, 20 - i, 100);
+      }
+      const late = bidders[maxBids];
+      await fund(late, 2_000);
+      await expect(
+        simulateBid(late, auctionId, 30, 100),
+      ).to.be.revertedWithCustomError(auction, "TooManyBids");
+
+      expect(await runClearing(auctionId, deadline)).to.be.greaterThan(1);
+      const progress = await auction.queryFilter(
+        auction.filters.ClearingProgress(auctionId),
+      );
+      expect(progress.length).to.be.greaterThan(0);
+      await fhevm.awaitDecryptionOracle();
+      expect((await auction.getAuction(auctionId)).clearingPrice).to.eq(11);
+      expect(await allocationOf(auctionId, bidders[0])).to.eq(100);
+      expect(await allocationOf(auctionId, bidders[9])).to.eq(100);
+      expect(await allocationOf(auctionId, bidders[10])).to.eq(0);
+      expect(await allocationOf(auctionId, bidders[maxBids - 1])).to.eq(0);
+    });
+
+    it("rejects replayed and unknown callbacks", async function () {
+      const { auctionId, deadline } = await createAuction();
+      await fund(signers.alice, 10_000);
+      await bid(signers.alice, auctionId, 12, 500);
+      await clear(auctionId, deadline);
+      const [event] = await auction.queryFilter(
+        auction.filters.AuctionClearing(auctionId),
+      );
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint64"],
+        [1],
+      );
+      await expect(
+        simulate(auction.settleAuction, event.args.requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(auction, "ReplayAttempt");
+      await expect(
+        simulate(
+          auction.settleAuction,
+          event.args.requestId + 1n,
+          cleartexts,
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(auction, "UnknownRequest");
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  EquityCapTable,
+  EquityCapTable__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  InvestorRegistry,
+  InvestorRegistry__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const ClassKind = { Common: 0, Preferred: 1 } as const;
+
+async function deployFixture() {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const capTableFactory = (await ethers.getContractFactory(
+    "EquityCapTable",
+  )) as EquityCapTable__factory;
+  const capTable = (await capTableFactory.deploy(
+    registryAddress,
+  )) as EquityCapTable;
+  const capTableAddress = await capTable.getAddress();
+
+  return { registry, registryAddress, capTable, capTableAddress };
+}
+
+describe("EquityCapTable", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+  let capTable: EquityCapTable;
+  let capTableAddress: string;
+
+  async function encryptAmount(amount: number) {
+    return fhevm
+      .createEncryptedInput(capTableAddress, signers.alice.address)
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function recordHolding(
+    classId: number,
+    holder: HardhatEthersSigner,
+    shares: number,
+  ) {
+    const input = await encryptAmount(shares);
+    return capTable
+      .connect(signers.alice)
+      .recordHolding(
+        1,
+        classId,
+        holder.address,
+        input.handles[0],
+        input.inputProof,
+      );
+  }
+
+  async function setOptionPool(size: number) {
+    const input = await encryptAmount(size);
+    return capTable
+      .connect(signers.alice)
+      .setOptionPool(1, input.handles[0], input.inputProof);
+  }
+
+  async function grantOptions(holder: HardhatEthersSigner, amount: number) {
+    const input = await encryptAmount(amount);
+    return capTable
+      .connect(signers.alice)
+      .grantOptions(1, holder.address, input.handles[0], input.inputProof);
+  }
+
+  async function decrypt(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      handle,
+      capTableAddress,
+      signer,
+    );
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ registry, registryAddress, capTable, capTableAddress } =
+      await deployFixture());
+
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signers.alice.address)
+      .add64(5_000_000)
+      .add64(10_000)
+      .encrypt();
+    await registry
+      .connect(signers.alice)
+      .issueToken(
+        "Acme Corp",
+        "",
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      );
+    await capTable
+      .connect(signers.alice)
+      .addShareClass(1, "Common", ClassKind.Common);
+    await capTable
+      .connect(signers.alice)
+      .addShareClass(1, "Series A Preferred", ClassKind.Preferred);
+  });
+
+  it("lists share classes in creation order", async function () {
+    const classes = await capTable.getShareClasses(1);
+    expect(classes.map((c) => [c.id, c.name, c.kind])).to.deep.eq([
+      [0n, "Common", BigInt(ClassKind.Common)],
+      [1n, "Series A Preferred", BigInt(ClassKind.Preferred)],
+    ]);
+
+    await expect(
+      simulate(
+        capTable.connect(signers.alice).addShareClass,
+        1,
+        "",
+        ClassKind.Common,
+      ),
+    ).to.be.revertedWithCustomError(capTable, "EmptyClassName");
+  });
+
+  it("sums holdings per class and overall without decrypting them", async function () {
+    await expect(recordHolding(0, signers.alice, 6_000))
+      .to.emit(capTable, "HoldingRecorded")
+      .withArgs(1, 0, signers.alice.address, (handle: string) =>
+        ethers.isHexString(handle, 32),
+      );
+    await recordHolding(0, signers.bob, 1_000);
+    await recordHolding(1, signers.bob, 2_000);
+    // Replacing a position adjusts the totals by the difference
+    await recordHolding(0, signers.bob, 1_500);
+
+    const holdings = await capTable.getHoldings(1);
+    expect(holdings.map((h) => [h.classId, h.holder])).to.deep.eq([
+      [0n, signers.alice.address],
+      [0n, signers.bob.address],
+      [1n, signers.bob.address],
+    ]);
+
+    const classes = await capTable.getShareClasses(1);
+    expect(await decrypt(classes[0].issued, signers.alice)).to.eq(7_500);
+    expect(await decrypt(classes[1].issued, signers.alice)).to.eq(2_000);
+
+    const totals = await capTable.getTotals(1);
+    expect(await decrypt(totals.issued, signers.alice)).to.eq(9_500);
+    expect(await decrypt(totals.fullyDiluted, signers.alice)).to.eq(9_500);
+  });
+
+  it("counts the whole option pool in the fully diluted total", async function () {
+    await recordHolding(0, signers.alice, 8_000);
+    await setOptionPool(2_000);
+    await grantOptions(signers.bob, 500);
+    await grantOptions(signers.bob, 250);
+    // Larger than the 1_250 options left, so nothing is granted
+    await grantOptions(signers.carol, 1_500);
+
+    const totals = await capTable.getTotals(1);
+    expect(await decrypt(totals.optionPool, signers.alice)).to.eq(2_000);
+    expect(await decrypt(totals.optionsGranted, signers.alice)).to.eq(750);
+    expect(await decrypt(totals.fullyDiluted, signers.alice)).to.eq(10_000);
+
+    const grants = await capTable.getOptionGrants(1);
+    expect(await decrypt(grants[0].options, signers.bob)).to.eq(750);
+    expect(await decrypt(grants[1].options, signers.carol)).to.eq(0);
+
+    // The pool cannot shrink below what has already been granted
+    await setOptionPool(100);
+    const resized = await capTable.getTotals(1);
+    expect(await decrypt(resized.optionPool, signers.alice)).to.eq(750);
+    expect(await decrypt(resized.fullyDiluted, signers.alice)).to.eq(8_750);
+  });
+
+  it("lets holders decrypt only their own rows", async function () {
+    await recordHolding(0, signers.alice, 6_000);
+    await recordHolding(1, signers.bob, 2_000);
+    const [aliceRow, bobRow] = await capTable.getHoldings(1);
+
+    expect(await decrypt(bobRow.shares, signers.bob)).to.eq(2_000);
+    expect(await decrypt(bobRow.shares, signers.alice)).to.eq(2_000);
+    await expect(decrypt(aliceRow.shares, signers.bob)).to.be.rejected;
+
+    const totals = await capTable.getTotals(1);
+    await expect(decrypt(totals.fullyDiluted, signers.bob)).to.be.rejected;
+  });
+
+  it("gives viewers the aggregates at each published checkpoint", async function () {
+    await recordHolding(0, signers.alice, 6_000);
+    await capTable.connect(signers.alice).publishCheckpoint(1);
+    await expect(
+      capTable.connect(signers.alice).addViewer(1, signers.carol.address),
+    )
+      .to.emit(capTable, "ViewerAdded")
+      .withArgs(1, signers.carol.address);
+    expect(await capTable.isViewer(1, signers.carol.address)).to.eq(true);
+    expect(await capTable.getViewers(1)).to.deep.eq([signers.carol.address]);
+    const first = await capTable.getCheckpoint(1);
+    expect(await decrypt(first.totals.issued, signers.carol)).to.eq(6_000);
+
+    await recordHolding(1, signers.bob, 2_000);
+    await setOptionPool(1_000);
+    await expect(capTable.connect(signers.alice).publishCheckpoint(1)).to.emit(
+      capTable,
+      "CheckpointPublished",
+    );
+
+    const checkpoint = await capTable.getCheckpoint(1);
+    expect(checkpoint.publishedAt).to.eq(await time.latest());
+    expect(await decrypt(checkpoint.totals.issued, signers.carol)).to.eq(8_000);
+    expect(await decrypt(checkpoint.totals.fullyDiluted, signers.carol)).to.eq(
+      9_000,
+    );
+    expect(await decrypt(checkpoint.classIssued[0], signers.carol)).to.eq(
+      6_000,
+    );
+
+    const [aliceRow] = await capTable.getHoldings(1);
+    await expect(decrypt(aliceRow.shares, signers.carol)).to.be.rejected;
+  });
+
+  it("keeps the live totals from viewers between checkpoints", async function () {
+    await capTable.connect(signers.alice).addViewer(1, signers.carol.address);
+    await recordHolding(0, signers.alice, 6_000);
+    await recordHolding(1, signers.bob, 2_000);
+
+    const totals = await capTable.getTotals(1);
+    await expect(decrypt(totals.issued, signers.carol)).to.be.rejected;
+    const classes = await capTable.getShareClasses(1);
+    await expect(decrypt(classes[1].issued, signers.carol)).to.be.rejected;
+    expect((await capTable.getCheckpoint(1)).publishedAt).to.eq(0);
+    await expect(
+      simulate(capTable.connect(signers.bob).publishCheckpoint, 1),
+    ).to.be.revertedWithCustomError(capTable, "NotTokenIssuer");
+  });
+
+  it("only adds qualified viewers once an allowlist is set", async function () {
+    const factory = (await ethers.getContractFactory(
+      "InvestorRegistry",
+    )) as InvestorRegistry__factory;
+    const investors = (await factory.deploy()) as InvestorRegistry;
+    await registry.setInvestorRegistry(await investors.getAddress());
+
+    await expect(
+      simulate(
+        capTable.connect(signers.alice).addViewer,
+        1,
+        signers.carol.address,
+      ),
+    ).to.be.revertedWithCustomError(capTable, "ViewerNotQualified");
+
+    await investors.attestInvestor(
+      signers.carol.address,
+      840,
+      (await time.latest()) + 3600,
+    );
+    await expect(
+      capTable.connect(signers.alice).addViewer(1, signers.carol.address),
+    ).to.emit(capTable, "ViewerAdded");
+  });
+
+  it("restricts the cap table to the token issuer", async function () {
+    await expect(
+      simulate(capTable.connect(signers.bob).addShareClass, 1, "Common", 0),
+    ).to.be.revertedWithCustomError(capTable, "NotTokenIssuer");
+    await expect(
+      simulate(capTable.connect(signers.bob).addViewer, 1, signers.bob.address),
+    ).to.be.revertedWithCustomError(capTable, "NotTokenIssuer");
+    const input = await encryptAmount(1);
+    await expect(
+      simulate(
+        capTable.connect(signers.alice).recordHolding,
+        1,
+        2,
+        signers.bob.address,
+        input.handles[0],
+        input.inputProof,
+      ),
+    ).to.be.revertedWithCustomError(capTable, "UnknownClass");
+    await expect(
+      simulate(
+        capTable.connect(signers.alice).recordHolding,
+        1,
+        0,
+        ethers.ZeroAddress,
+        input.handles[0],
+        input.inputProof,
+      ),
+    ).to.be.revertedWithCustomError(capTable, "InvalidHolder");
+  });
+});
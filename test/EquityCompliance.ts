@@ -0,0 +1,498 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  EquityCompliance,
+  EquityCompliance__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+  HoldingPeriodRule,
+  InvestorRegistry,
+  InvestorRegistry__factory,
+  JurisdictionRule,
+  MaxHoldersRule,
+  RightOfFirstRefusalRule,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const US = 840;
+const DE = 276;
+
+async function deployFixture(signers: Signers) {
+  const { issuer, alice, bob, carol, officer } = signers;
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const investorsFactory = (await ethers.getContractFactory(
+    "InvestorRegistry",
+  )) as InvestorRegistry__factory;
+  const investors = (await investorsFactory.deploy()) as InvestorRegistry;
+  const expiresAt = (await time.latest()) + 365 * 86400;
+  for (const [investor, jurisdiction] of [
+    [issuer, US],
+    [alice, US],
+    [bob, DE],
+    [carol, US],
+  ] as const) {
+    await investors.attestInvestor(investor.address, jurisdiction, expiresAt);
+  }
+  await registry.setInvestorRegistry(await investors.getAddress());
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.setShareLedger(ledgerAddress);
+
+  const complianceFactory = (await ethers.getContractFactory(
+    "EquityCompliance",
+  )) as EquityCompliance__factory;
+  const compliance = (await complianceFactory.deploy(
+    registryAddress,
+  )) as EquityCompliance;
+  await registry.setTransferCompliance(await compliance.getAddress());
+
+  const deployRule = async (name: string) =>
+    (await ethers.getContractFactory(name)).deploy(registryAddress);
+  const jurisdictionRule = (await deployRule(
+    "JurisdictionRule",
+  )) as unknown as JurisdictionRule;
+  const maxHoldersRule = (await deployRule(
+    "MaxHoldersRule",
+  )) as unknown as MaxHoldersRule;
+  const holdingPeriodRule = (await deployRule(
+    "HoldingPeriodRule",
+  )) as unknown as HoldingPeriodRule;
+  const rofrRule = (await deployRule(
+    "RightOfFirstRefusalRule",
+  )) as unknown as RightOfFirstRefusalRule;
+
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+  await registry.connect(issuer).startTrading(1);
+
+  return {
+    registry,
+    ledger,
+    ledgerAddress,
+    compliance,
+    jurisdictionRule,
+    maxHoldersRule,
+    holdingPeriodRule,
+    rofrRule,
+  };
+}
+
+describe("EquityCompliance", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+  let compliance: EquityCompliance;
+  let jurisdictionRule: JurisdictionRule;
+  let maxHoldersRule: MaxHoldersRule;
+  let holdingPeriodRule: HoldingPeriodRule;
+  let rofrRule: RightOfFirstRefusalRule;
+
+  async function transferArgs(
+    from: HardhatEthersSigner,
+    to: HardhatEthersSigner,
+    amount: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, from.address)
+      .add64(amount)
+      .encrypt();
+    return [1, to.address, input.handles[0], input.inputProof] as const;
+  }
+
+  async function transfer(
+    from: HardhatEthersSigner,
+    to: HardhatEthersSigner,
+    amount = 100,
+  ) {
+    const args = await transferArgs(from, to, amount);
+    return ledger.connect(from).confidentialTransfer(...args);
+  }
+
+  // Under a compliance engine holders only send to recipients who accepted them
+  const accept = async (
+    recipient: HardhatEthersSigner,
+    sender: HardhatEthersSigner,
+  ) =>
+    ledger
+      .connect(recipient)
+      .acceptTransfersFrom(sender.address, (await time.latest()) + 30 * 86400);
+
+  const expectRestricted = async (
+    from: HardhatEthersSigner,
+    to: HardhatEthersSigner,
+  ) => {
+    const args = await transferArgs(from, to, 100);
+    await expect(
+      simulate(ledger.connect(from).confidentialTransfer, ...args),
+    ).to.be.revertedWithCustomError(ledger, "TransferRestricted");
+  };
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      officer: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      registry,
+      ledger,
+      ledgerAddress,
+      compliance,
+      jurisdictionRule,
+      maxHoldersRule,
+      holdingPeriodRule,
+      rofrRule,
+    } = await deployFixture(signers));
+  });
+
+  describe("engine", function () {
+    it("lets only the issuer attach and detach rules", async function () {
+      const rule = await jurisdictionRule.getAddress();
+      await expect(
+        simulate(compliance.connect(signers.alice).addRule, 1, rule),
+      ).to.be.revertedWithCustomError(compliance, "NotTokenIssuer");
+      await expect(compliance.addRule(1, rule))
+        .to.emit(compliance, "RuleAdded")
+        .withArgs(1, rule);
+      await expect(
+        simulate(compliance.addRule, 1, rule),
+      ).to.be.revertedWithCustomError(compliance, "RuleAlreadyAdded");
+      expect(await compliance.getRules(1)).to.deep.eq([rule]);
+
+      await expect(compliance.removeRule(1, rule))
+        .to.emit(compliance, "RuleRemoved")
+        .withArgs(1, rule);
+      await expect(
+        simulate(compliance.removeRule, 1, rule),
+      ).to.be.revertedWithCustomError(compliance, "UnknownRule");
+    });
+
+    it("passes every transfer when a token has no rules", async function () {
+      expect(
+        await compliance.canTransfer(
+          1,
+          signers.alice.address,
+          signers.bob.address,
+        ),
+      ).to.deep.eq([true, "", ""]);
+      await expect(transfer(signers.issuer, signers.bob)).to.emit(
+        ledger,
+        "ConfidentialTransfer",
+      );
+    });
+
+    it("only takes transfer reports from the ledger", async function () {
+      await expect(
+        simulate(
+          compliance.transferred,
+          1,
+          signers.alice.address,
+          signers.bob.address,
+        ),
+      ).to.be.revertedWithCustomError(compliance, "NotShareLedger");
+      await expect(
+        simulate(
+          maxHoldersRule.transferred,
+          1,
+          signers.alice.address,
+          signers.bob.address,
+        ),
+      ).to.be.revertedWithCustomError(maxHoldersRule, "NotCompliance");
+      await expect(
+        simulate(
+          registry.connect(signers.alice).setTransferCompliance,
+          signers.alice.address,
+        ),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+  });
+
+  describe("rules", function () {
+    it("only sends shares to allowed jurisdictions", async function () {
+      await compliance.addRule(1, await jurisdictionRule.getAddress());
+      await expect(
+        simulate(
+          jurisdictionRule.connect(signers.alice).setJurisdictions,
+          1,
+          [US],
+          true,
+        ),
+      ).to.be.revertedWithCustomError(jurisdictionRule, "NotTokenIssuer");
+      await jurisdictionRule.setJurisdictions(1, [US], true);
+
+      expect(
+        await compliance.canTransfer(
+          1,
+          signers.issuer.address,
+          signers.bob.address,
+        ),
+      ).to.deep.eq([
+        false,
+        "Jurisdiction allowlist",
+        "Recipient's jurisdiction is not allowed",
+      ]);
+      await expectRestricted(signers.issuer, signers.bob);
+      await transfer(signers.issuer, signers.alice);
+
+      await jurisdictionRule.setJurisdictions(1, [DE], true);
+      await accept(signers.bob, signers.alice);
+      await transfer(signers.alice, signers.bob);
+    });
+
+    it("only counts holders until the issuer sets a cap", async function () {
+      await compliance.addRule(1, await maxHoldersRule.getAddress());
+
+      await transfer(signers.issuer, signers.alice);
+      await transfer(signers.issuer, signers.bob);
+      expect(await maxHoldersRule.holderCount(1)).to.eq(2);
+      await maxHoldersRule.setMaxHolders(1, 2);
+      await expectRestricted(signers.issuer, signers.carol);
+    });
+
+    it("caps the number of holders of record", async function () {
+      await compliance.addRule(1, await maxHoldersRule.getAddress());
+      await maxHoldersRule.setMaxHolders(1, 2);
+
+      await transfer(signers.issuer, signers.alice);
+      await transfer(signers.issuer, signers.bob);
+      expect(await maxHoldersRule.holderCount(1)).to.eq(2);
+      await expectRestricted(signers.issuer, signers.carol);
+      // Existing holders and the issuer can still receive
+      await accept(signers.bob, signers.alice);
+      await transfer(signers.alice, signers.bob);
+      await transfer(signers.alice, signers.issuer);
+      expect(await maxHoldersRule.holderCount(1)).to.eq(2);
+    });
+
+    it("holds received shares for the holding period", async function () {
+      await compliance.addRule(1, await holdingPeriodRule.getAddress());
+      await holdingPeriodRule.setHoldingPeriod(1, 86400);
+
+      await transfer(signers.issuer, signers.alice);
+      const [, , reason] = await compliance.canTransfer(
+        1,
+        signers.alice.address,
+        signers.bob.address,
+      );
+      expect(reason).to.eq("Sender's holding period has not ended");
+      await accept(signers.bob, signers.alice);
+      await expectRestricted(signers.alice, signers.bob);
+
+      await time.increase(86400);
+      await transfer(signers.alice, signers.bob);
+    });
+
+    it("gives the issuer first refusal on secondary sales", async function () {
+      await compliance.addRule(1, await rofrRule.getAddress());
+      await rofrRule.setResponseWindow(1, 3 * 86400);
+      await transfer(signers.issuer, signers.alice, 1_000);
+      await accept(signers.bob, signers.alice);
+      await accept(signers.carol, signers.alice);
+
+      await expectRestricted(signers.alice, signers.bob);
+      await expect(rofrRule.connect(signers.alice).giveNotice(1, signers.bob))
+        .to.emit(rofrRule, "SaleNoticeGiven")
+        .withArgs(1, signers.alice.address, signers.bob.address);
+      const [, , reason] = await compliance.canTransfer(
+        1,
+        signers.alice.address,
+        signers.bob.address,
+      );
+      expect(reason).to.eq("The issuer's response window is still open");
+      await expect(
+        simulate(rofrRule.connect(signers.bob).waive, 1, signers.alice.address),
+      ).to.be.revertedWithCustomError(rofrRule, "NotTokenIssuer");
+
+      await rofrRule.waive(1, signers.alice.address);
+      await transfer(signers.alice, signers.bob);
+      // A notice covers one sale
+      await expectRestricted(signers.alice, signers.bob);
+
+      await rofrRule.connect(signers.alice).giveNotice(1, signers.carol);
+      await rofrRule.exercise(1, signers.alice.address);
+      await expect(
+        simulate(rofrRule.waive, 1, signers.alice.address),
+      ).to.be.revertedWithCustomError(rofrRule, "NoPendingNotice");
+      await time.increase(3 * 86400);
+      await expectRestricted(signers.alice, signers.carol);
+      // Selling back to the issuer never needs notice
+      await transfer(signers.alice, signers.issuer);
+    });
+
+    it("keeps an exercised notice until the issuer clears it", async function () {
+      await compliance.addRule(1, await rofrRule.getAddress());
+      await rofrRule.setResponseWindow(1, 3 * 86400);
+      await transfer(signers.issuer, signers.alice, 1_000);
+      await accept(signers.carol, signers.alice);
+
+      await rofrRule.connect(signers.alice).giveNotice(1, signers.carol);
+      await rofrRule.exercise(1, signers.alice.address);
+      // Giving notice again, to anyone, cannot restart the window
+      await expect(
+        simulate(rofrRule.connect(signers.alice).giveNotice, 1, signers.carol),
+      ).to.be.revertedWithCustomError(rofrRule, "NoticeExercised");
+      await expect(
+        simulate(rofrRule.connect(signers.alice).giveNotice, 1, signers.bob),
+      ).to.be.revertedWithCustomError(rofrRule, "NoticeExercised");
+      await time.increase(3 * 86400);
+      await expectRestricted(signers.alice, signers.carol);
+
+      await expect(
+        simulate(
+          rofrRule.connect(signers.bob).clearNotice,
+          1,
+          signers.alice.address,
+        ),
+      ).to.be.revertedWithCustomError(rofrRule, "NotTokenIssuer");
+      await expect(rofrRule.clearNotice(1, signers.alice.address))
+        .to.emit(rofrRule, "SaleNoticeAnswered")
+        .withArgs(1, signers.alice.address, 0);
+      await expect(
+        simulate(rofrRule.clearNotice, 1, signers.alice.address),
+      ).to.be.revertedWithCustomError(rofrRule, "NoExercisedNotice");
+      await rofrRule.connect(signers.alice).giveNotice(1, signers.carol);
+      await rofrRule.waive(1, signers.alice.address);
+      await transfer(signers.alice, signers.carol);
+    });
+
+    it("names the first rule that fails", async function () {
+      await compliance.addRule(1, await holdingPeriodRule.getAddress());
+      await compliance.addRule(1, await maxHoldersRule.getAddress());
+      await holdingPeriodRule.setHoldingPeriod(1, 86400);
+      await transfer(signers.issuer, signers.bob);
+      await maxHoldersRule.setMaxHolders(1, 1);
+
+      const [allowed, rule] = await compliance.canTransfer(
+        1,
+        signers.issuer.address,
+        signers.alice.address,
+      );
+      expect(allowed).to.eq(false);
+      expect(rule).to.eq("Maximum holders");
+    });
+  });
+
+  describe("receipts", function () {
+    const expectNotAccepted = async (
+      from: HardhatEthersSigner,
+      to: HardhatEthersSigner,
+    ) => {
+      const args = await transferArgs(from, to, 0);
+      await expect(
+        simulate(ledger.connect(from).confidentialTransfer, ...args),
+      ).to.be.revertedWithCustomError(ledger, "ReceiptNotAccepted");
+    };
+
+    it("cannot fill the holder count with transfers nobody accepted", async function () {
+      await compliance.addRule(1, await maxHoldersRule.getAddress());
+      await maxHoldersRule.setMaxHolders(1, 2);
+      await transfer(signers.issuer, signers.alice);
+
+      await expectNotAccepted(signers.alice, signers.bob);
+      await expectNotAccepted(signers.alice, signers.carol);
+      expect(await maxHoldersRule.holderCount(1)).to.eq(1);
+      // Receipts from the issuer need no acceptance
+      await transfer(signers.issuer, signers.bob);
+      expect(await maxHoldersRule.holderCount(1)).to.eq(2);
+    });
+
+    it("cannot restart a holder's holding period with transfers they did not accept", async function () {
+      await compliance.addRule(1, await holdingPeriodRule.getAddress());
+      await holdingPeriodRule.setHoldingPeriod(1, 86400);
+      await transfer(signers.issuer, signers.alice);
+      await transfer(signers.issuer, signers.bob);
+      const acquired = await holdingPeriodRule.lastAcquired(
+        1,
+        signers.bob.address,
+      );
+      await time.increase(86400);
+
+      await expectNotAccepted(signers.alice, signers.bob);
+      expect(
+        await holdingPeriodRule.lastAcquired(1, signers.bob.address),
+      ).to.eq(acquired);
+      await accept(signers.carol, signers.bob);
+      await transfer(signers.bob, signers.carol);
+    });
+
+    it("takes receipts made by the recipient or its operators", async function () {
+      await transfer(signers.issuer, signers.alice);
+      await ledger
+        .connect(signers.alice)
+        .setOperator(signers.bob.address, (await time.latest()) + 3600);
+      const input = await fhevm
+        .createEncryptedInput(ledgerAddress, signers.bob.address)
+        .add64(50)
+        .encrypt();
+      await expect(
+        ledger
+          .connect(signers.bob)
+          .confidentialTransferFrom(
+            1,
+            signers.alice.address,
+            signers.bob.address,
+            input.handles[0],
+            input.inputProof,
+          ),
+      ).to.emit(ledger, "ConfidentialTransfer");
+      expect(
+        await ledger.acceptsTransfer(
+          1,
+          signers.bob.address,
+          signers.alice.address,
+          signers.carol.address,
+        ),
+      ).to.eq(false);
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+  EquityDistributions,
+  EquityDistributions__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  const stablecoinFactory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin =
+    (await stablecoinFactory.deploy()) as ConfidentialStablecoin;
+  const stablecoinAddress = await stablecoin.getAddress();
+
+  const distributionsFactory = (await ethers.getContractFactory(
+    "EquityDistributions",
+  )) as EquityDistributions__factory;
+  const distributions = (await distributionsFactory.deploy(
+    registryAddress,
+    stablecoinAddress,
+  )) as EquityDistributions;
+  const distributionsAddress = await distributions.getAddress();
+
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+  await registry.connect(issuer).startTrading(1);
+
+  return {
+    registry,
+    ledger,
+    ledgerAddress,
+    stablecoin,
+    stablecoinAddress,
+    distributions,
+    distributionsAddress,
+  };
+}
+
+describe("EquityDistributions", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+  let stablecoin: ConfidentialStablecoin;
+  let stablecoinAddress: string;
+  let distributions: EquityDistributions;
+  let distributionsAddress: string;
+
+  async function transferShares(
+    from: HardhatEthersSigner,
+    to: HardhatEthersSigner,
+    amount: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, from.address)
+      .add64(amount)
+      .encrypt();
+    await ledger
+      .connect(from)
+      .confidentialTransfer(1, to.address, input.handles[0], input.inputProof);
+  }
+
+  async function fund(amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(stablecoinAddress, signers.issuer.address)
+      .add64(amount)
+      .encrypt();
+    await stablecoin
+      .connect(signers.issuer)
+      .mint(signers.issuer.address, input.handles[0], input.inputProof);
+    await stablecoin
+      .connect(signers.issuer)
+      .setOperator(distributionsAddress, (await time.latest()) + 3600);
+  }
+
+  async function declare(amountPerShare: number) {
+    await distributions
+      .connect(signers.issuer)
+      .declareDistribution(1, amountPerShare);
+    return distributions.distributionCount();
+  }
+
+  const cashOf = async (signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await stablecoin.confidentialBalanceOf(signer.address),
+      stablecoinAddress,
+      signer,
+    );
+
+  const payoutOf = async (
+    distributionId: bigint,
+    signer: HardhatEthersSigner,
+  ) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await distributions.getPayout(distributionId, signer.address),
+      distributionsAddress,
+      signer,
+    );
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      officer: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      registry,
+      ledger,
+      ledgerAddress,
+      stablecoin,
+      stablecoinAddress,
+      distributions,
+      distributionsAddress,
+    } = await deployFixture(signers.issuer, signers.officer));
+    await registry
+      .connect(signers.issuer)
+      .setDistributions(distributionsAddress);
+    await transferShares(signers.issuer, signers.alice, 3_000);
+    await transferShares(signers.issuer, signers.bob, 1_000);
+  });
+
+  describe("declaring", function () {
+    it("only lets the issuer declare a positive amount on a listed token", async function () {
+      await expect(
+        simulate(
+          distributions.connect(signers.alice).declareDistribution,
+          1,
+          2_000,
+        ),
+      ).to.be.revertedWithCustomError(distributions, "NotTokenIssuer");
+      await expect(
+        simulate(
+          distributions.connect(signers.issuer).declareDistribution,
+          1,
+          0,
+        ),
+      ).to.be.revertedWithCustomError(distributions, "InvalidAmount");
+      // The issuer has not let the contract escrow their stablecoin yet
+      await expect(
+        simulate(
+          distributions.connect(signers.issuer).declareDistribution,
+          1,
+          2_000,
+        ),
+      ).to.be.revertedWithCustomError(stablecoin, "UnauthorizedSpender");
+
+      await fund(20_000_000);
+      await expect(
+        distributions.connect(signers.issuer).declareDistribution(1, 2_000),
+      )
+        .to.emit(distributions, "DistributionDeclared")
+        .withArgs(1, 1, signers.issuer.address, 2_000, 1, (handle: string) =>
+          ethers.isHexString(handle, 32),
+        );
+      expect(await distributions.getTokenDistributions(1)).to.deep.eq([1n]);
+    });
+
+    it("escrows the total from the issuer", async function () {
+      await fund(25_000_000);
+      const distributionId = await declare(2_000);
+
+      const distribution = await distributions.getDistribution(distributionId);
+      expect(
+        await fhevm.userDecryptEbool(
+          distribution.funded,
+          distributionsAddress,
+          signers.issuer,
+        ),
+      ).to.eq(true);
+      expect(await cashOf(signers.issuer)).to.eq(5_000_000);
+    });
+
+    it("needs the registry to name the contract before it can snapshot", async function () {
+      await registry
+        .connect(signers.issuer)
+        .setDistributions(ethers.ZeroAddress);
+      await fund(20_000_000);
+      await expect(
+        simulate(
+          distributions.connect(signers.issuer).declareDistribution,
+          1,
+          2_000,
+        ),
+      ).to.be.revertedWithCustomError(ledger, "NotDistributions");
+    });
+  });
+
+  describe("claiming", function () {
+    it("pays each holder their holding at declaration times the amount per share", async function () {
+      await fund(20_000_000);
+      const distributionId = await declare(2_000);
+      // Shares bought after the declaration earn nothing from it
+      await transferShares(signers.alice, signers.carol, 1_000);
+
+      for (const signer of [
+        signers.alice,
+        signers.bob,
+        signers.carol,
+        signers.issuer,
+      ]) {
+        await expect(
+          distributions.connect(signer).claim(distributionId),
+        ).to.emit(distributions, "DistributionClaimed");
+      }
+      expect(await payoutOf(distributionId, signers.alice)).to.eq(6_000_000);
+      expect(await payoutOf(distributionId, signers.bob)).to.eq(2_000_000);
+      expect(await payoutOf(distributionId, signers.carol)).to.eq(0);
+      expect(await cashOf(signers.alice)).to.eq(6_000_000);
+      expect(await cashOf(signers.issuer)).to.eq(12_000_000);
+      expect(
+        (await distributions.getDistribution(distributionId)).claimCount,
+      ).to.eq(4);
+
+      await expect(
+        simulate(distributions.connect(signers.alice).claim, distributionId),
+      ).to.be.revertedWithCustomError(distributions, "AlreadyClaimed");
+      await expect(
+        simulate(distributions.connect(signers.alice).claim, 2),
+      ).to.be.revertedWithCustomError(distributions, "UnknownDistribution");
+    });
+
+    it("keeps each payout private to its holder", async function () {
+      await fund(20_000_000);
+      const distributionId = await declare(2_000);
+      await distributions.connect(signers.alice).claim(distributionId);
+
+      const handle = await distributions.getPayout(
+        distributionId,
+        signers.alice.address,
+      );
+      for (const signer of [signers.bob, signers.issuer]) {
+        await expect(
+          fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            handle,
+            distributionsAddress,
+            signer,
+          ),
+        ).to.be.rejected;
+      }
+    });
+
+    it("pays nothing from a distribution the issuer could not fund", async function () {
+      await fund(19_999_999);
+      const distributionId = await declare(2_000);
+
+      const distribution = await distributions.getDistribution(distributionId);
+      expect(
+        await fhevm.userDecryptEbool(
+          distribution.funded,
+          distributionsAddress,
+          signers.issuer,
+        ),
+      ).to.eq(false);
+      expect(await cashOf(signers.issuer)).to.eq(19_999_999);
+
+      await distributions.connect(signers.alice).claim(distributionId);
+      expect(await payoutOf(distributionId, signers.alice)).to.eq(0);
+      expect(await cashOf(signers.alice)).to.eq(0);
+    });
+
+    it("leaves a distribution unfunded when its total does not fit in 64 bits", async function () {
+      await fund(20_000_000);
+      // 10,000 shares at this amount come to just past 2^64, which would wrap to a few
+      // thousand base units in 64 bits
+      const distributionId = await declare(1_844_674_407_370_956);
+
+      const distribution = await distributions.getDistribution(distributionId);
+      expect(
+        await fhevm.userDecryptEbool(
+          distribution.funded,
+          distributionsAddress,
+          signers.issuer,
+        ),
+      ).to.eq(false);
+      expect(await cashOf(signers.issuer)).to.eq(20_000_000);
+
+      await distributions.connect(signers.alice).claim(distributionId);
+      expect(await payoutOf(distributionId, signers.alice)).to.eq(0);
+    });
+  });
+});
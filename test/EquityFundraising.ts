@@ -0,0 +1,547 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+  EquityFundraising,
+  EquityFundraising__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const RoundState = { Open: 0, Closing: 1, Allocating: 2, Refunding: 3 };
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  const stablecoinFactory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin =
+    (await stablecoinFactory.deploy()) as ConfidentialStablecoin;
+  const stablecoinAddress = await stablecoin.getAddress();
+
+  const fundraisingFactory = (await ethers.getContractFactory(
+    "EquityFundraising",
+  )) as EquityFundraising__factory;
+  const fundraising = (await fundraisingFactory.deploy(
+    registryAddress,
+    stablecoinAddress,
+  )) as EquityFundraising;
+  const fundraisingAddress = await fundraising.getAddress();
+
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+
+  return {
+    registry,
+    registryAddress,
+    ledger,
+    ledgerAddress,
+    stablecoin,
+    stablecoinAddress,
+    fundraising,
+    fundraisingAddress,
+  };
+}
+
+describe("EquityFundraising", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+  let stablecoin: ConfidentialStablecoin;
+  let stablecoinAddress: string;
+  let fundraising: EquityFundraising;
+  let fundraisingAddress: string;
+
+  async function openRound(target: number, sharesOffered = 1_000) {
+    const deadline = (await time.latest()) + 3600;
+    const input = await fhevm
+      .createEncryptedInput(fundraisingAddress, signers.issuer.address)
+      .add64(target)
+      .encrypt();
+    await fundraising
+      .connect(signers.issuer)
+      .openRound(
+        1,
+        sharesOffered,
+        deadline,
+        input.handles[0],
+        input.inputProof,
+      );
+    return { roundId: await fundraising.roundCount(), deadline };
+  }
+
+  async function commitArgs(
+    signer: HardhatEthersSigner,
+    roundId: bigint,
+    amount: number | bigint,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(fundraisingAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+    return [roundId, input.handles[0], input.inputProof] as const;
+  }
+
+  async function commit(
+    signer: HardhatEthersSigner,
+    roundId: bigint,
+    amount: number | bigint,
+  ) {
+    const args = await commitArgs(signer, roundId, amount);
+    return fundraising.connect(signer).commit(...args);
+  }
+
+  async function simulateCommit(
+    signer: HardhatEthersSigner,
+    roundId: bigint,
+    amount: number | bigint,
+  ) {
+    const args = await commitArgs(signer, roundId, amount);
+    return simulate(fundraising.connect(signer).commit, ...args);
+  }
+
+  async function fund(signer: HardhatEthersSigner, amount: bigint) {
+    const input = await fhevm
+      .createEncryptedInput(stablecoinAddress, signers.issuer.address)
+      .add64(amount)
+      .encrypt();
+    await stablecoin
+      .connect(signers.issuer)
+      .mint(signer.address, input.handles[0], input.inputProof);
+    await stablecoin
+      .connect(signer)
+      .setOperator(fundraisingAddress, (await time.latest()) + 86400);
+  }
+
+  async function close(roundId: bigint, deadline: number) {
+    await time.increaseTo(deadline);
+    await fundraising.closeRound(roundId);
+    await fhevm.awaitDecryptionOracle();
+    const [event] = await fundraising.queryFilter(
+      fundraising.filters.RoundClosed(roundId),
+    );
+    return {
+      succeeded: event.args.succeeded,
+      totalRaised: event.args.totalRaised,
+    };
+  }
+
+  const decrypt = (
+    handle: string,
+    contractAddress: string,
+    signer: HardhatEthersSigner,
+  ) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+
+  const balanceOf = async (signer: HardhatEthersSigner) =>
+    decrypt(
+      await ledger.confidentialBalanceOf(1, signer.address),
+      ledgerAddress,
+      signer,
+    );
+
+  const cashOf = async (signer: HardhatEthersSigner) =>
+    decrypt(
+      await stablecoin.confidentialBalanceOf(signer.address),
+      stablecoinAddress,
+      signer,
+    );
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      officer: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      registry,
+      registryAddress,
+      ledger,
+      ledgerAddress,
+      stablecoin,
+      stablecoinAddress,
+      fundraising,
+      fundraisingAddress,
+    } = await deployFixture(signers.issuer, signers.officer));
+    await fund(signers.alice, 2_000_000n);
+    await fund(signers.bob, 2_000_000n);
+  });
+
+  describe("opening", function () {
+    it("opens a round with an encrypted target only the issuer can read", async function () {
+      const deadline = (await time.latest()) + 3600;
+      const input = await fhevm
+        .createEncryptedInput(fundraisingAddress, signers.issuer.address)
+        .add64(1_000_000)
+        .encrypt();
+      await expect(
+        fundraising
+          .connect(signers.issuer)
+          .openRound(1, 1_000, deadline, input.handles[0], input.inputProof),
+      )
+        .to.emit(fundraising, "RoundOpened")
+        .withArgs(1, 1, signers.issuer.address, 1_000, deadline, (h: string) =>
+          ethers.isHexString(h, 32),
+        );
+
+      const round = await fundraising.getRound(1);
+      expect(round.state).to.eq(RoundState.Open);
+      expect(await fundraising.getTokenRounds(1)).to.deep.eq([1n]);
+      expect(
+        await decrypt(round.target, fundraisingAddress, signers.issuer),
+      ).to.eq(1_000_000);
+      await expect(decrypt(round.target, fundraisingAddress, signers.alice)).to
+        .be.rejected;
+    });
+
+    it("only opens rounds on the issuer's listed tokens", async function () {
+      const deadline = (await time.latest()) + 3600;
+      const simulateOpen = async (
+        signer: HardhatEthersSigner,
+        tokenId: number,
+        sharesOffered: number,
+        roundDeadline: number,
+      ) => {
+        const input = await fhevm
+          .createEncryptedInput(fundraisingAddress, signer.address)
+          .add64(1_000_000)
+          .encrypt();
+        return simulate(
+          fundraising.connect(signer).openRound,
+          tokenId,
+          sharesOffered,
+          roundDeadline,
+          input.handles[0],
+          input.inputProof,
+        );
+      };
+
+      await expect(
+        simulateOpen(signers.alice, 1, 1_000, deadline),
+      ).to.be.revertedWithCustomError(fundraising, "NotTokenIssuer");
+      await expect(
+        simulateOpen(signers.issuer, 1, 0, deadline),
+      ).to.be.revertedWithCustomError(fundraising, "NoSharesOffered");
+      await expect(
+        simulateOpen(signers.issuer, 1, 1_000, await time.latest()),
+      ).to.be.revertedWithCustomError(fundraising, "InvalidDeadline");
+
+      const input = await fhevm
+        .createEncryptedInput(registryAddress, signers.issuer.address)
+        .add64(1_000_000)
+        .add64(1_000)
+        .encrypt();
+      await registry
+        .connect(signers.issuer)
+        .issueToken(
+          "Pending Co",
+          "",
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+      await expect(
+        simulateOpen(signers.issuer, 2, 1_000, deadline),
+      ).to.be.revertedWithCustomError(fundraising, "NotListed");
+    });
+  });
+
+  describe("commitments", function () {
+    it("checks the encrypted total against the target without revealing it", async function () {
+      const { roundId } = await openRound(1_000_000);
+      const targetMet = async () =>
+        fhevm.userDecryptEbool(
+          (await fundraising.getRound(roundId)).targetMet,
+          fundraisingAddress,
+          signers.issuer,
+        );
+
+      await commit(signers.alice, roundId, 400_000);
+      expect(await targetMet()).to.eq(false);
+      await expect(commit(signers.bob, roundId, 600_000)).to.emit(
+        fundraising,
+        "Committed",
+      );
+      expect(await targetMet()).to.eq(true);
+      expect((await fundraising.getRound(roundId)).investorCount).to.eq(2);
+
+      const aliceCommitment = await fundraising.getCommitment(
+        roundId,
+        signers.alice.address,
+      );
+      expect(
+        await decrypt(aliceCommitment, fundraisingAddress, signers.alice),
+      ).to.eq(400_000);
+      await expect(decrypt(aliceCommitment, fundraisingAddress, signers.bob)).to
+        .be.rejected;
+      await expect(
+        decrypt(
+          (await fundraising.getRound(roundId)).totalCommitted,
+          fundraisingAddress,
+          signers.issuer,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("only accepts commitments while the round is open", async function () {
+      const { roundId, deadline } = await openRound(1_000_000);
+      await expect(
+        simulate(fundraising.closeRound, roundId),
+      ).to.be.revertedWithCustomError(fundraising, "DeadlineNotReached");
+      await time.increaseTo(deadline);
+      await expect(
+        simulateCommit(signers.alice, roundId, 400_000),
+      ).to.be.revertedWithCustomError(fundraising, "DeadlinePassed");
+      await expect(
+        simulateCommit(signers.alice, 2n, 400_000),
+      ).to.be.revertedWithCustomError(fundraising, "UnknownRound");
+    });
+
+    it("escrows commitments and commits nothing an investor cannot cover", async function () {
+      const { roundId } = await openRound(1_000_000);
+      const commitmentOf = async (signer: HardhatEthersSigner) =>
+        decrypt(
+          await fundraising.getCommitment(roundId, signer.address),
+          fundraisingAddress,
+          signer,
+        );
+
+      await commit(signers.alice, roundId, 400_000);
+      await commit(signers.alice, roundId, 1_700_000);
+      expect(await commitmentOf(signers.alice)).to.eq(400_000);
+      expect(await cashOf(signers.alice)).to.eq(1_600_000);
+
+      await stablecoin.connect(signers.bob).setOperator(fundraisingAddress, 0);
+      await expect(
+        simulateCommit(signers.bob, roundId, 400_000),
+      ).to.be.revertedWithCustomError(stablecoin, "UnauthorizedSpender");
+    });
+
+    it("commits nothing that would overflow the total", async function () {
+      const { roundId } = await openRound(1_000_000);
+      await fund(signers.alice, 2n ** 64n - 1n - 2_000_000n);
+      await commit(signers.alice, roundId, 2n ** 64n - 1n);
+
+      await commit(signers.bob, roundId, 1);
+      expect(
+        await decrypt(
+          await fundraising.getCommitment(roundId, signers.bob.address),
+          fundraisingAddress,
+          signers.bob,
+        ),
+      ).to.eq(0);
+      expect(await cashOf(signers.bob)).to.eq(2_000_000);
+    });
+  });
+
+  describe("closing", function () {
+    it("allocates the offered shares pro rata when the target is met", async function () {
+      const { roundId, deadline } = await openRound(1_000_000);
+      await commit(signers.alice, roundId, 300_000);
+      await commit(signers.alice, roundId, 100_000);
+      await commit(signers.bob, roundId, 800_000);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(fundraisingAddress, deadline + 3600);
+
+      await expect(
+        simulate(fundraising.connect(signers.alice).claim, roundId),
+      ).to.be.revertedWithCustomError(fundraising, "RoundNotSettled");
+      expect(await close(roundId, deadline)).to.deep.eq({
+        succeeded: true,
+        totalRaised: 1_200_000n,
+      });
+      expect((await fundraising.getRound(roundId)).state).to.eq(
+        RoundState.Allocating,
+      );
+
+      await expect(fundraising.connect(signers.alice).claim(roundId)).to.emit(
+        fundraising,
+        "SharesAllocated",
+      );
+      await fundraising.connect(signers.bob).claim(roundId);
+      // 1,000 shares split 400,000 : 800,000, rounded down
+      expect(await balanceOf(signers.alice)).to.eq(333);
+      expect(await balanceOf(signers.bob)).to.eq(666);
+      expect(await balanceOf(signers.issuer)).to.eq(10_000 - 999);
+      // Each share delivered costs 1,200,000 / 1,000; the rounding dust is refunded
+      expect(await cashOf(signers.issuer)).to.eq(1_198_800);
+      expect(await cashOf(signers.alice)).to.eq(1_600_400);
+      expect(await cashOf(signers.bob)).to.eq(1_200_800);
+
+      await expect(
+        simulate(fundraising.connect(signers.alice).claim, roundId),
+      ).to.be.revertedWithCustomError(fundraising, "AlreadyClaimed");
+      await expect(
+        simulate(fundraising.connect(signers.issuer).claim, roundId),
+      ).to.be.revertedWithCustomError(fundraising, "NothingToClaim");
+    });
+
+    it("charges nothing for an allocation that rounds down to no shares", async function () {
+      const { roundId, deadline } = await openRound(1_000_000, 1);
+      await commit(signers.alice, roundId, 400_000);
+      await commit(signers.bob, roundId, 800_000);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(fundraisingAddress, deadline + 3600);
+      await close(roundId, deadline);
+
+      await fundraising.connect(signers.alice).claim(roundId);
+      expect(await balanceOf(signers.alice)).to.eq(0);
+      expect(await cashOf(signers.alice)).to.eq(2_000_000);
+      expect(await cashOf(signers.issuer)).to.eq(0);
+    });
+
+    it("needs the issuer to let the round move their shares", async function () {
+      const { roundId, deadline } = await openRound(1_000_000);
+      await commit(signers.alice, roundId, 1_000_000);
+      await close(roundId, deadline);
+
+      await expect(
+        simulate(fundraising.connect(signers.alice).claim, roundId),
+      ).to.be.revertedWithCustomError(ledger, "UnauthorizedSpender");
+      expect(await fundraising.hasClaimed(roundId, signers.alice.address)).to.be
+        .false;
+    });
+
+    it("refunds an allocation the issuer's shares cannot cover", async function () {
+      const { roundId, deadline } = await openRound(1_000_000, 20_000);
+      await commit(signers.alice, roundId, 1_000_000);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(fundraisingAddress, deadline + 3600);
+      await close(roundId, deadline);
+
+      await fundraising.connect(signers.alice).claim(roundId);
+      expect(await balanceOf(signers.alice)).to.eq(0);
+      expect(await cashOf(signers.alice)).to.eq(2_000_000);
+      expect(await cashOf(signers.issuer)).to.eq(0);
+    });
+
+    it("refunds commitments and publishes nothing but the failure when the target is missed", async function () {
+      const { roundId, deadline } = await openRound(2_000_000);
+      await commit(signers.alice, roundId, 400_000);
+      await commit(signers.bob, roundId, 600_000);
+      await ledger
+        .connect(signers.issuer)
+        .setOperator(fundraisingAddress, deadline + 3600);
+
+      expect(await close(roundId, deadline)).to.deep.eq({
+        succeeded: false,
+        totalRaised: 0n,
+      });
+      await expect(fundraising.connect(signers.alice).claim(roundId))
+        .to.emit(fundraising, "CommitmentRefunded")
+        .withArgs(roundId, signers.alice.address, (handle: string) =>
+          ethers.isHexString(handle, 32),
+        );
+      expect(await cashOf(signers.alice)).to.eq(2_000_000);
+      expect(await cashOf(signers.bob)).to.eq(1_400_000);
+      expect(await balanceOf(signers.issuer)).to.eq(10_000);
+    });
+
+    it("fails a round without commitments at once", async function () {
+      const { roundId, deadline } = await openRound(1_000_000);
+      await time.increaseTo(deadline);
+      await expect(fundraising.closeRound(roundId))
+        .to.emit(fundraising, "RoundClosed")
+        .withArgs(roundId, false, 0);
+      expect(
+        await fundraising.queryFilter(
+          fundraising.filters.RoundCloseRequested(roundId),
+        ),
+      ).to.be.empty;
+      await expect(
+        simulate(fundraising.closeRound, roundId),
+      ).to.be.revertedWithCustomError(fundraising, "RoundNotOpen");
+    });
+
+    it("rejects replayed and unknown callbacks", async function () {
+      const { roundId, deadline } = await openRound(1_000_000);
+      await commit(signers.alice, roundId, 1_000_000);
+      await close(roundId, deadline);
+      const [event] = await fundraising.queryFilter(
+        fundraising.filters.RoundCloseRequested(roundId),
+      );
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bool", "uint64"],
+        [true, 1],
+      );
+      await expect(
+        simulate(
+          fundraising.settleRound,
+          event.args.requestId,
+          cleartexts,
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(fundraising, "ReplayAttempt");
+      await expect(
+        simulate(
+          fundraising.settleRound,
+          event.args.requestId + 1n,
+          cleartexts,
+          "0x",
+        ),
+      ).to.be.revertedWithCustomError(fundraising, "UnknownRequest");
+    });
+  });
+});
@@ -0,0 +1,578 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  ConfidentialStablecoin,
+  ConfidentialStablecoin__factory,
+  EquityOrderBook,
+  EquityOrderBook__factory,
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+  InvestorRegistry,
+  InvestorRegistry__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const Side = { Bid: 0, Ask: 1 };
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+  traders: HardhatEthersSigner[],
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const stablecoinFactory = (await ethers.getContractFactory(
+    "ConfidentialStablecoin",
+  )) as ConfidentialStablecoin__factory;
+  const stablecoin =
+    (await stablecoinFactory.deploy()) as ConfidentialStablecoin;
+  const stablecoinAddress = await stablecoin.getAddress();
+
+  const bookFactory = (await ethers.getContractFactory(
+    "EquityOrderBook",
+  )) as EquityOrderBook__factory;
+  const book = (await bookFactory.deploy(
+    registryAddress,
+    stablecoinAddress,
+  )) as EquityOrderBook;
+  const bookAddress = await book.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  // Token 1 is open for trading, token 2 is still pending
+  for (const name of ["Acme Corp", "Globex"]) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, issuer.address)
+      .add64(5_000_000)
+      .add64(10_000)
+      .encrypt();
+    await registry
+      .connect(issuer)
+      .issueToken(
+        name,
+        "",
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      );
+  }
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+  await registry.connect(issuer).startTrading(1);
+
+  // Each trader holds 1,000 shares of token 1 and 100,000 in cash, and lets the book
+  // settle their trades
+  const until = (await time.latest()) + 30 * 24 * 3600;
+  for (const trader of traders) {
+    const cash = await fhevm
+      .createEncryptedInput(stablecoinAddress, issuer.address)
+      .add64(100_000)
+      .encrypt();
+    await stablecoin
+      .connect(issuer)
+      .mint(trader.address, cash.handles[0], cash.inputProof);
+    await stablecoin.connect(trader).setOperator(bookAddress, until);
+
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, issuer.address)
+      .add64(1_000)
+      .encrypt();
+    await ledger
+      .connect(issuer)
+      .confidentialTransfer(
+        1,
+        trader.address,
+        input.handles[0],
+        input.inputProof,
+      );
+    await ledger.connect(trader).setOperator(bookAddress, until);
+  }
+
+  return {
+    registry,
+    stablecoin,
+    stablecoinAddress,
+    book,
+    bookAddress,
+    ledger,
+    ledgerAddress,
+  };
+}
+
+describe("EquityOrderBook", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let stablecoin: ConfidentialStablecoin;
+  let stablecoinAddress: string;
+  let book: EquityOrderBook;
+  let bookAddress: string;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+
+  async function placeArgs(
+    signer: HardhatEthersSigner,
+    tokenId: number,
+    side: number,
+    price: number,
+    quantity: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(bookAddress, signer.address)
+      .add64(price)
+      .add64(quantity)
+      .encrypt();
+    return [
+      tokenId,
+      side,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    ] as const;
+  }
+
+  async function place(
+    signer: HardhatEthersSigner,
+    tokenId: number,
+    side: number,
+    price: number,
+    quantity: number,
+  ) {
+    const args = await placeArgs(signer, tokenId, side, price, quantity);
+    return book.connect(signer).placeOrder(...args);
+  }
+
+  async function simulatePlace(
+    signer: HardhatEthersSigner,
+    tokenId: number,
+    side: number,
+    price: number,
+    quantity: number,
+  ) {
+    const args = await placeArgs(signer, tokenId, side, price, quantity);
+    return simulate(book.connect(signer).placeOrder, ...args);
+  }
+
+  async function fillArgs(
+    signer: HardhatEthersSigner,
+    orderId: number,
+    quantity: number,
+    limitPrice: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(bookAddress, signer.address)
+      .add64(quantity)
+      .add64(limitPrice)
+      .encrypt();
+    return [
+      orderId,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    ] as const;
+  }
+
+  async function fill(
+    signer: HardhatEthersSigner,
+    orderId: number,
+    quantity: number,
+    limitPrice: number,
+  ) {
+    const args = await fillArgs(signer, orderId, quantity, limitPrice);
+    return book.connect(signer).fillOrder(...args);
+  }
+
+  async function simulateFill(
+    signer: HardhatEthersSigner,
+    orderId: number,
+    quantity: number,
+    limitPrice: number,
+  ) {
+    const args = await fillArgs(signer, orderId, quantity, limitPrice);
+    return simulate(book.connect(signer).fillOrder, ...args);
+  }
+
+  const decrypt = (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, bookAddress, signer);
+
+  const balanceOf = async (account: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await ledger.confidentialBalanceOf(1, account.address),
+      ledgerAddress,
+      account,
+    );
+
+  const cashOf = async (account: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await stablecoin.confidentialBalanceOf(account.address),
+      stablecoinAddress,
+      account,
+    );
+
+  async function decryptTrade(tradeId: number, signer: HardhatEthersSigner) {
+    const trade = await book.getTrade(tradeId);
+    return {
+      quantity: await decrypt(trade.quantity, signer),
+      price: await decrypt(trade.price, signer),
+    };
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      officer: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({
+      registry,
+      stablecoin,
+      stablecoinAddress,
+      book,
+      bookAddress,
+      ledger,
+      ledgerAddress,
+    } = await deployFixture(signers.issuer, signers.officer, [
+      signers.alice,
+      signers.bob,
+    ]));
+  });
+
+  describe("placing and cancelling", function () {
+    it("only accepts orders for tokens open for trading", async function () {
+      await expect(
+        simulatePlace(signers.alice, 2, Side.Bid, 50, 10),
+      ).to.be.revertedWithCustomError(book, "NotTrading");
+      await expect(
+        simulatePlace(signers.alice, 3, Side.Bid, 50, 10),
+      ).to.be.revertedWithCustomError(registry, "UnknownToken");
+    });
+
+    it("stops orders and fills while trading is suspended", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await registry.connect(signers.officer).suspendTrading(1, "Halt");
+
+      await expect(
+        simulatePlace(signers.bob, 1, Side.Bid, 50, 10),
+      ).to.be.revertedWithCustomError(book, "NotTrading");
+      await expect(
+        simulateFill(signers.bob, 1, 10, 60),
+      ).to.be.revertedWithCustomError(book, "NotTrading");
+
+      await registry.connect(signers.officer).resumeTrading(1, "Filed");
+      await expect(fill(signers.bob, 1, 10, 60)).to.emit(book, "TradeExecuted");
+    });
+
+    it("records encrypted orders only the trader can read", async function () {
+      await expect(place(signers.alice, 1, Side.Ask, 50, 100))
+        .to.emit(book, "OrderPlaced")
+        .withArgs(
+          1,
+          1,
+          signers.alice.address,
+          Side.Ask,
+          (handle: string) => ethers.isHexString(handle, 32),
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+
+      const order = await book.getOrder(1);
+      expect(order.open).to.eq(true);
+      expect(await decrypt(order.price, signers.alice)).to.eq(50);
+      expect(await decrypt(order.remaining, signers.alice)).to.eq(100);
+      await expect(decrypt(order.price, signers.bob)).to.be.rejected;
+      expect(await book.getTokenOrders(1)).to.deep.eq([1n]);
+    });
+
+    it("lets only the trader cancel, once", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+
+      await expect(
+        simulate(book.connect(signers.bob).cancelOrder, 1),
+      ).to.be.revertedWithCustomError(book, "NotTrader");
+      await expect(book.connect(signers.alice).cancelOrder(1))
+        .to.emit(book, "OrderCancelled")
+        .withArgs(1, 1, signers.alice.address);
+      await expect(
+        simulate(book.connect(signers.alice).cancelOrder, 1),
+      ).to.be.revertedWithCustomError(book, "OrderNotOpen");
+      await expect(
+        simulateFill(signers.bob, 1, 10, 60),
+      ).to.be.revertedWithCustomError(book, "OrderNotOpen");
+      await expect(simulate(book.cancelOrder, 2)).to.be.revertedWithCustomError(
+        book,
+        "UnknownOrder",
+      );
+    });
+
+    it("escrows a bid's cost and refunds what is left on cancelling", async function () {
+      await place(signers.alice, 1, Side.Bid, 50, 100);
+      expect(await cashOf(signers.alice)).to.eq(95_000);
+
+      await fill(signers.bob, 1, 30, 50);
+      expect(await cashOf(signers.bob)).to.eq(101_500);
+
+      await book.connect(signers.alice).cancelOrder(1);
+      expect(await cashOf(signers.alice)).to.eq(98_500);
+      expect(await balanceOf(signers.alice)).to.eq(1_030);
+    });
+
+    it("rests a bid the trader cannot fund with nothing to fill", async function () {
+      await place(signers.alice, 1, Side.Bid, 50, 2_001);
+      expect(await cashOf(signers.alice)).to.eq(100_000);
+      expect(
+        await decrypt((await book.getOrder(1)).remaining, signers.alice),
+      ).to.eq(0);
+
+      await fill(signers.bob, 1, 10, 50);
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 0n,
+        price: 0n,
+      });
+      expect(await balanceOf(signers.bob)).to.eq(1_000);
+    });
+  });
+
+  describe("filling", function () {
+    it("buys from an ask within the buyer's limit at the ask price", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+
+      await expect(fill(signers.bob, 1, 30, 60))
+        .to.emit(book, "TradeExecuted")
+        .withArgs(
+          1,
+          1,
+          0,
+          1,
+          signers.bob.address,
+          signers.alice.address,
+          (handle: string) => ethers.isHexString(handle, 32),
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 30n,
+        price: 50n,
+      });
+      expect(await decryptTrade(1, signers.alice)).to.deep.eq({
+        quantity: 30n,
+        price: 50n,
+      });
+      const order = await book.getOrder(1);
+      expect(await decrypt(order.remaining, signers.alice)).to.eq(70);
+      expect(await balanceOf(signers.alice)).to.eq(970);
+      expect(await balanceOf(signers.bob)).to.eq(1_030);
+      expect(await cashOf(signers.alice)).to.eq(101_500);
+      expect(await cashOf(signers.bob)).to.eq(98_500);
+    });
+
+    it("caps a trade at the seller's balance", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 1_500);
+
+      await fill(signers.bob, 1, 1_200, 60);
+
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 1_000n,
+        price: 50n,
+      });
+      const order = await book.getOrder(1);
+      expect(await decrypt(order.remaining, signers.alice)).to.eq(500);
+      expect(await balanceOf(signers.alice)).to.eq(0);
+      expect(await balanceOf(signers.bob)).to.eq(2_000);
+      // Bob escrowed 1,200 shares' worth and got back the cost of the 200 not delivered
+      expect(await cashOf(signers.alice)).to.eq(150_000);
+      expect(await cashOf(signers.bob)).to.eq(50_000);
+
+      // Nothing left to deliver, so the next fill trades nothing and shows no price
+      await fill(signers.bob, 1, 100, 60);
+      expect(await decryptTrade(2, signers.bob)).to.deep.eq({
+        quantity: 0n,
+        price: 0n,
+      });
+      expect(await cashOf(signers.bob)).to.eq(50_000);
+    });
+
+    it("needs the seller to let the book move their shares", async function () {
+      await place(signers.issuer, 1, Side.Ask, 50, 100);
+      await expect(
+        simulateFill(signers.bob, 1, 10, 60),
+      ).to.be.revertedWithCustomError(ledger, "UnauthorizedSpender");
+    });
+
+    it("caps a fill at the order's remaining quantity", async function () {
+      await place(signers.alice, 1, Side.Bid, 50, 20);
+
+      await fill(signers.bob, 1, 30, 40);
+
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 20n,
+        price: 50n,
+      });
+      const trade = await book.getTrade(1);
+      expect(trade.buyer).to.eq(signers.alice.address);
+      expect(trade.seller).to.eq(signers.bob.address);
+      const order = await book.getOrder(1);
+      expect(await decrypt(order.remaining, signers.alice)).to.eq(0);
+      expect(await balanceOf(signers.alice)).to.eq(1_020);
+      expect(await cashOf(signers.alice)).to.eq(99_000);
+      expect(await cashOf(signers.bob)).to.eq(101_000);
+    });
+
+    it("fills nothing and hides the price outside the limit", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+
+      await fill(signers.bob, 1, 30, 49);
+
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 0n,
+        price: 0n,
+      });
+      const order = await book.getOrder(1);
+      expect(await decrypt(order.remaining, signers.alice)).to.eq(100);
+      expect(await balanceOf(signers.bob)).to.eq(1_000);
+      expect(await cashOf(signers.bob)).to.eq(100_000);
+    });
+
+    it("rejects filling your own order", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await expect(
+        simulateFill(signers.alice, 1, 10, 60),
+      ).to.be.revertedWithCustomError(book, "SelfTrade");
+    });
+  });
+
+  describe("matching", function () {
+    it("crosses a bid with an ask at the ask price", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await place(signers.bob, 1, Side.Bid, 55, 40);
+
+      await expect(book.connect(signers.bob).matchOrders(2, 1))
+        .to.emit(book, "TradeExecuted")
+        .withArgs(
+          1,
+          1,
+          2,
+          1,
+          signers.bob.address,
+          signers.alice.address,
+          (handle: string) => ethers.isHexString(handle, 32),
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+
+      expect(await decryptTrade(1, signers.bob)).to.deep.eq({
+        quantity: 40n,
+        price: 50n,
+      });
+      expect(
+        await decrypt((await book.getOrder(1)).remaining, signers.alice),
+      ).to.eq(60);
+      expect(
+        await decrypt((await book.getOrder(2)).remaining, signers.bob),
+      ).to.eq(0);
+      expect(await balanceOf(signers.alice)).to.eq(960);
+      expect(await balanceOf(signers.bob)).to.eq(1_040);
+      // Bob escrowed 40 at 55 and gets back the 5 a share saved at the ask price
+      expect(await cashOf(signers.alice)).to.eq(102_000);
+      expect(await cashOf(signers.bob)).to.eq(98_000);
+    });
+
+    it("fills nothing when the bid is below the ask", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await place(signers.bob, 1, Side.Bid, 45, 40);
+
+      await book.connect(signers.alice).matchOrders(2, 1);
+
+      expect(await decryptTrade(1, signers.alice)).to.deep.eq({
+        quantity: 0n,
+        price: 0n,
+      });
+      expect(await cashOf(signers.alice)).to.eq(100_000);
+      expect(await cashOf(signers.bob)).to.eq(98_200);
+    });
+
+    it("only lets the two traders match their orders", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await place(signers.bob, 1, Side.Bid, 45, 40);
+
+      await expect(
+        simulate(book.connect(signers.issuer).matchOrders, 2, 1),
+      ).to.be.revertedWithCustomError(book, "NotTrader");
+    });
+
+    it("only trades between qualified investors once an allowlist is set", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await place(signers.bob, 1, Side.Bid, 55, 40);
+
+      const factory = (await ethers.getContractFactory(
+        "InvestorRegistry",
+      )) as InvestorRegistry__factory;
+      const investors = (await factory.deploy()) as InvestorRegistry;
+      await registry.setInvestorRegistry(await investors.getAddress());
+      const expiresAt = (await time.latest()) + 3600;
+      await investors.attestInvestor(signers.alice.address, 840, expiresAt);
+
+      // Bob's resting bid can no longer trade, and he cannot place new orders
+      await expect(
+        simulate(book.connect(signers.bob).matchOrders, 2, 1),
+      ).to.be.revertedWithCustomError(book, "NotQualified");
+      await expect(
+        simulatePlace(signers.bob, 1, Side.Bid, 55, 40),
+      ).to.be.revertedWithCustomError(book, "NotQualified");
+      await expect(
+        simulateFill(signers.alice, 2, 10, 50),
+      ).to.be.revertedWithCustomError(book, "NotQualified");
+
+      await investors.attestInvestor(signers.bob.address, 826, expiresAt);
+      await expect(book.connect(signers.alice).matchOrders(2, 1)).to.emit(
+        book,
+        "TradeExecuted",
+      );
+    });
+
+    it("rejects mismatched sides and self trades", async function () {
+      await place(signers.alice, 1, Side.Ask, 50, 100);
+      await place(signers.alice, 1, Side.Bid, 55, 40);
+      await place(signers.bob, 1, Side.Ask, 45, 10);
+
+      await expect(
+        simulate(book.connect(signers.alice).matchOrders, 1, 3),
+      ).to.be.revertedWithCustomError(book, "InvalidMatch");
+      await expect(
+        simulate(book.connect(signers.alice).matchOrders, 2, 1),
+      ).to.be.revertedWithCustomError(book, "SelfTrade");
+    });
+  });
+});
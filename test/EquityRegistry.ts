@@ -0,0 +1,461 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  EquityRegistry,
+  EquityRegistry__factory,
+  InvestorRegistry,
+  InvestorRegistry__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const Status = {
+  Pending: 0,
+  Approved: 1,
+  Trading: 2,
+  Rejected: 3,
+  Suspended: 4,
+  Delisted: 5,
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await factory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+  return { registry, registryAddress };
+}
+
+async function deployInvestors() {
+  const factory = (await ethers.getContractFactory(
+    "InvestorRegistry",
+  )) as InvestorRegistry__factory;
+  const investors = (await factory.deploy()) as InvestorRegistry;
+  return { investors, investorsAddress: await investors.getAddress() };
+}
+
+describe("EquityRegistry", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+
+  async function issueArgs(
+    signer: HardhatEthersSigner,
+    companyName: string,
+    valuation: number,
+    shares: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signer.address)
+      .add64(valuation)
+      .add64(shares)
+      .encrypt();
+    return [
+      companyName,
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    ] as const;
+  }
+
+  async function issue(
+    signer: HardhatEthersSigner,
+    companyName: string,
+    valuation: number,
+    shares: number,
+  ) {
+    const args = await issueArgs(signer, companyName, valuation, shares);
+    return registry.connect(signer).issueToken(...args);
+  }
+
+  async function simulateIssue(
+    signer: HardhatEthersSigner,
+    companyName: string,
+    valuation: number,
+    shares: number,
+  ) {
+    const args = await issueArgs(signer, companyName, valuation, shares);
+    return simulate(registry.connect(signer).issueToken, ...args);
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      officer: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ registry, registryAddress } = await deployFixture());
+  });
+
+  it("stores issued tokens as pending records with sequential ids", async function () {
+    await expect(issue(signers.alice, "Acme Corp", 5_000_000, 10_000))
+      .to.emit(registry, "TokenIssued")
+      .withArgs(
+        1,
+        signers.alice.address,
+        "Acme Corp",
+        "",
+        (handle: string) => ethers.isHexString(handle, 32),
+        (handle: string) => ethers.isHexString(handle, 32),
+      );
+    await issue(signers.bob, "Globex", 1_000_000, 500);
+
+    expect(await registry.tokenCount()).to.eq(2);
+    const token = await registry.getToken(1);
+    expect(token.issuer).to.eq(signers.alice.address);
+    expect(token.companyName).to.eq("Acme Corp");
+    expect(token.status).to.eq(Status.Pending);
+    expect(await registry.getIssuerTokens(signers.bob.address)).to.deep.eq([
+      2n,
+    ]);
+  });
+
+  it("lets the issuer decrypt the valuation and share count", async function () {
+    await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+    const token = await registry.getToken(1);
+
+    const valuation = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      token.encryptedValuation,
+      registryAddress,
+      signers.alice,
+    );
+    const shares = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      token.encryptedShares,
+      registryAddress,
+      signers.alice,
+    );
+    expect(valuation).to.eq(5_000_000);
+    expect(shares).to.eq(10_000);
+  });
+
+  it("shares decryption rights only through grantViewer", async function () {
+    await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+    const token = await registry.getToken(1);
+
+    await expect(
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        token.encryptedValuation,
+        registryAddress,
+        signers.bob,
+      ),
+    ).to.be.rejected;
+
+    await expect(
+      simulate(registry.connect(signers.bob).grantViewer, 1, signers.bob),
+    ).to.be.revertedWithCustomError(registry, "NotIssuer");
+    await expect(registry.connect(signers.alice).grantViewer(1, signers.bob))
+      .to.emit(registry, "ViewerGranted")
+      .withArgs(1, signers.bob.address);
+
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        token.encryptedValuation,
+        registryAddress,
+        signers.bob,
+      ),
+    ).to.eq(5_000_000);
+  });
+
+  it("gates issuance and viewing on the investor allowlist", async function () {
+    const { investors, investorsAddress } = await deployInvestors();
+    await expect(
+      simulate(
+        registry.connect(signers.alice).setInvestorRegistry,
+        investorsAddress,
+      ),
+    ).to.be.revertedWithCustomError(registry, "NotOwner");
+    await expect(registry.setInvestorRegistry(investorsAddress))
+      .to.emit(registry, "InvestorRegistryUpdated")
+      .withArgs(ethers.ZeroAddress, investorsAddress);
+
+    await expect(
+      simulateIssue(signers.alice, "Acme Corp", 5_000_000, 10_000),
+    ).to.be.revertedWithCustomError(registry, "NotQualified");
+
+    const expiresAt = (await time.latest()) + 3600;
+    await investors.attestInvestor(signers.alice.address, 840, expiresAt);
+    await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+    await expect(
+      simulate(registry.connect(signers.alice).grantViewer, 1, signers.bob),
+    ).to.be.revertedWithCustomError(registry, "NotQualified");
+
+    await time.increaseTo(expiresAt);
+    expect(await registry.isQualified(signers.alice.address)).to.eq(false);
+    await expect(
+      simulateIssue(signers.alice, "Globex", 1, 1),
+    ).to.be.revertedWithCustomError(registry, "NotQualified");
+  });
+
+  it("rejects tokens without a company name", async function () {
+    await expect(
+      simulateIssue(signers.alice, "", 1, 1),
+    ).to.be.revertedWithCustomError(registry, "EmptyCompanyName");
+  });
+
+  describe("compliance review", function () {
+    beforeEach(async function () {
+      await registry.addComplianceOfficer(signers.officer.address);
+      await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+    });
+
+    it("lets only the owner appoint compliance officers", async function () {
+      await expect(
+        simulate(
+          registry.connect(signers.alice).addComplianceOfficer,
+          signers.alice,
+        ),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+      await expect(registry.addComplianceOfficer(signers.bob.address))
+        .to.emit(registry, "ComplianceOfficerAdded")
+        .withArgs(signers.bob.address);
+      await expect(registry.removeComplianceOfficer(signers.bob.address))
+        .to.emit(registry, "ComplianceOfficerRemoved")
+        .withArgs(signers.bob.address);
+      expect(await registry.isComplianceOfficer(signers.bob.address)).to.eq(
+        false,
+      );
+      expect(await registry.isComplianceOfficer(signers.officer.address)).to.eq(
+        true,
+      );
+    });
+
+    it("moves pending tokens to approved once with a reason, recording the reviewer", async function () {
+      await expect(
+        simulate(registry.connect(signers.alice).approveToken, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "NotComplianceOfficer");
+      await expect(
+        simulate(registry.connect(signers.officer).approveToken, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "EmptyReason");
+      await expect(
+        registry.connect(signers.officer).approveToken(1, "KYC complete"),
+      )
+        .to.emit(registry, "TokenStatusChanged")
+        .withArgs(
+          1,
+          Status.Pending,
+          Status.Approved,
+          signers.officer.address,
+          "KYC complete",
+        );
+      expect((await registry.getToken(1)).status).to.eq(Status.Approved);
+
+      await expect(
+        simulate(registry.connect(signers.officer).approveToken, 1, "Reviewed"),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+      await expect(
+        simulate(registry.connect(signers.officer).approveToken, 2, "Reviewed"),
+      ).to.be.revertedWithCustomError(registry, "UnknownToken");
+    });
+
+    it("rejects pending tokens only with a reason", async function () {
+      await expect(
+        simulate(registry.connect(signers.officer).rejectToken, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "EmptyReason");
+      await expect(
+        registry.connect(signers.officer).rejectToken(1, "Missing audit"),
+      )
+        .to.emit(registry, "TokenStatusChanged")
+        .withArgs(
+          1,
+          Status.Pending,
+          Status.Rejected,
+          signers.officer.address,
+          "Missing audit",
+        );
+      expect(await registry.tokenStatus(1)).to.eq(Status.Rejected);
+      await expect(
+        simulate(registry.connect(signers.officer).approveToken, 1, "Reviewed"),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+    });
+
+    it("does not let officers review their own tokens", async function () {
+      await issue(signers.officer, "Globex", 1, 1);
+      await expect(
+        simulate(registry.connect(signers.officer).approveToken, 2, "Reviewed"),
+      ).to.be.revertedWithCustomError(registry, "SelfReview");
+    });
+  });
+
+  it("opens only approved tokens for trading", async function () {
+    await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+
+    await expect(
+      simulate(registry.connect(signers.alice).startTrading, 1),
+    ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+    await registry.addComplianceOfficer(signers.officer.address);
+    await registry.connect(signers.officer).approveToken(1, "Reviewed");
+    await expect(
+      simulate(registry.connect(signers.bob).startTrading, 1),
+    ).to.be.revertedWithCustomError(registry, "NotIssuer");
+    await expect(registry.connect(signers.alice).startTrading(1))
+      .to.emit(registry, "TokenStatusChanged")
+      .withArgs(1, Status.Approved, Status.Trading, signers.alice.address, "");
+    expect(await registry.tokenStatus(1)).to.eq(Status.Trading);
+  });
+
+  describe("lifecycle", function () {
+    beforeEach(async function () {
+      await registry.addComplianceOfficer(signers.officer.address);
+      await issue(signers.alice, "Acme Corp", 5_000_000, 10_000);
+      await registry.connect(signers.officer).approveToken(1, "Reviewed");
+      await registry.connect(signers.alice).startTrading(1);
+    });
+
+    it("lets compliance suspend and resume trading with a reason", async function () {
+      await expect(
+        simulate(registry.connect(signers.alice).suspendTrading, 1, "Halt"),
+      ).to.be.revertedWithCustomError(registry, "NotComplianceOfficer");
+      await expect(
+        simulate(registry.connect(signers.officer).suspendTrading, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "EmptyReason");
+      await expect(
+        registry.connect(signers.officer).suspendTrading(1, "Pending filing"),
+      )
+        .to.emit(registry, "TokenStatusChanged")
+        .withArgs(
+          1,
+          Status.Trading,
+          Status.Suspended,
+          signers.officer.address,
+          "Pending filing",
+        );
+
+      // The issuer cannot lift a suspension by reopening trading
+      await expect(
+        simulate(registry.connect(signers.alice).startTrading, 1),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+      await expect(
+        simulate(registry.connect(signers.officer).resumeTrading, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "EmptyReason");
+      await expect(registry.connect(signers.officer).resumeTrading(1, "Filed"))
+        .to.emit(registry, "TokenStatusChanged")
+        .withArgs(
+          1,
+          Status.Suspended,
+          Status.Trading,
+          signers.officer.address,
+          "Filed",
+        );
+      await expect(
+        simulate(registry.connect(signers.officer).resumeTrading, 1, "Filed"),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+    });
+
+    it("delists at the issuer's or compliance's request, permanently", async function () {
+      await expect(
+        simulate(registry.connect(signers.bob).delistToken, 1, "Hostile"),
+      ).to.be.revertedWithCustomError(registry, "NotComplianceOfficer");
+      await expect(
+        simulate(registry.connect(signers.alice).delistToken, 1, ""),
+      ).to.be.revertedWithCustomError(registry, "EmptyReason");
+      await expect(registry.connect(signers.alice).delistToken(1, "Acquired"))
+        .to.emit(registry, "TokenStatusChanged")
+        .withArgs(
+          1,
+          Status.Trading,
+          Status.Delisted,
+          signers.alice.address,
+          "Acquired",
+        );
+      await expect(
+        simulate(registry.connect(signers.officer).delistToken, 1, "Again"),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+
+      await issue(signers.alice, "Globex", 1, 1);
+      await expect(
+        simulate(
+          registry.connect(signers.officer).delistToken,
+          2,
+          "Not listed",
+        ),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+    });
+
+    it("records every change with its author, time and reason", async function () {
+      await registry.connect(signers.officer).suspendTrading(1, "Halt");
+      const history = await registry.getStatusHistory(1);
+
+      expect(
+        history.map((c) => [c.previousStatus, c.newStatus, c.changedBy]),
+      ).to.deep.eq([
+        [
+          BigInt(Status.Pending),
+          BigInt(Status.Approved),
+          signers.officer.address,
+        ],
+        [
+          BigInt(Status.Approved),
+          BigInt(Status.Trading),
+          signers.alice.address,
+        ],
+        [
+          BigInt(Status.Trading),
+          BigInt(Status.Suspended),
+          signers.officer.address,
+        ],
+      ]);
+      expect(history[2].reason).to.eq("Halt");
+      expect(history[2].changedAt).to.eq(await time.latest());
+      expect((await registry.getToken(1)).updatedAt).to.eq(await time.latest());
+    });
+
+    it("exposes the transition table", async function () {
+      const edges = [];
+      for (const from of Object.values(Status)) {
+        for (const to of Object.values(Status)) {
+          if (await registry.canTransition(from, to)) edges.push([from, to]);
+        }
+      }
+      expect(edges).to.deep.eq([
+        [Status.Pending, Status.Approved],
+        [Status.Pending, Status.Rejected],
+        [Status.Approved, Status.Trading],
+        [Status.Approved, Status.Delisted],
+        [Status.Trading, Status.Suspended],
+        [Status.Trading, Status.Delisted],
+        [Status.Suspended, Status.Trading],
+        [Status.Suspended, Status.Delisted],
+      ]);
+    });
+  });
+
+  it("pages through tokens by id", async function () {
+    for (const name of ["A", "B", "C", "D", "E"]) {
+      await issue(signers.alice, name, 1, 1);
+    }
+
+    const names = async (offset: number, limit: number) =>
+      (await registry.getTokens(offset, limit)).map((t) => t.companyName);
+
+    expect(await names(0, 2)).to.deep.eq(["A", "B"]);
+    expect(await names(2, 2)).to.deep.eq(["C", "D"]);
+    expect(await names(4, 2)).to.deep.eq(["E"]);
+    expect(await names(5, 2)).to.deep.eq([]);
+  });
+});
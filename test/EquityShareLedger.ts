@@ -0,0 +1,434 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+  InvestorRegistry,
+  InvestorRegistry__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+async function deployFixture(owner: HardhatEthersSigner) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(owner).setShareLedger(ledgerAddress);
+  await registry.connect(owner).addComplianceOfficer(owner.address);
+
+  return { registry, registryAddress, ledger, ledgerAddress };
+}
+
+describe("EquityShareLedger", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+
+  async function issue(signer: HardhatEthersSigner, shares: number) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, signer.address)
+      .add64(5_000_000)
+      .add64(shares)
+      .encrypt();
+    return registry
+      .connect(signer)
+      .issueToken(
+        "Acme Corp",
+        "",
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      );
+  }
+
+  // Token 1 is issued by Alice and reviewed by the owner
+  async function openTrading() {
+    await registry.approveToken(1, "Reviewed");
+    await registry.connect(signers.alice).startTrading(1);
+  }
+
+  async function encryptAmount(signer: HardhatEthersSigner, amount: number) {
+    return fhevm
+      .createEncryptedInput(ledgerAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function transferArgs(
+    signer: HardhatEthersSigner,
+    to: string,
+    amount: number,
+  ) {
+    const input = await encryptAmount(signer, amount);
+    return [1, to, input.handles[0], input.inputProof] as const;
+  }
+
+  async function transfer(
+    signer: HardhatEthersSigner,
+    to: string,
+    amount: number,
+  ) {
+    const args = await transferArgs(signer, to, amount);
+    return ledger.connect(signer).confidentialTransfer(...args);
+  }
+
+  async function simulateTransfer(
+    signer: HardhatEthersSigner,
+    to: string,
+    amount: number,
+  ) {
+    const args = await transferArgs(signer, to, amount);
+    return simulate(ledger.connect(signer).confidentialTransfer, ...args);
+  }
+
+  async function balanceOf(account: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await ledger.confidentialBalanceOf(1, account.address),
+      ledgerAddress,
+      account,
+    );
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ registry, registryAddress, ledger, ledgerAddress } = await deployFixture(
+      signers.owner,
+    ));
+  });
+
+  describe("issuance", function () {
+    it("credits every issued share to the issuer", async function () {
+      await expect(issue(signers.alice, 10_000))
+        .to.emit(ledger, "ConfidentialTransfer")
+        .withArgs(
+          1,
+          ethers.ZeroAddress,
+          signers.alice.address,
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+
+      expect(await balanceOf(signers.alice)).to.eq(10_000);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          await ledger.confidentialTotalSupply(1),
+        ),
+      ).to.eq(10_000);
+    });
+
+    it("only accepts issuance from the registry", async function () {
+      await issue(signers.alice, 10_000);
+      const token = await registry.getToken(1);
+      await expect(
+        simulate(
+          ledger.mintIssuance,
+          2,
+          signers.alice.address,
+          token.encryptedShares,
+        ),
+      ).to.be.revertedWithCustomError(ledger, "NotRegistry");
+    });
+
+    it("lets only the registry owner change the ledger", async function () {
+      await expect(
+        simulate(
+          registry.connect(signers.alice).setShareLedger,
+          ethers.ZeroAddress,
+        ),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+      await expect(registry.setShareLedger(ethers.ZeroAddress))
+        .to.emit(registry, "ShareLedgerUpdated")
+        .withArgs(ledgerAddress, ethers.ZeroAddress);
+    });
+  });
+
+  describe("transfers", function () {
+    beforeEach(async function () {
+      await issue(signers.alice, 10_000);
+      await openTrading();
+    });
+
+    it("moves encrypted shares and lets both parties read the amount", async function () {
+      await expect(transfer(signers.alice, signers.bob.address, 2_500))
+        .to.emit(ledger, "ConfidentialTransfer")
+        .withArgs(
+          1,
+          signers.alice.address,
+          signers.bob.address,
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+
+      expect(await balanceOf(signers.alice)).to.eq(7_500);
+      expect(await balanceOf(signers.bob)).to.eq(2_500);
+
+      const [log] = await ledger.queryFilter(
+        ledger.filters.ConfidentialTransfer(1, signers.alice.address),
+      );
+      for (const party of [signers.alice, signers.bob]) {
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            log.args.amount,
+            ledgerAddress,
+            party,
+          ),
+        ).to.eq(2_500);
+      }
+    });
+
+    it("keeps each balance private to its holder", async function () {
+      await transfer(signers.alice, signers.bob.address, 2_500);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await ledger.confidentialBalanceOf(1, signers.alice.address),
+          ledgerAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("moves nothing when the balance is too small", async function () {
+      await transfer(signers.bob, signers.alice.address, 1);
+      await transfer(signers.alice, signers.bob.address, 10_001);
+
+      expect(await balanceOf(signers.alice)).to.eq(10_000);
+      expect(await balanceOf(signers.bob)).to.eq(0);
+    });
+
+    it("rejects transfers to the zero address", async function () {
+      await expect(
+        simulateTransfer(signers.alice, ethers.ZeroAddress, 1),
+      ).to.be.revertedWithCustomError(ledger, "InvalidReceiver");
+    });
+
+    it("only moves shares between qualified investors once an allowlist is set", async function () {
+      const factory = (await ethers.getContractFactory(
+        "InvestorRegistry",
+      )) as InvestorRegistry__factory;
+      const investors = (await factory.deploy()) as InvestorRegistry;
+      await registry.setInvestorRegistry(await investors.getAddress());
+      const expiresAt = (await time.latest()) + 3600;
+      await investors.attestInvestor(signers.alice.address, 840, expiresAt);
+
+      await expect(
+        simulateTransfer(signers.alice, signers.bob.address, 100),
+      ).to.be.revertedWithCustomError(ledger, "NotQualified");
+
+      await investors.attestInvestor(signers.bob.address, 826, expiresAt);
+      await transfer(signers.alice, signers.bob.address, 100);
+      expect(await balanceOf(signers.bob)).to.eq(100);
+
+      await investors.revokeInvestor(signers.alice.address);
+      await expect(
+        simulateTransfer(signers.alice, signers.bob.address, 100),
+      ).to.be.revertedWithCustomError(ledger, "NotQualified");
+    });
+
+    it("lets operators transfer on a holder's behalf until they expire", async function () {
+      const transferFromArgs = async () => {
+        const input = await encryptAmount(signers.carol, 1_000);
+        return [
+          1,
+          signers.alice.address,
+          signers.bob.address,
+          input.handles[0],
+          input.inputProof,
+        ] as const;
+      };
+      const transferFrom = async () =>
+        ledger
+          .connect(signers.carol)
+          .confidentialTransferFrom(...(await transferFromArgs()));
+      const simulateTransferFrom = async () =>
+        simulate(
+          ledger.connect(signers.carol).confidentialTransferFrom,
+          ...(await transferFromArgs()),
+        );
+
+      await expect(simulateTransferFrom()).to.be.revertedWithCustomError(
+        ledger,
+        "UnauthorizedSpender",
+      );
+
+      const until = (await time.latest()) + 3600;
+      await expect(
+        ledger.connect(signers.alice).setOperator(signers.carol.address, until),
+      )
+        .to.emit(ledger, "OperatorSet")
+        .withArgs(signers.alice.address, signers.carol.address, until);
+      await transferFrom();
+      expect(await balanceOf(signers.bob)).to.eq(1_000);
+
+      await time.increaseTo(until + 1);
+      await expect(simulateTransferFrom()).to.be.revertedWithCustomError(
+        ledger,
+        "UnauthorizedSpender",
+      );
+    });
+
+    it("only lets operators move on-chain amounts they may use", async function () {
+      const until = (await time.latest()) + 3600;
+      await ledger
+        .connect(signers.alice)
+        .setOperator(signers.carol.address, until);
+      // Alice's balance handle is not Carol's to spend
+      const handle = await ledger.confidentialBalanceOf(
+        1,
+        signers.alice.address,
+      );
+      await expect(
+        simulate(
+          ledger.connect(signers.carol).operatorTransfer,
+          1,
+          signers.alice.address,
+          signers.bob.address,
+          handle,
+        ),
+      ).to.be.revertedWithCustomError(ledger, "UnauthorizedAmount");
+    });
+  });
+
+  describe("token status", function () {
+    it("only moves an approved token's shares out of the issuer until it trades", async function () {
+      await issue(signers.alice, 10_000);
+      await expect(
+        simulateTransfer(signers.alice, signers.bob.address, 100),
+      ).to.be.revertedWithCustomError(ledger, "NotTransferable");
+
+      await registry.approveToken(1, "Reviewed");
+      await transfer(signers.alice, signers.bob.address, 100);
+      expect(await balanceOf(signers.bob)).to.eq(100);
+      await expect(
+        simulateTransfer(signers.bob, signers.carol.address, 10),
+      ).to.be.revertedWithCustomError(ledger, "NotTransferable");
+
+      await registry.connect(signers.alice).startTrading(1);
+      await transfer(signers.bob, signers.carol.address, 10);
+      expect(await balanceOf(signers.carol)).to.eq(10);
+    });
+
+    it("freezes shares while trading is suspended and after delisting", async function () {
+      await issue(signers.alice, 10_000);
+      await openTrading();
+
+      await registry.suspendTrading(1, "Halt");
+      await expect(
+        simulateTransfer(signers.alice, signers.bob.address, 100),
+      ).to.be.revertedWithCustomError(ledger, "NotTransferable");
+
+      await registry.resumeTrading(1, "Filed");
+      await transfer(signers.alice, signers.bob.address, 100);
+      await registry.delistToken(1, "Acquired");
+      await expect(
+        simulateTransfer(signers.alice, signers.bob.address, 100),
+      ).to.be.revertedWithCustomError(ledger, "NotTransferable");
+    });
+  });
+
+  describe("snapshots", function () {
+    beforeEach(async function () {
+      await issue(signers.alice, 10_000);
+      await openTrading();
+    });
+
+    async function balanceAt(account: HardhatEthersSigner, snapshotId: number) {
+      const handle = await ledger.balanceAt.staticCall(
+        1,
+        account.address,
+        snapshotId,
+      );
+      if (handle === ethers.ZeroHash) return 0n;
+      return fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        handle,
+        ledgerAddress,
+        account,
+      );
+    }
+
+    it("keeps each holder's balance as it stood at every snapshot", async function () {
+      await registry.connect(signers.owner).setDistributions(signers.owner);
+      await expect(ledger.connect(signers.owner).snapshot(1))
+        .to.emit(ledger, "Snapshot")
+        .withArgs(1, 1);
+      await transfer(signers.alice, signers.bob.address, 4_000);
+      await ledger.connect(signers.owner).snapshot(1);
+      await transfer(signers.bob, signers.alice.address, 1_000);
+      await transfer(signers.bob, signers.alice.address, 500);
+
+      expect(await balanceAt(signers.alice, 1)).to.eq(10_000);
+      expect(await balanceAt(signers.bob, 1)).to.eq(0);
+      expect(await balanceAt(signers.alice, 2)).to.eq(6_000);
+      expect(await balanceAt(signers.bob, 2)).to.eq(4_000);
+      expect(await balanceOf(signers.bob)).to.eq(2_500);
+      await expect(
+        simulate(
+          ledger.connect(signers.owner).balanceAt,
+          1,
+          signers.alice.address,
+          3,
+        ),
+      ).to.be.revertedWithCustomError(ledger, "UnknownSnapshot");
+    });
+
+    it("only lets the distributions contract take and read snapshots", async function () {
+      await expect(
+        simulate(ledger.connect(signers.alice).snapshot, 1),
+      ).to.be.revertedWithCustomError(ledger, "NotDistributions");
+      await expect(
+        simulate(
+          ledger.connect(signers.alice).balanceAt,
+          1,
+          signers.alice.address,
+          1,
+        ),
+      ).to.be.revertedWithCustomError(ledger, "NotDistributions");
+      await expect(
+        simulate(
+          registry.connect(signers.alice).setDistributions,
+          signers.alice,
+        ),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  EquityRegistry,
+  EquityRegistry__factory,
+  EquityShareLedger,
+  EquityShareLedger__factory,
+  EquityVesting,
+  EquityVesting__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  issuer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  officer: HardhatEthersSigner;
+};
+
+const ScheduleKind = { Cliff: 0, Linear: 1, Milestone: 2 };
+
+async function deployFixture(
+  issuer: HardhatEthersSigner,
+  officer: HardhatEthersSigner,
+) {
+  const registryFactory = (await ethers.getContractFactory(
+    "EquityRegistry",
+  )) as EquityRegistry__factory;
+  const registry = (await registryFactory.deploy()) as EquityRegistry;
+  const registryAddress = await registry.getAddress();
+
+  const ledgerFactory = (await ethers.getContractFactory(
+    "EquityShareLedger",
+  )) as EquityShareLedger__factory;
+  const ledger = (await ledgerFactory.deploy(
+    registryAddress,
+  )) as EquityShareLedger;
+  const ledgerAddress = await ledger.getAddress();
+  await registry.connect(issuer).setShareLedger(ledgerAddress);
+
+  const vestingFactory = (await ethers.getContractFactory(
+    "EquityVesting",
+  )) as EquityVesting__factory;
+  const vesting = (await vestingFactory.deploy(
+    registryAddress,
+  )) as EquityVesting;
+  const vestingAddress = await vesting.getAddress();
+  await registry.connect(issuer).setVesting(vestingAddress);
+  await ledger
+    .connect(issuer)
+    .setOperator(vestingAddress, (await time.latest()) + 365 * 86400);
+
+  const input = await fhevm
+    .createEncryptedInput(registryAddress, issuer.address)
+    .add64(5_000_000)
+    .add64(10_000)
+    .encrypt();
+  await registry
+    .connect(issuer)
+    .issueToken(
+      "Acme Corp",
+      "",
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  await registry.connect(issuer).addComplianceOfficer(officer.address);
+  await registry.connect(officer).approveToken(1, "Reviewed");
+  await registry.connect(issuer).startTrading(1);
+
+  return { registry, ledger, ledgerAddress, vesting, vestingAddress };
+}
+
+describe("EquityVesting", function () {
+  let signers: Signers;
+  let registry: EquityRegistry;
+  let ledger: EquityShareLedger;
+  let ledgerAddress: string;
+  let vesting: EquityVesting;
+  let vestingAddress: string;
+
+  const encryptGrant = (amount: number) =>
+    fhevm
+      .createEncryptedInput(vestingAddress, signers.issuer.address)
+      .add64(amount)
+      .encrypt();
+
+  async function transfer(
+    from: HardhatEthersSigner,
+    to: HardhatEthersSigner,
+    amount: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, from.address)
+      .add64(amount)
+      .encrypt();
+    await ledger
+      .connect(from)
+      .confidentialTransfer(1, to.address, input.handles[0], input.inputProof);
+  }
+
+  const balanceOf = async (signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await ledger.confidentialBalanceOf(1, signer.address),
+      ledgerAddress,
+      signer,
+    );
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      issuer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      officer: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ registry, ledger, ledgerAddress, vesting, vestingAddress } =
+      await deployFixture(signers.issuer, signers.officer));
+  });
+
+  describe("granting", function () {
+    it("moves granted shares to the holder and keeps the amount private", async function () {
+      const unlockAt = (await time.latest()) + 1000;
+      const input = await encryptGrant(3_000);
+      await expect(
+        vesting
+          .connect(signers.issuer)
+          .createCliffGrant(
+            1,
+            signers.alice.address,
+            unlockAt,
+            input.handles[0],
+            input.inputProof,
+          ),
+      )
+        .to.emit(vesting, "GrantCreated")
+        .withArgs(
+          1,
+          1,
+          signers.alice.address,
+          ScheduleKind.Cliff,
+          unlockAt,
+          unlockAt,
+          unlockAt,
+          0,
+          (handle: string) => ethers.isHexString(handle, 32),
+        );
+      expect(await balanceOf(signers.alice)).to.eq(3_000);
+      expect(await balanceOf(signers.issuer)).to.eq(7_000);
+      expect(
+        await vesting.getHolderGrants(1, signers.alice.address),
+      ).to.deep.eq([1n]);
+
+      const { amount } = await vesting.getGrant(1);
+      for (const signer of [signers.alice, signers.issuer]) {
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            amount,
+            vestingAddress,
+            signer,
+          ),
+        ).to.eq(3_000);
+      }
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          amount,
+          vestingAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("only lets the issuer grant valid schedules", async function () {
+      const now = await time.latest();
+      const input = await encryptGrant(1_000);
+      const args = [input.handles[0], input.inputProof] as const;
+      await expect(
+        simulate(
+          vesting.connect(signers.alice).createCliffGrant,
+          1,
+          signers.alice.address,
+          now + 1000,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "NotTokenIssuer");
+      await expect(
+        simulate(
+          vesting.createCliffGrant,
+          1,
+          signers.alice.address,
+          now,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "InvalidSchedule");
+      await expect(
+        simulate(
+          vesting.createLinearGrant,
+          1,
+          signers.alice.address,
+          now + 100,
+          now + 50,
+          now + 1000,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "InvalidSchedule");
+      await expect(
+        simulate(
+          vesting.createLinearGrant,
+          1,
+          signers.alice.address,
+          now + 100,
+          now + 100,
+          now + 100,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "InvalidSchedule");
+      await expect(
+        simulate(
+          vesting.createMilestoneGrant,
+          1,
+          signers.alice.address,
+          0,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "InvalidSchedule");
+      await expect(
+        simulate(
+          vesting.createMilestoneGrant,
+          1,
+          signers.alice.address,
+          13,
+          ...args,
+        ),
+      ).to.be.revertedWithCustomError(vesting, "InvalidSchedule");
+    });
+
+    it("only answers the share ledger and the registry owner names it", async function () {
+      await expect(
+        simulate(vesting.lockedBalance, 1, signers.alice.address),
+      ).to.be.revertedWithCustomError(vesting, "NotShareLedger");
+      await expect(
+        simulate(
+          registry.connect(signers.alice).setVesting,
+          signers.alice.address,
+        ),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+  });
+
+  describe("enforcing", function () {
+    it("locks a cliff grant until it unlocks", async function () {
+      const unlockAt = (await time.latest()) + 1000;
+      const input = await encryptGrant(3_000);
+      await vesting.createCliffGrant(
+        1,
+        signers.alice.address,
+        unlockAt,
+        input.handles[0],
+        input.inputProof,
+      );
+
+      await transfer(signers.alice, signers.bob, 1);
+      expect(await balanceOf(signers.alice)).to.eq(3_000);
+
+      await time.increaseTo(unlockAt);
+      await transfer(signers.alice, signers.bob, 3_000);
+      expect(await balanceOf(signers.bob)).to.eq(3_000);
+    });
+
+    it("only lets the vested part of a linear grant move, alongside free shares", async function () {
+      const start = (await time.latest()) + 10;
+      const input = await encryptGrant(1_000);
+      // One share vests every 100 seconds
+      await vesting.createLinearGrant(
+        1,
+        signers.alice.address,
+        start,
+        start + 20_000,
+        start + 100_000,
+        input.handles[0],
+        input.inputProof,
+      );
+      await transfer(signers.issuer, signers.alice, 200);
+
+      await transfer(signers.alice, signers.bob, 201);
+      expect(await balanceOf(signers.alice)).to.eq(1_200);
+      await transfer(signers.alice, signers.bob, 200);
+      expect(await balanceOf(signers.bob)).to.eq(200);
+
+      await time.increaseTo(start + 50_000);
+      expect(await vesting.vestedFraction(1)).to.deep.eq([50_000n, 100_000n]);
+      await transfer(signers.alice, signers.bob, 501);
+      expect(await balanceOf(signers.bob)).to.eq(200);
+      await transfer(signers.alice, signers.bob, 500);
+      expect(await balanceOf(signers.bob)).to.eq(700);
+    });
+
+    it("vests milestone grants in equal tranches as the issuer completes milestones", async function () {
+      const input = await encryptGrant(900);
+      await vesting.createMilestoneGrant(
+        1,
+        signers.alice.address,
+        3,
+        input.handles[0],
+        input.inputProof,
+      );
+
+      await expect(
+        simulate(vesting.connect(signers.alice).completeMilestone, 1),
+      ).to.be.revertedWithCustomError(vesting, "NotTokenIssuer");
+      await expect(vesting.completeMilestone(1))
+        .to.emit(vesting, "MilestoneCompleted")
+        .withArgs(1, 1);
+      await transfer(signers.alice, signers.bob, 301);
+      expect(await balanceOf(signers.bob)).to.eq(0);
+      await transfer(signers.alice, signers.bob, 300);
+      expect(await balanceOf(signers.bob)).to.eq(300);
+
+      await vesting.completeMilestone(1);
+      await vesting.completeMilestone(1);
+      await expect(
+        simulate(vesting.completeMilestone, 1),
+      ).to.be.revertedWithCustomError(vesting, "AllMilestonesCompleted");
+      await transfer(signers.alice, signers.bob, 600);
+      expect(await balanceOf(signers.bob)).to.eq(900);
+    });
+
+    it("stops enforcing once the registry drops the vesting contract", async function () {
+      const input = await encryptGrant(1_000);
+      await vesting.createCliffGrant(
+        1,
+        signers.alice.address,
+        (await time.latest()) + 1000,
+        input.handles[0],
+        input.inputProof,
+      );
+      await expect(
+        simulate(vesting.completeMilestone, 1),
+      ).to.be.revertedWithCustomError(vesting, "NotMilestoneGrant");
+
+      await registry.setVesting(ethers.ZeroAddress);
+      await transfer(signers.alice, signers.bob, 1_000);
+      expect(await balanceOf(signers.bob)).to.eq(1_000);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { ethers, fhevm } from "hardhat";
+import os from "os";
+import path from "path";
+import { EventIndexer } from "../frontend/web/src/indexer/indexer";
+import { JsonFileStore } from "../frontend/web/src/indexer/jsonFileStore";
+import { MemoryStore } from "../frontend/web/src/indexer/memoryStore";
+import type { IndexStore } from "../frontend/web/src/indexer/types";
+import { EquityRegistry, EquityRegistry__factory } from "../types";
+
+describe("EventIndexer", function () {
+  let officer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let registry: EquityRegistry;
+  let registryAddress: string;
+  let startBlock: number;
+
+  async function issue(companyName: string) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, alice.address)
+      .add64(1_000_000)
+      .add64(1_000)
+      .encrypt();
+    const tx = await registry
+      .connect(alice)
+      .issueToken(
+        companyName,
+        "",
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      );
+    return tx.wait();
+  }
+
+  function createIndexer(store: IndexStore) {
+    return new EventIndexer({
+      provider: ethers.provider,
+      store,
+      confirmations: 2,
+      chunkSize: 3,
+      contracts: [
+        {
+          name: "EquityRegistry",
+          address: registryAddress,
+          abi: EquityRegistry__factory.abi,
+          startBlock,
+        },
+      ],
+    });
+  }
+
+  const companyNames = async (store: IndexStore) =>
+    (await store.getEvents())
+      .filter((e) => e.name === "TokenIssued")
+      .map((e) => e.args.companyName);
+
+  before(async function () {
+    [officer, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory(
+      "EquityRegistry",
+    )) as EquityRegistry__factory;
+    registry = (await factory.deploy()) as EquityRegistry;
+    registryAddress = await registry.getAddress();
+    startBlock = (await registry.deploymentTransaction()!.wait())!.blockNumber;
+  });
+
+  it("backfills events from the start block across log chunks", async function () {
+    for (const name of ["A", "B", "C"]) await issue(name);
+    await registry.addComplianceOfficer(officer.address);
+    const approval = await (
+      await registry.connect(officer).approveToken(2, "Reviewed")
+    ).wait();
+
+    const store = new MemoryStore();
+    const { added, head } = await createIndexer(store).sync();
+
+    expect(added.map((e) => e.name)).to.deep.eq([
+      "TokenIssued",
+      "TokenIssued",
+      "TokenIssued",
+      "ComplianceOfficerAdded",
+      "TokenStatusChanged",
+    ]);
+    expect(added[0].args).to.include({
+      tokenId: "1",
+      issuer: alice.address,
+      companyName: "A",
+    });
+    expect(added[4].args).to.include({
+      tokenId: "2",
+      newStatus: "1",
+      changedBy: officer.address,
+    });
+    const block = await ethers.provider.getBlock(approval!.blockNumber);
+    expect(added[4].timestamp).to.eq(block!.timestamp);
+    expect(head).to.deep.eq({
+      number: block!.number,
+      hash: block!.hash,
+    });
+  });
+
+  it("only fetches blocks after the stored head", async function () {
+    const store = new MemoryStore();
+    const indexer = createIndexer(store);
+    await issue("A");
+    await indexer.sync();
+
+    await issue("B");
+    const { added } = await indexer.sync();
+    expect(added.map((e) => e.args.companyName)).to.deep.eq(["B"]);
+    expect((await indexer.sync()).added).to.be.empty;
+    expect(await companyNames(store)).to.deep.eq(["A", "B"]);
+  });
+
+  it("rolls back to the confirmed depth when the head is reorganised", async function () {
+    const store = new MemoryStore();
+    const indexer = createIndexer(store);
+    const kept = await issue("A");
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await issue("B");
+    await issue("C");
+    await indexer.sync();
+    expect(await companyNames(store)).to.deep.eq(["A", "B", "C"]);
+
+    // Replace B and C with a different block
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await issue("D");
+
+    const updates: number[] = [];
+    indexer.subscribe(({ rolledBackTo }) => updates.push(rolledBackTo!));
+    const { added, rolledBackTo } = await indexer.sync();
+
+    expect(rolledBackTo).to.eq(kept!.blockNumber);
+    expect(updates).to.deep.eq([kept!.blockNumber]);
+    expect(added.map((e) => e.args.companyName)).to.deep.eq(["D"]);
+    expect(await companyNames(store)).to.deep.eq(["A", "D"]);
+  });
+
+  it("detects a reorg that replaced the head with a block of the same height", async function () {
+    const store = new MemoryStore();
+    const indexer = createIndexer(store);
+    await issue("A");
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await issue("B");
+    await indexer.sync();
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await mine(1);
+    const { rolledBackTo } = await indexer.sync();
+
+    expect(rolledBackTo).to.not.eq(null);
+    expect(await companyNames(store)).to.deep.eq(["A"]);
+  });
+
+  it("persists the index to a JSON file and resumes from it", async function () {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "equity-index-"));
+    const file = path.join(dir, "index.json");
+    try {
+      await issue("A");
+      const first = await createIndexer(new JsonFileStore(file)).sync();
+
+      const reopened = new JsonFileStore(file);
+      expect(await reopened.getHead()).to.deep.eq(first.head);
+      expect(await companyNames(reopened)).to.deep.eq(["A"]);
+
+      await issue("B");
+      const { added } = await createIndexer(reopened).sync();
+      expect(added.map((e) => e.args.companyName)).to.deep.eq(["B"]);
+      expect(await companyNames(new JsonFileStore(file))).to.deep.eq([
+        "A",
+        "B",
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
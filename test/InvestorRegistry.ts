@@ -0,0 +1,129 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { InvestorRegistry, InvestorRegistry__factory } from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// ISO 3166-1 numeric codes
+const US = 840;
+const GB = 826;
+const YEAR = 365 * 24 * 3600;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "InvestorRegistry",
+  )) as InvestorRegistry__factory;
+  return (await factory.deploy()) as InvestorRegistry;
+}
+
+describe("InvestorRegistry", function () {
+  let signers: Signers;
+  let investors: InvestorRegistry;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    investors = await deployFixture();
+  });
+
+  it("qualifies attested investors until their attestation expires", async function () {
+    const expiresAt = (await time.latest()) + YEAR;
+    await expect(investors.attestInvestor(signers.alice.address, US, expiresAt))
+      .to.emit(investors, "InvestorAttested")
+      .withArgs(signers.alice.address, US, expiresAt);
+
+    expect(await investors.isQualified(signers.alice.address)).to.eq(true);
+    expect(await investors.isQualified(signers.bob.address)).to.eq(false);
+    expect(await investors.jurisdictionOf(signers.alice.address)).to.eq(US);
+
+    const entry = await investors.getInvestor(signers.alice.address);
+    expect(entry.expiresAt).to.eq(expiresAt);
+    expect(entry.attestedAt).to.eq(await time.latest());
+    expect(entry.revoked).to.eq(false);
+
+    await time.increaseTo(expiresAt);
+    expect(await investors.isQualified(signers.alice.address)).to.eq(false);
+  });
+
+  it("revokes investors and lets a new attestation restore them", async function () {
+    const expiresAt = (await time.latest()) + YEAR;
+    await investors.attestInvestor(signers.alice.address, US, expiresAt);
+
+    await expect(investors.revokeInvestor(signers.alice.address))
+      .to.emit(investors, "InvestorRevoked")
+      .withArgs(signers.alice.address);
+    expect(await investors.isQualified(signers.alice.address)).to.eq(false);
+    await expect(
+      simulate(investors.revokeInvestor, signers.alice.address),
+    ).to.be.revertedWithCustomError(investors, "InvalidInvestor");
+
+    await investors.attestInvestor(signers.alice.address, GB, expiresAt);
+    expect(await investors.isQualified(signers.alice.address)).to.eq(true);
+    expect(await investors.jurisdictionOf(signers.alice.address)).to.eq(GB);
+  });
+
+  it("rejects invalid attestations", async function () {
+    const now = await time.latest();
+    await expect(
+      simulate(investors.attestInvestor, ethers.ZeroAddress, US, now + YEAR),
+    ).to.be.revertedWithCustomError(investors, "InvalidInvestor");
+    await expect(
+      simulate(investors.attestInvestor, signers.alice.address, 0, now + YEAR),
+    ).to.be.revertedWithCustomError(investors, "InvalidJurisdiction");
+    await expect(
+      simulate(
+        investors.attestInvestor,
+        signers.alice.address,
+        1000,
+        now + YEAR,
+      ),
+    ).to.be.revertedWithCustomError(investors, "InvalidJurisdiction");
+    await expect(
+      simulate(investors.attestInvestor, signers.alice.address, US, now),
+    ).to.be.revertedWithCustomError(investors, "InvalidExpiry");
+    await expect(
+      simulate(investors.revokeInvestor, signers.bob.address),
+    ).to.be.revertedWithCustomError(investors, "InvalidInvestor");
+  });
+
+  it("restricts the allowlist to the owner", async function () {
+    const expiresAt = (await time.latest()) + YEAR;
+    await expect(
+      simulate(
+        investors.connect(signers.alice).attestInvestor,
+        signers.alice.address,
+        US,
+        expiresAt,
+      ),
+    ).to.be.revertedWithCustomError(investors, "NotOwner");
+
+    await investors.attestInvestor(signers.alice.address, US, expiresAt);
+    await expect(
+      simulate(
+        investors.connect(signers.alice).revokeInvestor,
+        signers.alice.address,
+      ),
+    ).to.be.revertedWithCustomError(investors, "NotOwner");
+
+    await expect(investors.transferOwnership(signers.bob.address))
+      .to.emit(investors, "OwnershipTransferred")
+      .withArgs(signers.owner.address, signers.bob.address);
+    await expect(
+      investors.connect(signers.bob).revokeInvestor(signers.alice.address),
+    ).to.emit(investors, "InvestorRevoked");
+  });
+});
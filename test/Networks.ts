@@ -0,0 +1,195 @@
+// provider.ts keeps the chosen endpoints in the browser's localStorage when there is one
+/// <reference lib="dom" />
+import { expect } from "chai";
+import { ethers } from "ethers";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  DEFAULT_CHAIN_ID,
+  SUPPORTED_CHAIN_IDS,
+  getActiveChainId,
+  getNetwork,
+  isSupportedChain,
+  setActiveChainId,
+  supportedNetworkNames,
+} from "../frontend/web/src/networks";
+import {
+  getReadProvider,
+  probeEndpoints,
+  resetProvider,
+} from "../frontend/web/src/provider";
+
+const HARDHAT_CHAIN_ID = 31337;
+
+interface Endpoint {
+  url: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/** A JSON-RPC endpoint that reports `chainId` and serves `code` for every address. */
+async function startEndpoint(
+  chainId: number,
+  { delayMs = 0, code = "0x" }: { delayMs?: number; code?: string } = {},
+): Promise<Endpoint> {
+  const requests: string[] = [];
+  const answer = (request: { id: number; method: string }) => {
+    requests.push(request.method);
+    const results: Record<string, string> = {
+      eth_chainId: ethers.toQuantity(chainId),
+      eth_blockNumber: "0x10",
+      eth_getCode: code,
+    };
+    return request.method in results
+      ? { jsonrpc: "2.0", id: request.id, result: results[request.method] }
+      : {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: { code: -32601, message: "method not found" },
+        };
+  };
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const response = Array.isArray(payload)
+        ? payload.map(answer)
+        : answer(payload);
+      setTimeout(() => {
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify(response));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/** A URL nothing listens on. */
+async function deadUrl(): Promise<string> {
+  const endpoint = await startEndpoint(HARDHAT_CHAIN_ID);
+  await endpoint.close();
+  return endpoint.url;
+}
+
+describe("Networks", function () {
+  describe("network config", function () {
+    it("supports only chains with FHEVM deployed", function () {
+      expect(SUPPORTED_CHAIN_IDS).to.have.members([HARDHAT_CHAIN_ID, 11155111]);
+      expect(isSupportedChain(1)).to.eq(false);
+      expect(supportedNetworkNames()).to.eq("hardhat or sepolia");
+      expect(getNetwork(1).name).to.eq("mainnet");
+      expect(() => getNetwork(5)).to.throw("Chain 5 is not configured");
+    });
+
+    it("switches the active chain only to supported chains", function () {
+      expect(getActiveChainId()).to.eq(DEFAULT_CHAIN_ID);
+      try {
+        setActiveChainId(HARDHAT_CHAIN_ID);
+        expect(getActiveChainId()).to.eq(HARDHAT_CHAIN_ID);
+        expect(() => setActiveChainId(1)).to.throw(
+          "Chain 1 is not supported; switch to hardhat or sepolia",
+        );
+        expect(getActiveChainId()).to.eq(HARDHAT_CHAIN_ID);
+      } finally {
+        setActiveChainId(DEFAULT_CHAIN_ID);
+      }
+    });
+  });
+
+  describe("read provider", function () {
+    const network = getNetwork(HARDHAT_CHAIN_ID);
+    const configured = { rpcUrls: network.rpcUrls, quorum: network.quorum };
+    let endpoints: Endpoint[];
+
+    async function configure(
+      quorum: number,
+      ...urls: (Endpoint | string)[]
+    ): Promise<void> {
+      await resetProvider(HARDHAT_CHAIN_ID);
+      network.quorum = quorum;
+      network.rpcUrls = urls.map((u) => (typeof u === "string" ? u : u.url));
+    }
+
+    beforeEach(function () {
+      endpoints = [];
+    });
+
+    afterEach(async function () {
+      await resetProvider(HARDHAT_CHAIN_ID);
+      Object.assign(network, configured);
+      await Promise.all(endpoints.map((e) => e.close()));
+    });
+
+    async function endpoint(
+      ...args: Parameters<typeof startEndpoint>
+    ): Promise<Endpoint> {
+      const started = await startEndpoint(...args);
+      endpoints.push(started);
+      return started;
+    }
+
+    it("probes every endpoint and keeps the healthy ones, fastest first", async function () {
+      const slow = await endpoint(HARDHAT_CHAIN_ID, { delayMs: 200 });
+      const fast = await endpoint(HARDHAT_CHAIN_ID);
+      const otherChain = await endpoint(1);
+      await configure(1, slow, await deadUrl(), otherChain, fast);
+
+      expect(await probeEndpoints(HARDHAT_CHAIN_ID)).to.deep.eq([
+        fast.url,
+        slow.url,
+      ]);
+      expect(otherChain.requests).to.deep.eq(["eth_chainId"]);
+    });
+
+    it("refuses to read with fewer healthy endpoints than the quorum", async function () {
+      const healthy = await endpoint(HARDHAT_CHAIN_ID);
+      const dead = await deadUrl();
+      await configure(2, healthy, dead);
+
+      await expect(getReadProvider(HARDHAT_CHAIN_ID)).to.be.rejectedWith(
+        "Only 1 of the RPC endpoints for hardhat are reachable; 2 are needed",
+      );
+
+      // A failed setup is not cached: the next read probes again
+      const second = await endpoint(HARDHAT_CHAIN_ID);
+      network.rpcUrls = [healthy.url, dead, second.url];
+      const provider = await getReadProvider(HARDHAT_CHAIN_ID);
+      expect(provider.constructor.name).to.eq("FallbackProvider");
+    });
+
+    it("reads straight from a single healthy endpoint", async function () {
+      const only = await endpoint(HARDHAT_CHAIN_ID, { code: "0x6001" });
+      await configure(1, only);
+
+      const provider = await getReadProvider(HARDHAT_CHAIN_ID);
+      expect(provider.constructor.name).to.eq("JsonRpcProvider");
+      expect(await provider.getCode(ethers.ZeroAddress)).to.eq("0x6001");
+      expect(await getReadProvider(HARDHAT_CHAIN_ID)).to.eq(provider);
+    });
+
+    it("only trusts reads the quorum of endpoints agrees on", async function () {
+      const a = await endpoint(HARDHAT_CHAIN_ID, { code: "0x6001" });
+      const b = await endpoint(HARDHAT_CHAIN_ID, { code: "0x6001" });
+      await configure(2, a, b);
+      const agreeing = await getReadProvider(HARDHAT_CHAIN_ID);
+      expect(await agreeing.getCode(ethers.ZeroAddress)).to.eq("0x6001");
+
+      const liar = await endpoint(HARDHAT_CHAIN_ID, { code: "0x6002" });
+      await configure(2, a, liar);
+      const disagreeing = await getReadProvider(HARDHAT_CHAIN_ID);
+      expect(disagreeing).to.not.eq(agreeing);
+      await expect(disagreeing.getCode(ethers.ZeroAddress)).to.be.rejected;
+    });
+  });
+});
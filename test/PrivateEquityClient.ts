@@ -0,0 +1,240 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  PrivateEquityClient,
+  PrivateEquityError,
+  decodePrivateEquityError,
+} from "../src/privateEquity";
+import { rethrowDecoded } from "../src/privateEquity/errors";
+import { PrivateEquityFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+describe("PrivateEquityClient", function () {
+  let signers: Signers;
+  let address: string;
+  let deployBlock: number;
+  let owner: PrivateEquityClient;
+  let alice: PrivateEquityClient;
+
+  async function encryptShares(
+    signer: HardhatEthersSigner,
+    shares: number,
+    valuePerShare: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add32(shares)
+      .add32(valuePerShare)
+      .encrypt();
+    return {
+      handles: [input.handles[0], input.handles[1]] as [Uint8Array, Uint8Array],
+      inputProof: input.inputProof,
+    };
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { owner: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory(
+      "PrivateEquityFHE",
+    )) as PrivateEquityFHE__factory;
+    const contract = await factory.deploy();
+    deployBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    address = await contract.getAddress();
+    owner = PrivateEquityClient.connect(address, signers.owner);
+    alice = PrivateEquityClient.connect(address, signers.alice);
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens, fills, closes and decrypts a batch", async function () {
+      await owner.addProvider(signers.alice.address);
+      const { batchId } = await owner.openBatch();
+      expect(batchId).to.eq(1n);
+      expect(await owner.currentBatchId()).to.eq(1n);
+
+      const submitted = await alice.submitEncryptedShares(
+        batchId,
+        await encryptShares(signers.alice, 100, 25),
+      );
+      expect(submitted.name).to.eq("SharesSubmitted");
+      expect(submitted.provider).to.eq(signers.alice.address);
+      expect(submitted.batchId).to.eq(batchId);
+      const submission = await owner.getShareSubmission(
+        batchId,
+        signers.alice.address,
+      );
+      expect(submission.encryptedShares).to.eq(submitted.encryptedShares);
+      expect(await owner.lastSubmissionTime(signers.alice.address)).to.be.gt(
+        0n,
+      );
+
+      await owner.submitEncryptedShares(
+        batchId,
+        await encryptShares(signers.owner, 50, 30),
+      );
+      const closed = await owner.closeBatch(batchId);
+      const batch = await owner.getBatch(batchId);
+      expect(batch.isOpen).to.eq(false);
+      expect(closed.totalEncryptedShares).to.eq(batch.totalEncryptedShares);
+      expect(closed.totalEncryptedValue).to.eq(batch.totalEncryptedValue);
+
+      const requested = await owner.requestBatchDecryption(batchId);
+      const context = await owner.getDecryptionContext(requested.requestId);
+      expect(context.batchId).to.eq(batchId);
+      expect(context.stateHash).to.eq(requested.stateHash);
+      expect(context.processed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      const completed = await owner.waitForDecryption(requested.requestId, {
+        fromBlock: requested.receipt.blockNumber,
+        pollIntervalMs: 10,
+      });
+      expect(completed.batchId).to.eq(batchId);
+      expect(completed.totalShares).to.eq(150n);
+      expect(completed.totalValue).to.eq(BigInt(100 * 25 + 50 * 30));
+      expect(
+        (await owner.getDecryptionContext(requested.requestId)).processed,
+      ).to.eq(true);
+    });
+
+    it("administers providers, pausing and cooldowns", async function () {
+      expect(await owner.owner()).to.eq(signers.owner.address);
+      await owner.addProvider(signers.alice.address);
+      expect(await owner.isProvider(signers.alice.address)).to.eq(true);
+      await owner.removeProvider(signers.alice.address);
+      expect(await owner.isProvider(signers.alice.address)).to.eq(false);
+
+      await owner.setPaused(true);
+      expect(await owner.paused()).to.eq(true);
+      await owner.setCooldownSeconds(5);
+      expect(await owner.cooldownSeconds()).to.eq(5n);
+      await owner.setInvestorRegistry(signers.alice.address);
+      expect(await owner.investorRegistry()).to.eq(signers.alice.address);
+
+      await owner.transferOwnership(signers.alice.address);
+      expect(await alice.owner()).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("errors", function () {
+    it("rethrows reverts as decoded PrivateEquityErrors", async function () {
+      const error = await alice.openBatch().catch((e: unknown) => e);
+      expect(error).to.be.instanceOf(PrivateEquityError);
+      expect((error as PrivateEquityError).errorName).to.eq("NotOwner");
+      expect((error as PrivateEquityError).message).to.eq(
+        "NotOwner: Only the contract owner can do this",
+      );
+
+      const closing = await owner.closeBatch(1).catch((e: unknown) => e);
+      expect((closing as PrivateEquityError).errorName).to.eq("InvalidBatch");
+    });
+
+    it("decodes revert data nested inside provider errors", function () {
+      const data = PrivateEquityClient.interface.encodeErrorResult(
+        "CooldownActive",
+        [],
+      );
+      const decoded = decodePrivateEquityError({
+        message: "execution reverted",
+        info: { error: { code: 3, data } },
+      });
+      expect(decoded?.errorName).to.eq("CooldownActive");
+      expect(decoded?.data).to.eq(data);
+      expect(decodePrivateEquityError(decoded)).to.eq(decoded);
+    });
+
+    it("leaves other errors alone", function () {
+      const plain = new Error("network down");
+      expect(decodePrivateEquityError(plain)).to.eq(undefined);
+      expect(decodePrivateEquityError({ data: "0xdeadbeef" })).to.eq(undefined);
+      expect(() => rethrowDecoded(plain)).to.throw(plain);
+    });
+  });
+
+  describe("events", function () {
+    it("streams decoded events oldest first up to toBlock", async function () {
+      await owner.addProvider(signers.alice.address);
+      await owner.openBatch();
+      await owner.setPaused(true);
+      const head = await ethers.provider.getBlockNumber();
+
+      const events = [];
+      for await (const event of owner.events(undefined, {
+        fromBlock: deployBlock,
+        toBlock: head,
+        chunkSize: 1,
+      })) {
+        events.push(event);
+      }
+      expect(events.map((e) => e.name)).to.deep.eq([
+        "ProviderAdded",
+        "ProviderAdded",
+        "BatchOpened",
+        "PauseToggled",
+      ]);
+      const blocks = events.map((e) => e.blockNumber);
+      expect(blocks).to.deep.eq([...blocks].sort((a, b) => a - b));
+    });
+
+    it("filters the stream by event name", async function () {
+      await owner.openBatch();
+      await owner.openBatch();
+
+      const opened = [];
+      for await (const event of owner.events("BatchOpened", {
+        fromBlock: deployBlock,
+        toBlock: await ethers.provider.getBlockNumber(),
+      })) {
+        opened.push(event.batchId);
+      }
+      expect(opened).to.deep.eq([1n, 2n]);
+    });
+
+    it("follows new blocks until aborted", async function () {
+      const controller = new AbortController();
+      const stream = owner.events("BatchOpened", {
+        fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+        pollIntervalMs: 10,
+        signal: controller.signal,
+      });
+      const first = stream.next();
+      await owner.openBatch();
+      expect((await first).value.batchId).to.eq(1n);
+
+      controller.abort();
+      expect((await stream.next()).done).to.eq(true);
+    });
+
+    it("decodes its own logs and skips the FHE host contracts' logs", async function () {
+      const { receipt } = await owner.openBatch();
+      const own = receipt.logs.filter((log) => log.address === address);
+      const foreign = receipt.logs.filter((log) => log.address !== address);
+      expect(own).to.have.length(1);
+      expect(PrivateEquityClient.decodeLog(own[0])).to.deep.include({
+        name: "BatchOpened",
+        batchId: 1n,
+        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.hash,
+      });
+      // Opening a batch encrypts its zero totals through the FHE host contracts
+      expect(foreign).to.not.be.empty;
+      for (const log of foreign) {
+        expect(PrivateEquityClient.decodeLog(log)).to.eq(undefined);
+      }
+    });
+  });
+});
@@ -0,0 +1,491 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  InvestorRegistry,
+  InvestorRegistry__factory,
+  PrivateEquityFHE,
+  PrivateEquityFHE__factory,
+} from "../types";
+import { simulate } from "./helpers";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "PrivateEquityFHE",
+  )) as PrivateEquityFHE__factory;
+  const contract = (await factory.deploy()) as PrivateEquityFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("PrivateEquityFHE", function () {
+  let signers: Signers;
+  let contract: PrivateEquityFHE;
+  let contractAddress: string;
+
+  async function submitArgs(
+    signer: HardhatEthersSigner,
+    batchId: bigint | number,
+    shares: number,
+    valuePerShare: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .add32(shares)
+      .add32(valuePerShare)
+      .encrypt();
+    return [
+      batchId,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    ] as const;
+  }
+
+  async function submit(
+    signer: HardhatEthersSigner,
+    batchId: bigint | number,
+    shares: number,
+    valuePerShare: number,
+  ) {
+    const args = await submitArgs(signer, batchId, shares, valuePerShare);
+    return contract.connect(signer).submitEncryptedShares(...args);
+  }
+
+  async function simulateSubmit(
+    signer: HardhatEthersSigner,
+    batchId: bigint | number,
+    shares: number,
+    valuePerShare: number,
+  ) {
+    const args = await submitArgs(signer, batchId, shares, valuePerShare);
+    return simulate(contract.connect(signer).submitEncryptedShares, ...args);
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("deployment", function () {
+    it("makes the deployer owner and provider with a 60 second cooldown", async function () {
+      expect(await contract.owner()).to.eq(signers.owner.address);
+      expect(await contract.isProvider(signers.owner.address)).to.eq(true);
+      expect(await contract.cooldownSeconds()).to.eq(60);
+      expect(await contract.paused()).to.eq(false);
+      expect(await contract.currentBatchId()).to.eq(0);
+    });
+  });
+
+  describe("provider management", function () {
+    it("adds and removes providers", async function () {
+      await expect(contract.addProvider(signers.alice.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.alice.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await contract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("does not emit when the provider set is unchanged", async function () {
+      await contract.addProvider(signers.alice.address);
+      await expect(contract.addProvider(signers.alice.address)).not.to.emit(
+        contract,
+        "ProviderAdded",
+      );
+      await expect(contract.removeProvider(signers.bob.address)).not.to.emit(
+        contract,
+        "ProviderRemoved",
+      );
+    });
+
+    it("restricts provider management to the owner", async function () {
+      await expect(
+        simulate(
+          contract.connect(signers.alice).addProvider,
+          signers.alice.address,
+        ),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        simulate(
+          contract.connect(signers.alice).removeProvider,
+          signers.owner.address,
+        ),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await contract.openBatch();
+      await expect(
+        simulateSubmit(signers.alice, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+
+    it("requires providers to be qualified investors once an allowlist is set", async function () {
+      const factory = (await ethers.getContractFactory(
+        "InvestorRegistry",
+      )) as InvestorRegistry__factory;
+      const investors = (await factory.deploy()) as InvestorRegistry;
+      const investorsAddress = await investors.getAddress();
+
+      await expect(
+        simulate(
+          contract.connect(signers.alice).setInvestorRegistry,
+          investorsAddress,
+        ),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.setInvestorRegistry(investorsAddress))
+        .to.emit(contract, "InvestorRegistryUpdated")
+        .withArgs(ethers.ZeroAddress, investorsAddress);
+
+      await contract.openBatch();
+      await expect(
+        simulateSubmit(signers.owner, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "NotQualified");
+
+      await investors.attestInvestor(
+        signers.owner.address,
+        840,
+        (await time.latest()) + 3600,
+      );
+      await expect(submit(signers.owner, 1, 10, 5)).to.emit(
+        contract,
+        "SharesSubmitted",
+      );
+    });
+
+    it("hands owner rights to the new owner", async function () {
+      await expect(contract.transferOwnership(signers.alice.address))
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.owner.address, signers.alice.address);
+      await expect(simulate(contract.openBatch)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.connect(signers.alice).openBatch())
+        .to.emit(contract, "BatchOpened")
+        .withArgs(1);
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks batch operations while paused", async function () {
+      await contract.openBatch();
+      await expect(contract.setPaused(true))
+        .to.emit(contract, "PauseToggled")
+        .withArgs(true);
+
+      await expect(simulate(contract.openBatch)).to.be.revertedWithCustomError(
+        contract,
+        "Paused",
+      );
+      await expect(
+        simulate(contract.closeBatch, 1),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(
+        simulateSubmit(signers.owner, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+
+      await contract.setPaused(false);
+      await expect(submit(signers.owner, 1, 10, 5)).to.emit(
+        contract,
+        "SharesSubmitted",
+      );
+    });
+
+    it("only lets the owner pause", async function () {
+      await expect(
+        simulate(contract.connect(signers.alice).setPaused, true),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("enforces the submission cooldown per provider", async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.openBatch();
+
+      await submit(signers.owner, 1, 10, 5);
+      await expect(
+        simulateSubmit(signers.owner, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+      // Another provider is not affected by the owner's cooldown
+      await expect(submit(signers.alice, 1, 10, 5)).to.emit(
+        contract,
+        "SharesSubmitted",
+      );
+
+      await time.increase(60);
+      await expect(submit(signers.owner, 1, 10, 5)).to.emit(
+        contract,
+        "SharesSubmitted",
+      );
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      await contract.openBatch();
+      await contract.closeBatch(1);
+      await contract.openBatch();
+      await contract.closeBatch(2);
+
+      await contract.requestBatchDecryption(1);
+      await expect(
+        simulate(contract.requestBatchDecryption, 2),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(60);
+      await expect(contract.requestBatchDecryption(2)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+    });
+
+    it("applies updated cooldown settings", async function () {
+      await expect(contract.setCooldownSeconds(0))
+        .to.emit(contract, "CooldownSecondsUpdated")
+        .withArgs(60, 0);
+      await contract.openBatch();
+      await submit(signers.owner, 1, 10, 5);
+      await expect(submit(signers.owner, 1, 10, 5)).to.emit(
+        contract,
+        "SharesSubmitted",
+      );
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens batches with increasing ids", async function () {
+      await expect(contract.openBatch())
+        .to.emit(contract, "BatchOpened")
+        .withArgs(1);
+      await expect(contract.openBatch())
+        .to.emit(contract, "BatchOpened")
+        .withArgs(2);
+      expect(await contract.currentBatchId()).to.eq(2);
+      expect((await contract.batches(2)).isOpen).to.eq(true);
+    });
+
+    it("rejects closing unknown or already closed batches", async function () {
+      await expect(
+        simulate(contract.closeBatch, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(
+        simulate(contract.closeBatch, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await contract.openBatch();
+      await expect(contract.closeBatch(1)).to.emit(contract, "BatchClosed");
+      expect((await contract.batches(1)).isOpen).to.eq(false);
+      await expect(
+        simulate(contract.closeBatch, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("rejects submissions to unknown or closed batches", async function () {
+      await expect(
+        simulateSubmit(signers.owner, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await contract.openBatch();
+      await contract.closeBatch(1);
+      await expect(
+        simulateSubmit(signers.owner, 1, 10, 5),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("only decrypts closed batches", async function () {
+      await expect(
+        simulate(contract.requestBatchDecryption, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await contract.openBatch();
+      await expect(
+        simulate(contract.requestBatchDecryption, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+
+  describe("encrypted aggregates", function () {
+    beforeEach(async function () {
+      await contract.addProvider(signers.alice.address);
+      await contract.addProvider(signers.bob.address);
+      await contract.openBatch();
+    });
+
+    it("starts from encrypted zero totals", async function () {
+      const batch = await contract.batches(1);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          batch.totalEncryptedShares,
+        ),
+      ).to.eq(0);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          batch.totalEncryptedValue,
+        ),
+      ).to.eq(0);
+    });
+
+    it("sums shares and shares * value per share across providers", async function () {
+      await submit(signers.alice, 1, 100, 25);
+      await submit(signers.bob, 1, 40, 70);
+
+      const batch = await contract.batches(1);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          batch.totalEncryptedShares,
+        ),
+      ).to.eq(140);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          batch.totalEncryptedValue,
+        ),
+      ).to.eq(100 * 25 + 40 * 70);
+    });
+
+    it("does not wrap the value total at 2^32", async function () {
+      await submit(signers.alice, 1, 100_000, 100_000);
+
+      const batch = await contract.batches(1);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          batch.totalEncryptedValue,
+        ),
+      ).to.eq(10_000_000_000n);
+    });
+
+    it("lets a provider decrypt its own submission", async function () {
+      await submit(signers.alice, 1, 100, 25);
+
+      const submission = await contract.batchShares(1, signers.alice.address);
+      const shares = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        submission.encryptedShares,
+        contractAddress,
+        signers.alice,
+      );
+      expect(shares).to.eq(100);
+    });
+  });
+
+  describe("decryption callback", function () {
+    async function closeAndRequest() {
+      await contract.addProvider(signers.alice.address);
+      await contract.openBatch();
+      await submit(signers.alice, 1, 100, 25);
+      await submit(signers.owner, 1, 50, 30);
+      await contract.closeBatch(1);
+
+      const tx = await contract.requestBatchDecryption(1);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested")!;
+      return {
+        requestId: event.args.requestId as bigint,
+        stateHash: event.args.stateHash as string,
+      };
+    }
+
+    it("records the hash of the requested ciphertexts", async function () {
+      const { requestId, stateHash } = await closeAndRequest();
+
+      const batch = await contract.batches(1);
+      const expected = ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["bytes32[]", "address"],
+          [
+            [batch.totalEncryptedShares, batch.totalEncryptedValue],
+            contractAddress,
+          ],
+        ),
+      );
+      expect(stateHash).to.eq(expected);
+
+      const context = await contract.decryptionContexts(requestId);
+      expect(context.batchId).to.eq(1);
+      expect(context.stateHash).to.eq(expected);
+      expect(context.processed).to.eq(false);
+    });
+
+    it("publishes the decrypted totals through the oracle", async function () {
+      const { requestId } = await closeAndRequest();
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await contract.queryFilter(
+        contract.filters.DecryptionCompleted(requestId),
+      );
+      expect(event.args.batchId).to.eq(1);
+      expect(event.args.totalShares).to.eq(150);
+      expect(event.args.totalValue).to.eq(100 * 25 + 50 * 30);
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+        true,
+      );
+    });
+
+    it("rejects replaying a processed callback", async function () {
+      const { requestId } = await closeAndRequest();
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint64"],
+        [150, 4000],
+      );
+      await expect(
+        simulate(contract.myCallback, requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayAttempt");
+    });
+
+    it("rejects cleartexts without valid KMS signatures", async function () {
+      const { requestId } = await closeAndRequest();
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint64"],
+        [1, 1],
+      );
+      await expect(simulate(contract.myCallback, requestId, forged, "0x")).to.be
+        .reverted;
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(
+        false,
+      );
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint64"],
+        [1, 1],
+      );
+      await expect(
+        simulate(contract.myCallback, 42, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+});
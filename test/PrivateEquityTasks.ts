@@ -0,0 +1,215 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import hre, { ethers, fhevm } from "hardhat";
+import {
+  MANIFEST_DIR,
+  MANIFEST_VERSION,
+  manifestPath,
+  writeManifest,
+} from "../deploy/manifest";
+import { PrivateEquityFHE } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+/** Runs a task and returns the lines it printed. */
+async function runTask(
+  name: string,
+  args: Record<string, unknown> = {},
+): Promise<string[]> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...parts: unknown[]) => lines.push(parts.join(" "));
+  try {
+    await hre.run(name, args);
+  } finally {
+    console.log = log;
+  }
+  return lines;
+}
+
+describe("PrivateEquityTasks", function () {
+  let signers: Signers;
+  let contract: PrivateEquityFHE;
+  let address: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { owner: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        "This hardhat test suite can only run in the fhevm mock environment",
+      );
+      this.skip();
+    }
+    contract = (await ethers.deployContract(
+      "PrivateEquityFHE",
+    )) as unknown as PrivateEquityFHE;
+    address = await contract.getAddress();
+  });
+
+  describe("administration", function () {
+    it("adds and removes providers", async function () {
+      const provider = signers.alice.address;
+      const added = await runTask("pe:provider:add", { address, provider });
+      expect(added[0]).to.match(/^Transaction 0x[0-9a-f]{64} mined in block/);
+      expect(added.slice(1)).to.deep.eq([`  Provider ${provider} added`]);
+      expect(await contract.isProvider(provider)).to.eq(true);
+
+      const removed = await runTask("pe:provider:remove", {
+        address,
+        provider,
+      });
+      expect(removed.slice(1)).to.deep.eq([`  Provider ${provider} removed`]);
+      expect(await contract.isProvider(provider)).to.eq(false);
+    });
+
+    it("pauses and unpauses", async function () {
+      expect((await runTask("pe:pause", { address })).slice(1)).to.deep.eq([
+        "  Contract paused",
+      ]);
+      expect(await contract.paused()).to.eq(true);
+      expect((await runTask("pe:unpause", { address })).slice(1)).to.deep.eq([
+        "  Contract unpaused",
+      ]);
+      expect(await contract.paused()).to.eq(false);
+    });
+
+    it("sets the cooldown, which cannot be negative", async function () {
+      const before = await contract.cooldownSeconds();
+      const lines = await runTask("pe:cooldown:set", { address, seconds: 90 });
+      expect(lines.slice(1)).to.deep.eq([
+        `  Cooldown changed from ${before}s to 90s`,
+      ]);
+      expect(await contract.cooldownSeconds()).to.eq(90n);
+
+      await expect(
+        runTask("pe:cooldown:set", { address, seconds: -1 }),
+      ).to.be.rejectedWith("--seconds cannot be negative");
+    });
+
+    it("sends from --from", async function () {
+      await expect(
+        runTask("pe:pause", { address, from: signers.alice.address }),
+      ).to.be.rejectedWith("NotOwner");
+      expect(await contract.paused()).to.eq(false);
+    });
+  });
+
+  describe("batches", function () {
+    it("opens, fills, closes and decrypts the current batch", async function () {
+      await contract.addProvider(signers.alice.address);
+
+      expect((await runTask("pe:batch:open", { address })).slice(1)).to.deep.eq(
+        ["  Batch #1 opened"],
+      );
+      const submitted = await runTask("pe:batch:submit", {
+        address,
+        from: signers.alice.address,
+        shares: 100,
+        price: 25,
+      });
+      expect(submitted[1]).to.match(
+        new RegExp(
+          `^  Provider ${signers.alice.address} submitted to batch #1 `,
+        ),
+      );
+      await runTask("pe:batch:submit", { address, shares: 50, price: 30 });
+
+      const closed = await runTask("pe:batch:close", { address });
+      expect(closed[1]).to.match(/^  Batch #1 closed /);
+      expect((await contract.batches(1)).isOpen).to.eq(false);
+
+      const decrypted = await runTask("pe:batch:decrypt", {
+        address,
+        timeout: 60,
+      });
+      expect(decrypted[1]).to.match(
+        /^  Decryption of batch #1 requested as request \d+ /,
+      );
+      expect(decrypted[2]).to.eq(
+        "Waiting up to 60s for the decryption oracle...",
+      );
+      expect(decrypted[3]).to.match(
+        /^Batch #1 decrypted by request \d+: 150 shares worth 4000 in total$/,
+      );
+    });
+
+    it("targets --batch instead of the current batch", async function () {
+      await contract.openBatch();
+      await contract.openBatch();
+
+      const closed = await runTask("pe:batch:close", { address, batch: 1 });
+      expect(closed[1]).to.match(/^  Batch #1 closed /);
+      expect((await contract.batches(1)).isOpen).to.eq(false);
+      expect((await contract.batches(2)).isOpen).to.eq(true);
+    });
+
+    it("only submits amounts that fit in a uint32", async function () {
+      await contract.openBatch();
+      for (const shares of [-1, 2 ** 32]) {
+        await expect(
+          runTask("pe:batch:submit", { address, shares, price: 1 }),
+        ).to.be.rejectedWith("--shares must be a whole number from 0 to");
+      }
+      await expect(
+        runTask("pe:batch:submit", { address, shares: 1, price: 2 ** 32 }),
+      ).to.be.rejectedWith("--price must be a whole number from 0 to");
+    });
+  });
+
+  describe("--address", function () {
+    const file = manifestPath(hre.network.name);
+    let saved: string | undefined;
+    let createdDir: boolean;
+
+    beforeEach(function () {
+      createdDir = !fs.existsSync(MANIFEST_DIR);
+      saved = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+      fs.rmSync(file, { force: true });
+    });
+
+    afterEach(function () {
+      if (saved !== undefined) fs.writeFileSync(file, saved);
+      else fs.rmSync(file, { force: true });
+      if (createdDir) fs.rmSync(MANIFEST_DIR, { recursive: true, force: true });
+    });
+
+    it("defaults to the latest deployment in the manifest", async function () {
+      await expect(runTask("pe:pause")).to.be.rejectedWith(
+        "No PrivateEquityFHE deployment is recorded for network hardhat; pass --address",
+      );
+
+      const deployed = contract.deploymentTransaction()!;
+      writeManifest({
+        version: MANIFEST_VERSION,
+        network: hre.network.name,
+        chainId: 31337,
+        contracts: [
+          {
+            name: "PrivateEquityFHE",
+            deployer: signers.owner.address,
+            address,
+            transactionHash: deployed.hash,
+            blockNumber: deployed.blockNumber ?? 0,
+            abiHash: "0x",
+            gitCommit: null,
+            deployedAt: new Date().toISOString(),
+            constructorArguments: [],
+          },
+        ],
+        pending: [],
+        failures: [],
+      });
+
+      await runTask("pe:pause");
+      expect(await contract.paused()).to.eq(true);
+    });
+  });
+});
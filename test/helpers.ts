@@ -0,0 +1,13 @@
+// Shared helpers for the contract tests.
+
+/**
+ * Runs `method` as an eth_call, for asserting that it reverts. The fhevm
+ * plugin fails its own assertion when a sent transaction reverts on the
+ * in-process network, before chai gets to check the revert reason.
+ */
+export function simulate<A extends unknown[], R>(
+  method: { staticCall(...args: A): Promise<R> },
+  ...args: A
+): Promise<R> {
+  return method.staticCall(...args);
+}